@@ -1,4 +1,4 @@
-#!/usr/bin/env node
+#!/usr/bin/env node
 /**
  * Copy GrimSwap circuit files to your project's public directory.
  *
@@ -25,6 +25,33 @@ const files = [
     src: path.join(pkgRoot, "build/privateSwap.zkey"),
     dest: "privateSwap.zkey",
   },
+  // privateSwapV2 (swap-bound proofs)
+  {
+    src: path.join(pkgRoot, "build/privateSwapV2_js/privateSwapV2.wasm"),
+    dest: "privateSwapV2.wasm",
+  },
+  {
+    src: path.join(pkgRoot, "build/privateSwapV2.zkey"),
+    dest: "privateSwapV2.zkey",
+  },
+  // privateSwapSplit (partial spends with change notes)
+  {
+    src: path.join(pkgRoot, "build/privateSwapSplit_js/privateSwapSplit.wasm"),
+    dest: "privateSwapSplit.wasm",
+  },
+  {
+    src: path.join(pkgRoot, "build/privateSwapSplit.zkey"),
+    dest: "privateSwapSplit.zkey",
+  },
+  // privateSwapAssociation (association set proofs)
+  {
+    src: path.join(pkgRoot, "build/privateSwapAssociation_js/privateSwapAssociation.wasm"),
+    dest: "privateSwapAssociation.wasm",
+  },
+  {
+    src: path.join(pkgRoot, "build/privateSwapAssociation.zkey"),
+    dest: "privateSwapAssociation.zkey",
+  },
 ];
 
 // Create output directory
@@ -37,6 +64,7 @@ for (const file of files) {
   const destPath = path.join(absOutput, file.dest);
 
   if (!fs.existsSync(file.src)) {
+    if (file.optional) continue;
     console.error(`  SKIP ${file.dest} (source not found: ${file.src})`);
     continue;
   }
@@ -0,0 +1,19 @@
+pragma circom 2.1.6;
+
+// PrivateSwap, Commitment and NullifierHash templates
+include "./privateSwapCore.circom";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Instantiate with 10 levels (1024 deposits): fast proofs for tests and
+// local development, registered as the "privateSwap10" circuit variant
+component main {public [
+    merkleRoot,
+    nullifierHash,
+    recipient,
+    relayer,
+    relayerFee,
+    swapAmountOut
+]} = PrivateSwap(10);
@@ -0,0 +1,93 @@
+pragma circom 2.1.6;
+
+include "./privateSwapCore.circom";
+
+/**
+ * PrivateSwapAssociation - PrivateSwap with an association-set check
+ *
+ * Same statement as PrivateSwap, plus a second Merkle membership proof:
+ * the note commitment is also a leaf of the association set, a tree of
+ * approved deposits published as associationRoot. The proof shows the
+ * deposit is one of the approved ones without revealing which.
+ *
+ * @param levels - Height of the deposit tree and of the association set tree
+ */
+template PrivateSwapAssociation(levels) {
+    // ═══════════════════════════════════════════════════════════════════
+    // PUBLIC INPUTS (visible on-chain, part of the proof)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal input merkleRoot;        // Current Merkle root of the deposit pool
+    signal input nullifierHash;     // Hash of nullifier (stored on-chain to prevent reuse)
+    signal input recipient;         // Stealth address to receive swap output
+    signal input relayer;           // Relayer address (or 0 if self-relay)
+    signal input relayerFee;        // Fee for relayer (in basis points or wei)
+    signal input swapAmountOut;     // Expected output amount from swap
+    signal input associationRoot;   // Merkle root of the approved deposits
+
+    // ═══════════════════════════════════════════════════════════════════
+    // PRIVATE INPUTS (hidden, only prover knows)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal input secret;                            // Random 256-bit secret (user keeps safe)
+    signal input nullifier;                         // Random 256-bit nullifier (user keeps safe)
+    signal input depositAmount;                     // Amount deposited (for amount-specific pools)
+    signal input pathElements[levels];              // Merkle proof: sibling hashes
+    signal input pathIndices[levels];               // Merkle proof: path directions (0=left, 1=right)
+    signal input associationPathElements[levels];   // Association set proof: sibling hashes
+    signal input associationPathIndices[levels];    // Association set proof: path directions
+
+    // ═══════════════════════════════════════════════════════════════════
+    // PRIVATE SWAP (commitment, Merkle tree, nullifier, recipient, fee)
+    // ═══════════════════════════════════════════════════════════════════
+
+    component privateSwap = PrivateSwap(levels);
+    privateSwap.merkleRoot <== merkleRoot;
+    privateSwap.nullifierHash <== nullifierHash;
+    privateSwap.recipient <== recipient;
+    privateSwap.relayer <== relayer;
+    privateSwap.relayerFee <== relayerFee;
+    privateSwap.swapAmountOut <== swapAmountOut;
+    privateSwap.secret <== secret;
+    privateSwap.nullifier <== nullifier;
+    privateSwap.depositAmount <== depositAmount;
+    for (var i = 0; i < levels; i++) {
+        privateSwap.pathElements[i] <== pathElements[i];
+        privateSwap.pathIndices[i] <== pathIndices[i];
+    }
+
+    // ═══════════════════════════════════════════════════════════════════
+    // ASSOCIATION SET VERIFICATION
+    // ═══════════════════════════════════════════════════════════════════
+
+    // Verify that the same commitment is in the association set
+    component associationChecker = MerkleTreeChecker(levels);
+    associationChecker.leaf <== privateSwap.computedCommitment;
+    associationChecker.root <== associationRoot;
+    for (var i = 0; i < levels; i++) {
+        associationChecker.pathElements[i] <== associationPathElements[i];
+        associationChecker.pathIndices[i] <== associationPathIndices[i];
+    }
+
+    // ═══════════════════════════════════════════════════════════════════
+    // OUTPUT SIGNALS (for logging/debugging, not constraints)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal output computedCommitment <== privateSwap.computedCommitment;
+    signal output computedNullifierHash <== privateSwap.computedNullifierHash;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Instantiate with 20 levels (supports ~1 million deposits)
+component main {public [
+    merkleRoot,
+    nullifierHash,
+    recipient,
+    relayer,
+    relayerFee,
+    swapAmountOut,
+    associationRoot
+]} = PrivateSwapAssociation(20);
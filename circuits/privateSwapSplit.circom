@@ -0,0 +1,106 @@
+pragma circom 2.1.6;
+
+include "./privateSwapCore.circom";
+
+/**
+ * PrivateSwapSplit - Spend part of a note, keep the rest as a change note
+ *
+ * Same statement as PrivateSwap, where swapAmountOut is the spent amount
+ * and may be less than depositAmount. The remainder goes into a new note
+ * whose commitment is public: the pool appends it to the deposit tree
+ * when the swap executes.
+ *
+ * changeCommitment = Poseidon(changeNullifier, changeSecret, depositAmount - swapAmountOut)
+ *
+ * @param levels - Merkle tree height (20 = 2^20 = ~1M deposits)
+ */
+template PrivateSwapSplit(levels) {
+    // ═══════════════════════════════════════════════════════════════════
+    // PUBLIC INPUTS (visible on-chain, part of the proof)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal input merkleRoot;        // Current Merkle root of the deposit pool
+    signal input nullifierHash;     // Hash of nullifier (stored on-chain to prevent reuse)
+    signal input recipient;         // Stealth address to receive swap output
+    signal input relayer;           // Relayer address (or 0 if self-relay)
+    signal input relayerFee;        // Fee for relayer (in basis points or wei)
+    signal input swapAmountOut;     // Amount spent from the note
+    signal input changeCommitment;  // Commitment of the change note
+
+    // ═══════════════════════════════════════════════════════════════════
+    // PRIVATE INPUTS (hidden, only prover knows)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal input secret;                    // Random 256-bit secret (user keeps safe)
+    signal input nullifier;                 // Random 256-bit nullifier (user keeps safe)
+    signal input depositAmount;             // Amount deposited (for amount-specific pools)
+    signal input pathElements[levels];      // Merkle proof: sibling hashes
+    signal input pathIndices[levels];       // Merkle proof: path directions (0=left, 1=right)
+    signal input changeSecret;              // Secret of the change note
+    signal input changeNullifier;           // Nullifier of the change note
+
+    // ═══════════════════════════════════════════════════════════════════
+    // PRIVATE SWAP (commitment, Merkle tree, nullifier, recipient, fee)
+    // ═══════════════════════════════════════════════════════════════════
+
+    component privateSwap = PrivateSwap(levels);
+    privateSwap.merkleRoot <== merkleRoot;
+    privateSwap.nullifierHash <== nullifierHash;
+    privateSwap.recipient <== recipient;
+    privateSwap.relayer <== relayer;
+    privateSwap.relayerFee <== relayerFee;
+    privateSwap.swapAmountOut <== swapAmountOut;
+    privateSwap.secret <== secret;
+    privateSwap.nullifier <== nullifier;
+    privateSwap.depositAmount <== depositAmount;
+    for (var i = 0; i < levels; i++) {
+        privateSwap.pathElements[i] <== pathElements[i];
+        privateSwap.pathIndices[i] <== pathIndices[i];
+    }
+
+    // ═══════════════════════════════════════════════════════════════════
+    // AMOUNT SPLIT
+    // ═══════════════════════════════════════════════════════════════════
+
+    // Both parts must fit in 248 bits: a spend larger than the deposit
+    // would wrap the change amount around the field
+    signal changeAmount <== depositAmount - swapAmountOut;
+
+    component spendRange = Num2Bits(248);
+    spendRange.in <== swapAmountOut;
+
+    component changeRange = Num2Bits(248);
+    changeRange.in <== changeAmount;
+
+    // ═══════════════════════════════════════════════════════════════════
+    // CHANGE NOTE
+    // ═══════════════════════════════════════════════════════════════════
+
+    component changeHasher = Poseidon(3);
+    changeHasher.inputs[0] <== changeNullifier;
+    changeHasher.inputs[1] <== changeSecret;
+    changeHasher.inputs[2] <== changeAmount;
+    changeCommitment === changeHasher.out;
+
+    // ═══════════════════════════════════════════════════════════════════
+    // OUTPUT SIGNALS (for logging/debugging, not constraints)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal output computedCommitment <== privateSwap.computedCommitment;
+    signal output computedNullifierHash <== privateSwap.computedNullifierHash;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Instantiate with 20 levels (supports ~1 million deposits)
+component main {public [
+    merkleRoot,
+    nullifierHash,
+    recipient,
+    relayer,
+    relayerFee,
+    swapAmountOut,
+    changeCommitment
+]} = PrivateSwapSplit(20);
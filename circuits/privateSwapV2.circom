@@ -0,0 +1,90 @@
+pragma circom 2.1.6;
+
+include "./privateSwapCore.circom";
+
+/**
+ * PrivateSwapV2 - PrivateSwap bound to the swap it pays for
+ *
+ * Same statement as PrivateSwap, with two more public inputs so the
+ * relayer cannot change the swap after the proof is made:
+ * - swapParamsHash: keccak256(abi.encode(poolKey, swapParams)) mod p,
+ *   recomputed by the router from the call it executes
+ * - deadline: unix time after which the router rejects the proof
+ *
+ * @param levels - Merkle tree height (20 = 2^20 = ~1M deposits)
+ */
+template PrivateSwapV2(levels) {
+    // ═══════════════════════════════════════════════════════════════════
+    // PUBLIC INPUTS (visible on-chain, part of the proof)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal input merkleRoot;        // Current Merkle root of the deposit pool
+    signal input nullifierHash;     // Hash of nullifier (stored on-chain to prevent reuse)
+    signal input recipient;         // Stealth address to receive swap output
+    signal input relayer;           // Relayer address (or 0 if self-relay)
+    signal input relayerFee;        // Fee for relayer (in basis points or wei)
+    signal input swapAmountOut;     // Expected output amount from swap
+    signal input swapParamsHash;    // Hash of the pool key and swap parameters
+    signal input deadline;          // Unix time the proof expires
+
+    // ═══════════════════════════════════════════════════════════════════
+    // PRIVATE INPUTS (hidden, only prover knows)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal input secret;                    // Random 256-bit secret (user keeps safe)
+    signal input nullifier;                 // Random 256-bit nullifier (user keeps safe)
+    signal input depositAmount;             // Amount deposited (for amount-specific pools)
+    signal input pathElements[levels];      // Merkle proof: sibling hashes
+    signal input pathIndices[levels];       // Merkle proof: path directions (0=left, 1=right)
+
+    // ═══════════════════════════════════════════════════════════════════
+    // PRIVATE SWAP (commitment, Merkle tree, nullifier, recipient, fee)
+    // ═══════════════════════════════════════════════════════════════════
+
+    component privateSwap = PrivateSwap(levels);
+    privateSwap.merkleRoot <== merkleRoot;
+    privateSwap.nullifierHash <== nullifierHash;
+    privateSwap.recipient <== recipient;
+    privateSwap.relayer <== relayer;
+    privateSwap.relayerFee <== relayerFee;
+    privateSwap.swapAmountOut <== swapAmountOut;
+    privateSwap.secret <== secret;
+    privateSwap.nullifier <== nullifier;
+    privateSwap.depositAmount <== depositAmount;
+    for (var i = 0; i < levels; i++) {
+        privateSwap.pathElements[i] <== pathElements[i];
+        privateSwap.pathIndices[i] <== pathIndices[i];
+    }
+
+    // ═══════════════════════════════════════════════════════════════════
+    // SWAP BINDING
+    // ═══════════════════════════════════════════════════════════════════
+
+    // The router checks both values; the circuit only has to bind them to
+    // the proof. Quadratic constraints keep them from being optimized out.
+    signal swapParamsHashSquare <== swapParamsHash * swapParamsHash;
+    signal deadlineSquare <== deadline * deadline;
+
+    // ═══════════════════════════════════════════════════════════════════
+    // OUTPUT SIGNALS (for logging/debugging, not constraints)
+    // ═══════════════════════════════════════════════════════════════════
+
+    signal output computedCommitment <== privateSwap.computedCommitment;
+    signal output computedNullifierHash <== privateSwap.computedNullifierHash;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Instantiate with 20 levels (supports ~1 million deposits)
+component main {public [
+    merkleRoot,
+    nullifierHash,
+    recipient,
+    relayer,
+    relayerFee,
+    swapAmountOut,
+    swapParamsHash,
+    deadline
+]} = PrivateSwapV2(20);
@@ -2,10 +2,12 @@
 
 # GrimSwap Circuit Compilation Script
 # Compiles Circom circuits to R1CS, WASM, and C++
+#
+# Usage: ./scripts/compile.sh [circuit]   (default: privateSwap; privateSwapV2, privateSwapSplit, privateSwapAssociation, privateSwap10)
 
 set -e
 
-CIRCUIT_NAME="privateSwap"
+CIRCUIT_NAME="${1:-privateSwap}"
 CIRCUIT_PATH="circuits/${CIRCUIT_NAME}.circom"
 BUILD_DIR="build"
 
@@ -64,5 +66,5 @@ echo "  - ${BUILD_DIR}/${CIRCUIT_NAME}.r1cs          (constraint system)"
 echo "  - ${BUILD_DIR}/${CIRCUIT_NAME}_js/           (WASM + JS)"
 echo "  - ${BUILD_DIR}/${CIRCUIT_NAME}.sym           (symbols)"
 echo ""
-echo "Next step: Run './scripts/setup.sh' for trusted setup"
+echo "Next step: Run './scripts/setup.sh ${CIRCUIT_NAME}' for trusted setup"
 echo ""
@@ -2,10 +2,18 @@
 
 # GrimSwap Solidity Verifier Generator
 # Exports Groth16 verifier contract from proving key
+#
+# Usage: ./scripts/generateVerifier.sh [circuit]   (default: privateSwap; privateSwapV2, privateSwapSplit, privateSwapAssociation, privateSwap10)
 
 set -e
 
-CIRCUIT_NAME="privateSwap"
+CIRCUIT_NAME="${1:-privateSwap}"
+# privateSwap keeps the Groth16Verifier name; other circuits get their own
+if [ "${CIRCUIT_NAME}" = "privateSwap" ]; then
+    VERIFIER_NAME="Groth16Verifier"
+else
+    VERIFIER_NAME="${CIRCUIT_NAME^}Verifier"
+fi
 BUILD_DIR="build"
 CONTRACTS_DIR="../grimswap-contracts/src/zk"
 
@@ -29,13 +37,15 @@ echo ""
 # Export Solidity verifier
 snarkjs zkey export solidityverifier \
     ${BUILD_DIR}/${CIRCUIT_NAME}.zkey \
-    ${BUILD_DIR}/Groth16Verifier.sol
+    ${BUILD_DIR}/${VERIFIER_NAME}.sol
+sed -i.bak "s/contract Groth16Verifier/contract ${VERIFIER_NAME}/" ${BUILD_DIR}/${VERIFIER_NAME}.sol
+rm -f ${BUILD_DIR}/${VERIFIER_NAME}.sol.bak
 
 echo "[2/2] Copying to contracts directory..."
 echo ""
 
 # Copy to contracts directory
-cp ${BUILD_DIR}/Groth16Verifier.sol ${CONTRACTS_DIR}/Groth16Verifier.sol
+cp ${BUILD_DIR}/${VERIFIER_NAME}.sol ${CONTRACTS_DIR}/${VERIFIER_NAME}.sol
 
 # Also generate calldata helper
 snarkjs zkey export soliditycalldata \
@@ -47,8 +57,8 @@ echo "  Verifier Generation Complete!"
 echo "================================================"
 echo ""
 echo "Generated files:"
-echo "  - ${BUILD_DIR}/Groth16Verifier.sol"
-echo "  - ${CONTRACTS_DIR}/Groth16Verifier.sol"
+echo "  - ${BUILD_DIR}/${VERIFIER_NAME}.sol"
+echo "  - ${CONTRACTS_DIR}/${VERIFIER_NAME}.sol"
 echo ""
 echo "The verifier contract is ready for deployment!"
 echo ""
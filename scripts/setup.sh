@@ -2,10 +2,18 @@
 
 # GrimSwap Trusted Setup Script
 # Uses Powers of Tau ceremony for Groth16 proving/verification keys
+#
+# Usage: ./scripts/setup.sh [circuit]   (default: privateSwap; privateSwapV2, privateSwapSplit, privateSwapAssociation, privateSwap10)
 
 set -e
 
-CIRCUIT_NAME="privateSwap"
+CIRCUIT_NAME="${1:-privateSwap}"
+# privateSwap keeps its original verification_key.json name
+if [ "${CIRCUIT_NAME}" = "privateSwap" ]; then
+    VKEY_FILE="verification_key.json"
+else
+    VKEY_FILE="${CIRCUIT_NAME}_verification_key.json"
+fi
 BUILD_DIR="build"
 PTAU_FILE="powersOfTau28_hez_final_15.ptau"
 PTAU_URL="https://hermez.s3-eu-west-1.amazonaws.com/powersOfTau28_hez_final_15.ptau"
@@ -73,7 +81,7 @@ echo ""
 # Export verification key (JSON format)
 snarkjs zkey export verificationkey \
     ${BUILD_DIR}/${CIRCUIT_NAME}.zkey \
-    ${BUILD_DIR}/verification_key.json
+    ${BUILD_DIR}/${VKEY_FILE}
 
 # Cleanup intermediate files
 rm -f ${BUILD_DIR}/${CIRCUIT_NAME}_0000.zkey
@@ -85,9 +93,9 @@ echo "================================================"
 echo ""
 echo "Generated files:"
 echo "  - ${BUILD_DIR}/${CIRCUIT_NAME}.zkey       (proving key)"
-echo "  - ${BUILD_DIR}/verification_key.json      (verification key)"
+echo "  - ${BUILD_DIR}/${VKEY_FILE}      (verification key)"
 echo ""
-echo "Next step: Run './scripts/generateVerifier.sh' to export Solidity verifier"
+echo "Next step: Run './scripts/generateVerifier.sh ${CIRCUIT_NAME}' to export Solidity verifier"
 echo ""
 
 # Verify the setup
@@ -0,0 +1,470 @@
+/**
+ * GrimSwap ZK SDK - Circuit Artifacts
+ *
+ * Loads a circuit variant's wasm / zkey from bytes, a file path, a URL
+ * or a cache, and checks them against the SHA-256 hashes pinned for each
+ * SDK version (or passed for custom builds) before they reach the prover. Verified files are
+ * cached on disk (Node.js) or in Cache Storage (browser).
+ */
+
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  DEFAULT_CIRCUIT_VERSION,
+  getCircuitVariant,
+  resolveCircuitArtifact,
+} from "./circuits";
+import type { CircuitVariant } from "./circuits";
+import type { ArtifactSource } from "./workerProver";
+
+/** SDK version whose artifact hashes are used by default */
+export const SDK_VERSION = "1.4.1";
+
+/** Expected SHA-256 hashes (hex) of a release's circuit artifacts */
+export interface CircuitArtifactHashes {
+  /** privateSwap.wasm */
+  wasm: string;
+  /**
+   * privateSwap.zkey (when unset, the zkey is checked through the
+   * verification key it contains instead)
+   */
+  zkey?: string;
+  /** Verification key (see hashVerificationKey), as in setup/verification_key.json */
+  verificationKey: string;
+}
+
+/**
+ * privateSwap artifact hashes per SDK version
+ *
+ * Other variants carry their hashes in the registry (CircuitVariant.hashes).
+ *
+ * The verification key is the one the on-chain Groth16Verifier was
+ * generated from; a zkey with another key yields proofs it rejects.
+ */
+export const CIRCUIT_ARTIFACT_HASHES: Record<string, CircuitArtifactHashes> = {
+  "1.4.1": {
+    wasm: "86c829813a945fddde2b2dde799f9a743811fd7250f31ca4c7a40f66f32749a2",
+    verificationKey: "88f1298f8f3f44e3ff845b904e208bbc6dea56cf46b5e64dbdadfbed966e6950",
+  },
+};
+
+/** Storage for verified artifacts, keyed by name and hash */
+export interface ArtifactCache {
+  get(key: string): Promise<Uint8Array | undefined>;
+  set(key: string, data: Uint8Array): Promise<void>;
+}
+
+/** Options for loadCircuitArtifacts */
+export interface LoadArtifactsOptions {
+  /** Circuit variant (default: DEFAULT_CIRCUIT_VERSION) */
+  circuit?: CircuitVariant | string;
+  /** Circuit WASM (default in Node.js: the variant's wasm) */
+  wasm?: ArtifactSource;
+  /** Proving key (default in Node.js: the variant's zkey) */
+  zkey?: ArtifactSource;
+  /** SDK version to check against (default: SDK_VERSION) */
+  version?: string;
+  /**
+   * Override expected hashes (custom circuit builds; required for
+   * variants other than privateSwap registered without hashes)
+   */
+  hashes?: Partial<CircuitArtifactHashes>;
+  /**
+   * Cache for verified files (default: FileArtifactCache in Node.js,
+   * BrowserArtifactCache in the browser); false to disable
+   */
+  cache?: ArtifactCache | false;
+}
+
+/** Verified circuit artifacts, ready for generateProofFromBuffers / WorkerProver */
+export interface CircuitArtifacts {
+  wasm: Uint8Array;
+  zkey: Uint8Array;
+  /** SHA-256 (hex) of each file */
+  hashes: { wasm: string; zkey: string };
+}
+
+const DEFAULT_BROWSER_CACHE = "grimswap-circuits";
+
+/**
+ * Load and verify the circuit artifacts
+ *
+ * Cached files are used when present (and checked again); otherwise the
+ * sources are read, verified and cached.
+ *
+ * @param options - Variant, sources, version / hashes and cache
+ * @returns Verified wasm and zkey bytes
+ * @throws If a file does not match the expected hash or verification key,
+ * or no hashes are pinned or passed for the variant
+ *
+ * @example
+ * ```typescript
+ * const { wasm, zkey } = await loadCircuitArtifacts({
+ *   wasm: "/circuits/privateSwap.wasm",
+ *   zkey: "/circuits/privateSwap.zkey",
+ * });
+ * const { proof, publicSignals } = await generateProofFromBuffers(
+ *   note, merkleProof, swapParams, wasm, zkey
+ * );
+ * ```
+ */
+export async function loadCircuitArtifacts(
+  options: LoadArtifactsOptions = {}
+): Promise<CircuitArtifacts> {
+  const variant = getCircuitVariant(options.circuit);
+  const version = options.version ?? SDK_VERSION;
+
+  // privateSwap's hashes are pinned per SDK version, the others' registered
+  const pinned =
+    variant.version === DEFAULT_CIRCUIT_VERSION ? CIRCUIT_ARTIFACT_HASHES[version] : variant.hashes;
+  const expected: Partial<CircuitArtifactHashes> = { ...pinned, ...options.hashes };
+  const { wasm: wasmHash, verificationKey } = expected;
+
+  if (!wasmHash || !verificationKey) {
+    throw new Error(
+      variant.version === DEFAULT_CIRCUIT_VERSION
+        ? `No circuit artifact hashes for SDK ${version}: pass hashes for custom builds`
+        : `No artifact hashes for ${variant.version}: register it with hashes, ` +
+          `or pass the wasm and verificationKey hashes of its build`
+    );
+  }
+
+  const wasmName = `${variant.version}.wasm`;
+  const zkeyName = `${variant.version}.zkey`;
+
+  const cache =
+    options.cache === false ? undefined : options.cache ?? defaultArtifactCache();
+
+  const wasm = await loadArtifact(
+    wasmName,
+    options.wasm ?? defaultArtifactPath(variant.wasm),
+    `${wasmName}-${wasmHash}`,
+    cache,
+    async (data) => checkHash(wasmName, data, wasmHash, version)
+  );
+
+  // Without a pinned zkey hash, cache by verification key and check
+  // the key embedded in the zkey
+  const zkeyHash = expected.zkey;
+  const zkey = await loadArtifact(
+    zkeyName,
+    options.zkey ?? defaultArtifactPath(variant.zkey),
+    zkeyHash
+      ? `${zkeyName}-${zkeyHash}`
+      : `${zkeyName}-vk-${verificationKey}`,
+    cache,
+    async (data) =>
+      zkeyHash
+        ? checkHash(zkeyName, data, zkeyHash, version)
+        : checkZkeyVerificationKey(zkeyName, data, verificationKey, version)
+  );
+
+  return {
+    wasm,
+    zkey,
+    hashes: { wasm: sha256Hex(wasm), zkey: sha256Hex(zkey) },
+  };
+}
+
+/**
+ * SHA-256 of a verification key's defining fields (independent of
+ * JSON formatting)
+ *
+ * @param vkey - Verification key JSON (snarkjs format)
+ * @returns Hex hash
+ */
+export function hashVerificationKey(vkey: {
+  protocol: string;
+  curve: string;
+  nPublic: number;
+  vk_alpha_1: unknown;
+  vk_beta_2: unknown;
+  vk_gamma_2: unknown;
+  vk_delta_2: unknown;
+  IC: unknown;
+}): string {
+  const fields = [
+    vkey.protocol,
+    vkey.curve,
+    vkey.nPublic,
+    vkey.vk_alpha_1,
+    vkey.vk_beta_2,
+    vkey.vk_gamma_2,
+    vkey.vk_delta_2,
+    vkey.IC,
+  ];
+  return bytesToHex(sha256(utf8ToBytes(JSON.stringify(fields))));
+}
+
+/**
+ * Read the verification key from a Groth16 zkey header (the same fields
+ * snarkjs zkey export verificationkey writes, minus vk_alphabeta_12),
+ * without building the curve
+ *
+ * @param zkey - zkey file bytes
+ * @returns Verification key JSON fields
+ */
+export function readZkeyVerificationKey(zkey: Uint8Array) {
+  const invalid = (reason: string) =>
+    new Error(`privateSwap.zkey is not a valid Groth16 proving key: ${reason}`);
+
+  const view = new DataView(zkey.buffer, zkey.byteOffset, zkey.byteLength);
+  if (zkey.length < 12 || String.fromCharCode(...zkey.subarray(0, 4)) !== "zkey") {
+    throw invalid("bad magic");
+  }
+
+  // Binary file: magic, version, section count, then (type u32, size u64, data)
+  const sections = new Map<number, number>();
+  let offset = 12;
+  for (let i = 0; i < view.getUint32(8, true); i++) {
+    if (offset + 12 > zkey.length) {
+      throw invalid("truncated");
+    }
+    const type = view.getUint32(offset, true);
+    const size = Number(view.getBigUint64(offset + 4, true));
+    if (!sections.has(type)) {
+      sections.set(type, offset + 12);
+    }
+    offset += 12 + size;
+  }
+
+  const headerAt = sections.get(1);
+  const groth16At = sections.get(2);
+  const icAt = sections.get(3);
+  if (headerAt === undefined || groth16At === undefined || icAt === undefined) {
+    throw invalid("missing header sections");
+  }
+  if (view.getUint32(headerAt, true) !== 1) {
+    throw invalid("not a Groth16 key");
+  }
+
+  let pos = groth16At;
+  const n8q = view.getUint32(pos, true);
+  const q = readLE(zkey, pos + 4, n8q);
+  pos += 4 + n8q;
+  const n8r = view.getUint32(pos, true);
+  pos += 4 + n8r;
+  const nPublic = view.getUint32(pos + 4, true);
+  pos += 12;
+
+  // Coordinates are stored in Montgomery form
+  const rInv = modInverse((1n << BigInt(n8q * 8)) % q, q);
+  const field = (at: number) => ((readLE(zkey, at, n8q) * rInv) % q).toString();
+  const g1 = (at: number) => [field(at), field(at + n8q), "1"];
+  const g2 = (at: number) => [
+    [field(at), field(at + n8q)],
+    [field(at + 2 * n8q), field(at + 3 * n8q)],
+    ["1", "0"],
+  ];
+
+  const vk_alpha_1 = g1(pos);
+  pos += 2 * n8q * 2; // alpha1, beta1
+  const vk_beta_2 = g2(pos);
+  const vk_gamma_2 = g2(pos + 4 * n8q);
+  const vk_delta_2 = g2(pos + 10 * n8q); // after gamma2 and delta1
+
+  const IC = [];
+  for (let i = 0; i <= nPublic; i++) {
+    IC.push(g1(icAt + i * 2 * n8q));
+  }
+
+  return {
+    protocol: "groth16",
+    curve: "bn128",
+    nPublic,
+    vk_alpha_1,
+    vk_beta_2,
+    vk_gamma_2,
+    vk_delta_2,
+    IC,
+  };
+}
+
+/**
+ * Artifact cache in a directory (Node.js)
+ *
+ * Default directory: $XDG_CACHE_HOME/grimswap-circuits, or
+ * ~/.cache/grimswap-circuits.
+ */
+export class FileArtifactCache implements ArtifactCache {
+  private readonly dir: string;
+
+  constructor(dir?: string) {
+    // Dynamic imports - only loaded when this Node.js class is used
+    const path = require("path") as typeof import("path");
+    const os = require("os") as typeof import("os");
+
+    this.dir =
+      dir ??
+      path.join(
+        process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache"),
+        "grimswap-circuits"
+      );
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const fs = require("fs") as typeof import("fs");
+    const file = this.filePath(key);
+    return fs.existsSync(file) ? new Uint8Array(fs.readFileSync(file)) : undefined;
+  }
+
+  async set(key: string, data: Uint8Array): Promise<void> {
+    const fs = require("fs") as typeof import("fs");
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    // Write then rename so a crash never leaves a truncated file
+    const file = this.filePath(key);
+    fs.writeFileSync(`${file}.tmp`, data);
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  private filePath(key: string): string {
+    const path = require("path") as typeof import("path");
+    return path.join(this.dir, key);
+  }
+}
+
+/**
+ * Artifact cache in browser Cache Storage (zkeys are too large for
+ * localStorage)
+ */
+export class BrowserArtifactCache implements ArtifactCache {
+  constructor(private readonly cacheName: string = DEFAULT_BROWSER_CACHE) {
+    if (!(globalThis as any).caches) {
+      throw new Error("Cache Storage is not available in this environment");
+    }
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const cache = await (globalThis as any).caches.open(this.cacheName);
+    const response = await cache.match(cacheUrl(key));
+    return response ? new Uint8Array(await response.arrayBuffer()) : undefined;
+  }
+
+  async set(key: string, data: Uint8Array): Promise<void> {
+    const cache = await (globalThis as any).caches.open(this.cacheName);
+    await cache.put(cacheUrl(key), new Response(data));
+  }
+}
+
+/**
+ * Load one artifact: from the cache if present and still valid,
+ * otherwise from its source (then cached)
+ */
+async function loadArtifact(
+  name: string,
+  source: ArtifactSource,
+  cacheKey: string,
+  cache: ArtifactCache | undefined,
+  verify: (data: Uint8Array) => Promise<void>
+): Promise<Uint8Array> {
+  const cached = await cache?.get(cacheKey);
+  if (cached) {
+    try {
+      await verify(cached);
+      return cached;
+    } catch {
+      // Corrupted cache entry: reload from the source
+    }
+  }
+
+  const data = await readArtifact(name, source);
+  await verify(data);
+  await cache?.set(cacheKey, data);
+  return data;
+}
+
+/**
+ * Bytes as-is, URLs via fetch, anything else as a file path (Node.js)
+ */
+async function readArtifact(name: string, source: ArtifactSource): Promise<Uint8Array> {
+  if (typeof source !== "string") {
+    return source instanceof Uint8Array ? source : new Uint8Array(source);
+  }
+
+  if (!isNode() || /^(https?|blob|data):/.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${name} from ${source}: ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const fs = require("fs") as typeof import("fs");
+  if (!fs.existsSync(source)) {
+    throw new Error(`${name} not found: ${source}`);
+  }
+  return new Uint8Array(fs.readFileSync(source));
+}
+
+function checkHash(name: string, data: Uint8Array, expected: string, version: string): void {
+  const actual = sha256Hex(data);
+  if (actual !== expected.toLowerCase()) {
+    throw new Error(
+      `${name} does not match SDK ${version}: expected sha256 ${expected}, got ${actual}`
+    );
+  }
+}
+
+async function checkZkeyVerificationKey(
+  name: string,
+  zkey: Uint8Array,
+  expected: string,
+  version: string
+): Promise<void> {
+  if (hashVerificationKey(readZkeyVerificationKey(zkey)) !== expected.toLowerCase()) {
+    throw new Error(
+      `${name} does not match the verification key of SDK ${version}: ` +
+      `the on-chain verifier would reject its proofs`
+    );
+  }
+}
+
+function readLE(bytes: Uint8Array, offset: number, length: number): bigint {
+  if (offset + length > bytes.length) {
+    throw new Error("privateSwap.zkey is not a valid Groth16 proving key: truncated");
+  }
+  let value = 0n;
+  for (let i = length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[offset + i]);
+  }
+  return value;
+}
+
+function modInverse(a: bigint, m: bigint): bigint {
+  let [oldR, r] = [a, m];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  return ((oldS % m) + m) % m;
+}
+
+function sha256Hex(data: Uint8Array): string {
+  return bytesToHex(sha256(data));
+}
+
+function isNode(): boolean {
+  return typeof process !== "undefined" && !!process.versions?.node;
+}
+
+function defaultArtifactCache(): ArtifactCache | undefined {
+  if (isNode()) {
+    return new FileArtifactCache();
+  }
+  return (globalThis as any).caches ? new BrowserArtifactCache() : undefined;
+}
+
+function defaultArtifactPath(location: string): string {
+  if (!isNode()) {
+    throw new Error("wasm and zkey sources are required outside Node.js");
+  }
+  return resolveCircuitArtifact(location);
+}
+
+// Cache Storage keys must be URLs
+function cacheUrl(key: string): string {
+  return `https://grimswap.invalid/circuits/${key}`;
+}
@@ -0,0 +1,138 @@
+/**
+ * GrimSwap ZK SDK - Association Sets
+ *
+ * An association set is a Merkle tree of approved deposits, built from
+ * the pool's Deposit events with allow/deny lists. privateSwapAssociation
+ * proofs show the spent note is in the set (its root is public) without
+ * revealing which deposit it is.
+ */
+
+import { loadVerificationKey } from "./circuits";
+import { MerkleTree, buildMerkleTree } from "./merkle";
+import type { MerkleTreeOptions } from "./merkle";
+import type { DepositEvent } from "./deposits";
+import { verifyProofLocally } from "./proof";
+import { decodePublicSignals } from "./publicSignals";
+import type {
+  ContractProof,
+  Groth16Proof,
+  MerkleProof,
+  VerificationKey,
+} from "./types";
+
+/**
+ * Deposits matched by an allow or deny list: a predicate, or commitments
+ * (bigint or bytes32 hex) and deposit transaction hashes
+ */
+export type DepositFilter =
+  | ((event: DepositEvent) => boolean)
+  | {
+      commitments?: Iterable<bigint | string>;
+      transactionHashes?: Iterable<string>;
+    };
+
+/** Options for buildAssociationSet */
+export interface AssociationSetOptions extends MerkleTreeOptions {
+  /** Deposits to include (default: all) */
+  allow?: DepositFilter;
+  /** Deposits to exclude; wins over allow */
+  deny?: DepositFilter;
+}
+
+/**
+ * Build an association set tree from Deposit events
+ *
+ * Approved deposits are inserted in leafIndex order, so the same events
+ * and lists always give the same root. The tree height must equal the
+ * circuit's levels (default: 20, like the deposit tree; or set
+ * options.circuit).
+ *
+ * @param events - Deposit events (see fetchDepositEvents)
+ * @param options - Allow/deny lists and tree options
+ * @returns Association set tree
+ *
+ * @example
+ * ```typescript
+ * const events = await fetchDepositEvents(rpcUrl, poolAddress);
+ * const associationSet = await buildAssociationSet(events, {
+ *   deny: { transactionHashes: flaggedDeposits },
+ * });
+ * publish(associationSet.getRoot());
+ * ```
+ */
+export async function buildAssociationSet(
+  events: DepositEvent[],
+  options: AssociationSetOptions = {}
+): Promise<MerkleTree> {
+  const { allow, deny, ...treeOptions } = options;
+  const allowed = allow ? depositMatcher(allow) : () => true;
+  const denied = deny ? depositMatcher(deny) : () => false;
+
+  const leaves = [...events]
+    .sort((a, b) => a.leafIndex - b.leafIndex)
+    .filter((event) => allowed(event) && !denied(event))
+    .map((event) => event.commitment);
+
+  return buildMerkleTree(leaves, treeOptions);
+}
+
+/**
+ * Get the association proof of a note (swapParams.association)
+ *
+ * @param associationSet - Tree from buildAssociationSet
+ * @param commitment - Note commitment
+ * @returns Merkle proof of the commitment against the current set root
+ * @throws If the deposit is not in the association set
+ */
+export function getAssociationProof(
+  associationSet: MerkleTree,
+  commitment: bigint
+): MerkleProof {
+  const leafIndex = associationSet.getLeafIndex(commitment);
+  if (leafIndex === undefined) {
+    throw new Error(`Deposit ${commitment} is not in the association set`);
+  }
+  return associationSet.getProof(leafIndex);
+}
+
+/**
+ * Verify a privateSwapAssociation proof against an association set root
+ *
+ * @param proof - Groth16 proof from snarkjs, or a ContractProof
+ * @param publicSignals - Public signals (9, privateSwapAssociation layout)
+ * @param associationRoot - Root of the association set the proof must use
+ * @param vkey - Verification key, or a JSON file path (Node.js only)
+ *   (default: the privateSwapAssociation variant's key)
+ * @returns True if the proof is valid and uses associationRoot
+ */
+export async function verifyAssociationProof(
+  proof: Groth16Proof | ContractProof,
+  publicSignals: string[] | undefined,
+  associationRoot: bigint,
+  vkey?: VerificationKey | string
+): Promise<boolean> {
+  const signals = publicSignals ?? ("pubSignals" in proof ? proof.pubSignals : undefined);
+  if (!signals) {
+    throw new Error("publicSignals are required for a snarkjs proof");
+  }
+
+  const decoded = decodePublicSignals(signals, "privateSwapAssociation");
+  if (decoded.associationRoot !== associationRoot) {
+    return false;
+  }
+  return verifyProofLocally(proof, signals, vkey ?? loadVerificationKey("privateSwapAssociation"));
+}
+
+function depositMatcher(filter: DepositFilter): (event: DepositEvent) => boolean {
+  if (typeof filter === "function") {
+    return filter;
+  }
+
+  const commitments = new Set([...(filter.commitments ?? [])].map((c) => BigInt(c)));
+  const transactionHashes = new Set(
+    [...(filter.transactionHashes ?? [])].map((hash) => hash.toLowerCase())
+  );
+  return (event) =>
+    commitments.has(event.commitment) ||
+    transactionHashes.has(event.transactionHash.toLowerCase());
+}
@@ -0,0 +1,318 @@
+/**
+ * GrimSwap ZK SDK - Circuit Variants
+ *
+ * Registry of the circuits the SDK proves with, keyed by version. Each
+ * variant has its Merkle levels, public signal layout, artifact
+ * locations and verification key; proof generation, signal decoding and
+ * MerkleTree height are taken from the chosen variant, so a new circuit
+ * build (or a small one for tests) is a registry entry.
+ */
+
+import { PRIVATE_SWAP_VERIFICATION_KEY } from "./verificationKey";
+import type { CircuitArtifactHashes } from "./artifacts";
+import type { PublicSignals, SwapParams, VerificationKey } from "./types";
+
+/** Public signal names in circuit order */
+export const PUBLIC_SIGNAL_NAMES = [
+  "computedCommitment",
+  "computedNullifierHash",
+  "merkleRoot",
+  "nullifierHash",
+  "recipient",
+  "relayer",
+  "relayerFee",
+  "swapAmountOut",
+] as const;
+
+/** privateSwapV2 public signal names in circuit order */
+export const PUBLIC_SIGNAL_NAMES_V2 = [
+  ...PUBLIC_SIGNAL_NAMES,
+  "swapParamsHash",
+  "deadline",
+] as const;
+
+/** privateSwapSplit public signal names in circuit order */
+export const PUBLIC_SIGNAL_NAMES_SPLIT = [
+  ...PUBLIC_SIGNAL_NAMES,
+  "changeCommitment",
+] as const;
+
+/** privateSwapAssociation public signal names in circuit order */
+export const PUBLIC_SIGNAL_NAMES_ASSOCIATION = [
+  ...PUBLIC_SIGNAL_NAMES,
+  "associationRoot",
+] as const;
+
+/** Circuit templates the SDK builds inputs for, one signal layout each */
+export type CircuitName =
+  | "privateSwap"
+  | "privateSwapSplit"
+  | "privateSwapV2"
+  | "privateSwapAssociation";
+
+/** A circuit build the SDK can prove with */
+export interface CircuitVariant {
+  /** Registry key (e.g. "privateSwap", "privateSwap10") */
+  version: string;
+  /** Circuit template: selects the circuit input and public signal layout */
+  circuit: CircuitName;
+  /** Merkle levels of the main component (= MerkleTree height) */
+  levels: number;
+  /** Public signal names in circuit order */
+  publicSignals: readonly (keyof PublicSignals)[];
+  /** Circuit WASM: a path relative to the package root, or a URL */
+  wasm: string;
+  /** Proving key: a path relative to the package root, or a URL */
+  zkey: string;
+  /**
+   * Verification key, or a JSON file path relative to the package root
+   * (privateSwap's key is embedded; the other 20-level variants ship
+   * theirs in build/)
+   */
+  verificationKey: VerificationKey | string;
+  /**
+   * Expected SHA-256 hashes of the artifacts, checked by
+   * loadCircuitArtifacts and when URL artifacts are downloaded for a
+   * proof (privateSwap's are in CIRCUIT_ARTIFACT_HASHES)
+   */
+  hashes?: CircuitArtifactHashes;
+}
+
+/** Public signal layout of each circuit; the base layout first */
+const SIGNAL_LAYOUTS: Record<CircuitName, readonly (keyof PublicSignals)[]> = {
+  privateSwap: PUBLIC_SIGNAL_NAMES,
+  privateSwapSplit: PUBLIC_SIGNAL_NAMES_SPLIT,
+  privateSwapV2: PUBLIC_SIGNAL_NAMES_V2,
+  privateSwapAssociation: PUBLIC_SIGNAL_NAMES_ASSOCIATION,
+};
+
+/** Variant used when none is given */
+export const DEFAULT_CIRCUIT_VERSION = "privateSwap";
+
+// Package root relative to dist/sdk (Node.js only)
+const PACKAGE_ROOT = "../..";
+
+/**
+ * Variant built by scripts/compile.sh + setup.sh from circuits/<version>.circom
+ */
+function buildVariant(
+  version: string,
+  circuit: CircuitName,
+  levels: number,
+  options: Partial<Pick<CircuitVariant, "verificationKey" | "hashes">> = {}
+): CircuitVariant {
+  return {
+    version,
+    circuit,
+    levels,
+    publicSignals: SIGNAL_LAYOUTS[circuit],
+    wasm: `build/${version}_js/${version}.wasm`,
+    zkey: `build/${version}.zkey`,
+    verificationKey: options.verificationKey ?? `build/${version}_verification_key.json`,
+    ...(options.hashes ? { hashes: options.hashes } : {}),
+  };
+}
+
+const CIRCUIT_VARIANTS = new Map<string, CircuitVariant>(
+  [
+    buildVariant("privateSwap", "privateSwap", 20, {
+      verificationKey: PRIVATE_SWAP_VERIFICATION_KEY,
+    }),
+    buildVariant("privateSwapV2", "privateSwapV2", 20, {
+      hashes: {
+        wasm: "d20fb1ed96d35c5c9568e4eab124dbb54f707203b4dbf31a3f1f7f864bbe76c9",
+        zkey: "78b40d3cf79080ae733cf9a6ce5f78537101c2270b1fc6be39114db56526e68c",
+        verificationKey: "5ae62b8559bdcba5d251279945f248efc36e0b1a4490ccae796ca6c17852aa32",
+      },
+    }),
+    buildVariant("privateSwapSplit", "privateSwapSplit", 20, {
+      hashes: {
+        wasm: "3f6888fc7e7da9bfc505af7258b7421fcbb9fface946779adf9a4abee77296b9",
+        zkey: "dccd5d3df17c7f747e227c12f795f22ee55cbba24fedc7964d98e66a30aa8161",
+        verificationKey: "4d55f5011e5ba88755e39393d90627b47cd928386f07fde0eff5af2e3ee165bf",
+      },
+    }),
+    buildVariant("privateSwapAssociation", "privateSwapAssociation", 20, {
+      hashes: {
+        wasm: "f4ece6866d30d1cb419edf1f98bd2336b8cdd7b7c35d27d2463cb309dfb19cbe",
+        zkey: "c04115a0297647bf2155ebf491fa3c94032c1dc25ced52fee043dc3d0b09d00c",
+        verificationKey: "b40bddc73686edd8bc71a8a53b770f719e0176e9382de58d3a66930dffbfc3a8",
+      },
+    }),
+    // PrivateSwap(10): fast proofs for tests and local development
+    buildVariant("privateSwap10", "privateSwap", 10),
+  ].map((variant) => [variant.version, variant])
+);
+
+/**
+ * Look up a circuit variant
+ *
+ * @param version - Registry key (default: DEFAULT_CIRCUIT_VERSION), or a variant
+ * @returns CircuitVariant
+ * @throws If no variant is registered under version
+ */
+export function getCircuitVariant(
+  version: string | CircuitVariant = DEFAULT_CIRCUIT_VERSION
+): CircuitVariant {
+  if (typeof version !== "string") {
+    return version;
+  }
+
+  const variant = CIRCUIT_VARIANTS.get(version);
+  if (!variant) {
+    throw new Error(
+      `Unknown circuit variant ${version} (registered: ${[...CIRCUIT_VARIANTS.keys()].join(", ")})`
+    );
+  }
+  return variant;
+}
+
+/**
+ * Register a circuit variant, e.g. a newer build or another tree height
+ *
+ * @param variant - Variant to add under variant.version
+ * @throws If the version is taken or the variant is inconsistent
+ *
+ * @example
+ * ```typescript
+ * registerCircuitVariant({
+ *   ...getCircuitVariant("privateSwap"),
+ *   version: "privateSwap-2025-06",
+ *   wasm: "https://cdn.example.com/privateSwap-2025-06.wasm",
+ *   zkey: "https://cdn.example.com/privateSwap-2025-06.zkey",
+ *   verificationKey: vkey,
+ *   hashes: { wasm: wasmSha256, zkey: zkeySha256, verificationKey: hashVerificationKey(vkey) },
+ * });
+ * const tree = await buildMerkleTree(commitments, { circuit: "privateSwap-2025-06" });
+ * ```
+ */
+export function registerCircuitVariant(variant: CircuitVariant): void {
+  if (CIRCUIT_VARIANTS.has(variant.version)) {
+    throw new Error(`Circuit variant ${variant.version} is already registered`);
+  }
+
+  const layout = SIGNAL_LAYOUTS[variant.circuit];
+  if (!layout) {
+    throw new Error(`Unknown circuit ${variant.circuit} (expected ${Object.keys(SIGNAL_LAYOUTS).join(", ")})`);
+  }
+  if (!Number.isInteger(variant.levels) || variant.levels < 1 || variant.levels > 32) {
+    throw new Error(`Invalid circuit levels: ${variant.levels} (expected 1-32)`);
+  }
+  if (
+    variant.publicSignals.length !== layout.length ||
+    variant.publicSignals.some((name, i) => name !== layout[i])
+  ) {
+    throw new Error(
+      `publicSignals of ${variant.version} do not match the ${variant.circuit} layout: ${layout.join(", ")}`
+    );
+  }
+
+  CIRCUIT_VARIANTS.set(variant.version, variant);
+}
+
+/**
+ * All registered circuit variants
+ */
+export function listCircuitVariants(): CircuitVariant[] {
+  return [...CIRCUIT_VARIANTS.values()];
+}
+
+/**
+ * The circuit a proof for swapParams needs: privateSwapV2 with swap,
+ * privateSwapSplit with changeNote, privateSwapAssociation with
+ * association, privateSwap otherwise
+ */
+export function circuitForSwapParams(swapParams: SwapParams): CircuitName {
+  return swapParams.swap
+    ? "privateSwapV2"
+    : swapParams.changeNote
+      ? "privateSwapSplit"
+      : swapParams.association
+        ? "privateSwapAssociation"
+        : "privateSwap";
+}
+
+/**
+ * Pick the circuit variant to prove swapParams with
+ *
+ * @param swapParams - Swap parameters
+ * @param circuit - Variant or its version (default: the built-in variant
+ *   of the circuit swapParams need), or Merkle levels: the registered
+ *   variant of that circuit with those levels, else a custom build (whose
+ *   artifacts must be passed: the result keeps the default variant's)
+ * @returns CircuitVariant
+ * @throws If the variant is for another circuit than swapParams need
+ */
+export function selectCircuitVariant(
+  swapParams: SwapParams,
+  circuit?: CircuitVariant | string | number
+): CircuitVariant {
+  const needed = circuitForSwapParams(swapParams);
+  if (circuit === undefined) {
+    return getCircuitVariant(needed);
+  }
+  if (typeof circuit === "number") {
+    const registered = listCircuitVariants().find(
+      (variant) => variant.circuit === needed && variant.levels === circuit
+    );
+    return registered ?? { ...getCircuitVariant(needed), levels: circuit };
+  }
+
+  const variant = getCircuitVariant(circuit);
+  if (variant.circuit !== needed) {
+    throw new Error(
+      `Circuit variant ${variant.version} is a ${variant.circuit} circuit but swapParams are for ${needed}`
+    );
+  }
+  return variant;
+}
+
+/**
+ * Whether an artifact location is a URL rather than a file path
+ */
+export function isCircuitArtifactUrl(location: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(location);
+}
+
+/**
+ * Resolve an artifact location of a variant (Node.js): paths relative to
+ * the package root become absolute, URLs and absolute paths are kept
+ */
+export function resolveCircuitArtifact(location: string): string {
+  if (isCircuitArtifactUrl(location)) {
+    return location;
+  }
+  const path = require("path") as typeof import("path");
+  return path.resolve(__dirname, PACKAGE_ROOT, location);
+}
+
+/**
+ * Verification key of a circuit variant (file keys are read in Node.js)
+ *
+ * The package embeds privateSwap's key and ships the keys of the other
+ * 20-level variants in build/; privateSwap10's is written by
+ * `npm run setup -- privateSwap10`.
+ *
+ * @param version - Registry key or variant (default: DEFAULT_CIRCUIT_VERSION)
+ * @returns VerificationKey
+ * @throws If the key file does not exist
+ */
+export function loadVerificationKey(
+  version: string | CircuitVariant = DEFAULT_CIRCUIT_VERSION
+): VerificationKey {
+  const variant = getCircuitVariant(version);
+  const { verificationKey } = variant;
+  if (typeof verificationKey !== "string") {
+    return verificationKey;
+  }
+
+  const fs = require("fs") as typeof import("fs");
+  const file = resolveCircuitArtifact(verificationKey);
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `Verification key of ${variant.version} not found: ${file} ` +
+      `(not shipped with the package: build the circuit with npm run setup -- ${variant.version}, or pass the key)`
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
@@ -5,21 +5,30 @@
  * The commitment is what gets stored in the Merkle tree on-chain.
  */
 
-import { buildPoseidon } from "circomlibjs";
 import { randomBytes } from "crypto";
-import type { DepositNote } from "./types";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { poseidon, FIELD_SIZE } from "./poseidon";
+import type { DepositNote, NoteMetadata } from "./types";
 
-let poseidon: any;
-let F: any;
+export { FIELD_SIZE };
+
+type Address = `0x${string}`;
+
+const ZERO_ADDRESS: Address = "0x0000000000000000000000000000000000000000";
+
+let initialized = false;
 
 /**
  * Initialize the Poseidon hasher
- * Must be called before using other functions
+ *
+ * The hasher is native TypeScript, so this only warms up the round
+ * constants; the sync functions below also work without it.
  */
 export async function initPoseidon(): Promise<void> {
-  if (!poseidon) {
-    poseidon = await buildPoseidon();
-    F = poseidon.F;
+  if (!initialized) {
+    poseidon([0n]);
+    initialized = true;
   }
 }
 
@@ -27,11 +36,6 @@ export async function initPoseidon(): Promise<void> {
  * Generate cryptographically secure random field element
  */
 function randomFieldElement(): bigint {
-  // BN254 field modulus
-  const FIELD_SIZE = BigInt(
-    "21888242871839275222246405745257275088548364400416034343698204186575808495617"
-  );
-
   // Generate 32 random bytes and reduce modulo field size
   const bytes = randomBytes(32);
   const num = BigInt("0x" + bytes.toString("hex"));
@@ -45,8 +49,31 @@ function randomFieldElement(): bigint {
  */
 export async function poseidonHash(inputs: bigint[]): Promise<bigint> {
   await initPoseidon();
-  const hash = poseidon(inputs);
-  return BigInt(F.toString(hash));
+  return poseidonHashSync(inputs);
+}
+
+/**
+ * Compute Poseidon hash synchronously
+ *
+ * @param inputs - Array of 1-3 bigints to hash
+ * @returns Hash as bigint
+ */
+export function poseidonHashSync(inputs: bigint[]): bigint {
+  return poseidon(inputs);
+}
+
+/**
+ * Compute many Poseidon hashes in one call (synchronous)
+ *
+ * @param inputs - Array of input arrays, e.g. [[left, right], ...]
+ * @returns Hashes in the same order as inputs
+ */
+export function poseidonHashBatch(inputs: bigint[][]): bigint[] {
+  const hashes = new Array<bigint>(inputs.length);
+  for (let i = 0; i < inputs.length; i++) {
+    hashes[i] = poseidon(inputs[i]);
+  }
+  return hashes;
 }
 
 /**
@@ -77,10 +104,15 @@ export async function computeNullifierHash(nullifier: bigint): Promise<bigint> {
  * Create a new deposit note
  * This generates all the secret values needed for a deposit
  *
- * @param amount - Deposit amount in wei
+ * @param amount - Deposit amount in wei (or token base units)
+ * @param metadata - Optional chain, pool and token the note is deposited to
+ *   (token defaults to ETH; set it for GrimPoolMultiToken.depositToken)
  * @returns DepositNote containing all deposit information
  */
-export async function createDepositNote(amount: bigint): Promise<DepositNote> {
+export async function createDepositNote(
+  amount: bigint,
+  metadata: NoteMetadata = {}
+): Promise<DepositNote> {
   await initPoseidon();
 
   // Generate random secret and nullifier
@@ -97,9 +129,38 @@ export async function createDepositNote(amount: bigint): Promise<DepositNote> {
     amount,
     commitment,
     nullifierHash,
+    ...withoutUndefined(metadata),
   };
 }
 
+/**
+ * Create the change note for spending part of a note (privateSwapSplit)
+ *
+ * The change note holds note.amount - spendAmount under a fresh secret and
+ * nullifier, on the same chain, pool and token. It has no leafIndex: the
+ * pool appends its commitment when the swap executes.
+ *
+ * @param note - The note being spent
+ * @param spendAmount - Amount to spend (0 < spendAmount < note.amount)
+ * @returns Change note
+ */
+export async function createChangeNote(
+  note: DepositNote,
+  spendAmount: bigint
+): Promise<DepositNote> {
+  if (spendAmount <= 0n || spendAmount >= note.amount) {
+    throw new Error(
+      `Spend amount must be between 0 and the note amount ${note.amount} (exclusive), got ${spendAmount}`
+    );
+  }
+
+  return createDepositNote(note.amount - spendAmount, {
+    chainId: note.chainId,
+    pool: note.pool,
+    token: note.token,
+  });
+}
+
 /**
  * Reconstruct a deposit note from saved data
  *
@@ -107,13 +168,15 @@ export async function createDepositNote(amount: bigint): Promise<DepositNote> {
  * @param nullifier - The nullifier value
  * @param amount - The deposit amount
  * @param leafIndex - Optional leaf index in Merkle tree
+ * @param metadata - Optional chain, pool and token of the deposit
  * @returns Reconstructed DepositNote
  */
 export async function reconstructDepositNote(
   secret: bigint,
   nullifier: bigint,
   amount: bigint,
-  leafIndex?: number
+  leafIndex?: number,
+  metadata: NoteMetadata = {}
 ): Promise<DepositNote> {
   const commitment = await computeCommitment(nullifier, secret, amount);
   const nullifierHash = await computeNullifierHash(nullifier);
@@ -125,40 +188,154 @@ export async function reconstructDepositNote(
     commitment,
     nullifierHash,
     leafIndex,
+    ...withoutUndefined(metadata),
   };
 }
 
 /**
  * Serialize a deposit note to a string for storage
- * Format: grimswap-v1-<secret>-<nullifier>-<amount>
+ *
+ * v1: grimswap-v1-<secret>-<nullifier>-<amount>
+ * v2: grimswap-v2-<chainId>-<pool>-<token>-<leafIndex>-<secret>-<nullifier>-<amount>-<checksum>
+ *
+ * v2 is used when the note carries any of chainId, pool or token. Unknown
+ * fields are written as 0 / address(0) (token address(0) = ETH) and an
+ * unknown leafIndex as "x". The checksum is the first 4 bytes of sha256
+ * over everything before it.
  *
  * @param note - The deposit note
+ * @param version - Force a format version (default: 2 if metadata is set, else 1)
  * @returns Serialized note string
  */
-export function serializeNote(note: DepositNote): string {
+export function serializeNote(note: DepositNote, version?: 1 | 2): string {
   const secretHex = note.secret.toString(16).padStart(64, "0");
   const nullifierHex = note.nullifier.toString(16).padStart(64, "0");
   const amountHex = note.amount.toString(16);
-  return `grimswap-v1-${secretHex}-${nullifierHex}-${amountHex}`;
+
+  const hasMetadata =
+    note.chainId !== undefined ||
+    note.pool !== undefined ||
+    note.token !== undefined;
+
+  if (version === 1 || (version === undefined && !hasMetadata)) {
+    if (note.token && BigInt(note.token) !== 0n) {
+      throw new Error("grimswap-v1 notes cannot carry a token, use v2");
+    }
+    return `grimswap-v1-${secretHex}-${nullifierHex}-${amountHex}`;
+  }
+
+  const body = [
+    "grimswap",
+    "v2",
+    (note.chainId ?? 0).toString(10),
+    addressToHex(note.pool ?? ZERO_ADDRESS),
+    addressToHex(note.token ?? ZERO_ADDRESS),
+    note.leafIndex === undefined ? "x" : note.leafIndex.toString(16),
+    secretHex,
+    nullifierHex,
+    amountHex,
+  ].join("-");
+
+  return `${body}-${noteChecksum(body)}`;
 }
 
 /**
- * Deserialize a deposit note from string
+ * Deserialize a deposit note from string (v1 or v2)
  *
  * @param noteString - Serialized note string
  * @returns Promise<DepositNote>
+ * @throws On malformed notes, checksum mismatch, or out-of-field values
  */
 export async function deserializeNote(noteString: string): Promise<DepositNote> {
-  const parts = noteString.split("-");
-  if (parts.length !== 5 || parts[0] !== "grimswap" || parts[1] !== "v1") {
+  const parts = noteString.trim().split("-");
+  if (parts[0] !== "grimswap") {
     throw new Error("Invalid note format");
   }
 
-  const secret = BigInt("0x" + parts[2]);
-  const nullifier = BigInt("0x" + parts[3]);
-  const amount = BigInt("0x" + parts[4]);
+  if (parts[1] === "v1") {
+    if (parts.length !== 5) {
+      throw new Error("Invalid note format");
+    }
+
+    const secret = parseFieldHex(parts[2], "secret");
+    const nullifier = parseFieldHex(parts[3], "nullifier");
+    const amount = parseHex(parts[4], "amount");
+
+    return reconstructDepositNote(secret, nullifier, amount);
+  }
+
+  if (parts[1] === "v2") {
+    if (parts.length !== 10) {
+      throw new Error("Invalid note format");
+    }
+
+    const body = parts.slice(0, 9).join("-");
+    if (parts[9].toLowerCase() !== noteChecksum(body)) {
+      throw new Error("Invalid note checksum (note was mistyped or corrupted)");
+    }
+
+    if (!/^[0-9]+$/.test(parts[2])) {
+      throw new Error("Invalid note chainId");
+    }
+    const chainId = parseInt(parts[2], 10) || undefined;
+    const pool = parseAddress(parts[3], "pool");
+    const token = parseAddress(parts[4], "token");
+    const leafIndex =
+      parts[5] === "x" ? undefined : Number(parseHex(parts[5], "leafIndex"));
+    const secret = parseFieldHex(parts[6], "secret");
+    const nullifier = parseFieldHex(parts[7], "nullifier");
+    const amount = parseHex(parts[8], "amount");
+
+    return reconstructDepositNote(secret, nullifier, amount, leafIndex, {
+      chainId,
+      pool: pool === ZERO_ADDRESS ? undefined : pool,
+      token,
+    });
+  }
+
+  throw new Error(`Unsupported note version: ${parts[1]}`);
+}
+
+function withoutUndefined(metadata: NoteMetadata): NoteMetadata {
+  const result: NoteMetadata = {};
+  if (metadata.chainId !== undefined) result.chainId = metadata.chainId;
+  if (metadata.pool !== undefined) result.pool = metadata.pool;
+  if (metadata.token !== undefined) result.token = metadata.token;
+  return result;
+}
+
+function noteChecksum(body: string): string {
+  return bytesToHex(sha256(utf8ToBytes(body))).slice(0, 8);
+}
+
+function addressToHex(address: string): string {
+  const hex = address.toLowerCase().replace(/^0x/, "");
+  if (!/^[0-9a-f]{40}$/.test(hex)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+  return hex;
+}
 
-  return reconstructDepositNote(secret, nullifier, amount);
+function parseAddress(hex: string, field: string): Address {
+  if (!/^[0-9a-fA-F]{40}$/.test(hex)) {
+    throw new Error(`Invalid note ${field}`);
+  }
+  return `0x${hex.toLowerCase()}`;
+}
+
+function parseHex(hex: string, field: string): bigint {
+  if (!/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new Error(`Invalid note ${field}`);
+  }
+  return BigInt("0x" + hex);
+}
+
+function parseFieldHex(hex: string, field: string): bigint {
+  const value = parseHex(hex, field);
+  if (value >= FIELD_SIZE) {
+    throw new Error(`Invalid note ${field}: not a BN254 field element`);
+  }
+  return value;
 }
 
 /**
@@ -21,12 +21,32 @@ export interface GrimAddresses {
   usdc: Address;
 }
 
+// ============ Merkle Tree Parameters ============
+
+export interface MerkleTreeConfig {
+  height: number;          // Must equal the deployed circuit's `levels`
+  zeroValue: bigint;       // Empty leaf value
+  rootHistorySize: number; // Roots accepted by isKnownRoot
+}
+
+// Parameters of the deployed GrimPool / GrimPoolMultiToken contracts
+export const DEFAULT_MERKLE_TREE_CONFIG: MerkleTreeConfig = {
+  height: 20,
+  zeroValue: BigInt(
+    '21663839004416932945382355908790599225266501822907911457504978515578255421292'
+  ),
+  rootHistorySize: 30,
+};
+
 export interface ChainConfig {
   chainId: number;
   name: string;
   rpcUrl: string;
   explorerUrl: string;
   addresses: GrimAddresses;
+  // Merkle tree overrides for the chain's pools, and per pool address
+  merkleTree?: Partial<MerkleTreeConfig>;
+  poolMerkleTrees?: Record<string, Partial<MerkleTreeConfig>>;
 }
 
 // ============ Unichain Sepolia (Testnet) ============
@@ -95,6 +115,28 @@ export function getChainConfig(chainId: number): ChainConfig {
   return config;
 }
 
+/**
+ * Merkle tree parameters for a chain's pool
+ * (defaults, then chain overrides, then pool overrides)
+ */
+export function getMerkleTreeConfig(
+  chainId: number,
+  poolAddress?: string
+): MerkleTreeConfig {
+  const chain = getChainConfig(chainId);
+  const poolOverrides = poolAddress
+    ? Object.entries(chain.poolMerkleTrees ?? {}).find(
+        ([address]) => address.toLowerCase() === poolAddress.toLowerCase()
+      )?.[1]
+    : undefined;
+
+  return {
+    ...DEFAULT_MERKLE_TREE_CONFIG,
+    ...chain.merkleTree,
+    ...poolOverrides,
+  };
+}
+
 // ============ Pool Configuration ============
 
 export const POOL_CONFIG = {
@@ -6,7 +6,13 @@
  * Works in both Node.js and browser.
  */
 
-import { UNICHAIN_SEPOLIA_ADDRESSES, UNICHAIN_SEPOLIA } from "./constants";
+import {
+  SUPPORTED_CHAINS,
+  UNICHAIN_SEPOLIA_ADDRESSES,
+  UNICHAIN_SEPOLIA,
+} from "./constants";
+import { formatCommitmentForContract } from "./commitment";
+import type { DepositNote } from "./types";
 
 /** Deposit event parsed from GrimPool */
 export interface DepositEvent {
@@ -14,13 +20,22 @@ export interface DepositEvent {
   leafIndex: number;
   timestamp: bigint;
   blockNumber: bigint;
+  blockHash?: string;
   transactionHash: string;
+  token?: string;   // GrimPoolMultiToken only (address(0) for ETH)
+  amount?: bigint;  // GrimPoolMultiToken only
 }
 
 // Deposit event topic: keccak256("Deposit(bytes32,uint32,uint256)")
 const DEPOSIT_EVENT_TOPIC =
   "0xa945e51eec50ab98c161376f0db4cf2aeba3ec92755fe2fcd388bdbbb80ff196";
 
+// GrimPoolMultiToken: keccak256("Deposit(bytes32,uint32,address,uint256,uint256)")
+const MULTI_TOKEN_DEPOSIT_EVENT_TOPIC =
+  "0x0b281fef32170e93d2f582000fb1898aa75747c019f698c3147f617e661e84fc";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
 /**
  * Fetch all deposit commitments from GrimPool
  *
@@ -58,12 +73,14 @@ export async function fetchDeposits(
  * @param rpcUrl - JSON-RPC endpoint URL
  * @param poolAddress - GrimPool contract address
  * @param fromBlock - Block to start scanning from
+ * @param toBlock - Last block to scan (defaults to latest)
  * @returns Array of DepositEvent objects
  */
 export async function fetchDepositEvents(
   rpcUrl?: string,
   poolAddress?: string,
-  fromBlock?: number
+  fromBlock?: number,
+  toBlock?: number
 ): Promise<DepositEvent[]> {
   const url = rpcUrl || UNICHAIN_SEPOLIA.rpcUrl;
   const pool = poolAddress || UNICHAIN_SEPOLIA_ADDRESSES.grimPool;
@@ -79,9 +96,9 @@ export async function fetchDepositEvents(
       params: [
         {
           address: pool,
-          topics: [DEPOSIT_EVENT_TOPIC],
+          topics: [[DEPOSIT_EVENT_TOPIC, MULTI_TOKEN_DEPOSIT_EVENT_TOPIC]],
           fromBlock: "0x" + startBlock.toString(16),
-          toBlock: "latest",
+          toBlock: toBlock !== undefined ? "0x" + toBlock.toString(16) : "latest",
         },
       ],
     }),
@@ -96,6 +113,7 @@ export async function fetchDepositEvents(
       topics: string[];
       data: string;
       blockNumber: string;
+      blockHash: string;
       transactionHash: string;
     }>;
     error?: { message: string };
@@ -111,6 +129,22 @@ export async function fetchDepositEvents(
     // topics[1] = commitment (indexed bytes32)
     const commitment = BigInt(log.topics[1]);
 
+    if (log.topics[0] === MULTI_TOKEN_DEPOSIT_EVENT_TOPIC) {
+      // topics[2] = token (indexed address)
+      // data = abi.encode(uint32 leafIndex, uint256 amount, uint256 timestamp)
+      const data = log.data.slice(2);
+      return {
+        commitment,
+        leafIndex: parseInt(data.slice(0, 64), 16),
+        timestamp: BigInt("0x" + data.slice(128, 192)),
+        blockNumber: BigInt(log.blockNumber),
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        token: "0x" + log.topics[2].slice(-40),
+        amount: BigInt("0x" + data.slice(64, 128)),
+      };
+    }
+
     // data = abi.encode(uint32 leafIndex, uint256 timestamp)
     // leafIndex is in first 32 bytes, timestamp in next 32
     const data = log.data.slice(2); // remove 0x
@@ -122,11 +156,44 @@ export async function fetchDepositEvents(
       leafIndex,
       timestamp,
       blockNumber: BigInt(log.blockNumber),
+      blockHash: log.blockHash,
       transactionHash: log.transactionHash,
     };
   });
 }
 
+/**
+ * Find a note's leafIndex from the pool's Deposit events
+ *
+ * For notes that lost their leafIndex (only secret, nullifier and amount).
+ *
+ * @param note - Deposit note
+ * @param rpcUrl - JSON-RPC endpoint URL
+ * @param poolAddress - GrimPool contract address (defaults to note.pool, then Unichain Sepolia)
+ * @param events - Pre-fetched deposit events (skip fetching if provided)
+ * @returns The leafIndex of the note's commitment
+ * @throws If the commitment was never deposited
+ */
+export async function resolveNoteLeafIndex(
+  note: DepositNote,
+  rpcUrl?: string,
+  poolAddress?: string,
+  events?: DepositEvent[]
+): Promise<number> {
+  const pool = poolAddress || note.pool || UNICHAIN_SEPOLIA_ADDRESSES.grimPool;
+  const deposits = events || (await fetchDepositEvents(rpcUrl, pool));
+
+  const event = deposits.find((e) => e.commitment === note.commitment);
+  if (!event) {
+    throw new Error(
+      `Commitment was never deposited in pool ${pool}: ` +
+      formatCommitmentForContract(note.commitment)
+    );
+  }
+
+  return event.leafIndex;
+}
+
 /**
  * Get the current deposit count from GrimPool
  *
@@ -142,7 +209,7 @@ export async function getDepositCount(
   const pool = poolAddress || UNICHAIN_SEPOLIA_ADDRESSES.grimPool;
 
   // getDepositCount() selector = keccak256("getDepositCount()")[:4]
-  const selector = "0x8656d066";
+  const selector = "0x9363a141";
 
   const response = await fetch(url, {
     method: "POST",
@@ -166,3 +233,176 @@ export async function getDepositCount(
 
   return parseInt(json.result || "0x0", 16);
 }
+
+/**
+ * Get the latest Merkle root from GrimPool
+ *
+ * @param rpcUrl - JSON-RPC endpoint URL
+ * @param poolAddress - GrimPool contract address
+ * @returns Current root
+ */
+export async function getLastRoot(
+  rpcUrl?: string,
+  poolAddress?: string
+): Promise<bigint> {
+  const url = rpcUrl || UNICHAIN_SEPOLIA.rpcUrl;
+  const pool = poolAddress || UNICHAIN_SEPOLIA_ADDRESSES.grimPool;
+
+  // getLastRoot() = 0xba70f757
+  return BigInt(await ethCall(url, pool, "0xba70f757"));
+}
+
+/**
+ * Check whether the pool accepts a Merkle root (recent or added root)
+ *
+ * @param root - Merkle root
+ * @param rpcUrl - JSON-RPC endpoint URL
+ * @param poolAddress - GrimPool contract address
+ * @returns true if isKnownRoot(root)
+ */
+export async function isKnownRoot(
+  root: bigint,
+  rpcUrl?: string,
+  poolAddress?: string
+): Promise<boolean> {
+  const url = rpcUrl || UNICHAIN_SEPOLIA.rpcUrl;
+  const pool = poolAddress || UNICHAIN_SEPOLIA_ADDRESSES.grimPool;
+
+  // isKnownRoot(bytes32) = 0x6d9833e3
+  const data = "0x6d9833e3" + root.toString(16).padStart(64, "0");
+  return BigInt(await ethCall(url, pool, data)) !== 0n;
+}
+
+/**
+ * Check whether a nullifier hash has already been spent
+ *
+ * The legacy GrimPool exposes `isSpent(bytes32)`, GrimPoolMultiToken
+ * exposes the public mapping `nullifierHashes(bytes32)`.
+ *
+ * @param nullifierHash - Nullifier hash of the note
+ * @param rpcUrl - JSON-RPC endpoint URL
+ * @param poolAddress - GrimPool contract address
+ * @param view - Pool view to call (defaults to "isSpent")
+ * @returns true if the note has been spent
+ */
+export async function isNullifierSpent(
+  nullifierHash: bigint,
+  rpcUrl?: string,
+  poolAddress?: string,
+  view: "isSpent" | "nullifierHashes" = "isSpent"
+): Promise<boolean> {
+  const url = rpcUrl || UNICHAIN_SEPOLIA.rpcUrl;
+  const pool = poolAddress || UNICHAIN_SEPOLIA_ADDRESSES.grimPool;
+
+  // isSpent(bytes32) = 0xe5285dcc, nullifierHashes(bytes32) = 0x17cc915c
+  const selector = view === "isSpent" ? "0xe5285dcc" : "0x17cc915c";
+  const data = selector + nullifierHash.toString(16).padStart(64, "0");
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "eth_call",
+      params: [{ to: pool, data }, "latest"],
+    }),
+  });
+
+  const json = (await response.json()) as {
+    result?: string;
+    error?: { message: string };
+  };
+
+  if (json.error) {
+    throw new Error(`RPC error: ${json.error.message}`);
+  }
+
+  return BigInt(json.result || "0x0") !== 0n;
+}
+
+/**
+ * Whether a pool address is a known GrimPoolMultiToken deployment (the
+ * legacy GrimPool has no commitmentToken / commitmentAmount views)
+ *
+ * @param pool - Pool contract address
+ */
+export function isMultiTokenPool(pool: string): boolean {
+  return Object.values(SUPPORTED_CHAINS).some(
+    (chain) =>
+      chain.addresses.grimPoolMultiToken.toLowerCase() === pool.toLowerCase()
+  );
+}
+
+/**
+ * Check a note against GrimPoolMultiToken's commitmentToken /
+ * commitmentAmount views before attempting a swap
+ *
+ * @param note - Deposit note (token defaults to address(0) = ETH)
+ * @param rpcUrl - JSON-RPC endpoint URL
+ * @param poolAddress - GrimPoolMultiToken address (defaults to note.pool, then Unichain Sepolia)
+ * @returns The on-chain token and amount of the commitment
+ * @throws If the commitment is unknown or token/amount do not match the note
+ */
+export async function checkNoteDeposit(
+  note: DepositNote,
+  rpcUrl?: string,
+  poolAddress?: string
+): Promise<{ token: string; amount: bigint }> {
+  const url = rpcUrl || UNICHAIN_SEPOLIA.rpcUrl;
+  const pool =
+    poolAddress || note.pool || UNICHAIN_SEPOLIA_ADDRESSES.grimPoolMultiToken;
+  const commitmentParam = note.commitment.toString(16).padStart(64, "0");
+
+  // commitmentToken(bytes32) = 0xcfb1f7a8, commitmentAmount(bytes32) = 0x7876f22b
+  const [tokenResult, amountResult] = await Promise.all([
+    ethCall(url, pool, "0xcfb1f7a8" + commitmentParam),
+    ethCall(url, pool, "0x7876f22b" + commitmentParam),
+  ]);
+
+  const token = "0x" + tokenResult.slice(2).padStart(64, "0").slice(-40);
+  const amount = BigInt(amountResult);
+  const expectedToken = (note.token || ZERO_ADDRESS).toLowerCase();
+
+  if (amount === 0n) {
+    throw new Error(
+      `Commitment not deposited in pool ${pool}: ${note.commitment.toString(16)}`
+    );
+  }
+  if (token !== expectedToken) {
+    throw new Error(
+      `Note token mismatch: note has ${expectedToken}, pool has ${token}`
+    );
+  }
+  if (amount !== note.amount) {
+    throw new Error(
+      `Note amount mismatch: note has ${note.amount}, pool has ${amount}`
+    );
+  }
+
+  return { token, amount };
+}
+
+async function ethCall(url: string, to: string, data: string): Promise<string> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "eth_call",
+      params: [{ to, data }, "latest"],
+    }),
+  });
+
+  const json = (await response.json()) as {
+    result?: string;
+    error?: { message: string };
+  };
+
+  if (json.error) {
+    throw new Error(`RPC error: ${json.error.message}`);
+  }
+
+  return json.result || "0x0";
+}
@@ -2,16 +2,6 @@
  * Type declarations for external modules without TypeScript definitions
  */
 
-declare module "circomlibjs" {
-  export function buildPoseidon(): Promise<{
-    F: {
-      toString(value: any): string;
-      e(value: string | number | bigint): any;
-    };
-    (inputs: (string | number | bigint)[]): any;
-  }>;
-}
-
 declare module "snarkjs" {
   export namespace groth16 {
     function fullProve(
@@ -45,6 +35,23 @@ declare module "snarkjs" {
       publicSignals: string[];
     }>;
 
+    // Prove from a precomputed witness (second half of fullProve)
+    function prove(
+      zkey: string | Uint8Array,
+      witness: string | Uint8Array | { type: "mem"; data?: Uint8Array },
+      logger?: unknown,
+      options?: { singleThread?: boolean }
+    ): Promise<{
+      proof: {
+        pi_a: [string, string, string];
+        pi_b: [[string, string], [string, string], [string, string]];
+        pi_c: [string, string, string];
+        protocol: string;
+        curve: string;
+      };
+      publicSignals: string[];
+    }>;
+
     function verify(
       verificationKey: any,
       publicSignals: string[],
@@ -57,6 +64,16 @@ declare module "snarkjs" {
     ): Promise<string>;
   }
 
+  export namespace wtns {
+    // Witness calculation (first half of fullProve); { type: "mem" } is
+    // filled in place
+    function calculate(
+      input: Record<string, any>,
+      wasm: string | Uint8Array,
+      wtns: string | { type: "mem"; data?: Uint8Array }
+    ): Promise<void>;
+  }
+
   export namespace zKey {
     function exportVerificationKey(zkeyPath: string): Promise<any>;
   }
@@ -57,9 +57,12 @@ export type {
   PrivateInputs,
   CircuitInput,
   DepositNote,
+  NoteMetadata,
   ContractProof,
+  VerificationKey,
   MerkleProof,
   SwapParams,
+  SwapBinding,
   // Relayer Types
   RelayerRequest,
   RelayerResponse,
@@ -76,25 +79,90 @@ export type {
 export {
   initPoseidon,
   poseidonHash,
+  poseidonHashSync,
+  poseidonHashBatch,
   computeCommitment,
   computeNullifierHash,
   createDepositNote,
+  createChangeNote,
   reconstructDepositNote,
   serializeNote,
   deserializeNote,
   formatCommitmentForContract,
+  FIELD_SIZE,
 } from "./commitment";
 
+// Encrypted note backups
+export {
+  encryptNote,
+  decryptNote,
+  isEncryptedNote,
+} from "./noteBackup";
+
+export type { EncryptedNoteBackup, NoteBackupOptions } from "./noteBackup";
+
+// Deterministic (recoverable) notes
+export {
+  NOTE_SEED_MESSAGE,
+  getNoteSeedTypedData,
+  deriveMasterSeedFromSignature,
+  deriveMasterSeedFromMnemonic,
+  deriveDepositNote,
+  recoverDepositNotes,
+} from "./noteDerivation";
+
+export type { RecoveredNote, RecoverNotesParams } from "./noteDerivation";
+
+// Note storage
+export {
+  MemoryNoteStore,
+  FileNoteStore,
+  BrowserNoteStore,
+  syncSpentNotes,
+} from "./noteStore";
+
+export type {
+  NoteStore,
+  NoteStatus,
+  StoredNote,
+  KeyValueStorage,
+} from "./noteStore";
+
 // Merkle tree
 export {
   MerkleTree,
+  IncrementalMerkleTree,
   MERKLE_TREE_HEIGHT,
   ZERO_VALUE,
+  ROOT_HISTORY_SIZE,
   verifyMerkleProof,
+  verifyMerkleProofs,
   buildMerkleTree,
   formatProofForCircuit,
 } from "./merkle";
 
+export type { MerkleHasher, MerkleTreeOptions } from "./merkle";
+
+export {
+  serializeTreeSnapshot,
+  deserializeTreeSnapshot,
+  encodeTreeSnapshot,
+  decodeTreeSnapshot,
+  TREE_SNAPSHOT_VERSION,
+} from "./merkleSnapshot";
+
+export type { MerkleTreeSnapshot, TreeSnapshotOptions } from "./merkleSnapshot";
+
+// Deposit tree sync
+export { DepositTreeSync } from "./treeSync";
+
+export type {
+  DepositTreeSyncOptions,
+  SyncResult,
+  NewRootEvent,
+  ReorgEvent,
+} from "./treeSync";
+
 // Proof generation
 export {
   generateProof,
@@ -102,10 +170,84 @@ export {
   formatProofForContract,
   encodeProofAsHookData,
   verifyProofLocally,
+  verifyRelayerProof,
   generateProofForRelayer,
   computeExpectedPublicSignals,
+  buildCircuitInput,
+  validateCircuitInput,
+  assertValidCircuitInput,
+  CIRCUIT_LEVELS,
+  MAX_RELAYER_FEE,
 } from "./proof";
 
+export type { CircuitInputError } from "./proof";
+
+// Prover backends
+export { SnarkjsProver, ExternalProver } from "./prover";
+
+export type { Prover, ProverArtifacts, ExternalProverOptions } from "./prover";
+
+export { PRIVATE_SWAP_VERIFICATION_KEY } from "./verificationKey";
+
+// Swap binding (privateSwapV2)
+export { computeSwapParamsHash } from "./swapBinding";
+
+// Circuit variants
+export {
+  getCircuitVariant,
+  registerCircuitVariant,
+  listCircuitVariants,
+  selectCircuitVariant,
+  circuitForSwapParams,
+  resolveCircuitArtifact,
+  loadVerificationKey,
+  DEFAULT_CIRCUIT_VERSION,
+  PUBLIC_SIGNAL_NAMES,
+  PUBLIC_SIGNAL_NAMES_V2,
+  PUBLIC_SIGNAL_NAMES_SPLIT,
+  PUBLIC_SIGNAL_NAMES_ASSOCIATION,
+} from "./circuits";
+
+export type { CircuitName, CircuitVariant } from "./circuits";
+
+// Public signals
+export {
+  decodePublicSignals,
+  encodePublicSignals,
+  checkPublicSignals,
+} from "./publicSignals";
+
+export type { PublicSignalMismatch } from "./publicSignals";
+
+// Worker prover
+export { WorkerProver } from "./workerProver";
+
+export type {
+  ProofStage,
+  ArtifactSource,
+  WorkerLike,
+  WorkerProverOptions,
+  WorkerProveOptions,
+} from "./workerProver";
+
+// Circuit artifacts
+export {
+  loadCircuitArtifacts,
+  hashVerificationKey,
+  readZkeyVerificationKey,
+  FileArtifactCache,
+  BrowserArtifactCache,
+  CIRCUIT_ARTIFACT_HASHES,
+  SDK_VERSION,
+} from "./artifacts";
+
+export type {
+  CircuitArtifactHashes,
+  CircuitArtifacts,
+  ArtifactCache,
+  LoadArtifactsOptions,
+} from "./artifacts";
+
 // Stealth addresses (ERC-5564)
 export {
   generateStealthKeys,
@@ -134,15 +276,48 @@ export {
   fetchDeposits,
   fetchDepositEvents,
   getDepositCount,
+  getLastRoot,
+  isKnownRoot,
+  isNullifierSpent,
+  checkNoteDeposit,
+  isMultiTokenPool,
+  resolveNoteLeafIndex,
 } from "./deposits";
 
 export type { DepositEvent } from "./deposits";
 
+// Local tree vs pool consistency
+export { checkTreeConsistency } from "./treeCheck";
+
+export type {
+  TreeAction,
+  TreeConsistencyReport,
+  TreeCheckOptions,
+} from "./treeCheck";
+
 // High-level private swap
 export { executePrivateSwap } from "./privateSwap";
 
 export type { PrivateSwapParams } from "./privateSwap";
 
+// Router calldata (self-relayed swaps)
+export {
+  encodePrivateSwapCalldata,
+  encodeExecutePrivateSwap,
+  encodeExecutePrivateSwapToken,
+} from "./router";
+
+export type { RouterSwapCall } from "./router";
+
+// Association sets (privateSwapAssociation)
+export {
+  buildAssociationSet,
+  getAssociationProof,
+  verifyAssociationProof,
+} from "./associationSet";
+
+export type { DepositFilter, AssociationSetOptions } from "./associationSet";
+
 // Stealth address claiming
 export {
   claimStealthTokens,
@@ -160,18 +335,23 @@ export {
   UNICHAIN_MAINNET_ADDRESSES,
   SUPPORTED_CHAINS,
   getChainConfig,
+  getMerkleTreeConfig,
+  DEFAULT_MERKLE_TREE_CONFIG,
   STEALTH_SCHEME_ID,
   META_ADDRESS_LENGTH,
   STEALTH_REGISTRY_ABI,
   ANNOUNCER_ABI,
   GRIM_POOL_ABI,
+  GRIM_POOL_MULTI_TOKEN_ABI,
   GRIM_SWAP_ZK_ABI,
   GRIM_SWAP_ROUTER_ABI,
+  GRIM_SWAP_ROUTER_V2_ABI,
   GROTH16_VERIFIER_ABI,
   RELAYER_DEFAULT_URL,
 } from "./constants";
 
-export type { ChainConfig, GrimAddresses } from "./constants";
+export type { ChainConfig, GrimAddresses, MerkleTreeConfig } from "./constants";
 
-// Re-export commonly used utilities
-export { buildPoseidon } from "circomlibjs";
+// Native Poseidon hasher object (1-3 inputs; buildPoseidon is a
+// deprecated alias replacing the circomlibjs re-export)
+export { buildNativePoseidon, buildPoseidon } from "./poseidon";
@@ -5,32 +5,82 @@
  * Uses Poseidon hash to match the circuit.
  */
 
-import { poseidonHash, initPoseidon } from "./commitment";
-import type { MerkleProof } from "./types";
+import { getCircuitVariant } from "./circuits";
+import type { CircuitVariant } from "./circuits";
+import { initPoseidon, poseidonHashBatch, poseidonHashSync } from "./commitment";
+import { DEFAULT_MERKLE_TREE_CONFIG } from "./constants";
+import { validateTreeSnapshot, TREE_SNAPSHOT_VERSION } from "./merkleSnapshot";
+import type { MerkleTreeSnapshot, TreeSnapshotOptions } from "./merkleSnapshot";
+import type { MerkleProof, PublicSignals } from "./types";
 
 // Default tree height (2^20 = ~1M leaves)
-export const MERKLE_TREE_HEIGHT = 20;
+export const MERKLE_TREE_HEIGHT = DEFAULT_MERKLE_TREE_CONFIG.height;
 
 // Zero value for empty leaves (same as GrimPool.sol)
-export const ZERO_VALUE = BigInt(
-  "21663839004416932945382355908790599225266501822907911457504978515578255421292"
-);
+export const ZERO_VALUE = DEFAULT_MERKLE_TREE_CONFIG.zeroValue;
+
+// Number of recent roots kept for isKnownRoot (same as GrimPool.sol)
+export const ROOT_HISTORY_SIZE = DEFAULT_MERKLE_TREE_CONFIG.rootHistorySize;
+
+/** Hash of two child nodes (default: Poseidon, as in the circuit) */
+export type MerkleHasher = (left: bigint, right: bigint) => bigint;
+
+/**
+ * Tree parameters; defaults match the deployed pools. Use
+ * getMerkleTreeConfig(chainId, pool) for a specific deployment.
+ */
+export interface MerkleTreeOptions {
+  /** Tree height, must equal the circuit's `levels` (default: 20, or circuit's levels) */
+  height?: number;
+  /** Circuit variant (or its version) the tree is proven with; sets the height */
+  circuit?: CircuitVariant | string;
+  /** Empty leaf value (default: ZERO_VALUE) */
+  zeroValue?: bigint;
+  /** Node hasher (default: Poseidon) */
+  hasher?: MerkleHasher;
+  /** Number of recent roots kept (default: 30) */
+  rootHistorySize?: number;
+}
+
+/** A root in the tree's history and the leaf count it was computed at */
+interface RootHistoryEntry {
+  root: bigint;
+  leafCount: number;
+}
 
 /**
  * Simple in-memory Merkle tree
  * For production, this would be replaced with a more efficient implementation
  */
 export class MerkleTree {
-  private height: number;
+  readonly height: number;
+  readonly zeroValue: bigint;
+  readonly hasher: MerkleHasher;
   private leaves: bigint[];
+  private leafIndices: Map<bigint, number>;
   private zeros: bigint[];
   private layers: bigint[][];
+  private rootHistorySize: number;
+  private rootHistory: RootHistoryEntry[];
 
-  constructor(height: number = MERKLE_TREE_HEIGHT) {
-    this.height = height;
+  /**
+   * @param options - Tree options, or the height (legacy signature)
+   * @param rootHistorySize - Number of recent roots kept (legacy signature)
+   */
+  constructor(
+    options: MerkleTreeOptions | number = {},
+    rootHistorySize?: number
+  ) {
+    const resolved = resolveTreeOptions(options, rootHistorySize);
+    this.height = resolved.height;
+    this.zeroValue = resolved.zeroValue;
+    this.hasher = resolved.hasher;
+    this.rootHistorySize = resolved.rootHistorySize;
     this.leaves = [];
+    this.leafIndices = new Map();
     this.zeros = [];
     this.layers = [];
+    this.rootHistory = [];
   }
 
   /**
@@ -40,17 +90,17 @@ export class MerkleTree {
     await initPoseidon();
 
     // Compute zero values for each level
-    this.zeros = [ZERO_VALUE];
-    for (let i = 1; i <= this.height; i++) {
-      const prevZero = this.zeros[i - 1];
-      this.zeros[i] = await poseidonHash([prevZero, prevZero]);
-    }
+    this.zeros = computeZeros(this.height, this.zeroValue, this.hasher);
 
     // Initialize layers with zeros
     this.layers = [];
     for (let i = 0; i <= this.height; i++) {
       this.layers[i] = [];
     }
+
+    // The empty root is known, like the contract's roots[0]
+    this.rootHistory = [];
+    this.recordRoot(this.zeros[this.height], 0);
   }
 
   /**
@@ -65,17 +115,166 @@ export class MerkleTree {
 
     const index = this.leaves.length;
     this.leaves.push(leaf);
+    this.indexLeaf(leaf, index);
 
     // Update the tree
-    await this.updateTree(index);
+    this.updateTree(index);
+    this.recordRoot(this.getRoot(), this.leaves.length);
 
     return index;
   }
 
+  /**
+   * Insert many leaves at once
+   *
+   * Recomputes each affected level once, so appending N leaves costs
+   * ~N hashes instead of N * height.
+   *
+   * @param leaves - Commitments to append, in leaf order
+   * @returns Index of the first inserted leaf
+   */
+  async insertBatch(leaves: bigint[]): Promise<number> {
+    if (this.zeros.length === 0) {
+      await this.initialize();
+    }
+
+    const startIndex = this.leaves.length;
+    if (leaves.length === 0) {
+      return startIndex;
+    }
+    if (startIndex + leaves.length > 2 ** this.height) {
+      throw new Error("Merkle tree is full");
+    }
+
+    for (let i = 0; i < leaves.length; i++) {
+      this.leaves.push(leaves[i]);
+      this.layers[0][startIndex + i] = leaves[i];
+      this.indexLeaf(leaves[i], startIndex + i);
+    }
+
+    let from = startIndex;
+    let to = this.leaves.length - 1;
+
+    for (let level = 0; level < this.height; level++) {
+      const layer = this.layers[level];
+      const parentFrom = Math.floor(from / 2);
+      const parentTo = Math.floor(to / 2);
+
+      const children: bigint[][] = [];
+      for (let i = parentFrom; i <= parentTo; i++) {
+        children.push([
+          layer[2 * i] ?? this.zeros[level],
+          layer[2 * i + 1] ?? this.zeros[level],
+        ]);
+      }
+      const parents = hashPairs(children, this.hasher);
+      const parentLayer = this.layers[level + 1];
+      for (let i = parentFrom; i <= parentTo; i++) {
+        parentLayer[i] = parents[i - parentFrom];
+      }
+
+      from = parentFrom;
+      to = parentTo;
+    }
+
+    // Every deposit produces a root on-chain; record the ones that
+    // still fit in the history window
+    const total = this.leaves.length;
+    const firstRecorded = Math.max(startIndex + 1, total - this.rootHistorySize + 1);
+    for (let count = firstRecorded; count < total; count++) {
+      this.recordRoot(this.computeNode(this.height, 0, count), count);
+    }
+    this.recordRoot(this.getRoot(), total);
+
+    return startIndex;
+  }
+
+  /**
+   * Remove leaves from the end, keeping the first `leafCount`
+   * (e.g. to roll back deposits from reorged blocks)
+   *
+   * @param leafCount - Number of leaves to keep
+   */
+  truncate(leafCount: number): void {
+    if (
+      !Number.isInteger(leafCount) ||
+      leafCount < 0 ||
+      leafCount > this.leaves.length
+    ) {
+      throw new Error(`Invalid leaf count: ${leafCount}`);
+    }
+    if (leafCount === this.leaves.length) {
+      return;
+    }
+
+    for (let i = leafCount; i < this.leaves.length; i++) {
+      if (this.leafIndices.get(this.leaves[i]) === i) {
+        this.leafIndices.delete(this.leaves[i]);
+      }
+    }
+    this.leaves.length = leafCount;
+    this.layers[0].length = leafCount;
+
+    // Only the last node of each level can straddle the new boundary
+    for (let level = 1; level <= this.height; level++) {
+      const size = Math.ceil(leafCount / 2 ** level);
+      const layer = this.layers[level];
+      const below = this.layers[level - 1];
+      layer.length = size;
+
+      if (size > 0) {
+        const last = size - 1;
+        layer[last] = this.hasher(
+          below[2 * last] ?? this.zeros[level - 1],
+          below[2 * last + 1] ?? this.zeros[level - 1]
+        );
+      }
+    }
+
+    this.rebuildRootHistory();
+  }
+
+  /**
+   * Append the change commitment of a privateSwapSplit proof
+   *
+   * The pool appends changeCommitment when the swap executes; this adds
+   * it locally ahead of the Deposit event so the change note can be
+   * proven against the tree right away. Already-present commitments are
+   * not inserted again. Use DepositTreeSync.insertChangeLeaf for synced
+   * trees, which moves the leaf to its on-chain index once confirmed.
+   *
+   * @param signals - Decoded signals of the spend
+   *   (decodePublicSignals(publicSignals, "privateSwapSplit"))
+   * @returns Leaf index of the change commitment
+   * @throws If the signals have no changeCommitment, or merkleRoot is not
+   *   a known root of this tree
+   */
+  async insertChangeLeaf(
+    signals: Pick<PublicSignals, "merkleRoot" | "changeCommitment">
+  ): Promise<number> {
+    const { merkleRoot, changeCommitment } = signals;
+    if (changeCommitment === undefined) {
+      throw new Error("Signals have no changeCommitment (not a privateSwapSplit proof)");
+    }
+    if (this.zeros.length === 0) {
+      await this.initialize();
+    }
+
+    const existing = this.getLeafIndex(changeCommitment);
+    if (existing !== undefined) {
+      return existing;
+    }
+    if (!this.isKnownRoot(merkleRoot)) {
+      throw new Error("Spend was proven against a root this tree does not know");
+    }
+
+    return this.insertBatch([changeCommitment]);
+  }
+
   /**
    * Update tree after insertion
    */
-  private async updateTree(index: number): Promise<void> {
+  private updateTree(index: number): void {
     let currentIndex = index;
     let currentValue = this.leaves[index];
     this.layers[0][index] = currentValue;
@@ -93,7 +292,7 @@ export class MerkleTree {
         ? [currentValue, sibling]
         : [sibling, currentValue];
 
-      currentValue = await poseidonHash([left, right]);
+      currentValue = this.hasher(left, right);
       currentIndex = Math.floor(currentIndex / 2);
 
       this.layers[level + 1][currentIndex] = currentValue;
@@ -111,40 +310,254 @@ export class MerkleTree {
     return this.zeros[this.height];
   }
 
+  /**
+   * Get the leaf at an index (undefined if not inserted yet)
+   */
+  getLeaf(index: number): bigint | undefined {
+    return this.leaves[index];
+  }
+
+  /**
+   * Find the leaf index of a commitment
+   * @param commitment - The commitment to look up
+   * @returns Index of its first occurrence, or undefined if not in the tree
+   */
+  getLeafIndex(commitment: bigint): number | undefined {
+    return this.leafIndices.get(commitment);
+  }
+
+  /**
+   * Root the tree had when it held `leafCount` leaves
+   * (O(height) hashes; works for any earlier state, not just the history)
+   */
+  getRootAt(leafCount: number): bigint {
+    if (
+      !Number.isInteger(leafCount) ||
+      leafCount < 0 ||
+      leafCount > this.leaves.length
+    ) {
+      throw new Error(`Invalid leaf count: ${leafCount}`);
+    }
+    return this.computeNode(this.height, 0, leafCount);
+  }
+
+  /**
+   * Check whether a root is in the tree's recent root history
+   * (mirrors the pool's isKnownRoot)
+   */
+  isKnownRoot(root: bigint): boolean {
+    return this.rootHistory.some((entry) => entry.root === root);
+  }
+
+  /**
+   * Get recent roots, oldest first (at most rootHistorySize, including
+   * the current root)
+   */
+  getRootHistory(): bigint[] {
+    return this.rootHistory.map((entry) => entry.root);
+  }
+
   /**
    * Generate Merkle proof for a leaf
    * @param leafIndex - Index of the leaf
+   * @param root - Optional historical root to prove against (default: current root)
    * @returns MerkleProof
    */
-  getProof(leafIndex: number): MerkleProof {
-    if (leafIndex >= this.leaves.length) {
-      throw new Error("Leaf index out of bounds");
+  getProof(leafIndex: number, root?: bigint): MerkleProof {
+    return this.getProofs([leafIndex], root)[0];
+  }
+
+  /**
+   * Generate Merkle proofs for several leaves against the same root
+   *
+   * The root is resolved once, and for a historical root the nodes
+   * recomputed along shared paths are hashed only once.
+   *
+   * @param leafIndices - Indices of the leaves
+   * @param root - Optional historical root to prove against (default: current root)
+   * @returns MerkleProof per leaf index, in the same order
+   */
+  getProofs(leafIndices: number[], root?: bigint): MerkleProof[] {
+    let count = this.leaves.length;
+
+    if (root !== undefined && root !== this.getRoot()) {
+      const entry = this.rootHistory.find((e) => e.root === root);
+      if (!entry) {
+        throw new Error("Root not in history");
+      }
+      count = entry.leafCount;
     }
 
-    const pathElements: bigint[] = [];
-    const pathIndices: number[] = [];
+    const proofRoot = count === this.leaves.length ? this.getRoot() : root!;
+    const nodes = new Map<string, bigint>();
 
-    let currentIndex = leafIndex;
+    return leafIndices.map((leafIndex) => {
+      if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= count) {
+        throw new Error("Leaf index out of bounds");
+      }
 
-    for (let level = 0; level < this.height; level++) {
-      const isLeft = currentIndex % 2 === 0;
-      const siblingIndex = isLeft ? currentIndex + 1 : currentIndex - 1;
+      const pathElements: bigint[] = [];
+      const pathIndices: number[] = [];
 
-      // Get sibling value (or zero if doesn't exist)
-      const sibling =
-        this.layers[level][siblingIndex] ?? this.zeros[level];
+      let currentIndex = leafIndex;
 
-      pathElements.push(sibling);
-      pathIndices.push(isLeft ? 0 : 1);
+      for (let level = 0; level < this.height; level++) {
+        const isLeft = currentIndex % 2 === 0;
+        const siblingIndex = isLeft ? currentIndex + 1 : currentIndex - 1;
 
-      currentIndex = Math.floor(currentIndex / 2);
+        // Sibling as it was when the tree had `count` leaves
+        const sibling = this.computeNode(level, siblingIndex, count, nodes);
+
+        pathElements.push(sibling);
+        pathIndices.push(isLeft ? 0 : 1);
+
+        currentIndex = Math.floor(currentIndex / 2);
+      }
+
+      return { root: proofRoot, pathElements, pathIndices };
+    });
+  }
+
+  /**
+   * Export the tree as a snapshot (encode with serializeTreeSnapshot or
+   * encodeTreeSnapshot)
+   *
+   * @param options - includeLayers to skip hashing on load; lastSyncedBlock
+   * @returns MerkleTreeSnapshot
+   */
+  toSnapshot(options: TreeSnapshotOptions = {}): MerkleTreeSnapshot {
+    if (this.zeros.length === 0) {
+      throw new Error("Tree not initialized");
     }
 
-    return {
+    const snapshot: MerkleTreeSnapshot = {
+      version: TREE_SNAPSHOT_VERSION,
+      height: this.height,
+      zeroValue: this.zeros[0],
+      leafCount: this.leaves.length,
       root: this.getRoot(),
-      pathElements,
-      pathIndices,
+      leaves: [...this.leaves],
     };
+    if (options.includeLayers) {
+      snapshot.layers = this.layers.slice(1).map((layer) => [...layer]);
+    }
+    if (options.lastSyncedBlock !== undefined) {
+      snapshot.lastSyncedBlock = options.lastSyncedBlock;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Load a tree from a snapshot
+   *
+   * Without cached layers the leaves are re-hashed and the result checked
+   * against the snapshot root. Cached layers are trusted as-is (only the
+   * root is compared), so only load them from a source you trust or check
+   * the root against the pool.
+   *
+   * @param snapshot - Snapshot from toSnapshot() or a decoder
+   * @param options - Expected parameters (hasher, rootHistorySize; height
+   *   and zeroValue must match the snapshot if given)
+   * @returns MerkleTree instance
+   */
+  static async fromSnapshot(
+    snapshot: MerkleTreeSnapshot,
+    options: MerkleTreeOptions = {}
+  ): Promise<MerkleTree> {
+    validateTreeSnapshot(snapshot);
+    checkSnapshotOptions(snapshot, options);
+    if (!snapshot.leaves) {
+      throw new Error(
+        "Snapshot has no leaves (frontier snapshots load into IncrementalMerkleTree)"
+      );
+    }
+
+    const tree = new MerkleTree({
+      ...options,
+      height: snapshot.height,
+      zeroValue: snapshot.zeroValue,
+    });
+    await tree.initialize();
+
+    if (snapshot.layers) {
+      tree.leaves = [...snapshot.leaves];
+      tree.leaves.forEach((leaf, index) => tree.indexLeaf(leaf, index));
+      tree.layers = [[...snapshot.leaves], ...snapshot.layers.map((l) => [...l])];
+      tree.rebuildRootHistory();
+    } else {
+      await tree.insertBatch(snapshot.leaves);
+    }
+
+    if (tree.getRoot() !== snapshot.root) {
+      throw new Error("Tree snapshot root mismatch");
+    }
+    return tree;
+  }
+
+  /**
+   * Value of node `index` at `level` when the tree held `count` leaves
+   *
+   * Subtrees entirely below `count` are unchanged by later appends, and
+   * subtrees entirely above it were empty; only the one subtree per level
+   * straddling the boundary is recomputed (O(height) hashes in total).
+   */
+  private computeNode(
+    level: number,
+    index: number,
+    count: number,
+    cache?: Map<string, bigint>
+  ): bigint {
+    if (count === this.leaves.length) {
+      return this.layers[level][index] ?? this.zeros[level];
+    }
+
+    const start = index * 2 ** level;
+    const end = start + 2 ** level;
+
+    if (start >= count) {
+      return this.zeros[level];
+    }
+    if (end <= count) {
+      return this.layers[level][index];
+    }
+
+    // Only nodes straddling `count` are rehashed; share them across proofs
+    const key = `${level}:${index}`;
+    const cached = cache?.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const node = this.hasher(
+      this.computeNode(level - 1, index * 2, count, cache),
+      this.computeNode(level - 1, index * 2 + 1, count, cache)
+    );
+    cache?.set(key, node);
+    return node;
+  }
+
+  private indexLeaf(leaf: bigint, index: number): void {
+    if (!this.leafIndices.has(leaf)) {
+      this.leafIndices.set(leaf, index);
+    }
+  }
+
+  /**
+   * Recompute the root history window from the current leaves
+   */
+  private rebuildRootHistory(): void {
+    this.rootHistory = [];
+    const total = this.leaves.length;
+    for (let count = Math.max(0, total - this.rootHistorySize + 1); count <= total; count++) {
+      this.recordRoot(this.computeNode(this.height, 0, count), count);
+    }
+  }
+
+  private recordRoot(root: bigint, leafCount: number): void {
+    this.rootHistory.push({ root, leafCount });
+    if (this.rootHistory.length > this.rootHistorySize) {
+      this.rootHistory.shift();
+    }
   }
 
   /**
@@ -155,15 +568,229 @@ export class MerkleTree {
   }
 }
 
+/**
+ * Frontier-based incremental Merkle tree
+ *
+ * Same design as the pool contract: keeps only the last filled subtree per
+ * level (O(height) state) plus a ring buffer of recent roots. Cannot
+ * generate proofs; use it to track roots cheaply, e.g. to mirror
+ * isKnownRoot or to check a local MerkleTree against the chain.
+ */
+export class IncrementalMerkleTree {
+  readonly height: number;
+  readonly zeroValue: bigint;
+  private hasher: MerkleHasher;
+  private zeros: bigint[];
+  private filledSubtrees: bigint[];
+  private roots: bigint[];
+  private currentRootIndex: number;
+  private nextIndex: number;
+
+  /**
+   * @param options - Tree options, or the height (legacy signature)
+   * @param rootHistorySize - Number of recent roots kept (legacy signature)
+   */
+  constructor(
+    options: MerkleTreeOptions | number = {},
+    rootHistorySize?: number
+  ) {
+    const resolved = resolveTreeOptions(options, rootHistorySize);
+    this.height = resolved.height;
+    this.zeroValue = resolved.zeroValue;
+    this.hasher = resolved.hasher;
+    this.zeros = [];
+    this.filledSubtrees = [];
+    this.roots = new Array<bigint>(resolved.rootHistorySize).fill(0n);
+    this.currentRootIndex = 0;
+    this.nextIndex = 0;
+  }
+
+  /**
+   * Initialize the frontier with precomputed zeros
+   */
+  async initialize(): Promise<void> {
+    await initPoseidon();
+
+    this.zeros = computeZeros(this.height, this.zeroValue, this.hasher);
+    this.filledSubtrees = this.zeros.slice(0, this.height);
+    this.roots.fill(0n);
+    this.roots[0] = this.zeros[this.height];
+    this.currentRootIndex = 0;
+    this.nextIndex = 0;
+  }
+
+  /**
+   * Insert a leaf into the tree
+   * @param leaf - The commitment to insert
+   * @returns Index of the inserted leaf
+   */
+  async insert(leaf: bigint): Promise<number> {
+    if (this.zeros.length === 0) {
+      await this.initialize();
+    }
+    if (this.nextIndex >= 2 ** this.height) {
+      throw new Error("Merkle tree is full");
+    }
+
+    const index = this.nextIndex;
+    let currentIndex = index;
+    let currentValue = leaf;
+
+    for (let level = 0; level < this.height; level++) {
+      let left: bigint;
+      let right: bigint;
+
+      if (currentIndex % 2 === 0) {
+        left = currentValue;
+        right = this.zeros[level];
+        this.filledSubtrees[level] = currentValue;
+      } else {
+        left = this.filledSubtrees[level];
+        right = currentValue;
+      }
+
+      currentValue = this.hasher(left, right);
+      currentIndex = Math.floor(currentIndex / 2);
+    }
+
+    this.currentRootIndex = (this.currentRootIndex + 1) % this.roots.length;
+    this.roots[this.currentRootIndex] = currentValue;
+    this.nextIndex = index + 1;
+
+    return index;
+  }
+
+  /**
+   * Get the current root
+   */
+  getRoot(): bigint {
+    if (this.zeros.length === 0) {
+      throw new Error("Tree not initialized");
+    }
+    return this.roots[this.currentRootIndex];
+  }
+
+  /**
+   * Check whether a root is in the recent root history
+   * (same rules as the contract: zero is never known)
+   */
+  isKnownRoot(root: bigint): boolean {
+    if (root === 0n) {
+      return false;
+    }
+    return this.roots.includes(root);
+  }
+
+  /**
+   * Get recent roots, oldest first
+   */
+  getRootHistory(): bigint[] {
+    const history: bigint[] = [];
+    for (let i = 1; i <= this.roots.length; i++) {
+      const root = this.roots[(this.currentRootIndex + i) % this.roots.length];
+      if (root !== 0n) {
+        history.push(root);
+      }
+    }
+    return history;
+  }
+
+  /**
+   * Export the frontier and recent roots as a snapshot
+   *
+   * @param options - lastSyncedBlock (includeLayers does not apply)
+   * @returns MerkleTreeSnapshot
+   */
+  toSnapshot(options: TreeSnapshotOptions = {}): MerkleTreeSnapshot {
+    const snapshot: MerkleTreeSnapshot = {
+      version: TREE_SNAPSHOT_VERSION,
+      height: this.height,
+      zeroValue: this.zeroValue,
+      leafCount: this.nextIndex,
+      root: this.getRoot(),
+      frontier: this.getFrontier(),
+      roots: this.getRootHistory(),
+    };
+    if (options.lastSyncedBlock !== undefined) {
+      snapshot.lastSyncedBlock = options.lastSyncedBlock;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Load a tree from a snapshot (frontier snapshots, or full snapshots
+   * whose leaves are re-inserted)
+   *
+   * @param snapshot - Snapshot from toSnapshot() or a decoder
+   * @param options - Expected parameters (hasher, rootHistorySize; height
+   *   and zeroValue must match the snapshot if given)
+   * @returns IncrementalMerkleTree instance
+   */
+  static async fromSnapshot(
+    snapshot: MerkleTreeSnapshot,
+    options: MerkleTreeOptions = {}
+  ): Promise<IncrementalMerkleTree> {
+    validateTreeSnapshot(snapshot);
+    checkSnapshotOptions(snapshot, options);
+
+    const tree = new IncrementalMerkleTree({
+      ...options,
+      height: snapshot.height,
+      zeroValue: snapshot.zeroValue,
+    });
+    await tree.initialize();
+
+    if (snapshot.frontier) {
+      const roots = (snapshot.roots ?? [snapshot.root]).slice(-tree.roots.length);
+      if (roots[roots.length - 1] !== snapshot.root) {
+        throw new Error("Tree snapshot root mismatch");
+      }
+
+      tree.filledSubtrees = [...snapshot.frontier];
+      tree.roots.fill(0n);
+      for (let i = 0; i < roots.length; i++) {
+        tree.roots[i] = roots[i];
+      }
+      tree.currentRootIndex = roots.length - 1;
+      tree.nextIndex = snapshot.leafCount;
+    } else {
+      for (const leaf of snapshot.leaves!) {
+        await tree.insert(leaf);
+      }
+      if (tree.getRoot() !== snapshot.root) {
+        throw new Error("Tree snapshot root mismatch");
+      }
+    }
+
+    return tree;
+  }
+
+  /**
+   * Get the frontier (last filled subtree per level)
+   */
+  getFrontier(): bigint[] {
+    return [...this.filledSubtrees];
+  }
+
+  /**
+   * Get the number of leaves
+   */
+  get leafCount(): number {
+    return this.nextIndex;
+  }
+}
+
 /**
  * Verify a Merkle proof
  * @param leaf - The leaf value
  * @param proof - The Merkle proof
+ * @param hasher - Node hasher the tree was built with (default: Poseidon)
  * @returns True if valid
  */
 export async function verifyMerkleProof(
   leaf: bigint,
-  proof: MerkleProof
+  proof: MerkleProof,
+  hasher: MerkleHasher = poseidonHasher
 ): Promise<boolean> {
   await initPoseidon();
 
@@ -174,26 +801,183 @@ export async function verifyMerkleProof(
     const isLeft = proof.pathIndices[i] === 0;
 
     const [left, right] = isLeft ? [current, sibling] : [sibling, current];
-    current = await poseidonHash([left, right]);
+    current = hasher(left, right);
   }
 
   return current === proof.root;
 }
 
+/**
+ * Verify several Merkle proofs
+ *
+ * Proofs against the same root share their upper path: once a node has
+ * been verified to hash up to the root, other proofs reaching it with
+ * the same siblings above stop there instead of hashing to the top
+ * (proofs whose pathIndices are not all 0/1 are hashed in full).
+ * Results match calling verifyMerkleProof on each proof.
+ *
+ * @param leaves - Leaf values
+ * @param proofs - Merkle proof per leaf, in the same order
+ * @param hasher - Node hasher the tree was built with (default: Poseidon)
+ * @returns Validity per proof, in the same order
+ */
+export async function verifyMerkleProofs(
+  leaves: bigint[],
+  proofs: MerkleProof[],
+  hasher: MerkleHasher = poseidonHasher
+): Promise<boolean[]> {
+  if (leaves.length !== proofs.length) {
+    throw new Error(`Got ${leaves.length} leaves but ${proofs.length} proofs`);
+  }
+
+  await initPoseidon();
+
+  // Nodes known to hash up to a root, keyed by root, height, level and
+  // position, with the siblings that lead from them to the root
+  const verified = new Map<string, { node: bigint; pathElements: bigint[] }>();
+
+  return proofs.map((proof, i) => {
+    const { pathElements, pathIndices } = proof;
+    const height = pathElements.length;
+    // Node positions come from the path bits: any other index would give
+    // a position another path uses, so such proofs skip the shortcut
+    const shortcut =
+      pathIndices.length === height && pathIndices.every((bit) => bit === 0 || bit === 1);
+    const leafIndex = pathIndices.reduce((acc, bit, level) => acc + bit * 2 ** level, 0);
+    const keys: string[] = [];
+    const nodes: bigint[] = [];
+
+    let current = leaves[i];
+
+    for (let level = 0; level < height; level++) {
+      const sibling = pathElements[level];
+      const isLeft = pathIndices[level] === 0;
+
+      const [left, right] = isLeft ? [current, sibling] : [sibling, current];
+      current = hasher(left, right);
+      if (!shortcut) {
+        continue;
+      }
+
+      const position = Math.floor(leafIndex / 2 ** (level + 1));
+      const key = `${proof.root}:${height}:${level + 1}:${position}`;
+      const known = verified.get(key);
+      if (known !== undefined) {
+        if (known.node !== current) {
+          return false;
+        }
+        if (pathElements.every((e, j) => j <= level || e === known.pathElements[j])) {
+          return true;
+        }
+      }
+
+      keys.push(key);
+      nodes.push(current);
+    }
+
+    if (current !== proof.root) {
+      return false;
+    }
+
+    keys.forEach((key, j) => {
+      if (!verified.has(key)) {
+        verified.set(key, { node: nodes[j], pathElements });
+      }
+    });
+    return true;
+  });
+}
+
 /**
  * Build a Merkle tree from a list of leaves
  * @param leaves - Array of commitments
+ * @param options - Tree parameters (see getMerkleTreeConfig)
  * @returns MerkleTree instance
  */
-export async function buildMerkleTree(leaves: bigint[]): Promise<MerkleTree> {
-  const tree = new MerkleTree();
+export async function buildMerkleTree(
+  leaves: bigint[],
+  options: MerkleTreeOptions = {}
+): Promise<MerkleTree> {
+  const tree = new MerkleTree(options);
   await tree.initialize();
+  await tree.insertBatch(leaves);
+
+  return tree;
+}
+
+function poseidonHasher(left: bigint, right: bigint): bigint {
+  return poseidonHashSync([left, right]);
+}
+
+/**
+ * Hash a level's node pairs: one poseidonHashBatch call with the default
+ * hasher, pair by pair with a custom one
+ */
+function hashPairs(pairs: bigint[][], hasher: MerkleHasher): bigint[] {
+  if (hasher === poseidonHasher) {
+    return poseidonHashBatch(pairs);
+  }
+  return pairs.map(([left, right]) => hasher(left, right));
+}
 
-  for (const leaf of leaves) {
-    await tree.insert(leaf);
+function resolveTreeOptions(
+  options: MerkleTreeOptions | number,
+  rootHistorySize?: number
+): Required<Omit<MerkleTreeOptions, "circuit">> {
+  const opts: MerkleTreeOptions = typeof options === "number" ? { height: options } : options;
+  const levels = opts.circuit !== undefined ? getCircuitVariant(opts.circuit).levels : undefined;
+  if (levels !== undefined && opts.height !== undefined && opts.height !== levels) {
+    throw new Error(
+      `Merkle tree height ${opts.height} does not match the circuit's ${levels} levels`
+    );
   }
+  const resolved = {
+    height: opts.height ?? levels ?? MERKLE_TREE_HEIGHT,
+    zeroValue: opts.zeroValue ?? ZERO_VALUE,
+    hasher: opts.hasher ?? poseidonHasher,
+    rootHistorySize: rootHistorySize ?? opts.rootHistorySize ?? ROOT_HISTORY_SIZE,
+  };
 
-  return tree;
+  if (!Number.isInteger(resolved.height) || resolved.height < 1 || resolved.height > 32) {
+    throw new Error(`Invalid Merkle tree height: ${resolved.height} (expected 1-32)`);
+  }
+  if (!Number.isInteger(resolved.rootHistorySize) || resolved.rootHistorySize < 1) {
+    throw new Error(`Invalid root history size: ${resolved.rootHistorySize}`);
+  }
+  return resolved;
+}
+
+/**
+ * Zero subtree roots for each level: zeros[0] = zeroValue,
+ * zeros[i] = hash(zeros[i-1], zeros[i-1])
+ */
+function computeZeros(
+  height: number,
+  zeroValue: bigint,
+  hasher: MerkleHasher
+): bigint[] {
+  const zeros = [zeroValue];
+  for (let i = 1; i <= height; i++) {
+    const prevZero = zeros[i - 1];
+    zeros[i] = hasher(prevZero, prevZero);
+  }
+  return zeros;
+}
+
+function checkSnapshotOptions(
+  snapshot: MerkleTreeSnapshot,
+  options: MerkleTreeOptions
+): void {
+  const height =
+    options.height ?? (options.circuit !== undefined ? getCircuitVariant(options.circuit).levels : undefined);
+  if (height !== undefined && height !== snapshot.height) {
+    throw new Error(
+      `Tree snapshot height ${snapshot.height} does not match expected height ${height}`
+    );
+  }
+  if (options.zeroValue !== undefined && options.zeroValue !== snapshot.zeroValue) {
+    throw new Error("Tree snapshot zero value does not match the expected zero value");
+  }
 }
 
 /**
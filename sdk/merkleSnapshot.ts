@@ -0,0 +1,360 @@
+/**
+ * GrimSwap ZK SDK - Merkle Tree Snapshots
+ *
+ * Versioned snapshots of a MerkleTree (leaves, optionally cached layers)
+ * or IncrementalMerkleTree (frontier + recent roots), in JSON and compact
+ * binary form. Lets wallets persist and resume a tree, and servers ship
+ * pre-built trees to clients, instead of rebuilding from every deposit.
+ */
+
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { FIELD_SIZE } from "./poseidon";
+
+/** Snapshot of a MerkleTree or IncrementalMerkleTree */
+export interface MerkleTreeSnapshot {
+  version: 1;
+  /** Tree height */
+  height: number;
+  /** Empty leaf value the tree was built with */
+  zeroValue: bigint;
+  /** Number of leaves inserted */
+  leafCount: number;
+  /** Root at leafCount (checked when loading) */
+  root: bigint;
+  /** All leaves (MerkleTree snapshots) */
+  leaves?: bigint[];
+  /** Cached internal layers 1..height, so loading needs no hashing */
+  layers?: bigint[][];
+  /** Last filled subtree per level (IncrementalMerkleTree snapshots) */
+  frontier?: bigint[];
+  /** Recent roots, oldest first (IncrementalMerkleTree snapshots) */
+  roots?: bigint[];
+  /** Block the leaves were synced up to */
+  lastSyncedBlock?: number;
+}
+
+/** Options for tree.toSnapshot() */
+export interface TreeSnapshotOptions {
+  /** Include internal layers (about 2x larger, but loads without hashing) */
+  includeLayers?: boolean;
+  /** Block the leaves were synced up to */
+  lastSyncedBlock?: number;
+}
+
+export const TREE_SNAPSHOT_VERSION = 1;
+
+// Binary layout: "GMTS" | version u8 | flags u8 | height u8 | reserved u8 |
+// leafCount u32 | lastSyncedBlock u64 | zeroValue | root | sections...
+const MAGIC = [0x47, 0x4d, 0x54, 0x53];
+const HEADER_SIZE = 84;
+const FLAG_LEAVES = 1;
+const FLAG_LAYERS = 2;
+const FLAG_FRONTIER = 4;
+const FLAG_ROOTS = 8;
+const FLAG_LAST_SYNCED_BLOCK = 16;
+
+/**
+ * Serialize a snapshot to JSON (field elements as 0x-prefixed hex)
+ */
+export function serializeTreeSnapshot(snapshot: MerkleTreeSnapshot): string {
+  validateTreeSnapshot(snapshot);
+
+  return JSON.stringify({
+    version: snapshot.version,
+    height: snapshot.height,
+    zeroValue: toHex(snapshot.zeroValue),
+    leafCount: snapshot.leafCount,
+    root: toHex(snapshot.root),
+    leaves: snapshot.leaves?.map(toHex),
+    layers: snapshot.layers?.map((layer) => layer.map(toHex)),
+    frontier: snapshot.frontier?.map(toHex),
+    roots: snapshot.roots?.map(toHex),
+    lastSyncedBlock: snapshot.lastSyncedBlock,
+  });
+}
+
+/**
+ * Parse a snapshot produced by serializeTreeSnapshot()
+ */
+export function deserializeTreeSnapshot(json: string): MerkleTreeSnapshot {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid tree snapshot: not JSON");
+  }
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error("Invalid tree snapshot format");
+  }
+
+  const snapshot: MerkleTreeSnapshot = {
+    version: parsed.version,
+    height: parsed.height,
+    zeroValue: fromHex(parsed.zeroValue),
+    leafCount: parsed.leafCount,
+    root: fromHex(parsed.root),
+  };
+
+  if (parsed.leaves !== undefined) {
+    snapshot.leaves = asArray(parsed.leaves).map(fromHex);
+  }
+  if (parsed.layers !== undefined) {
+    snapshot.layers = asArray(parsed.layers).map((layer) =>
+      asArray(layer).map(fromHex)
+    );
+  }
+  if (parsed.frontier !== undefined) {
+    snapshot.frontier = asArray(parsed.frontier).map(fromHex);
+  }
+  if (parsed.roots !== undefined) {
+    snapshot.roots = asArray(parsed.roots).map(fromHex);
+  }
+  if (parsed.lastSyncedBlock !== undefined) {
+    snapshot.lastSyncedBlock = parsed.lastSyncedBlock;
+  }
+
+  validateTreeSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Encode a snapshot in the compact binary format
+ * (84-byte header + 32 bytes per field element)
+ */
+export function encodeTreeSnapshot(snapshot: MerkleTreeSnapshot): Uint8Array {
+  validateTreeSnapshot(snapshot);
+
+  // Leaves, layers and frontier, in that order
+  const sections: bigint[][] = [];
+  let flags = 0;
+
+  if (snapshot.leaves) {
+    flags |= FLAG_LEAVES;
+    sections.push(snapshot.leaves);
+  }
+  if (snapshot.layers) {
+    flags |= FLAG_LAYERS;
+    sections.push(...snapshot.layers);
+  }
+  if (snapshot.frontier) {
+    flags |= FLAG_FRONTIER;
+    sections.push(snapshot.frontier);
+  }
+  if (snapshot.roots) {
+    flags |= FLAG_ROOTS;
+  }
+  if (snapshot.lastSyncedBlock !== undefined) {
+    flags |= FLAG_LAST_SYNCED_BLOCK;
+  }
+
+  const fieldCount = sections.reduce((n, section) => n + section.length, 0);
+  const rootsSize = snapshot.roots ? 2 + snapshot.roots.length * 32 : 0;
+  const bytes = new Uint8Array(HEADER_SIZE + fieldCount * 32 + rootsSize);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(MAGIC, 0);
+  view.setUint8(4, snapshot.version);
+  view.setUint8(5, flags);
+  view.setUint8(6, snapshot.height);
+  view.setUint32(8, snapshot.leafCount);
+  view.setBigUint64(12, BigInt(snapshot.lastSyncedBlock ?? 0));
+  writeField(bytes, 20, snapshot.zeroValue);
+  writeField(bytes, 52, snapshot.root);
+
+  let offset = HEADER_SIZE;
+  for (const section of sections) {
+    for (const value of section) {
+      writeField(bytes, offset, value);
+      offset += 32;
+    }
+  }
+
+  if (snapshot.roots) {
+    view.setUint16(offset, snapshot.roots.length);
+    offset += 2;
+    for (const root of snapshot.roots) {
+      writeField(bytes, offset, root);
+      offset += 32;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a snapshot produced by encodeTreeSnapshot()
+ */
+export function decodeTreeSnapshot(bytes: Uint8Array): MerkleTreeSnapshot {
+  if (bytes.length < HEADER_SIZE || MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new Error("Invalid tree snapshot: bad header");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(4);
+  if (version !== TREE_SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported tree snapshot version: ${version}`);
+  }
+
+  const flags = view.getUint8(5);
+  const height = view.getUint8(6);
+  const leafCount = view.getUint32(8);
+
+  let offset = HEADER_SIZE;
+  const readFields = (count: number): bigint[] => {
+    if (offset + count * 32 > bytes.length) {
+      throw new Error("Invalid tree snapshot: truncated");
+    }
+    const values: bigint[] = [];
+    for (let i = 0; i < count; i++) {
+      values.push(readField(bytes, offset));
+      offset += 32;
+    }
+    return values;
+  };
+
+  const snapshot: MerkleTreeSnapshot = {
+    version: TREE_SNAPSHOT_VERSION,
+    height,
+    zeroValue: readField(bytes, 20),
+    leafCount,
+    root: readField(bytes, 52),
+  };
+
+  if (flags & FLAG_LEAVES) {
+    snapshot.leaves = readFields(leafCount);
+  }
+  if (flags & FLAG_LAYERS) {
+    snapshot.layers = [];
+    for (let level = 1; level <= height; level++) {
+      snapshot.layers.push(readFields(layerSize(leafCount, level)));
+    }
+  }
+  if (flags & FLAG_FRONTIER) {
+    snapshot.frontier = readFields(height);
+  }
+  if (flags & FLAG_ROOTS) {
+    if (offset + 2 > bytes.length) {
+      throw new Error("Invalid tree snapshot: truncated");
+    }
+    const count = view.getUint16(offset);
+    offset += 2;
+    snapshot.roots = readFields(count);
+  }
+  if (flags & FLAG_LAST_SYNCED_BLOCK) {
+    snapshot.lastSyncedBlock = Number(view.getBigUint64(12));
+  }
+
+  if (offset !== bytes.length) {
+    throw new Error("Invalid tree snapshot: trailing bytes");
+  }
+
+  validateTreeSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Check a snapshot's structure (sizes, field ranges); does not hash
+ *
+ * @throws If the snapshot is malformed
+ */
+export function validateTreeSnapshot(snapshot: MerkleTreeSnapshot): void {
+  if (snapshot.version !== TREE_SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported tree snapshot version: ${snapshot.version}`);
+  }
+
+  const { height, leafCount } = snapshot;
+  if (!Number.isInteger(height) || height < 1 || height > 32) {
+    throw new Error(`Invalid tree snapshot: height ${height}`);
+  }
+  if (
+    !Number.isInteger(leafCount) ||
+    leafCount < 0 ||
+    leafCount > Math.min(2 ** height, 0xffffffff)
+  ) {
+    throw new Error(`Invalid tree snapshot: leafCount ${leafCount}`);
+  }
+
+  assertFields([snapshot.zeroValue, snapshot.root]);
+
+  if (snapshot.leaves) {
+    if (snapshot.leaves.length !== leafCount) {
+      throw new Error("Invalid tree snapshot: leaves do not match leafCount");
+    }
+    assertFields(snapshot.leaves);
+  }
+  if (snapshot.layers) {
+    if (!snapshot.leaves) {
+      throw new Error("Invalid tree snapshot: layers without leaves");
+    }
+    if (snapshot.layers.length !== height) {
+      throw new Error("Invalid tree snapshot: expected one layer per level");
+    }
+    snapshot.layers.forEach((layer, i) => {
+      if (layer.length !== layerSize(leafCount, i + 1)) {
+        throw new Error(`Invalid tree snapshot: layer ${i + 1} size`);
+      }
+      assertFields(layer);
+    });
+  }
+  if (snapshot.frontier) {
+    if (snapshot.frontier.length !== height) {
+      throw new Error("Invalid tree snapshot: frontier size");
+    }
+    assertFields(snapshot.frontier);
+  }
+  if (snapshot.roots) {
+    if (snapshot.roots.length === 0 || snapshot.roots.length > 0xffff) {
+      throw new Error("Invalid tree snapshot: root history size");
+    }
+    assertFields(snapshot.roots);
+  }
+  if (!snapshot.leaves && !snapshot.frontier) {
+    throw new Error("Invalid tree snapshot: needs leaves or a frontier");
+  }
+
+  const block = snapshot.lastSyncedBlock;
+  if (block !== undefined && (!Number.isSafeInteger(block) || block < 0)) {
+    throw new Error(`Invalid tree snapshot: lastSyncedBlock ${block}`);
+  }
+}
+
+// ============ Internal helpers ============
+
+/** Number of nodes at `level` for a tree holding `leafCount` leaves */
+function layerSize(leafCount: number, level: number): number {
+  return Math.ceil(leafCount / 2 ** level);
+}
+
+function assertFields(values: bigint[]): void {
+  for (const value of values) {
+    if (typeof value !== "bigint" || value < 0n || value >= FIELD_SIZE) {
+      throw new Error("Invalid tree snapshot: value is not a field element");
+    }
+  }
+}
+
+function asArray(value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error("Invalid tree snapshot format");
+  }
+  return value;
+}
+
+function toHex(value: bigint): string {
+  return "0x" + value.toString(16).padStart(64, "0");
+}
+
+function fromHex(value: unknown): bigint {
+  if (typeof value !== "string" || !/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+    throw new Error("Invalid tree snapshot: bad field element");
+  }
+  return BigInt(value);
+}
+
+function writeField(bytes: Uint8Array, offset: number, value: bigint): void {
+  bytes.set(hexToBytes(value.toString(16).padStart(64, "0")), offset);
+}
+
+function readField(bytes: Uint8Array, offset: number): bigint {
+  return BigInt("0x" + bytesToHex(bytes.subarray(offset, offset + 32)));
+}
@@ -0,0 +1,232 @@
+/**
+ * GrimSwap ZK SDK - Encrypted Note Backups
+ *
+ * Password-protects serialized deposit notes so they can be stored in
+ * localStorage, files or cloud backups without exposing spend secrets.
+ * Uses scrypt (memory-hard KDF) + XChaCha20-Poly1305 (authenticated
+ * encryption). Pure JS — works in both Node.js and browser.
+ */
+
+import { scryptAsync } from "@noble/hashes/scrypt";
+import {
+  bytesToHex,
+  hexToBytes,
+  randomBytes,
+  utf8ToBytes,
+  bytesToUtf8,
+} from "@noble/hashes/utils";
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { serializeNote, deserializeNote } from "./commitment";
+import type { DepositNote } from "./types";
+
+/** Versioned envelope produced by encryptNote() */
+export interface EncryptedNoteBackup {
+  version: 1;
+  kdf: "scrypt";
+  kdfParams: {
+    N: number;
+    r: number;
+    p: number;
+    salt: string;
+  };
+  cipher: "xchacha20-poly1305";
+  nonce: string;
+  ciphertext: string;
+}
+
+/** scrypt cost parameters for encryptNote() */
+export interface NoteBackupOptions {
+  /** CPU/memory cost, power of 2 (default: 2^16 ≈ 64 MB with r = 8) */
+  N?: number;
+  /** Block size (default: 8, at most 32) */
+  r?: number;
+  /** Parallelization (default: 1, at most 16) */
+  p?: number;
+}
+
+const BACKUP_VERSION = 1;
+const DEFAULT_SCRYPT_N = 2 ** 16;
+const DEFAULT_SCRYPT_R = 8;
+const DEFAULT_SCRYPT_P = 1;
+// Refuse envelopes asking for more than 2^20 (1 GB with r = 8)
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_R = 32;
+const MAX_SCRYPT_P = 16;
+// scrypt allocates 128 * N * r bytes: cap it at 1 GB whatever N and r are
+const MAX_SCRYPT_MEMORY = 2 ** 30;
+
+/**
+ * Encrypt a deposit note with a password
+ *
+ * @param note - The deposit note
+ * @param password - User password
+ * @param options - Optional scrypt cost parameters
+ * @returns JSON string of an EncryptedNoteBackup envelope
+ *
+ * @example
+ * ```typescript
+ * const backup = await encryptNote(note, password);
+ * localStorage.setItem("grimswap_note", backup);
+ *
+ * // Later...
+ * const restored = await decryptNote(localStorage.getItem("grimswap_note")!, password);
+ * ```
+ */
+export async function encryptNote(
+  note: DepositNote,
+  password: string,
+  options: NoteBackupOptions = {}
+): Promise<string> {
+  if (!password) {
+    throw new Error("Password is required to encrypt a note");
+  }
+
+  const kdfParams = {
+    N: options.N ?? DEFAULT_SCRYPT_N,
+    r: options.r ?? DEFAULT_SCRYPT_R,
+    p: options.p ?? DEFAULT_SCRYPT_P,
+    salt: bytesToHex(randomBytes(16)),
+  };
+  if (!isValidScryptCost(kdfParams.N, kdfParams.r, kdfParams.p)) {
+    throw new Error(
+      `Invalid scrypt parameters N=${kdfParams.N} r=${kdfParams.r} p=${kdfParams.p}`
+    );
+  }
+  const nonce = randomBytes(24);
+
+  const key = await deriveKey(password, kdfParams);
+  const aad = encodeHeader(kdfParams);
+  const ciphertext = xchacha20poly1305(key, nonce, aad).encrypt(
+    utf8ToBytes(serializeNote(note))
+  );
+
+  const backup: EncryptedNoteBackup = {
+    version: BACKUP_VERSION,
+    kdf: "scrypt",
+    kdfParams,
+    cipher: "xchacha20-poly1305",
+    nonce: bytesToHex(nonce),
+    ciphertext: bytesToHex(ciphertext),
+  };
+
+  return JSON.stringify(backup);
+}
+
+/**
+ * Decrypt a deposit note backup
+ *
+ * @param backup - Envelope from encryptNote() (JSON string or parsed object)
+ * @param password - User password
+ * @returns Reconstructed DepositNote
+ * @throws If the password is wrong or the backup was modified
+ */
+export async function decryptNote(
+  backup: string | EncryptedNoteBackup,
+  password: string
+): Promise<DepositNote> {
+  const envelope = parseBackup(backup);
+
+  const key = await deriveKey(password, envelope.kdfParams);
+  const aad = encodeHeader(envelope.kdfParams);
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = xchacha20poly1305(
+      key,
+      hexToBytes(envelope.nonce),
+      aad
+    ).decrypt(hexToBytes(envelope.ciphertext));
+  } catch {
+    throw new Error("Wrong password or corrupted note backup");
+  }
+
+  return deserializeNote(bytesToUtf8(plaintext));
+}
+
+/**
+ * Check whether a string looks like an encrypted note backup
+ * (as opposed to a plaintext serialized note)
+ */
+export function isEncryptedNote(value: string): boolean {
+  try {
+    parseBackup(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============ Internal helpers ============
+
+function parseBackup(backup: string | EncryptedNoteBackup): EncryptedNoteBackup {
+  let envelope: any;
+  if (typeof backup === "string") {
+    try {
+      envelope = JSON.parse(backup);
+    } catch {
+      throw new Error("Invalid note backup: not JSON");
+    }
+  } else {
+    envelope = backup;
+  }
+
+  if (!envelope || typeof envelope !== "object") {
+    throw new Error("Invalid note backup format");
+  }
+  if (envelope.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported note backup version: ${envelope.version}`);
+  }
+  if (envelope.kdf !== "scrypt" || envelope.cipher !== "xchacha20-poly1305") {
+    throw new Error(
+      `Unsupported note backup algorithms: ${envelope.kdf}/${envelope.cipher}`
+    );
+  }
+
+  const { N, r, p, salt } = envelope.kdfParams || {};
+  if (!isValidScryptCost(N, r, p) || typeof salt !== "string") {
+    throw new Error("Invalid note backup KDF parameters");
+  }
+  if (typeof envelope.nonce !== "string" || envelope.nonce.length !== 48) {
+    throw new Error("Invalid note backup nonce");
+  }
+  if (typeof envelope.ciphertext !== "string") {
+    throw new Error("Invalid note backup ciphertext");
+  }
+
+  return envelope as EncryptedNoteBackup;
+}
+
+/**
+ * scrypt cost within what restoring a backup may allocate: N a power of
+ * 2 up to 2^20, r up to 32, p up to 16, and 128 * N * r bytes up to 1 GB
+ */
+function isValidScryptCost(N: number, r: number, p: number): boolean {
+  return (
+    Number.isInteger(N) && N >= 2 && N <= MAX_SCRYPT_N && (N & (N - 1)) === 0 &&
+    Number.isInteger(r) && r >= 1 && r <= MAX_SCRYPT_R &&
+    Number.isInteger(p) && p >= 1 && p <= MAX_SCRYPT_P &&
+    128 * N * r <= MAX_SCRYPT_MEMORY
+  );
+}
+
+async function deriveKey(
+  password: string,
+  params: EncryptedNoteBackup["kdfParams"]
+): Promise<Uint8Array> {
+  return scryptAsync(utf8ToBytes(password), hexToBytes(params.salt), {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    dkLen: 32,
+  });
+}
+
+/**
+ * Header bytes bound to the ciphertext as associated data, so the
+ * version and KDF parameters cannot be altered without detection
+ */
+function encodeHeader(params: EncryptedNoteBackup["kdfParams"]): Uint8Array {
+  return utf8ToBytes(
+    `grimswap-backup-v${BACKUP_VERSION}:scrypt:${params.N}:${params.r}:${params.p}:${params.salt}`
+  );
+}
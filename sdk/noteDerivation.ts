@@ -0,0 +1,259 @@
+/**
+ * GrimSwap ZK SDK - Deterministic Deposit Notes
+ *
+ * Derives deposit notes from a master seed so they can be recovered if the
+ * serialized note is lost. The seed comes from a fixed wallet signature
+ * (EIP-191 personal_sign or EIP-712) or from a BIP-39 mnemonic; notes are
+ * then derived by index and matched against on-chain Deposit events.
+ */
+
+import { hkdf } from "@noble/hashes/hkdf";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha256";
+import { sha512 } from "@noble/hashes/sha512";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { FIELD_SIZE, reconstructDepositNote } from "./commitment";
+import { fetchDepositEvents, isNullifierSpent } from "./deposits";
+import type { DepositEvent } from "./deposits";
+import type { DepositNote } from "./types";
+
+type Hex = `0x${string}`;
+
+/** Recovered note matched against a Deposit event */
+export interface RecoveredNote {
+  /** Derivation index the note was found at */
+  index: number;
+  /** The note, with leafIndex filled in from the Deposit event */
+  note: DepositNote;
+  /** The matching Deposit event */
+  event: DepositEvent;
+  /** Whether the nullifier has been spent on-chain */
+  spent: boolean;
+}
+
+/** Parameters for recoverDepositNotes */
+export interface RecoverNotesParams {
+  /** Master seed (from deriveMasterSeedFromSignature / FromMnemonic) */
+  seed: Uint8Array;
+  /** Candidate deposit amounts (the amount is part of the commitment) */
+  amounts: bigint[];
+  /** Pre-fetched deposit events (skip fetching if provided) */
+  events?: DepositEvent[];
+  /** RPC URL (defaults to Unichain Sepolia) */
+  rpcUrl?: string;
+  /** GrimPool address (defaults to Unichain Sepolia grimPool) */
+  poolAddress?: string;
+  /** Block to start scanning from */
+  fromBlock?: number;
+  /** First derivation index to try (default: 0) */
+  startIndex?: number;
+  /** Stop after this many consecutive unused indices (default: 20) */
+  gapLimit?: number;
+  /** Query spent status on-chain (default: true) */
+  checkSpent?: boolean;
+  /** Pool view used for spent status (default: "isSpent") */
+  spentView?: "isSpent" | "nullifierHashes";
+}
+
+/**
+ * Fixed message users sign with personal_sign (EIP-191) to derive their
+ * note seed. Changing it would make existing notes unrecoverable.
+ */
+export const NOTE_SEED_MESSAGE =
+  "GrimSwap deposit note seed v1\n\n" +
+  "Sign this message to derive your private deposit notes.\n" +
+  "Only sign it on a site you trust: anyone with this signature can spend your deposits.";
+
+const SEED_SALT = utf8ToBytes("grimswap-note-seed");
+const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+/**
+ * EIP-712 typed data users sign to derive their note seed
+ * (alternative to NOTE_SEED_MESSAGE for wallets that prefer signTypedData)
+ *
+ * @param chainId - Chain ID for the domain separator
+ */
+export function getNoteSeedTypedData(chainId: number) {
+  return {
+    domain: {
+      name: "GrimSwap",
+      version: "1",
+      chainId,
+    },
+    types: {
+      NoteSeed: [{ name: "purpose", type: "string" }],
+    },
+    primaryType: "NoteSeed" as const,
+    message: {
+      purpose: "Derive private deposit notes",
+    },
+  };
+}
+
+/**
+ * Derive a master seed from a wallet signature over NOTE_SEED_MESSAGE
+ * or getNoteSeedTypedData()
+ *
+ * Only r || s is used so that wallets reporting v as 0/1 or 27/28
+ * produce the same seed. Requires a wallet with deterministic
+ * (RFC 6979) signatures, which is the case for all mainstream wallets.
+ *
+ * @param signature - 65-byte signature hex
+ * @returns 32-byte master seed
+ */
+export function deriveMasterSeedFromSignature(signature: Hex | string): Uint8Array {
+  const hex = signature.startsWith("0x") ? signature.slice(2) : signature;
+  if (!/^[0-9a-fA-F]{130}$/.test(hex)) {
+    throw new Error("Invalid signature: expected 65 bytes hex");
+  }
+
+  const rs = hexToBytes(hex.slice(0, 128));
+  return hkdf(sha256, rs, SEED_SALT, "signature-v1", 32);
+}
+
+/**
+ * Derive a master seed from a BIP-39 mnemonic
+ *
+ * Uses the standard BIP-39 seed derivation (PBKDF2-HMAC-SHA512, 2048
+ * rounds). The word list checksum is not validated.
+ *
+ * @param mnemonic - Space separated mnemonic words
+ * @param passphrase - Optional BIP-39 passphrase
+ * @returns 32-byte master seed
+ */
+export async function deriveMasterSeedFromMnemonic(
+  mnemonic: string,
+  passphrase: string = ""
+): Promise<Uint8Array> {
+  const words = mnemonic.normalize("NFKD").trim().split(/\s+/);
+  if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    throw new Error(
+      `Invalid mnemonic: expected ${MNEMONIC_WORD_COUNTS.join("/")} words, got ${words.length}`
+    );
+  }
+
+  const bip39Seed = await pbkdf2Async(
+    sha512,
+    utf8ToBytes(words.join(" ")),
+    utf8ToBytes("mnemonic" + passphrase.normalize("NFKD")),
+    { c: 2048, dkLen: 64 }
+  );
+
+  return hkdf(sha256, bip39Seed, SEED_SALT, "mnemonic-v1", 32);
+}
+
+/**
+ * Derive the deposit note at a given index
+ *
+ * The amount is part of the derivation: notes for different amounts at
+ * the same index have unrelated nullifiers, so spending one never blocks
+ * another.
+ *
+ * @param seed - Master seed
+ * @param index - Derivation index (0, 1, 2, ...)
+ * @param amount - Deposit amount in wei
+ * @returns DepositNote (same seed + index + amount always gives the same note)
+ */
+export async function deriveDepositNote(
+  seed: Uint8Array,
+  index: number,
+  amount: bigint
+): Promise<DepositNote> {
+  if (seed.length < 32) {
+    throw new Error("Seed must be at least 32 bytes");
+  }
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid derivation index: ${index}`);
+  }
+
+  if (amount < 0n) {
+    throw new Error(`Invalid deposit amount: ${amount}`);
+  }
+
+  const path = `grimswap-note/${index}/${amount}`;
+  const secret = deriveFieldElement(seed, `${path}/secret`);
+  const nullifier = deriveFieldElement(seed, `${path}/nullifier`);
+
+  return reconstructDepositNote(secret, nullifier, amount);
+}
+
+/**
+ * Recover deterministic notes by matching derived commitments against
+ * Deposit events
+ *
+ * Walks derivation indices from startIndex, trying every candidate amount,
+ * until gapLimit consecutive indices have no matching deposit.
+ *
+ * @returns Recovered notes ordered by derivation index
+ *
+ * @example
+ * ```typescript
+ * const signature = await wallet.signMessage(NOTE_SEED_MESSAGE);
+ * const seed = deriveMasterSeedFromSignature(signature);
+ *
+ * const recovered = await recoverDepositNotes({
+ *   seed,
+ *   amounts: [parseEther("0.1"), parseEther("1")],
+ * });
+ * const unspent = recovered.filter((r) => !r.spent);
+ * ```
+ */
+export async function recoverDepositNotes(
+  params: RecoverNotesParams
+): Promise<RecoveredNote[]> {
+  const {
+    seed,
+    amounts,
+    rpcUrl,
+    poolAddress,
+    fromBlock,
+    startIndex = 0,
+    gapLimit = 20,
+    checkSpent = true,
+    spentView = "isSpent",
+  } = params;
+
+  if (amounts.length === 0) {
+    throw new Error("At least one candidate amount is required");
+  }
+
+  const events =
+    params.events || (await fetchDepositEvents(rpcUrl, poolAddress, fromBlock));
+
+  const byCommitment = new Map<bigint, DepositEvent>();
+  for (const event of events) {
+    byCommitment.set(event.commitment, event);
+  }
+
+  const recovered: RecoveredNote[] = [];
+  let lastUsed = startIndex - 1;
+
+  for (let index = startIndex; index - lastUsed <= gapLimit; index++) {
+    for (const amount of amounts) {
+      const note = await deriveDepositNote(seed, index, amount);
+      const event = byCommitment.get(note.commitment);
+      if (!event) continue;
+
+      note.leafIndex = event.leafIndex;
+      const spent = checkSpent
+        ? await isNullifierSpent(note.nullifierHash, rpcUrl, poolAddress, spentView)
+        : false;
+
+      recovered.push({ index, note, event, spent });
+      lastUsed = index;
+    }
+  }
+
+  return recovered;
+}
+
+// ============ Internal helpers ============
+
+/**
+ * Expand the seed to 64 bytes and reduce into the BN254 field
+ * (bias is negligible at 512 bits)
+ */
+function deriveFieldElement(seed: Uint8Array, info: string): bigint {
+  const bytes = hkdf(sha256, seed, undefined, info, 64);
+  return BigInt("0x" + bytesToHex(bytes)) % FIELD_SIZE;
+}
@@ -0,0 +1,341 @@
+/**
+ * GrimSwap ZK SDK - Note Store
+ *
+ * Persistent storage for deposit notes with lifecycle tracking:
+ * created → deposited (leafIndex known) → rootKnown → spent.
+ *
+ * Backends: in-memory, Node.js file, and browser localStorage.
+ */
+
+import {
+  serializeNote,
+  deserializeNote,
+  formatCommitmentForContract,
+} from "./commitment";
+import { isMultiTokenPool, isNullifierSpent } from "./deposits";
+import type { DepositNote } from "./types";
+
+/** Lifecycle status of a stored note */
+export type NoteStatus = "created" | "deposited" | "rootKnown" | "spent";
+
+/** A note plus its lifecycle state */
+export interface StoredNote {
+  note: DepositNote;
+  status: NoteStatus;
+  /** Merkle root known on-chain that includes this note (status rootKnown) */
+  root?: bigint;
+  /** Unix ms timestamps */
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Storage interface for deposit notes, keyed by commitment */
+export interface NoteStore {
+  /**
+   * Add or update a note (status "created", or "deposited" if leafIndex
+   * is set; a stored "created" note advances to "deposited")
+   */
+  save(note: DepositNote): Promise<StoredNote>;
+  /** Get a note by commitment */
+  get(commitment: bigint): Promise<StoredNote | undefined>;
+  /** List notes, optionally filtered by status */
+  list(status?: NoteStatus): Promise<StoredNote[]>;
+  /** Record the leafIndex from the Deposit event */
+  markDeposited(commitment: bigint, leafIndex: number): Promise<StoredNote>;
+  /** Record an on-chain known root that includes the note */
+  markRootKnown(commitment: bigint, root: bigint): Promise<StoredNote>;
+  /** Record that the note's nullifier has been spent */
+  markSpent(commitment: bigint): Promise<StoredNote>;
+  /** Remove a note */
+  remove(commitment: bigint): Promise<void>;
+}
+
+/** Minimal Web Storage interface (window.localStorage compatible) */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/** JSON record persisted by the file and browser backends */
+interface SerializedStoredNote {
+  note: string;
+  leafIndex?: number;
+  status: NoteStatus;
+  root?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const STORE_VERSION = 1;
+const DEFAULT_STORAGE_KEY = "grimswap_notes";
+
+/**
+ * Base implementation shared by all backends
+ *
+ * Keeps notes in memory and calls persist() after every change; callers
+ * get copies, so only the store methods change stored notes.
+ * Backends only implement loading and persisting the serialized form.
+ */
+abstract class BaseNoteStore implements NoteStore {
+  private notes: Map<string, StoredNote> | null = null;
+
+  protected abstract read(): Promise<string | null>;
+  protected abstract write(data: string): Promise<void>;
+
+  async save(note: DepositNote): Promise<StoredNote> {
+    const notes = await this.load();
+    const key = formatCommitmentForContract(note.commitment);
+    const now = Date.now();
+
+    const existing = notes.get(key);
+    const status = existing?.status ?? "created";
+    const stored: StoredNote = {
+      note: { ...note },
+      status: status === "created" && note.leafIndex !== undefined ? "deposited" : status,
+      root: existing?.root,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    notes.set(key, stored);
+    await this.persist();
+    return copyStoredNote(stored);
+  }
+
+  async get(commitment: bigint): Promise<StoredNote | undefined> {
+    const notes = await this.load();
+    const stored = notes.get(formatCommitmentForContract(commitment));
+    return stored && copyStoredNote(stored);
+  }
+
+  async list(status?: NoteStatus): Promise<StoredNote[]> {
+    const notes = await this.load();
+    const all = Array.from(notes.values());
+    return (status ? all.filter((n) => n.status === status) : all).map(copyStoredNote);
+  }
+
+  async markDeposited(
+    commitment: bigint,
+    leafIndex: number
+  ): Promise<StoredNote> {
+    return this.update(commitment, (stored) => {
+      stored.note.leafIndex = leafIndex;
+      if (stored.status === "created") {
+        stored.status = "deposited";
+      }
+    });
+  }
+
+  async markRootKnown(commitment: bigint, root: bigint): Promise<StoredNote> {
+    return this.update(commitment, (stored) => {
+      if (stored.note.leafIndex === undefined) {
+        throw new Error("Cannot mark root known before the note is deposited");
+      }
+      stored.root = root;
+      if (stored.status !== "spent") {
+        stored.status = "rootKnown";
+      }
+    });
+  }
+
+  async markSpent(commitment: bigint): Promise<StoredNote> {
+    return this.update(commitment, (stored) => {
+      stored.status = "spent";
+    });
+  }
+
+  async remove(commitment: bigint): Promise<void> {
+    const notes = await this.load();
+    notes.delete(formatCommitmentForContract(commitment));
+    await this.persist();
+  }
+
+  private async update(
+    commitment: bigint,
+    apply: (stored: StoredNote) => void
+  ): Promise<StoredNote> {
+    const notes = await this.load();
+    const stored = notes.get(formatCommitmentForContract(commitment));
+    if (!stored) {
+      throw new Error(
+        `Note not found: ${formatCommitmentForContract(commitment)}`
+      );
+    }
+
+    // Apply to a copy so a throwing update leaves the note unchanged
+    const updated = copyStoredNote(stored);
+    apply(updated);
+    updated.updatedAt = Date.now();
+    notes.set(formatCommitmentForContract(commitment), updated);
+    await this.persist();
+    return copyStoredNote(updated);
+  }
+
+  private async load(): Promise<Map<string, StoredNote>> {
+    if (this.notes) {
+      return this.notes;
+    }
+
+    const notes = new Map<string, StoredNote>();
+    const data = await this.read();
+
+    if (data) {
+      const parsed = JSON.parse(data) as {
+        version: number;
+        notes: SerializedStoredNote[];
+      };
+      if (parsed.version !== STORE_VERSION) {
+        throw new Error(`Unsupported note store version: ${parsed.version}`);
+      }
+
+      for (const record of parsed.notes) {
+        const note = await deserializeNote(record.note);
+        note.leafIndex = record.leafIndex;
+        notes.set(formatCommitmentForContract(note.commitment), {
+          note,
+          status: record.status,
+          root: record.root !== undefined ? BigInt(record.root) : undefined,
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt,
+        });
+      }
+    }
+
+    this.notes = notes;
+    return notes;
+  }
+
+  private async persist(): Promise<void> {
+    const notes: SerializedStoredNote[] = [];
+    for (const stored of this.notes!.values()) {
+      notes.push({
+        note: serializeNote(stored.note),
+        leafIndex: stored.note.leafIndex,
+        status: stored.status,
+        root: stored.root?.toString(),
+        createdAt: stored.createdAt,
+        updatedAt: stored.updatedAt,
+      });
+    }
+
+    await this.write(JSON.stringify({ version: STORE_VERSION, notes }));
+  }
+}
+
+function copyStoredNote(stored: StoredNote): StoredNote {
+  return { ...stored, note: { ...stored.note } };
+}
+
+/**
+ * In-memory note store (lost on restart; useful for tests and servers)
+ */
+export class MemoryNoteStore extends BaseNoteStore {
+  private data: string | null = null;
+
+  protected async read(): Promise<string | null> {
+    return this.data;
+  }
+
+  protected async write(data: string): Promise<void> {
+    this.data = data;
+  }
+}
+
+/**
+ * File-backed note store (Node.js only)
+ *
+ * Notes are stored unencrypted — keep the file private.
+ */
+export class FileNoteStore extends BaseNoteStore {
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async read(): Promise<string | null> {
+    // Dynamic import - only loaded when this Node.js backend is used
+    const fs = require("fs") as typeof import("fs");
+
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+    return fs.readFileSync(this.filePath, "utf8");
+  }
+
+  protected async write(data: string): Promise<void> {
+    const fs = require("fs") as typeof import("fs");
+
+    // Write then rename so a crash never leaves a truncated file
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, data, { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Browser note store backed by localStorage (or any Web Storage)
+ *
+ * Notes are stored unencrypted — use encryptNote() for backups.
+ */
+export class BrowserNoteStore extends BaseNoteStore {
+  private readonly storage: KeyValueStorage;
+
+  constructor(
+    private readonly key: string = DEFAULT_STORAGE_KEY,
+    storage?: KeyValueStorage
+  ) {
+    super();
+    const resolved = storage ?? (globalThis as any).localStorage;
+    if (!resolved) {
+      throw new Error("localStorage is not available in this environment");
+    }
+    this.storage = resolved;
+  }
+
+  protected async read(): Promise<string | null> {
+    return this.storage.getItem(this.key);
+  }
+
+  protected async write(data: string): Promise<void> {
+    this.storage.setItem(this.key, data);
+  }
+}
+
+/**
+ * Refresh spent status of deposited notes from the pool
+ *
+ * Uses each note's pool if set (GrimPoolMultiToken → nullifierHashes,
+ * otherwise isSpent), falling back to poolAddress.
+ *
+ * @param store - Note store
+ * @param rpcUrl - JSON-RPC endpoint URL
+ * @param poolAddress - Default pool for notes without a pool
+ * @returns Notes newly marked as spent
+ */
+export async function syncSpentNotes(
+  store: NoteStore,
+  rpcUrl?: string,
+  poolAddress?: string
+): Promise<StoredNote[]> {
+  const newlySpent: StoredNote[] = [];
+
+  const candidates = [
+    ...(await store.list("deposited")),
+    ...(await store.list("rootKnown")),
+  ];
+
+  for (const stored of candidates) {
+    const pool = stored.note.pool || poolAddress;
+    const spent = await isNullifierSpent(
+      stored.note.nullifierHash,
+      rpcUrl,
+      pool,
+      pool && isMultiTokenPool(pool) ? "nullifierHashes" : "isSpent"
+    );
+
+    if (spent) {
+      newlySpent.push(await store.markSpent(stored.note.commitment));
+    }
+  }
+
+  return newlySpent;
+}
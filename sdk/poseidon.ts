@@ -0,0 +1,165 @@
+/**
+ * GrimSwap ZK SDK - Native Poseidon Hash
+ *
+ * Pure TypeScript Poseidon over the BN254 scalar field for 1-3 inputs,
+ * using the same constants as circomlib's poseidon.circom (and so the
+ * privateSwap circuit). Follows the optimized round structure of
+ * circomlibjs poseidon_opt.js; no wasm or ffjavascript required.
+ */
+
+import {
+  POSEIDON_C,
+  POSEIDON_S,
+  POSEIDON_M,
+  POSEIDON_P,
+} from "./poseidonConstants";
+
+// BN254 scalar field modulus (all circuit signals live in this field)
+export const FIELD_SIZE = BigInt(
+  "21888242871839275222246405745257275088548364400416034343698204186575808495617"
+);
+
+const N_ROUNDS_F = 8;
+const N_ROUNDS_P = [56, 57, 56]; // t = 2, 3, 4
+const MAX_INPUTS = N_ROUNDS_P.length;
+
+interface RoundConstants {
+  C: bigint[];
+  S: bigint[];
+  M: bigint[][];
+  P: bigint[][];
+}
+
+let constants: RoundConstants[] | null = null;
+
+/**
+ * Parse the hex constants into bigints (once, on first use)
+ */
+function getConstants(t: number): RoundConstants {
+  if (!constants) {
+    constants = POSEIDON_C.map((_, i) => ({
+      C: POSEIDON_C[i].map(BigInt),
+      S: POSEIDON_S[i].map(BigInt),
+      M: POSEIDON_M[i].map((row) => row.map(BigInt)),
+      P: POSEIDON_P[i].map((row) => row.map(BigInt)),
+    }));
+  }
+  return constants[t - 2];
+}
+
+/**
+ * Poseidon hash of 1-3 field elements
+ *
+ * @param inputs - Inputs (reduced modulo the field, like circomlibjs)
+ * @returns Hash as bigint
+ */
+export function poseidon(inputs: bigint[]): bigint {
+  if (inputs.length === 0 || inputs.length > MAX_INPUTS) {
+    throw new Error(
+      `Poseidon supports 1 to ${MAX_INPUTS} inputs, got ${inputs.length}`
+    );
+  }
+
+  const t = inputs.length + 1;
+  const nRoundsP = N_ROUNDS_P[t - 2];
+  const { C, S, M, P } = getConstants(t);
+
+  let state = [0n, ...inputs.map(toField)];
+
+  state = state.map((a, i) => add(a, C[i]));
+
+  for (let r = 0; r < N_ROUNDS_F / 2 - 1; r++) {
+    state = state.map(pow5);
+    state = state.map((a, i) => add(a, C[(r + 1) * t + i]));
+    state = mix(state, M);
+  }
+  state = state.map(pow5);
+  state = state.map((a, i) => add(a, C[(N_ROUNDS_F / 2) * t + i]));
+  state = mix(state, P);
+
+  for (let r = 0; r < nRoundsP; r++) {
+    state[0] = add(pow5(state[0]), C[(N_ROUNDS_F / 2 + 1) * t + r]);
+
+    const offset = (t * 2 - 1) * r;
+    let s0 = 0n;
+    for (let j = 0; j < t; j++) {
+      s0 += S[offset + j] * state[j];
+    }
+    for (let k = 1; k < t; k++) {
+      state[k] = add(state[k], state[0] * S[offset + t + k - 1]);
+    }
+    state[0] = s0 % FIELD_SIZE;
+  }
+
+  for (let r = 0; r < N_ROUNDS_F / 2 - 1; r++) {
+    state = state.map(pow5);
+    state = state.map((a, i) =>
+      add(a, C[(N_ROUNDS_F / 2 + 1) * t + nRoundsP + r * t + i])
+    );
+    state = mix(state, M);
+  }
+  state = state.map(pow5);
+  state = mix(state, M);
+
+  return state[0];
+}
+
+/**
+ * Hasher object on the native implementation, shaped like circomlibjs'
+ * buildPoseidon(): hash(inputs) plus F.toString / F.toObject / F.e
+ *
+ * Not a drop-in replacement: it takes 1-3 inputs and hash() returns a
+ * bigint rather than a Montgomery field element (F.toObject is the
+ * identity). Use circomlibjs itself for wider hashes.
+ */
+export async function buildNativePoseidon() {
+  const F = {
+    toString: (value: bigint, radix: number = 10) => value.toString(radix),
+    toObject: (value: bigint) => value,
+    e: (value: string | number | bigint) => toField(BigInt(value)),
+  };
+
+  const hash = (inputs: (string | number | bigint)[]) =>
+    poseidon(inputs.map((x) => BigInt(x)));
+
+  return Object.assign(hash, { F });
+}
+
+/**
+ * @deprecated Use buildNativePoseidon (same object). Kept for code that
+ * called the circomlibjs buildPoseidon re-export; it is not circomlibjs'
+ * hasher (1-3 inputs, hash() returns a bigint).
+ */
+export const buildPoseidon = buildNativePoseidon;
+
+// ============ Field arithmetic ============
+
+function toField(value: bigint): bigint {
+  const r = value % FIELD_SIZE;
+  return r < 0n ? r + FIELD_SIZE : r;
+}
+
+function add(a: bigint, b: bigint): bigint {
+  return (a + b) % FIELD_SIZE;
+}
+
+function pow5(a: bigint): bigint {
+  const a2 = (a * a) % FIELD_SIZE;
+  const a4 = (a2 * a2) % FIELD_SIZE;
+  return (a4 * a) % FIELD_SIZE;
+}
+
+/**
+ * state'[i] = sum_j matrix[j][i] * state[j]
+ */
+function mix(state: bigint[], matrix: bigint[][]): bigint[] {
+  const out = new Array<bigint>(state.length);
+  for (let i = 0; i < state.length; i++) {
+    let acc = 0n;
+    for (let j = 0; j < state.length; j++) {
+      acc += matrix[j][i] * state[j];
+    }
+    out[i] = acc % FIELD_SIZE;
+  }
+  return out;
+}
@@ -0,0 +1,1240 @@
+/**
+ * GrimSwap ZK SDK - Poseidon Constants
+ *
+ * Optimized Poseidon round constants and MDS matrices for BN254, widths
+ * t = 2..4 (1-3 inputs). Copied verbatim from circomlibjs
+ * src/poseidon_constants_opt.json, which matches circomlib poseidon.circom
+ * as used by circuits/privateSwap.circom. Do not edit by hand.
+ */
+
+// Round constants
+export const POSEIDON_C: string[][] = [
+  // t = 2
+  [
+    "0x9c46e9ec68e9bd4fe1faaba294cba38a71aa177534cdd1b6c7dc0dbd0abd7a7",
+    "0xc0356530896eec42a97ed937f3135cfc5142b3ae405b8343c1d83ffa604cb81",
+    "0x250f5116a417d76aaa422952fcc5b33329f7714fc26d56c0432507fc740a87c4",
+    "0x264065ad87572e016659626c33c8213f7a373b9b8225a384f458d850bb4a949f",
+    "0x2bb8e94ad8d8adca6ce909ff94b8750729b294e4400376da39e33fda24bd42af",
+    "0x19051065d05d861ec813c15291d46a328f6201b21ad5d239d4f85fbb09a5dbae",
+    "0x245bd0617aa449618f5bd4550aac7b8e08d4d1c017165943cdf4776cdff3434a",
+    "0x9fb1a1118074ff79d8acbf5b02131e048a1570155e0f2b1c36ad091d491a88f",
+    "0x234ab504bbae8198972741952f78b7eb018ea192f05e54c1484ab8973ff66d88",
+    "0x1f66e509b84c355ae3d4c3513a282fd48f9c8c6439f42a7835fbcfe0f2a324c",
+    "0x1b22f5d69d725e6002cf00dd9ee62d1a5af0efdc4910f54127a920ccc43f91fa",
+    "0x252b55edead135f852968b7f1c4f490fa659ecd5b47a78a7db91f65a6dfc23f",
+    "0x1773ae2e1637c92ad0677c2a047fea8eca4b53303f21871f6892a2c0487d7ff1",
+    "0x2d57b02906cd0ab82a79e76faeef6f87666eac093cf7715645d5ec9f7ac732f5",
+    "0xa16f3a62824b281e8b2ddb8fc391a498fb061317faffa03696f834596313d93",
+    "0x1666f525f7f4b6988d2a37834ab747eae0587757b788eb7f1e26b08e36a08591",
+    "0x5da44f8e0a3b8bb13231f0ca25b50b57f5c82128e1dfec3e541d912ebe17b76",
+    "0x9a39ba9993303ba191bac8bdb3e0144dbfb5f39624cdd9524dc7861633bc95a",
+    "0x6c0fb824a19202d30ee6b418c0029e100e85a6d158f9f2a828dfd2ed0920a68",
+    "0x387d8e056b2b176a9776b4492cb3b418adc660627e52bb3324283bf9522395d",
+    "0x147a1af82036ef5b28a7a37bea40d6ac3013cf1b62358396bf7156f5c2dc9684",
+    "0x3038d92060daeaaf1bd0482bd3f0613d88e8dff90a7a0525f9227e4cb7c6f81b",
+    "0x72940aa1d538a5a39a323f9e5d65616cf6c223339006f9789a97245532908f5",
+    "0x2d3d604949f4e14c70b8a879aedec49b3a367ba216af048f464ed6f15e2b9023",
+    "0x225b9e4f35c7549f80774c2b4d18309b2dcf7c7287b982e49746a176641e73c5",
+    "0x1ea781288fdf13b2190095a2344828e37dfe81c75a09709f0d139bbbf6c70414",
+    "0x8e96c3e7e8de4432b202405458468b90dc6890d4cee128b3502e5b6cb4aeeeb",
+    "0x5b43da7c8aa29af6dcaae57d070b49d29ce889a64a4ac183e85d55b366c805f",
+    "0xbec98a034e3b8af7ba4861f1ad5a48dcef7c996e7a51c7cdde724d8f610e52",
+    "0x2eb67ccfa29e2b422b9f84a5d0575fc435b30fcae303039480be384ee4ebe72a",
+    "0x102bbdc21a3f147bf04eedee5d70bd084a7105c631c86ecd2c4e8749a13915ca",
+    "0x274bc16c88721babfd5bbe8d8562c1bf127ae38915280fbb8e3115cad3582f79",
+    "0x185cece417549b25283de04511f769101c8850b409d4928ab831611351bd9938",
+    "0x13c73fb043f7e978bc9cfb55c7faacb4f4c823674abe17737059ac0a32c36007",
+    "0x24b3a1d83308742b360c9c60595673e201cdd4cef5a4145c933c4e5969481d70",
+    "0x18b5ae94df9ec97aaa2a8f0f42425bcccdc8266a070f866ef0f48d7a3744398b",
+    "0x20eb398cb958cc2ccc7cb1fac38501abbe38169b2d8522d9e5f099f2d5905cb4",
+    "0x1e588dd3ec8b0d252c2c7c0c78a02b22bbbad1f4dcaa2e78a8b8eef2f4e29344",
+    "0xf8bf3bd6c22ba3b1bf3ab2e3fb40818cd4217ffbaf294ca42331d4e3043a0a6",
+    "0x388c9fcf30fc2841d648f46bad01dd10bee9dc184d25eabc9f617021109cec3",
+    "0x2bb7f397c5941ac67befa8b232f15c8853dac263da793555441a90cec83b6454",
+    "0x17f389b52f9ea7a98874a4a31ef6a7beb43fb17db0e499250bb3f0181c59fb21",
+    "0x3a2090eacb897a31fb10561d560a9aeec24b7ad14d17b145f20c875a0b28c7c",
+    "0xc398534f0eb580f1fe4bf64553389e67cca4714399430e09619dcbee17ba099",
+    "0x7095ac9fda46afa7f181259e3635feffa7f11ee63f3ee777a5cebf4822328c4",
+    "0x2046f7cf1c8f13ef2b69cbc8bc0d5d809f82568abe2b33d1cd060958b1ced683",
+    "0x2c274136a5de2849de6e7f92f9097296501acb68d56138fbcb660c4cb0f69107",
+    "0x1c4d5178acb5c6b6eceef23afc6f16ec7b0383094cb6467e8d0f4507b3cf74c3",
+    "0x65b1447d0d64ceced116785b92c63a6a7dd9701507dcbe8b909325e28f7b8d3",
+    "0x2265d7e244881220c81a193d979330409c9bfa333438951340e023e7b72a1961",
+    "0x15b12b355af7e05637a1c76e67f9cec6fca8a6449b37669f6850502256b30aba",
+    "0x1a1522fecc6ae028e4d3e3029497b88f35c2b48c687af168ec2582d9075b4387",
+    "0x22f56e79e81b7496e472a641a053c414bcc53b0a9350e2589240803076f58f26",
+    "0x202ddb66d0988994e7aabad692ceac4e2324672a17ab8417d1ee278afd17fd0c",
+    "0x12b0701e8813c5b21a8e30208f8f1158b96cd428ae77bdea72f84510f73edfce",
+    "0x1e63fd20e706e1407c8838ceb26b84c9fe693fdde0eb1e1a9df7e84e53eeee7e",
+    "0x20a16c5a86256deffd15af174c39f9d9aa11500676ac7e570088280dd1896259",
+    "0x1c8f8bf8e153da55ad5aca2eaaee38da563e0435c0f2f37c27558fb9bae0a3eb",
+    "0xd7732687bb7bf5f3aabcfdcc4fbb67e159c1983213e416c3880124fddf187c9",
+    "0xcdd04475a86999a2edcbbbf8264b195e108b3b60b6475d835f6ccef9e2f6865",
+    "0x2fe65586cd4e754b4c63a88c2ed3f9ba0e3bfa43f547b41153560c214fe3cbcd",
+    "0x503cf963c8273604e659128ec29261f62399815d98c56dbf4f2837c727ad4d9",
+    "0x1ee48ea27839061b78379936f6d97ca9400b393ef5fdf38ef1475c8742cb334c",
+    "0x1a423f8d8fc892b22d7cd5bf0197c575c579e83563d04859d73b2c1c5c0413f9",
+    "0x69a0da50133e9952f00e61778972a7be0e8d8ab76c95616ae465636abb97ec7",
+    "0x1bf7879dd42f2cbb91c65a0976356f67964c2f94dfbf0e44cf2b9909165d8614",
+    "0x1b23dccf485822065c8fc0afe610be7164e25056267f6c4a805fffd4547a0b98",
+    "0x2ebe90d6f6fdca420e0c2e004ce5c5a4409e564c9c4f3671e3011f627bec7c2e",
+    "0x167cd6930535a816dfebe81d20c376e77687760f3a2fa0da290b2f4d6c6863f7",
+    "0x8865c10f4a633c54ccc8b68b79df285f19f1210374cc64e3c8a966d4f90264b",
+    "0x1de902fbc0bf01951ca25abb39d78894721b37e071851b03a72cc6b833b7893b",
+    "0xe3eca007699dd0f852eb22da642e495f67c988dd5bf0137676b16a31eab4667",
+  ],
+  // t = 3
+  [
+    "0xee9a592ba9a9518d05986d656f40c2114c4993c11bb29938d21d47304cd8e6e",
+    "0xf1445235f2148c5986587169fc1bcd887b08d4d00868df5696fff40956e864",
+    "0x8dff3487e8ac99e1f29a058d0fa80b930c728730b7ab36ce879f3890ecf73f5",
+    "0x84d520e4e5bb469e1f9075cb7c490efa59565eedae2d00ca8ef88ceea2b0197",
+    "0x2d15d982d99577fa33da56722416fd734b3e667a2f9f15d8eb3e767ae0fd811e",
+    "0xed2538844aba161cf1578a43cf0364e91601f6536a5996d0efbe65632c41b6d",
+    "0x2600c27d879fbca186e739e6363c71cf804c877d829b735dcc3e3af02955e60a",
+    "0x28f8bd44a583cbaa475bd15396430e7ccb99a5517440dfd970058558282bf2c5",
+    "0x9cd7d4c380dc5488781aad012e7eaef1ed314d7f697a5572d030c55df153221",
+    "0x11bb6ee1291aabb206120ecaace460d24b6713febe82234951e2bee7d0f855f5",
+    "0x2d74e8fa0637d9853310f3c0e3fae1d06f171580f5b8fd05349cadeecfceb230",
+    "0x2735e4ec9d39bdffac9bef31bacba338b1a09559a511a18be4b4d316ed889033",
+    "0xf03c1e9e0895db1a5da6312faa78e971106c33f826e08dcf617e24213132dfd",
+    "0x17094cd297bf827caf92920205b719c18741090b8f777811848a7e9ead6778c4",
+    "0xdb8f419c21f92461fc2b3219465798348df90d4178042c81ba7d4b4d559e2b8",
+    "0x243443613f64ffa417427ed5933fcfbc66809db60b9ca1724a22709ceceeece2",
+    "0x22af49fbfd5d7e9fcd256c25c07d3dd8ecbbae6deecd03aa04bb191fada75411",
+    "0x14fbd37fa8ad6e4e0c78a20d93c7230c4677f797b4327323f7f7c097c19420e0",
+    "0x15a9298bbb882534d4b2c9fbc6e4ef4189420c4eb3f3e1ea22faa7e18b5ae625",
+    "0x2f7de75f23ddaaa5221323ebceb2f2ac83eef92e854e75434c2f1d90562232bc",
+    "0x36a4432a868283b78a315e84c4ae5aeca216f2ff9e9b2e623584f7479cd5c27",
+    "0x2180d7786a8cf810e277218ab14a11e5e39f3c962f11e860ae1c5682c797de5c",
+    "0xa268ef870736eebd0cb55be640d73ee3778990484cc03ce53572377eefff8e4",
+    "0x1eefefe11c0be4664f2999031f15994829e982e8c90e09069df9bae16809a5b2",
+    "0x27e87f033bd1e0a89ca596e8cb77fe3a4b8fb93d9a1129946571a3c3cf244c52",
+    "0x1498a3e6599fe243321f57d6c5435889979c4f9d2a3e184d21451809178ee39",
+    "0x27c0a41f4cb9fe67e9dd4d7ce33707f74d5d6bcc235bef108dea1bbebde507aa",
+    "0x1f75230908b141b46637238b120fc770f4f4ae825d5004c16a7c91fe1dae280f",
+    "0x25f99a9198e923167bba831b15fffd2d7b97b3a089808d4eb1f0a085bee21656",
+    "0x101bc318e9ea5920d0f6acdc2bb526593d3d56ec8ed14c67622974228ba900c6",
+    "0x1a175607067d517397c1334ecb019754ebc0c852a3cf091ec1ccc43207a83c76",
+    "0xf02f0e6d25f9ea3deb245f3e8c381ee6b2eb380ba4af5c1c4d89770155df37b",
+    "0x151d757acc8237af08d8a6677203ec9692565de456ae789ff358b3163b393bc9",
+    "0x256cd9577cea143049e0a1fe0068dd20084980ee5b757890a79d13a3a624fad4",
+    "0x513abaff6195ea48833b13da50e0884476682c3fbdd195497b8ae86e1937c61",
+    "0x1d9570dc70a205f36f610251ee6e2e8039246e84e4ac448386d19dbac4e4a655",
+    "0x18f1a5194755b8c5d5d7f1bf8aaa6f56effb012dd784cf5e044eec50b29fc9d4",
+    "0x266b53b615ef73ac866512c091e4a4f2fa4bb0af966ef420d88163238eebbca8",
+    "0x2d63234c9207438aa42b8de27644c02268304dfeb8c89a1a3f4fd6e8344ae0f7",
+    "0x2ab30fbe51ee49bc7b3adde219a6f0b5fbb976205ef8df7e0021daee6f55c693",
+    "0x1aee6d4b3ebe9366dcb9cce48969d4df1dc42abcd528b270068d9207fa6a45c9",
+    "0x1891aeab71e34b895a79452e5864ae1d11f57646c60bb34aa211d123f6095219",
+    "0x24492b5f95c0b0876437e94b4101c69118e16b2657771bd3a7caab01c818aa4b",
+    "0x1752161b3350f7e1b3b2c8663a0d642964628213d66c10ab2fddf71bcfde68f",
+    "0xab676935722e2f67cfb84938e614c6c2f445b8d148de54368cfb8f90a00f3a7",
+    "0xb0f72472b9a2f5f45bc730117ed9ae5683fc2e6e227e3d4fe0da1f7aa348189",
+    "0x16aa6f9273acd5631c201d1a52fc4f8acaf2b2152c3ae6df13a78a513edcd369",
+    "0x2f60b987e63614eb13c324c1d8716eb0bf62d9b155d23281a45c08d52435cd60",
+    "0x18d24ae01dde92fd7606bb7884554e9df1cb89b042f508fd9db76b7cc1b21212",
+    "0x4fc3bf76fe31e2f8d776373130df79d18c3185fdf1593960715d4724cffa586",
+    "0xd18f6b53fc69546cfdd670b41732bdf6dee9e06b21260c6b5d26270468dbf82",
+    "0xba4231a918f13acec11fbafa17c5223f1f70b4cdb045036fa5d7045bd10e24",
+    "0x7b458b2e00cd7c6100985301663e7ec33c826da0635ff1ebedd0dd86120b4c8",
+    "0x1c35c2d96db90f4f6058e76f15a0c8286bba24e2ed40b16cec39e9fd7baa5799",
+    "0x1d12bea3d8c32a5d766568f03dd1ecdb0a4f589abbef96945e0dde688e292050",
+    "0xd953e20022003270525f9a73526e9889c995bb62fdea94313db405a61300286",
+    "0x29f053ec388795d786a40bec4c875047f06ff0b610b4040a760e33506d2671e1",
+    "0x4188e33735f46b14a4952a98463bc12e264d5f446e0c3f64b9679caaae44fc2",
+    "0x149ec28846d4f438a84f1d0529431bb9e996a408b7e97eb3bf1735cdbe96f68f",
+    "0xde20fae0af5188bca24b5f63630bad47aeafd98e651922d148cce1c5fdddee8",
+    "0x12d650e8f790b1253ea94350e722ad2f7d836c234b8660edf449fba6984c6709",
+    "0x22ab53aa39f34ad30ea96717ba7446aafdadbc1a8abe28d78340dfc4babb8f6c",
+    "0x26503e8d4849bdf5450dabea7907bc3de0de109871dd776904a129db9149166c",
+    "0x1d5e7a0e2965dffa00f5454f5003c5c8ec34b23d897e7fc4c8064035b0d33850",
+    "0xee3d8daa098bee012d96b7ec48448c6bc9a6aefa544615b9cb3c7bbd07104cb",
+    "0x1bf282082a04979955d30754cd4d9056fa9ef7a7175703d91dc232b5f98ead00",
+    "0x7ae1344abfc6c2ce3e951bc316bee49971645f16b693733a0272173ee9ad461",
+    "0x217e3a247827c376ec21b131d511d7dbdc98a36b7a47d97a5c8e89762ee80488",
+    "0x215ffe584b0eb067a003d438e2fbe28babe1e50efc2894117509b616addc30ee",
+    "0x1e770fc8ecbfdc8692dcedc597c4ca0fbec19b84e33da57412a92d1d3ce3ec20",
+    "0x2f6243cda919bf4c9f1e3a8a6d66a05742914fc19338b3c0e50e828f69ff6d1f",
+    "0x246efddc3117ecd39595d0046f44ab303a195d0e9cc89345d3c03ff87a11b693",
+    "0x53e8d9b3ea5b8ed4fe006f139cbc4e0168b1c89a918dfbe602bc62cec6adf1",
+    "0x1b894a2f45cb96647d910f6a710d38b7eb4f261beefff135aec04c1abe59427b",
+    "0xaeb1554e266693d8212652479107d5fdc077abf88651f5a42553d54ec242cc0",
+    "0x16a735f6f7209d24e6888680d1781c7f04ba7d71bd4b7d0e11faf9da8d9ca28e",
+    "0x487b8b7fab5fc8fd7c13b4df0543cd260e4bcbb615b19374ff549dcf073d41b",
+    "0x1e75b9d2c2006307124bea26b0772493cfb5d512068c3ad677fdf51c92388793",
+    "0x5120e3d0e28003c253b46d5ff77d272ae46fa1e239d1c6c961dcb02da3b388f",
+    "0xda5feb534576492b822e8763240119ac0900a053b171823f890f5fd55d78372",
+    "0x2e211b39a023031a22acc1a1f5f3bb6d8c2666a6379d9d2c40cc8f78b7bd9abe",
+  ],
+  // t = 4
+  [
+    "0x19b849f69450b06848da1d39bd5e4a4302bb86744edc26238b0878e269ed23e5",
+    "0x265ddfe127dd51bd7239347b758f0a1320eb2cc7450acc1dad47f80c8dcf34d6",
+    "0x199750ec472f1809e0f66a545e1e51624108ac845015c2aa3dfc36bab497d8aa",
+    "0x157ff3fe65ac7208110f06a5f74302b14d743ea25067f0ffd032f787c7f1cdf8",
+    "0x1b0f68f0726a0514a4d05b377b58aabc45945842e70183784a4ab5a32337b8f8",
+    "0x1228d2565787140430569d69342d374d85509dea4245db479fdef1a425e27526",
+    "0x17a8784ecdcdd6e550875c36a89610f7b8c1d245d52f53ff96eeb91283585e0b",
+    "0x9870a8b450722a2b2d5ee7ae865aaf0aa00adcfc31520a32e0ceaa250aaebaf",
+    "0x1e1d6aaa902574e3e4055c6b6f03a49b2bbdb7847f940ebc78c0a6d3f9372a64",
+    "0x2816c4fa6b085487e1eec1eefd92ee9fef40f30190ac61009103d03266550db2",
+    "0x17359fd88be36ba867000e83f76ffb46660634efbad15dcf4d4d502d427ff51c",
+    "0xe3004cb44ba455a3f16fefbd0c026404cbac203c0f236baad879610b8661022",
+    "0xa55f276af1ceb6ebc6c6820f334b26f11ca4af98c833bc1b496193d6b04a7ca",
+    "0x1ee4b0458adcd4c4861a27adc1404a5981d320b6b8e20e51d31b9b877e8346d",
+    "0x14315e2753e7fb94f70199f8645d78f87c194a4054e69872b3841da1b4f482f1",
+    "0x2b7b63ecffd55d95c660f435ad9e2e25f266cb57e17ebd1b6b0d75e88a6a56d6",
+    "0xbb56fa3e9fd48ab46d4e7295bbe1204b652ebe958221860f56e38db80d83c0",
+    "0x50653bf5dd59edd6d15fa6071f5005057218b33a8f92a58b9c2656081249f82",
+    "0x2c575423e24b522655c5a976c65d069287900c8d5825514098c5b13c86f1fcdc",
+    "0x2ff3a2ccdee91e09a32f74232b704cdd99f72c1f78557a2ce568b07e218071d7",
+    "0x1144734901a81c1543b8bc6fc9d365f50469eb89949491d3693dbe9c6238d90c",
+    "0x1eff9a954e24bcd4af20b6ab74d89e1cd38bc694a9e75ea6da217a98db80cd22",
+    "0x14707de7496c5638f97fe9bd7d485c20ead6bfdbfc0599791e49fad0301cd6df",
+    "0x13d0de341ba819f90fe3ef1f7ce0a54d8538acdd9b3ef840a91d48ee536042b8",
+    "0x26520ab1d20055daded712d59b07088458c18afbd0da58aee9f151a903372ba1",
+    "0x68cb4827ac485fc6e7537a3c0a06d08a4c2790f5c65d9866d75296999f7495f",
+    "0x7d6baaa2e587c21b03dfa0eb71136e2982cb389b438c8bc282748d0e674e89e",
+    "0x15b92d36db02cb16b831eeab2e6ed75d126ffbc274cc3362370851526de13d27",
+    "0x277b9ce89133de7b7918ad5fcfab7323ef5b9c1916b588cd7e5a0d814cbc3395",
+    "0x2ae847b66b3c5d73b70b733040aa86c51f737092d65c3492d529000fa1802b24",
+    "0x2fa3e8ae1fef974cded6aba6dc25cf567e16e0af29e675706643f21bf8efd651",
+    "0xb1d4b9508cec4d19aa53f4efe46c57952dbd368fcbcd454a8b1087bc18a2088",
+    "0x2d381014d01578b888b3273270babdc393ac392e7958be0478947fafa569bb0",
+    "0x2e79a827c85406242523a94431007021bc865a45cabcba4368c41d4486fefec8",
+    "0x207c99b7d594a5c61d7e60cc2365c4c0c804cd434098af6244f0a00c259b347",
+    "0x119c124086ea58ebb83f14f262c693424360e97e6fb42ae8596badbe9edb2dca",
+    "0x104ff38cca0f00173ccd0b68bddba09fc543f074f753bd8e413f8334f887a251",
+    "0x2f5b5377bd156f89845811eb262436638dc038b8cb10e147a87df4c0e2384253",
+    "0xf70e8e02d1d23968930a8e0db69b1c20204f3e3b4cecd101f81476d0b5ea996",
+    "0x1ac4653a51071ae722f90a03f006d8575814db782b7f19f607dae4d56ad586b3",
+    "0x12b12600e3bfd8e7bdfae5ef9c4f3805fa41e74acabf7de817823017a8b23db9",
+    "0x11b9d19908919dacb7e0f8d0ba77286d417529a18a1d89c405ed1c30289fdd28",
+    "0x2c350d245f4f75864744f88dbff8fe335b00f4fb688895c1363a7484ace820d3",
+    "0x16a7f76fd2b2147db6ef94c22c78bff782de17ef73e52da7df82603f422b461f",
+    "0x1d18d8024be1e96ec25626af06a139f6093545aa504033dac7e285d1cc3db3de",
+    "0xc8cab1ad5998072945b9b88228f53c295466819fb94d8f6a9ed449be8f7c18c",
+    "0x1a68d133d703cd406ca30041913ce3423c73b13384187ab1530109b756ad4f7a",
+    "0x24a58b9e86ce823ff4c45342941417ff23d03c80fcdef9498ca0d860855e01a9",
+    "0xe6315c93fbb89d38021148b6c35320fb793c41c6a4386d6aed6acfe2f952c57",
+    "0x2c3806d99a69ce63299e876f5f218c7295d87224795d7568d558696e34c692f8",
+    "0x59c893a771e94774d49a356494568dd376856ab89705dff25db8273860fa04e",
+    "0x1166d9819c4faae8982243d0deb1f8977027d5cc56bf52ce260bec5e27e8b0f5",
+    "0x12806fab3fcb09fc2b79406c3c203c4965fc7259112af2104312e1537327e0a3",
+    "0x172015e0e33736058f60aa33e82d3dd73dc3ead89f98ded0dba35dcc1d8bda2c",
+    "0x77ba18800d852d0a34f70ae8cfd68a080296bf9d47a1b40de7e6fd6392a0d30",
+    "0x2094ecd768bfa8f0df0d78d0d946e1aff4a2d38e029e41479d6e3c0fe79fa8b9",
+    "0xccebd302afe84c20ff774d3c1f650ca7cd0bca08baa1e261da9c7441a823f89",
+    "0x5b9303053bb40c73671f5d55b4052e0d5549871f1b5283f01485a6b568cd05",
+    "0x2527289084ab492275b4cd67d38311a2b816eaa68ee6bdb2389eeefd6ba4c721",
+    "0x2222f9738290d8d5f2a3eacdad95f12cd4e7417ed2661b012f6448c7503877f2",
+    "0x226c8208f26d69e6b7e02fe26557e6bd160fcbe27ee741fd1e581161c1789354",
+    "0x216b208c0261f3c91faf609e15f7a9d4853e40d9204496b2441115d73c2941c5",
+    "0xe0d660e046a259f3bad6829729b6ae3151fbcd75de33b122fe134ca3d5a4dd6",
+    "0x240f039d2026b3266f39ba5c4ec48ac6ace88aadaef991498cd52daaa0ffbba8",
+    "0x28c8cccf7b40a2c3cfd2eee0ec4d160a876a4dfeb408ffe333e92fa5e1ee4d79",
+    "0xd7f81b4b46d4f247c4243f045a852cc957d2b2923d28eb2fa77b5a9844efd69",
+    "0x2be432f87b2c5094a82c788457651dd8cdb0200ac3b42860cbf54475996b772f",
+    "0x13ea39f2d63d9adae187af14dd07b533d45a63435e0ea4e5e555d35e70d4016b",
+    "0x29e3b1afe1973be9cd1cf4b047325abfaa65cf2b98ff3aed47870461977ec921",
+    "0x8db7d684e6b841b5e9692498f95a1f950a1cf1eb638bb4e48f3bc1a3c571197",
+    "0xf4f1041a976aa05196da1c042124e3277ea1a28fb6eeeab4bec1243bd31618b",
+    "0x5a9d0526d6f18c86b255f00e86ec34e7f8a26c251b51c21fe4c12bdc4c0ff1d",
+    "0x284b0304dd6ce669bcf650c5ab85c89d4410d472aa6eb00df1b8d17e52f2f3ff",
+    "0x2363e9b01a0163598962ff86907002f95902e725049294ca7ab10cc7aa3f06ba",
+    "0x2c2db12647c4c0461dd3290a75c5f2fd8d7f115b3e040cb05dd7e3ad260d842",
+    "0x2e3c42f671431f9560f3d0863ac445052422d5b993e9fda6b81486b14ffe3a74",
+    "0x1d38441f228c0ce22ff2882560f5d7ee3b4c0caa101371cb7782ffd97af5fff1",
+    "0x268141b0e49c59eab1d573ead4e2e1f379364dd133f2cec574c25ade2c794287",
+    "0x2209cb2e187df1522810d3f28868da6cf52af9a65dbd7b806049f472d966374a",
+    "0xa5eb2510e6f804d1830d7974ac1677d082034e5388bfaee91a319eca7c1ffab",
+    "0x1cb2864c38800736f8f3ad98669d3ad7a9d5ee52138e96b8a7015e1089e36ae0",
+    "0x2af8ed05bfc8f8ada547ee9bc6c7c6c5e8c15c6c0d380a3f9aa277273321b54e",
+    "0xf85d1593b35be03f79b222885555a252bf1f0a3911d784132c49b1a96ac0f3c",
+    "0x29095192ec53e0b859eba456295d95bc4567d351a6dad391b8b89707855008c5",
+    "0x1a92efde1f5fa56aeb02b4c4b8f51ac80831f898c7843407113fbb6011177854",
+    "0x2a05e8deeea15e4377c080aa70fd6a86dc73f3fdfa6b55f5610614c184b0b02e",
+    "0x12119f3b019cc3fc46ecc80893e86f510b1dd4030b2ce28c9dadcd1e71ad4891",
+    "0x42b6ffe687bc23a2bf6b73317286a543c60ed122fc225aae742c3a1c2dd3a1d",
+  ],
+];
+
+// Sparse matrices for the partial rounds
+export const POSEIDON_S: string[][] = [
+  // t = 2
+  [
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1fd20dcb58503896fd52998d6a5be6f12ec33b3cbd590c793e45de825ff8cb5f",
+    "0x8c8295df0ba11861e97f0cdde8f202a7096c1e6452d33d64a11b5be4e0a1efb",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2458ee6d7c526073d165d2b08b95cf8947e20e05a76bc12b401b996421e89835",
+    "0x18c235e6e723390aa65baf06ffa557829f78a2fe1fbfb44eef84e938209c92f9",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1868e106689f8ea2e9c561b4b192899d07b52e58595c393436c37df24976a584",
+    "0x2d5161804f0ec6445cb8904ad3e8e9ec21153350df4075c9cbe840b7b609ca92",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x3510550ddf6292355c690f03b9b815aab2dc3f4914612da7ecb79ddcf7b0b90",
+    "0x9a2e7bb3b278a1d5f264a26345ad8365efe0058403d8a52909cf2d5f6ee6170",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x13dd4148c491a166b015a7a4233f4e488ae94a0e6439be66fe149b50b55759c0",
+    "0x1d2d3b261f5beb3fc010f42ec3825649d90150eee4ce55dc9f86ddf110295550",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x221b4477678dad4e2abcabb47eb5e7a4129190b3855ae4eecd8ba68643ff77e5",
+    "0x16b76448e9855f165f2043f5f09bedf1830a4998ff45ebc25f1d40e8e8fcd6e4",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2a10b6a2cbae9578142cf66104b69e448eae6d3bd53ac8602363460e2286c92d",
+    "0x2db84dba4a9d96cebe94dfb1d59edfa58ccfa871b9c067c522e31949b69f2bec",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1ca9bbf26402238296ad897ec1a55b4fc273cf20c1f68f03d5c149be890e7b60",
+    "0x283d37fa5e35d25c83d1b9d34ecb00cd03848ca730ace52f367e0d7b5fde30d6",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x349057941b141ceea5a063a0ff8ab221271e618a174e5d8009ab5f9c791d960",
+    "0x1af2e1d98c3c09908503883d3b9ed50fe8958eb1e5d6538016c344d40070efc2",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x5b7bddacf4522b0aa3082e2c05448962743d0023bb6402291f592e6c1da4679",
+    "0x1fceeccf337e8a903cf6a0c21a6445da7ff8c4a0bc78909c7e704131c8a35241",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2f30a25f4d843e28afdd850f31d1920ee058dfb6d91c322fc960473e917a6768",
+    "0x1a55160bf49a4936bcc59162617026194574a89e5857751b68f3c08f7c07ce87",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x19c66ee887ab4763b17573b6ad192b7df1af24f54761998b03b342b95709041e",
+    "0x1a82828b7f87eba7f5f8624b31e1115506ab3e723266777b3789c9104f9c781e",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xf506d3199d96083de9fc4e71b250825e84a242d81ae3a81d99debc7faed3385",
+    "0x1cac7482d91faef657db9072a97567ff172374d99987a8b24b2c04472aab9f83",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x249b26b1d4e333b23f3192f0e4f52884ee63d489ee153ecc3216939a72848150",
+    "0x13d1aeb10b225e2a8b97131154407d1bf145972dcd3a0073339dca336180dfb1",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xb90f72b7fcf867eb2e0f9400787d1dd52720cbc14a7095784e4116624d16df3",
+    "0x25e346edd8dd55142abd2135951398230f0c8d08bc5c365c5a6cd70011a8f39",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x263003b8ed502577c6427b0b4589ef6ceb87b4e21b7c424e587f2630a7b868a2",
+    "0x2d92ef6b8bdc53dd1b6c5b1c92e5a8248eb9c12255b910ff89c09961ec12ead7",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2eb36b6d0bfc593a8d6d9459a7af04f0b15bcae4181bbb123543870c11316681",
+    "0x1e48bb591146f461c1d2f085f3979139e37f4a5c2354952c833b2791f59034e0",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xe759913751418871f0351ee180ca466cf8a03f541079c1b51bb001550d8162a",
+    "0x1e45e194b16936c5b1f81c72eb0fe8c62e859c4661b14b7e327503cf49eca55b",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x28c8b58c9e4cfb830a51af4529318b6269c4f6ac1867ed1174ce4aefc57fbeb3",
+    "0x255b293fcb1be27d9e5aafd4cd28c26746fc3520889367eed1355c2c41b93016",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1db1367a8e37c5597835365bbfa66f6ecf40da775a54c35d5c94da70415544fe",
+    "0xcdd97951c2f0b885edc683b9db74f08df61286578a69989a9fed7ca34c5b4ce",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xe4d4e42cacb9fa6745c6dd3630ec5a4cca8a912b7ec28576ab3ba29c57306c9",
+    "0x2141a925c279e4c4e351641744750d4702d90ef2137d1905dada0bae3c7b3af6",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x8f9f9b3abc79ed89c20597cfbfe49021119cc50648ce401dc50cb042a54d167",
+    "0x6af6c072313d868cd945c9f0eb7d4eadb24c8d4763fa042952b99353df2b236",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x8b43c97bf4a40b4f376d1fa0c5e6e6955cbf9ba301f878ed3eae4ac812b79d1",
+    "0x11e0e607ac6781ca34a714e6c5b7a4f839852377446520032420e2abe16115a7",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2dd7f0e1b303f425cb7e6b1c30ca428b3bff751e7b651152eb4de008b2c00da6",
+    "0x107d7f92d1c6a24068b917120f993ae3ee84349aaadb71eaa4128b349812dda8",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x10ab9e8e4ec9ad5fdb1166c64ed2fc3223c7e16dd982f66dcd820a7861ae1463",
+    "0x3000d3b3ddb3fb864ccc729984468a7317397713303544a84d7de1d209d25cb1",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x17610359e624e7feb3eede8099a1dc45c4a0c6b2debc2dc8f200fa27a0da6ebd",
+    "0x2affce5b7a7d8c5aac04f6c2708794cd01a8439b65d74df5982d24ad2a944eb8",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2d439fbefe8d2b65ed32658bd21fc5604408d5fb69e1f64965e5895ca61c6e09",
+    "0xb51cc2a1b1c329fd72a286d4938540db3cfc4320de363a3f68a7935cd193ab9",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1468ea2868d31f7ebafe78af8c24656a3185963272f34c51d5e2695c43bd3247",
+    "0x29553949324f27f4fa7bd734920e9be7b662a0ec5797fdd4ed3fe19464879b95",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xd9780ee7d395f7c977fd4b86329f6cd720047a7f9d1672d18d2cfb428343afa",
+    "0x210a098afd451fca3997860e220106c7487f4716831dfff78036de18f17cb31d",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1cedcfe2751b360e73d6ef5af88cd5b75a2b2d97c571889a0dda87a0dd90ad81",
+    "0x22719f26e16723c1bd45a619e91836c340a304f3648672f90de2b047880aee03",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xae0cec959c4c7859f670f19c7490f8eef6ad66346e04613c1350597be000be2",
+    "0x177560de731482bdb7316c238bc38f20a16cd03edda2e0393b1c515ec64b0727",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1f19a267da0b8fc2b4850a4f458add5514edf0aad6f7a7f175aef0b98e816a40",
+    "0x1da77cdeff9cf822b54509031ea2888f6f398051ae1870afd3770e7724c09f31",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2d1e17aaaa96743665a869970255c267ba338cfd43ec9b33ecaa764f48f17a8",
+    "0xc376a8ff1da39dec980316ea26ef66fae5c86877a8f82266c14670024329d12",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xbb856048ef43a77b39560adeb3c7a9a783db5cad8e3f422495a69c56680a79",
+    "0x1d81808a3c73be1bb2c99b6403f3ac4a532c88d29ad652cbb20061656006c19a",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x15e52ae83a9db363d24cc5900df8ff0b81e445d4409a0e2aafd3223c354add62",
+    "0x2aa2fc03cb5f72e237f7d88ef66f765a159be533354ffb88751abb8885203ad4",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x10afedad881a1da7dace5c69546d0890bc35f41992b1062a7c7789b03ac932c0",
+    "0x1d18193701979ad24042446e947dfedfad22a6e7d4f6bde875fe2d8c882c858a",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2f0b8457690e4d9770beb0300a09fc7001cd417061e826bc450dd96d7b24f36",
+    "0xdc31897d61d70e16870e0b02b9776bc53b8b9848be3062f8da18ff9d981effb",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x203c94bb7694f9cdad3a14a7603e3cb69c141200fd46bdc9ebb0d5d73663525",
+    "0x2b778a231f21f8a6cdaa3c84372933e610eb985dcc81af9926fe8b09f1afc81f",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2c8a0376c766055e6a9d5272a2466a28faa7e359db111e84d98b2138c8c9d5d2",
+    "0x2ffda33f5b85a4fde16ba590ae0cd49fce4ad01e095f94f49138fe44aaa8c778",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x318af53cfd822ec2a7f4d40614f72fc6cb27f44067fb58d15789bbe15444844",
+    "0xd24997465c5b23d4e7436a4ecef2f91ce9f8910b6fa8a4a3ba6f884bd7206cc",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1ea39e4d9edebf65d648e42880b396a6becfa66b3c5e47ff9a33577a3d2a658",
+    "0x15e4e016c94a026fd9ede9bdcf11268f7735cf5ebdbdd4a092fda1ee8b50f2ff",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2ef185c4b1cdb7072a82fd43fe4bb145c4dbd04973fb3ef76e757b00392eac9d",
+    "0x15cedc8a4ef6f7017d1dd3d92255beb54f1d7d1e3bb0204cb07ab81c71435902",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xdbf148ee8983db0c117b111270f1c2c8219565733684494eaf5ce0645e5749a",
+    "0x2842f44ddc05dbd5b319b1efe6b3eabced380b99ffc42dfb08805ea2b4c48aab",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1aa07e7ffa4a036f1b7efb2e124e75028426fdf5f1e4fb8bb62e1ebf3298af2c",
+    "0x1e5a2abded8c7022a8ba97ea683b605d09f017fd43e92296656561eb96d25d32",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xacf3ab02c018573bc3d36b0cb73de6df11e8cc1dea223e98a2a0cfbc028d2af",
+    "0x1bab48ad2c31dcec5fcc6df1f02dc4164f949202122673b06105f7ff1beabb29",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1a36af3ad1c61cddc06a2a4c6967dc004b589a4a8b358ded11a38cce6a7f31c",
+    "0x125e0e822514cf49536fa643a66e1d2fa6788cb5b4805c9cd3cb69a584e0d8d2",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x85be8486ecb3dbf71d63940d8d689f9b142434a14d5d4f8c93d7d0f17bfcbd3",
+    "0x275651360d88063b2feead8bc71ae9c002d5db9822ab63b058f11e0d506b17e3",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xf7eb245596d9ac5ecc21446ed94c80289db1e1f9f620c18f7815b247b228a6f",
+    "0x221862a04a00f406bc67f7677ab459c9d887c8bb88091513f0fc2fb103ad549c",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1bd575603b7085afcf0a588a5fadf8705cda7eb1d4ab7e70137dbd47fc26e3a2",
+    "0x146d1d176245ff772db8575d986a82e931079de61e67184c4158a6f62db446f1",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2202ec1e7fd85c4749393664f024d578d392d59cb12a42e2ef4fa728da4cd3a",
+    "0x1c0e72693a0e12bff0ab3e12a1203c846b5dfdb9dd5ba26a7309c6970371421",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2b3d8733bb4872b6cbb0bd83378163ab14a585dbf5ad9758c07948de056071e0",
+    "0x185d12aa30aed1a0575b9d3dcee6332f4fa34643a429cfdd8de0fdc87a29640e",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x1b394227301f28bee29bd3dfc35dfcc8e1c60ec6dd944dd33593a9a77675f641",
+    "0x15b1cfd522bdc418f6c08a3deb114a4ff48854b4a496537d41eb3a325f2265e7",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0xbca3aef46833e8a30a9db0a16b59abc619800d2da15da01dd5a0713ff4cbbb8",
+    "0x529062596e51b8ca2c2f8c7cf4adff0853150015e2e6b4ce7af212500f5e6ca",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2fda517f4261325a7366a45da1e847cd150d022be2982eb6105dcfc31fdef60",
+    "0x1fec5a09cea4d25e5b7ff9d2fbab64d264db993e8d8629b7154a1539d12dd1cf",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x2d87776eef5dfabbe5605094751af17b831717fa3f8e01943b74d1a9a42eb1bb",
+    "0xd257a437910f3995aebd0afb9be584967afa4188c4684958f68c39f9f01ff19",
+    "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+    "0x98f0aa06092ed2cbcbac004f90799e6e1c32fc24a9f0b6066f8d7289716aee4",
+    "0xcc57cdbb08507d62bf67a4493cc262fb6c09d557013fff1f573f431221f8ff9",
+  ],
+  // t = 3
+  [
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x3f0815ab463f1b76ee25a9b8768b3231a89752f427f4f063ab718e707576b31",
+    "0x15648bf46f60d82954c7e33029b3617357012a3d3b1d34c8e008859f1dbfb317",
+    "0x127e00c2253de07818ca7f2eafdd7564d05ea850cf61f1daa0cfefbf7fbfba85",
+    "0x66365afd18a41ef9382fc0b1d265cb4d3ce470a8cbbb878f7d48051630747bd",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x219d14f823513140dc69a96f7fe7e086f4fa24c84e57dcf2b099715c4404aae7",
+    "0x3a30bfbbf2cb86d4a6a63a8050d91f9f14f4d33696d37ebaefa9ac2302132d5",
+    "0x2121bbcdeaa33a35b0270fb7d5c9f94edad5a84d74b06e3385104b0b41935bcc",
+    "0x196b544fbeb0a792cfbb82c289e579b7cd5580c2e338a389d053ef8b3d10e70e",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2809c3a1547c0cee89c1db270ef479c26973ec73edb4bd4e7d907ea0202f560f",
+    "0x11c34446b083ef92ca157585a02b8b342a4c67175b31f4b5d40d4e96dfc5c8f1",
+    "0x253ea0b33a8bf3b2367c030e3289cbe0f6242ad7709d90b86d9d8026e2e39925",
+    "0x30467dc1930f6afe90c89d4007ad29fc4f5a19c006d1030438c16df85637bd5f",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2f9d4b55495f7e377e20e6f5a3a88af7aa6a536458b38bbe13c8ebfbbba54f44",
+    "0x1d9e9d5c736e3151f11d36d499e7e093d8ee2353be18aad54cfd03ff0feac4b8",
+    "0x124b617b43e598f9ebf622f7823a3de7d1bfedb87e097c315f343de301e54841",
+    "0x198e7cfc66ae45774055cf073bedc945a5f9c5b19cae08d789cc5748ffe199b2",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2eac25b3498dfadffd124ab3aad57789eb945ba57443099c5bb6c27ed977fe24",
+    "0x1ee02c175cdfe1871b378305c1bb9c904e8af1d4454ed3550b3c6ab5f4f90126",
+    "0x616f8c34c607266b29ea8f9d2dfa47ff6fbb1d9745c48609fa98301d0f679d5",
+    "0x181d68b0a188504958b9f19cbbdb972a853e51ed385e4883a43a42832803370b",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2d5397ce863464a25d6b7f5b015d579181d1ce2f24cbabf6059e9327f5ba7004",
+    "0x15bf817491b94d71e8912940cc0b80277713e7d32da2b6591724d8dbd4bc2618",
+    "0x2a7cbd11460b177ab76feab28b69485ac8cc687740bc910994a3827d29c08714",
+    "0xf7cd5ffa4661730ab56e447fae5cc1763cb462da80a85614c237b290de9d502",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0xe0766004b4c4176eb13273508eb6575f768137d86d305be644ce04531008100",
+    "0x625fa7145813481f6d148be6b9c8bb7b54ee3c1afac00104e1f763000b9924c",
+    "0x7c5472508b459916ee0f5461aad2e0b19cd9c7b184f515b65136318ce2c6a5",
+    "0x567375470d189b693ac77ab3fb7557231d53073951d43c54685879cb7a89fcb",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x1d0406bcbec83f8d5165f56c063e42108ad21f51ea4bfc71601174ba5c7b8bcc",
+    "0xc02b18eef22332d280a8aa1f86405f3375f06342f8696ee7c73b46c63272cb7",
+    "0x17c1fc174cd9a6ebeaa7add2f801a664823509ad4fd1b15aad053a55ad6da4cf",
+    "0x5f843c23024eb1dab7ebbc86709a021aaa6caf433f7ed258a08638e9584b32d",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x22df2420697ca28b5cc51c53165e002727b45ccd90a55c87589f792f0ad8cb37",
+    "0x2f1438303a7b49d473400aaedf0f48009fd3af804b76be86417588efc4d7302a",
+    "0x2323d5fcf2da8965c6b2b7b4fbf9a24bbaa7f4dccd35d5ca6155c5463093b23b",
+    "0x26c85b9dfbbe48fe83b753a5e7336b9f40f7b961e9c54f94e37700073d4d26e",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x31511000251ec86feb38b5ab4e335f070b271df4c20979528e41d65384c318f",
+    "0x18e588324a9bbaacb42fa69e5d90a0c0e27cd16b941e34a60ff5df9a26c03af1",
+    "0x2642b5d8e16b953b070635775c8d3c9498357d6ad9bef2e7d99f03c10ea1f95f",
+    "0x21fc313ba11c60e8e84ff60db906a0f031189b0b48335c4221f909aef836c133",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2d3562e3d4b42bc6890b698cc6ab89f7311298bcbac6e4e9f2f4d93d06dae151",
+    "0xa74ef541d360e842e3e0b6ff7e5c7c77934a5f67616f01c189d886dfd2e0808",
+    "0x140564b53e0a812ac3983d6e3b433afa43f434087d9e754967c2c9b1b02caf8a",
+    "0x14709e32d98ae4cd18b400181e71ab9759c436c8e83fa6993adb6f2db6bba9d0",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x734b2366c59e394423f179e1266dd392372db4f2dba651f4a619a4b52bdc010",
+    "0x11fb2d705c94b08d5ad3e3c5fb6629abe963ed92913642c7d02d7e71088fd2d4",
+    "0x27d03abf5c1f290e5d715eba19371050ef6eb7f78fd84be834e4cc3618059484",
+    "0x13ed9e9e6b452df27fb3353cfc2cd63ebe817f212a39c6a8bb9b441ac1395861",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x1319c51cf37aaa10246cdaaa04a12e88795de4452604263a7c5b79ab99cbd23c",
+    "0xbca25588d187b7f9dad839f2c8cb526a4cf444eebbd0e715b6cea019ac3f2",
+    "0x1d837ea0341c5964181226874b923cd01a069b493f02f7a3c01be23cf51d593f",
+    "0x1b41ce9ed3634cbd42c427ce4c5c83774149e2a6dbd25f24012090db7de4e7f9",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x671f0e3b674ae7cddc790ecc4e946f4bca74b98b78a127c7b56bd6673f1ce1f",
+    "0x19fc073797a39b272e40cd30615f55fefeb682c1ac14143071d0449a5426e4e",
+    "0x17bee47d262a497fd1f7c5c6d5a7c70fa4209480bf5d97311c5096619e9fd13",
+    "0x2073cff92d3141b480763539cff2978a4c7944721cc937ba00cc8527274471e3",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x3bd7b3e2c1885877f43182a55a91d48f9c58d152e730fe2c7aa46b1fa663baa",
+    "0x226ebc9a538b5bbaff128edfb9bbf5fa0ceb100719a14c8dfed9ffbbbad9b6b7",
+    "0xd395f0b08b9fede0373a06e1552c0e634a49572af1d830dc6e394e8a5d3b21a",
+    "0x28242439b524540a30d49b68e19e31ba5284bd3bcf1e0f2f41f77d5331f99ffa",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x370d6fa19eaac142d2de034801ab85e0b457e129e91f929754b48c6154d4df6",
+    "0x9a16f573b3280f390762abf269579eaa37939bc0c753feb0a2b2e0bcbde1659",
+    "0x2228e360fb5b162b496ac443f98127ee3c0021a690b71b268d99981368231d97",
+    "0x7e42c2ca633d2c49fabf83991476d209431e34d8032b6a1b97675f3c567f944",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2ce12d7269663770c3cab85a6215a32eed35fda1d8e9d753a50fe96097724a9f",
+    "0x3d7427704c61e2009eeb9b1b45a0125084bc4daf70973a7ba0b2231815b15de",
+    "0x10f8abf0764185861c1267fcf4b4b33ca096fb4ddc4626732d86921e553e69c6",
+    "0x17ccaf6f26f7267a025d7cb456e3aeb251a1a620aaf6568a5c95644c7c5914cc",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x63bb306b96310051385c3ce00ca820ad0e3651a6e55754d59de6df28cea4d51",
+    "0x1f761ee5553c5e86f2c304a18095ab7403242e0b65e608bc920cf993a4169974",
+    "0xdc5f00bbfd7c1d9a23c0e666859ba6564bcde8761b45717cd6bdfc09de4e8f2",
+    "0x6de511520e277b7df07c3536381c13eb44cf790a230abc391089760bfc40ef2",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2a134348c8660efcf9ef54863e70528a1fd4481b50a1fe21f24a8c06e10cca03",
+    "0xaeb5023bbb9a64c4bd80089e99edf8ed5f6f1ffb63a7dbba1b33520bcfce37b",
+    "0x141a6d0810366ae225ecb5f0bfdc9995406c5960ab26155836fc51fb7cb933d1",
+    "0x9d2ea05ef54dadbbe776f404dca6626cc0b2539990bc0b8bfe87497f1e2c5b7",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x1e56d244a8e41be5d104d5f8ef70891d22d4a5432441bfe8ff1a16e91719cdde",
+    "0x1d4f020c57c4f14aec908b2f99b5c4fd5e09447fa85c2fd68ba4d5c5f50c7b49",
+    "0x763911a3a92a4f0e09f4e14cd03398d8d82a1e09db80fb0ee1e833764c18fd3",
+    "0x12857275be2fe6b9ba2ec68f9061643f1fc5d9a2c5e47e55684366e54b302946",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2ed11ccd2e2e2376655ffe9a96c4b81adc0a60353c5d83d4d0ebf50d1bbf87c0",
+    "0x3e31de8958e82645b320d5e3e966ef4726d5b1c2cfbb4acd288a21543c6d594",
+    "0x11e880dfefdbd08858ae890046533d58da28a608d7e905366ec2ca4a36e71963",
+    "0x1835b275deaed2d00704a9c3cc21ab7a44a34662978d53c190dc25e969a507b2",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x68b75315e25ed4ace5a4a9480e1d82ce5d44f76f1324240419f372ff8d3c3f5",
+    "0x1b7ef7d04aec73d62b052d2ad12b92a4268fccd795c839d698ad3b22823274d1",
+    "0x28c0c848022a90606f6193ff5501b57216b670727f4b8efcc240d30bbaa9f03f",
+    "0x13bda49296cbcc51686a7bfb1c39f3f254370985a16660efd6e5d82d4f068e1b",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2e7987ea8204389d11eb10b34265e378a945729f86c3e0e2fd38490d3a594141",
+    "0x826d4a2324ad3aa4b2b45c10a190fedef702aeffda3226ce5415fffd03935c8",
+    "0x2dbeee85eaeaa9fa3675ef541c9df7bb964a85435c3b59685f93b434036ded",
+    "0x227ee7a945edaee6919418ecb3279b11e6fa44f5f5c5abfb966a4be599cb86c7",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x1d0a6d1a9519877805ac90d696faf2a5ffadc23986de8c698d541471c7244220",
+    "0x2208aaba508ae816da4f333b7854fbbcd10eea1db284ec3e9f4de02b25f6e9d4",
+    "0x28a58901035b2c99e36a7d29b587a215c9e59268e2f8e01a175720971ccf04ec",
+    "0x112f6d8d42b0a0d123a07865ca1376df317a2a14ffc0191226f38a8adfd6238",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x8c6eb19c016d1833174dda182d266d5c727f97fb4d01f1daf906b6d3c6e2308",
+    "0x1359d2d6c8b5a116d0b38b95f9c642df75b1be9a48c8698ecfea9103f73f1879",
+    "0x10c5052ec67ab9b6a467c1cc1878d91aaa07aacf7725f8a5ed42b699c4af3ca7",
+    "0x583c4d292d54f3cdb708803e6338fc6afdb188d5d4e9f060193823684c96c75",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2d94a1c55be382151a4054c5b96322e7bcd1fe2b3e076e16ee2c18bfc06f57b4",
+    "0x15e3402fdde8770fb997369579c1b1703ef77c671927ead80dbc64dd2211c3ec",
+    "0x185be98784817f22f7b21e6b867d5a71b5000bef8bb902eb302677e20a727be3",
+    "0x18db4321c721c03666ed8927c89890aa8aad1b00c054547b5ca14cd94de467b6",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2a852b6247f5d61f0c390b3f3d799188528849bcd2cd0aff4eb2134a039b5126",
+    "0x2510aeed51b7f506e65fb9a18ee0124aa5276f6de1cd771b165930204da58f22",
+    "0xf2074a32eb8260fb5bd3a236f03a47b47b7fb54dcad1d7977d6486513bab5f2",
+    "0x2f4c69297866bd45a8270e19941926cec3531c9e12c4c2c84971404bfa044090",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x154668727d2dbadf05d083a65093c0d0e92df5fd5f3fd75e9b792c562a37473f",
+    "0x1e6ffc5d6a1ff5dc4fd77fc5ab5c8c4e8d3e2e375bcd1194a91e5b0f7b13cadf",
+    "0x2cf1a1d7c44309109d75acbc9395cb8398c8b2d428538571fafa389da29990c6",
+    "0x140fb39a89f26f6d87cf76cd5ce8da47aa5d8a023e24cf016ecf64cf793c9880",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x1289d13d58a17b5bf0712b201fb3cddfce2c16dac159990b8298a93a8589f9e8",
+    "0xf45cf974d2c9edb5781e8d3d207adc8370cf56bc5218749610920fe98b2db2e",
+    "0x11909c81a16518046b79edfd24f5abcc585a81d1b333568b8687a1c9eceb44d4",
+    "0x2990b23c81882f7709f3b891a0e3da4d6917672f2d5a1041fd7bbd6792330d16",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x609551b14716ca3cd5560e0821e7285e0a083ea9a16dc102ecf461e4aef7277",
+    "0xc8c1abdfab99d03fd93dced2467354b6175de1755f4f93dc0880eaa08d03f77",
+    "0x138bd098c4923b9fbd02f33f8bec6c730db3fed298ec09f78a7a55d08f2e0b10",
+    "0x2e61e4bc021630114673f0f77161ae55dcd0b45ce07d9ae3f21bb5a3190f14c0",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x124860913e3df8f65a9c4060ce3297c626abd1c22401c905ddb408260d8e910",
+    "0x13807f89c394a133ec104804d955cbe125f24c5701d98286c6ac8b7ed052ec8",
+    "0x2e88d1a6938f0788132aa9eeaec08d2f59aa444050c8f4c4e85578abb0fc2fe5",
+    "0x1f3d24f17cfc6050a0cbf64e1f1787e2257be3c3ba607c2e8fcc1f26abf3104",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x1fe1cb0e2ae169f83b9d4f133d41fb5b3fe6c76a82a916bfd9b62f82f0f8d0bf",
+    "0xef79351229409cd353329221229827e19946f3d8d1c48bf5e3377f9177071f3",
+    "0x18fb2e46fc1b90fe1c4893ef77a9d111507551883127860e89088608373beda9",
+    "0x77afe2579f42ec14c32ef0761e23a3cc0ad6263a68c5cb61916bd57120d1868",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x79769092daa5a752642c04ccf8a6ea54e2ac9836fdd65d248b186f1490b7b99",
+    "0x1d8bf229c19968f0254eb6e09c5c8bfd67eb9734606b676b663c76cf76bab4a5",
+    "0x2a33b7d855e7fe55f93556e49e4b37737664f14236f17256428f29f6ec1bddad",
+    "0x25b0331d7e2b15af4ec161c86e84ba6ab2056077e7aa7536340dc3187ccca8b2",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x762098f5fe26598ccbf45e4810211b0ffcf8ccbb92c16e2f4f13f22342474e2",
+    "0xe234d720d70b2886d0da4c007b1bda42362e144185c70716dece2b6172c2514",
+    "0x1d82bedccd2bc8a06e3742e720b7fec2ea72182f11c0c60d135c811152aa4b60",
+    "0x480064d4b3eb0ada5e9a3e7d05930b7c3397fd6b94d481314bd1c690a17c979",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x10a892763b3cca9ef7593fbb1140edc8c8e4580568560cf41867f7464fb0c11a",
+    "0xb5ec64548ea841ac921f9b2553680785978b315667ae4714dde4cd7f4de8b91",
+    "0x10554aca4e348e5949761bd7131dfaebd78010edd030e1a9ce3c65c9db931d46",
+    "0x15be66f38d86b0998b93655462b1f475b9be9de306e150d4ac648fab3db0cff6",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x176ad3600fd3491182d182957ffad01bf6c26e9d4ab0c23caaf308e427d3dbe8",
+    "0x2b6f355b3dbf65f09335001d705ac125e3beb20f4fc11bd3ce82b5cf0af2e6f2",
+    "0x1c85c06a6d5d40d81d7c89edefb32d1a8448c51288fa296b6de9ff788c77451",
+    "0x20e1e876c4746a0cbd9a51d76b2e25f82361c389e43f7d1f51a70aaac2460d79",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x20e46219f684186d2a024b637bc35a29ee3b08ce737701392d987dda9217fa08",
+    "0x2ea7279db9f2aa0f654e987907277c24480766367a8bd90e28be0f2ed6091367",
+    "0x136be2a7f18924c9362096d472bc75ca0969dc077c9171b1641be95091780f74",
+    "0x1ca2033501baa3f73067c4300fb0f51119ed5736fbc8f1f6c924baf0df5a0e9e",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0xa82f199c2505277ecaa75e495f34e3525824f7a4a9d9fa1da810832b48a50c7",
+    "0xecf10485307b4bae92fefb0d7f7782a9f37a2722e7ed9eb7925a2dea580b7d5",
+    "0x7b642138dfd6a6dd12aa22f08a8296d68615c8478f13af16aebbbb339a3936b",
+    "0x1d9dda43a25593ffd2256d34921fb86ed70e760ba76d61e9cbc3b6dd0f1a2150",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2f1af228520c8b751dc91136c91c6bccd5367eb08213d392958ce2fd3d7d2fce",
+    "0x1fecfe833ad540455c6d6c1ab3de4abae61ada625a1a2b6b18551a45a6cde123",
+    "0x18fc8e608c735b2b3b0d7583460227575657ff8a77abe637bdd3ad28e4a23c88",
+    "0x28f740bc1182e9706ebf03cb3f53aba8a43ce0b618783a5586388a7547faa815",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x47998cc0af5a26b94ad301e4b998d29e960a4851cfd13822bed35b7146966a4",
+    "0x1b5f1525b31db911dda43e415e1b9a3a9725c7b52e880ee130a14a692b777b70",
+    "0x275a83fa5d19b4535f65e965a90eac9bf770ae9bd1d7b1af945fa57ed5c8de6e",
+    "0x2e8789257ed2cbcccb430568e49bc9dc2a563359808c9897ce3e40a6f6a27aa8",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x927f46cfe80feefeb2721a4c09e9d17f60c34500dcd6e41e2925a39c8e2c7c1",
+    "0x1f868ae04832a5dbc37619bfe6ab6a97fd8fb2cfbc1ecf9e0e484bbfe7698101",
+    "0x9d7a11e27d2f53109b73f745b2defed65d94ba80f308fb19ce6d56c9b45eff4",
+    "0x282d857cfe8da3b5104e1c2823fb7c5b9a7b25924fda5995b0c351aa2b879dff",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x20ba8a9fcec815b13f349ff830ae663b27576e135c0744f6987fb0f6ff49c217",
+    "0x11b6afc91e32f1ca4589fba12e657d226d57b471ddd2ab1b66a8ae4dcbfb136e",
+    "0x2e666402ac9cc588316e335c7d93db344788eec2c72ddf3f908141736cebc3be",
+    "0x17522e0e9e64f795a202a110e283faad7057aec5c9ed9a1a74920f2794f18595",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2d2ed17f7a1f3ee9e20b470cad4cc7319e6adb40e2ff24b7878cb9878edbd3b9",
+    "0x1a81efb19d7e1edaa96fa276e89e85d08f75e54a8136f4d73c937da16c7bf9f4",
+    "0x27ff57c1ca847e57210a7b44e52e5630f299c5f451c7a0d515a16bb3bd33e237",
+    "0x1c1a8e22230abcd13c5be96031bfa167840d117b3c6a5a0a11be26a7f5fb1a94",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2a1c3f15d4927c843627a9cd533e4250d81e7774d2c32b59d5836f9c19a5657",
+    "0x2ddbb7239eb904d81c52499b37cb4be1af0373a10ac112e185acb219899357e4",
+    "0xdff198393085a754e0d6faec54be81d8edf8bc25edadab48a86fad6da0afb60",
+    "0x10d50c2473146bbc76275fcc589d038dec8db28728789f28b6d5f504bd1645ca",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x61e8328fb5593f92a53dfd40e1022e6231ba45948506282536b08b4476c1538",
+    "0x1b589243847198ded90b644bee31ac58067debf3f07d3c51cfa5a0dd9f6d9784",
+    "0x4b00c0da1f851e59863b053bd4c6087190f0bdcced99d5ce6f67a420a3bd1f7",
+    "0x239941a46c2b93d9126a70163009a7ac27f8a8d42e35018b3bec8cdcb5ddfd67",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x204f26ca7993b03ac2c35377cb0a3712bfc9bc3ec0bfecb4e87ef6814acf2ea2",
+    "0x85aff9c7fdadba039d832d8be165a1e5747cf7308d515e348ef117e926d721c",
+    "0x249042a8dc111f27c4ae9db044c0b0b3f10e57d05e093158efd375df00ea2068",
+    "0x6e799bcdf2b4a74542854f3029803e2f84550665203327b3e0825977413e96b",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x1cb3caed4bffb6aca9f4d2c002921bc3fffed333cae12085c612496183b87996",
+    "0xb47e9755fae480128a128bfd4faa6a3dd6ea03cab566889dcd99e84d310d51c",
+    "0xc7e4cea365c2061920a0c9fd2c360a6506293bc024fd1ca3f0bb730da886a4f",
+    "0x21da1f701bac77bcbbaa30d964d6f6f63dbe1b20d9d6988c8dcd7ba4187215df",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x9ae612e8ba1ca1370905fb67899d10db86b47bd19965b6edd1a9486e3c6cc55",
+    "0x262e1e0b56cac47fc150f284491190e6aab75445b0c99373fe1f7a0e3b95cf3d",
+    "0x234bf4a7dce7587c2c87c293e3bb7c9e2a7bfa5f29fd4ddeaa5d3f67491d34bd",
+    "0x2f6cbac694c886b02d0a527cac744fb658d2690e213d7432eee67f6cb69f70c2",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x22accb18b7c49b4b7bb8c9fdf78b7aded52aa1842fff818d9a3300876dec3ad9",
+    "0x81e2f0652f898c6d659f22d2c77be302eabd9182a0b3d3cbf623a1df7f8f2fc",
+    "0x12c0a25e70d006eccea3ada75d669b8c534b962890f3ffc016b3186ad675b935",
+    "0x10ef9c23848128cc2fd6fc869df24d7ab56efd349edd56f49f8d4f2381df3259",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x2161cd280772819dd4a81262b71df1bcc2c1d41b9491e0620bda347962b240f0",
+    "0x2cebb0ae5108318eb406590041b5248292533364f799bc41b7f4fdd12cb8d38a",
+    "0x2b2092f86b5979a7fe4f7c22d9561f3bf2852283a656880fb759e08709a0a62f",
+    "0x1566b3402d774b8c08146188425a442450cfc900cf643e7382b2d8507a065fed",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x11a316aa31607f268fb4c56d6c57ba01627c3635fccf8d3d1a163e601d1a0173",
+    "0xde7ee069c934256b782648b560e595408a5e8434644609152e353d9c2874e44",
+    "0x2d36f4029245704cc84df0297708c5e5845c36ae706c72e67128b8949eab1af",
+    "0x1b8cc326b5ee160f53198c217fb34e899bde46cd82dabdc284d7951d546f858",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x27625da0f73ea07110689fb2187b71694cbf9203fd4ddf8a96ece85407550ebb",
+    "0x1cd8338a3e5b1ad7cdc0da581a6950f6dea349c3edda06cb99ba025b94e4790d",
+    "0x5ea02d65b209f6da763856c94b6438c78a8aed8d3e67e877a10a84072741a56",
+    "0x9f7cb68d4e388f85366cfcf284a895d8b6250ced627e810817743ce03330a55",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x18c6230ddc0f896827b043f5e58dbd1aec13995a202e4ebcdfeb969e9d5c1212",
+    "0x73a6114b997285e1a91c0a0fdccdaa8452e4f07bfd2e1a10578232096db6dcd",
+    "0x2e78746340b2a6d222c6a1fc0838adf5fe013f39b1660ce7a3e7742b2f37be7f",
+    "0x7aa27e7150baddd06303ad8e5e4bf4249b7ea846553def28e675259d3e5c851",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0xb66fdec210ea4eabf623d2712cf4d9fa90273ccb4643f680cbc98345715ead8",
+    "0x2fb6a29d9f394a589b633b8a4d6be51c9c0601ce0b140be641acea41c49aa5e3",
+    "0x29025cc66fd041c4fc845e9c1c2cd1288569fb243d049bd675a69dc889b2ce2a",
+    "0x150963f0aca9bcbe4126214ab9c627a6f7ed731cfa695168b85d534b17be3f48",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0xed59780302257663f72c1bfc6656eb7b5bca2e47bec0d5798a08a32a61a8a65",
+    "0x7e19cb8a893369b3d30ae188c767f391c11888a3000debfc8d30c06143cc084",
+    "0x600c7d2b6946345e5f1eeeafb5eb8ec2b6ecfe528d2c052cd860afb4a3aa272",
+    "0x596083b6c972bc13022a1f33d6523b4773f2cd0a480e19ea0125119f0385705",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0x210b5c36f27a07d97f98b9d8663d85db2e64513099a8e1ef6db21043631e24c4",
+    "0x13bb2764bf1475cfc7bb9f3d563c5cc201c2489874e9159326a8f4930b7883f9",
+    "0x202cf557d625c26080eb082862a76757287872b181e89997219e4b7576e24d30",
+    "0xe561c3f8bd4f76e76d49e97142d220601fbc5a03d905a4728ea1f95fd8824b2",
+    "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+    "0xde20097480e7555471785de07bd9809d57dd859bbe827307c33ae9ed7890597",
+    "0x72f2a6287fb984bb810df8c5788eebcfd2825613cb72bb80cde8edd76d2e97d",
+    "0x2969f27eed31a480b9c36c764379dbca2cc8fdd1415c3dded62940bcde0bd771",
+    "0x143021ec686a3f330d5f9e654638065ce6cd79e28c5b3753326244ee65a1b1a7",
+  ],
+  // t = 4
+  [
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2ca7b911ea4f6a11da0bd5e72ab3cc621c5908b59ff3d76c609ea9c2fba8fa41",
+    "0x2de5f3a5bbe5b20d77ba6a6f8ffe2db01ff5000901b9ce0140df133385fd9506",
+    "0xa150cdbffe3c60c7a52cefa903bbee4d3846d24339f926c3655cdf9f81f67fb",
+    "0x2026ad7e03636deef47934dd0d5dd29d87056d172e993bf5e96d6a3bb32d2e9c",
+    "0x232507a3d48ca163c5e1b6f5bf391141524733d9cef80d404fdf78393c90151d",
+    "0x1b16b96e6aec89d326a5a6c18336ec3c56e7189f8c1fe74c5c46074b865a1d83",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0xfdf5d15426498ac82411ff8a7a3884894f02c5242eab1dd7fdfca1cfdabd35b",
+    "0x97cfa1218fe00b4edf8ce61cd20b4f8875ea5c8282d90f6f7153c9463bfbd95",
+    "0xfd1ebd67968d1e49926c3952aaf96d3558aa856acbfe48e5a9fdb4285ad9bda",
+    "0x27d5dc47f678316695d548d3b4fd1b00244a11d4cb753edd917d849cfa02fb8c",
+    "0x2602ddd7ea3a280860321a70aa806562a57bebfa5a0f5d2770f3a169b88ae244",
+    "0x2fafd30b7fac7a6699776892b07366b40fa387bc4141e009ee42070337088a89",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1b2ac2c9f97eb32560cee0b8e8320f52866b17042d2c7c13178dbd963936517",
+    "0xc6db19118e83768bce24e1556ab9d383adb0f4f2b63c3f540d5b5e4deebb1f4",
+    "0xf94cafc14403845ea574997bf75caba6b2016ee5a10de57ae35923c9c6a2261",
+    "0x9145c337938ac3f71b78022c80fcdce4c1742f47dd2190c31c3cc5a41980f5d",
+    "0xa0ca462d8ae218e235b6f24f4c17747886524aded7e4f3a59631497a4f98863",
+    "0x1851288ccce2bdece3a7f68ff33b00cb961e6292f2af29c775cdf6ce3fe0777b",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x9ad33992db79124edac791c80e82876cf3a60a043edfcd7bfb5a93ee3feab08",
+    "0xb320d1000c50439a989886c4c11e711bd26667e61c50afba9d347cbd4b312f3",
+    "0x26123488a4f037ba7b2a51391f25f91642ae52bae1435dfe32c5f47ce63f68a5",
+    "0xd7a4403c3407d64ff5f63275add86c161183b2f1e88dab842607a8f3fcaa270",
+    "0x2cad68fb4be69ca135d9b37e2d3084557efa6423a9662f1fb24150b310c71727",
+    "0x2e122deb202b0e2c6a25e15226c09b9564cc57a8fc0d3645be77c36f8f27d4fd",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x23e090845b17c18cc12ff83ce7deb2e58cff2f37771c39cd0b68ba14f4cd65ac",
+    "0x8b041b40e47ef1883a30a5e631cb1e0596543f5c240701002be9d495d59a775",
+    "0x19d0ad6176cd87e6109b92dff1b863104182e2c85bbaac5330b2b7a4b56f9a6e",
+    "0x11296e1ff67a98dff758d023ea74c5fabe372a797f86a621bac4bbcdf31878bd",
+    "0x1b0943c04cc4c3885335624a4df555ff89e439a40e6691d5db44732aea1b36ab",
+    "0xc2cb45703a55a050e57ca3e51bf386b2cba4d5dadeb1749f8a6e047c5e9ac1d",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x20c061a0f70692748ab2f61b7e52e5ddd5e704e51de165eb19312700eef604a9",
+    "0x2aeb2df6a12c099b42c03dac1557681f03947ecd76426d6cb8a749dfb9f964f0",
+    "0x111fa84f899677752592a75d53083c3188d97a72d8aa1be3835b681bc6813270",
+    "0x1aad37ed6a2102cb892b98a7783fb019752cc8c0327190be544ad76165251f90",
+    "0x1be6d262a580b10956cd6163ef221f3d9b0dc3e5cbc7ab04b3f8f2a0ffe86be9",
+    "0x19fb44907e93686f59b9f17c0266c8139f8f4d8a5d212503bec1c6ef72409fca",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0xccbd07f12f007d8f30c6150e395dacffde4eae8fa51bf6bea1d6a7c421a586d",
+    "0x9a3428b0108143dc9c78633aa3bb37807bcd9603406be211bb286e42b58cb52",
+    "0x2a7ab6ca90a4e66f52e863c4b0f515148798ac8f92661b2b816902e915d8227c",
+    "0x179239cb6d96131ef12f09a58f9535b66b23c4367bcfab687e9a7c3c880a040f",
+    "0x7f9eff8cd62907b5d607140bd0b0944d175f17abe2b2eed814b6463ad29b8ce",
+    "0x2f44cd6674099eae8cee5c6f84e9b25cfd7c801e0b457278e83fe4b511458c8e",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x241d4acb53e51cee878b7d23223fd33311ff0aae81f4faa07816546eb732d8d9",
+    "0x13016b694f63245a8a9b2f09a84bef7c0711bb8838b3ad49e0b7838f6f644560",
+    "0x240a3ff47c2e7332534647a5a2fe278aff069cc479fa000d7c31a78ce2929bd1",
+    "0x1a510b683ed295b19be81ace3dfbf7cf1061b07a18579325f7cd001d38146c30",
+    "0x20c4eceba419b0575a95e295d84e71bd1a928d5ccca5d79a809059de3342c9cf",
+    "0xbaf9899a51723a56cda43c1aecd6c096a499b57ae1893e16a28908bc5dcff6a",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x162315c3b31a4d5b766510f46974ff89071424364fd69c9bfba1b6e0bece8eac",
+    "0x2f6a4f9489ad4e1439c806d757799fd6ee58ca5d0560d15a8f658c6eb86f47d6",
+    "0xf67999a01cf660e19180113f770041cc147a335e19f545e3f31a61bb6b4efa9",
+    "0x9146d7f035d379789456542d3d727b593a6fc67252a631ec407053635478fa0",
+    "0x2e44a6eb2efede0a5768d8491e4c86bfcd63b0ee2f383b74d62af311cf91de5a",
+    "0x160631bd9c54749181816c9aca5fe004260ee7a56fd35fb56977ef04911d5e71",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x26f7f151e37cde405da94d5b7e897e9768862af285902b590b636e12bb43c7af",
+    "0xeeffd18325f8754d15db8adf98d290ac816cab0e4315306b2418068e78dd02f",
+    "0x284277b5d2b0fd66df351ff703419da6b1aea5ee405bba09bd4a369e6eaea49a",
+    "0x13584c5168cf2fc77f884d111e05fa8512e7cffec60dd3a105503196d682ca12",
+    "0x1ebd55190bbbaae0e9dd1af991eaf3ae13af0e71fa686312224c886c97e9e2f9",
+    "0x13a449ace196028aea035af0cd9d5b763d29f8d292443a762d8be06b1e136dfb",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x21fa424cf90bf0b715656aeb3d02acc326cb56880bcd91602efacf66164bd07b",
+    "0x24694b5ba9200603bca8f52d73d0f3fea26c0ee1939d2cec8a9bc5f961cd68c7",
+    "0x1a6d98f744fca59c910dfb19ad89d7c25f2c719332edbbafb6cc85c190e4e170",
+    "0xab904b12244246c2dd95c69a28ab91d2c34e641f697b5361bd91d1625c937dc",
+    "0xfd87c8923668cce921af698cda67103c048864129954800460374ded5b86770",
+    "0x2098ce0512ca13bea1141e48f14bc691b410cf81de7f597d062465e1431c4c2a",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x4d94ebda7313ce25cd0dfcd1dde7992439daae630c054d7cfd6d690a85c27e9",
+    "0xaf2fa274dd5b1e16568fc4613e76c9ab4fa99d09d10105e98bd9b92b82ea455",
+    "0x19153b7441c48cd270b491762e96e470858714e9650aac65169577d2fc755af4",
+    "0x2a5c69d030248d78f70674af65d92a908a7c27c34f32f9fd2417450e0585254b",
+    "0x436d86f139382ffb61085560e2592290518eced5230894b4a8bcdebe06a88fb",
+    "0x23b40e7f1bd0b7fae8cf2ea0608ace9299b903ac8d9994f7448bc2e46090af99",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x21427832371fd1ce0efebe904a3ffae941142d4f35ce77e064e256ab5937653a",
+    "0x1b527a15f36d4f03015a6ff483cfb5c18f8b331a7caf79237998fb914dd46149",
+    "0x13d847e25b71d35789c6cde81ad9ad9c1afa6ace79ecf363920dc233e5646338",
+    "0x238b13365a6b8fcd6580ff9f4bf267b01366a41d7c326c826be7dfec751bd480",
+    "0x2fdc1ab225df187a8fdece2e14114cb71f01ed887085eed22731ded19882966b",
+    "0x2fc9fa00830e2671b36e8eeec5c369a6b3fc27bd96905b5fc220fcf0458d1c3e",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x101b70dd04be642aa07377610e3ee7d630bdb12e3b26295806b92e9f482151cb",
+    "0x1227872231f192f1c81440c79fdebe597ce8ad03894cb07ac9b3423e4db90d10",
+    "0x1d01d734b7090603174951fe6d338fb3cccc00c0accf2ac8d45859f45166305c",
+    "0xe593e9c0177976f4caa991e54fc7eeae897fb723a9fad08a811b296f3e7b10e",
+    "0x2fe9b7637f54d7060ff768205f9e161a4cb3bd9dcf14a8bbcb37743b6fc60c16",
+    "0x26ac179b67db2c393739a450573022142905e5faa7e8efdd1c717eb603a6d9c2",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2e26f19972ff8bedefb7803e3284690f4fc7828cb0bcf3b5d5697b82714a171a",
+    "0x7f4790a30254f654fb0a465c42217421998843693e2c2320e58cdf31a77ceea",
+    "0x16adbd595b9959b8b903db7df15187e66b7f6fd433fd2ed3ca0dab8d45f8d031",
+    "0x1341399558f697e9e3b49e50ad3889a7a6ac1b7a169ffe1575a3172a4f33c75a",
+    "0x2c8e714ec99e38714e1d01b984f863c0d8e05b8c3b7ff6fbca20caacfbf3bf4",
+    "0xaeb4122ca96285c5eb5b52fe2c26355db417406c567aa6c35dec7fc58ba6176",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x24f5e61cac001b78c4664cdc75cd8d75bde602e45c6dac698f3b28ded5a75604",
+    "0x158dab8b85f4412fdaefdee4d4f1fecb22f433672964d2ee7730b03663361f1d",
+    "0x210a7fd894e483be032c8e6876957968f2152a9f1eded11c3cd26539ab12a213",
+    "0x27dd83e178817fe22e022c22e620afb88e02fb15346322b8f70bb26485b813ed",
+    "0x28b60c3bcdd4693b01f111dab969ee5dfa4a8840defdbf2bbf38604ce4e23e70",
+    "0x5c56f683ea2d1d507676f03c411a29c9925215ca5d8e7f28a3da73cd7b513de",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1ef913d33b18f5ca1d000c2209646780c4580869163f287c4fbe537e270c308b",
+    "0x2f77767437b926272dcdeecd45416aaa588551a79bfeb15fc3c76d938d12afcb",
+    "0x2da62c50f92d8dcc0f6fdd909051708b0c8f21f966ad57ba303370f00209ed21",
+    "0x118c1924b687d5268424af23862f95eb629e1c699a7c27de27c581c495ef159f",
+    "0x1c20f20b601f89d66abc8e1854d3f29489de9a559584b9df842fb988980133c4",
+    "0x19078ba50370eef76a00f6c89217183bba9da58fe15d8a07c565caa019147772",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x90d697c32be00d8b71f734d1f9023cdd11a587b51581e763bac5b3c766c5043",
+    "0x28309a912afc86848b67f7d85be9603f34ddceac4385e702f3662b3c2bdcf9e5",
+    "0xb100f36ac254ea63a6b92996445318f7053603e181261d07051400f302dc3bc",
+    "0x1931597f6dfad68193199a2166736c0c7e874189ca4d4d2555ef9d964b06c93e",
+    "0xb26976995fcdb354ec5c6c50e1b29139fc3c0a64709cbfc2fa992effa833800",
+    "0x2dd919c2edc302e56e0ece7b8537905feaa8c6dfa6c6130f94d68f7380bca019",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x278b0231cff85bdeee497f6274fda5e07cefaac1ab05ce89f863db3fce5eeb29",
+    "0x9ee1dcae79dc90e4cf0d0fb5e6bdee96fa6b751adde822d30e3a80b1a5bb506",
+    "0x1769f50fb961ba50df8b9e03a12fc37bc965265fce93f9762b274328fd04afbd",
+    "0x20a99da43235a2bb30b0ef58d708d07740510f517b2eedb678a94aaa4edbdeee",
+    "0x11b7181ec0f9a1485d84cd91c342f70e1924c7a85f48a33e7bf8b5dba2b8b7a9",
+    "0x23453eb1a5e44e28b31107f29dc6a7bf4818a7ce156d2c7e81dff75cc02e937a",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2abc91241e3275e2028d68130f5533d6c8e3d1ec2942632fa4b91a49fc762880",
+    "0x21653a887bf627cba0b5a35ebb3329f4602afd8440ada0050c31b249d962f86e",
+    "0x2ffee525440cb92eafc518b16135ca00df2ccd813bf1f9bc458252d7ee478def",
+    "0x104bce734fb0322de9a91058ffb340e35c212a8af5c5b6ce1817344d82137d5",
+    "0x12db34f34145195e64455a298fe597ce8b757426784cc53975ed5a439b91c12a",
+    "0x13a9a61ca0008c1b911748f5593bbeaf633308428e4e85378214be04aef88b1c",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x14ade7cef88a7726d51eb001357d8bfce8d1d8ec79472f6f2531d94792d4707a",
+    "0x24baee921a2b827fe96835346b85a3e94ab75b4eb9fcab4235cb9c54d0a077a6",
+    "0x4dfb441b179922b9e2ca9458de6d3aa0c653beca2fa7317a5d1fc4138e8782b",
+    "0x2efdb84c3c6faceb0f58fefdefc09e447ea2302291d3ab11101d487f3c679ee4",
+    "0x24d861650389f03a0da9d720f25df6e7ab3796ab597ed63d38055431655bbba5",
+    "0x1f8b2609f6999f6b15577697e90e891fc7b691c30c2695278042c2d152aac2ae",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x242fed5519f01070752e2e3779757e5df21033baaab86a9fbdb1a54d11cd4db6",
+    "0x6dff8e392f51302fd8864de5068b943a2b04fb0b239c38b679faf689d69e1a9",
+    "0x1ce5db5cd27794bbda0f7215bd9404f46502d2b601f74fcf2cb1a5b7fd440fbc",
+    "0x16aea838ec8bc6e8b8f48309cd6e783cb4a337b92728f66f701f0d5efb32a80a",
+    "0x1fd21a8ff13f0ef12be5a125bfbd5e952ef1e46b4f3747f3fbd8198209d4ea95",
+    "0x125158b21d677618076854954d977c35a6313a1f37564e36bf6d072d2500df6",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2bb8e29cb323e3e2879d93d36e9312bb3c38a922cc6bcc1689f72793f5d4a18e",
+    "0xd0e2ecbd08e247ae7aff1bce2bc54ad1603fc2cf0ef32822701feeebf4e826a",
+    "0x2e7df0f7b842490b3f39d0d87bbb35a90cf23f3cfeef3c8a4fe4716a47699470",
+    "0x1d9dd609a2944aa782ecb1a08acb5c0bb857c7489920644f6839c93c10b37837",
+    "0x11ad269471d4b36fb23aa243904a0290608c32759020f082cda8b4d538752109",
+    "0x2d2f546cbe60a9822e205c3f3fd187bf89f6def774c3f988de86e4eb91595bea",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x28113fd3a8d3b95ebcf29f2ddb54c6d9ea034a51e3bd1198e4c1f4f1dcf068d0",
+    "0x114ed46d49b389b14c202ba1c069ed4d836c131dcec2472f4bb78f803b90025b",
+    "0x14a217bf8737fb3570e38b75cbc97b316ba21db8a3f316aca5a26ed35c0d1424",
+    "0x16c9e7a58ddf141978209561d930058233b8adbb9e3aec9702ff674c22b009d0",
+    "0x1388b78b9ec0242e402906d75be419cf92e3dbc2a5152df9797318e004632793",
+    "0x2a459318d3f7156d87e3c666a8f7626cfed0d30fca28ef7927513b1f7a294b07",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1f3df3ca1c4b854792a69d107bb7e6e7be2f479be397de83c94cb310e8e821cb",
+    "0x2869447a669cafc20f1f9017028e3098b38a82fdf3cee59d9de2c888004b41e9",
+    "0x25eccbdcaf0a67d5ef15c7baaef8bd2a4eaa1a6d5d70385ed777c10db4796ff7",
+    "0x24c26970e999f27e6351f1be0a3211c0a177cdb778ead13baea9b7b4be3534a5",
+    "0x731afc922ad48a9f0ce9d635e26ba013a7d4ae8d52d4fb75f0f02409d83433b",
+    "0x217044abaa3c9ab6c51927ad1061d0c1cedc63a90b01b7b5f1c10974e66f879d",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x26cfa9ff210943f6b07c08691c2eddb1bb1d2167a417912ece724706b5c20b0e",
+    "0xa5509b4fa5bc8be630a2ca7c40980904713b196e36a7e9f839c4474037e049c",
+    "0x1c4dc788b6131f9dd132c2edffc7a46ec50b000383faff5419392f0d291c3475",
+    "0x150bdab59767a62d994ce37edf2c3cd5311abd0bfe541fb30968e19ee2601053",
+    "0x25393627a593730f4cf25a068932d447c1581f251f9a7b7d86cf9e392aca0d31",
+    "0x10598af7a84cfdb4c458ca7625dd8b18509491e7109db65bd8a0f80d8778a6ae",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1fd5ba5922d7109795d5dba77bfb57ba6aef1bb6aef0baec38d0f916d35ec9d0",
+    "0x439026e268ca0fa85b1f6ded27c854552eed2629ddb59e6a679d4efaea6f218",
+    "0x1d5d47eb657ce510b9f9a17e9a49d6f0040f7f360399dab7f053faba3f06286e",
+    "0x5cf07dcd831c1c51062ea271b402941996f46dd9df0fbb227305a550f42697",
+    "0x24ef1615afe18b0ff998bf9e1fc69fedf38db66b2257f4bac76adc04ce92e029",
+    "0xce1da26cb97828162425a7236c23e8f4b7778bda9d7d514b1b8fc9328087c2c",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1355e415b0db4001ca01503bc20232a49e67f0e816dc90ff18a4280437e9e9b8",
+    "0x11fc9669cbe3bf176da65f312e409d635dbee3fbf8f3d1d6b056b48473cb451",
+    "0x1d6c1910236789557b4c42df0191d2a46cddd2838ec6a74b7c308f023e71d4c5",
+    "0x1626f4d2cc7f2d46d7c9c97030c1b420d6c2d55033f7becea7d377541b19f57f",
+    "0x210c4bb43d712b400d4bae4bf8dde436786fc88bfcb82570b3e235ddc2982115",
+    "0x213fd23b04ea9e58ea915c1fdb460f3a0ac4b0041afe80f6ca1ba9e1a0e13825",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2ea430efe8ee1f2c72ac009258a1ad98b87725c00f72d27a31c445046bb9a80e",
+    "0x2d694e23e1b3f6b632b646584e76fb7b0d35aeda598fa5069d73c75136bd0272",
+    "0x2ed754f34a22fe04fbb3635776e0894d21cdbf4cc6e03b8bf33787883c1a0db0",
+    "0xf23e64e2b59d750be3bd037f4df62f7fbf16899400e69554b893f4afeaa41ae",
+    "0x1cd301878d6d778480ef82b2a3cb9bcc36362d198e44c204e490cc524a2bb2b0",
+    "0x276d797b67c8b3d935a71d2f8342bf7cbbd68de537e32c466f95a01a5a207f04",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x16e8ab5ced34e81dfe00c24c7fbd0f4188351be2b1b26b6d63a1e02b84aea6b",
+    "0x1caf3b10ac5814656ec2d5852b5439f810c8dc0a4fd6ebe82d9f33134f60c7a7",
+    "0x225f97bdaeb6a565372c547e9d6c354c1f78fa1998cc3d92c28212ec7edb634e",
+    "0x2d828acba9e58e0f3adf239a3689449515a1ba244c13b0186c827d600b7a7358",
+    "0x1f9da4066a62e0cf290cb839bf62c9a49cf79b0ea1affe03696062ab8cb9d39b",
+    "0x240706e2b81b5b65343b41e59330666d2b405258c4b9b177495776c2b1b6816c",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2d0f43029750f58be22d66c5b2963ac6b15b18c6e9d009b717044859fef9618d",
+    "0x14237392b60352f6c8aa0f5c08024beb882ab82dbd3e790cda3898886aa3e9bb",
+    "0xc8f3b03657beee6e1f94c98662b6339cfb7db5cb431fb9813587ee3f194d260",
+    "0x18700b515de19b3256513482566afcbf490e55633dc0ba574c2fb4efad1ef118",
+    "0x1c3b0a6645d002a9d1e18721a96d1e8b00217bdbea74ff1340dca47e6a326e26",
+    "0x2979c4d21f80db612fa98aa90bbd65e2cecc1ea431849612005a904c08bfd014",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x24509dfe357470309be062b07c05dd3df57d7cca62caa26001991820ce3af97f",
+    "0x2bedda6eaf8901b78a0e53e25dacd92c60673046c86deb333ce4798bcf9357e2",
+    "0x1f1d984e06825a3da53ac4066d4910067f6e0ff13ef83152cce3977ccb273404",
+    "0x1f592946ac103f244d168802c352a7e2dc52bd2e53d3ef2f4a7571af810609e",
+    "0x1a975c6688744220ac1e3d5295126f8ee0db7ca6283a176585e8dd5bce060ff9",
+    "0x1a78319fb62d99297737e9dfdccd57fe6ffe0329195b8ff713a2d6d33596a6f6",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2fb4c2f41520052bd4498be87f445b3c62e86ca7d872dae8fa99c67b5977d11",
+    "0x3162b367e9f34180f2228d505e54dbb7f2f23a3a8fee14f3084aea490fbf3fa",
+    "0xda5cb94995f668763e7c6ecf96dc6bc13943abf3e49c55a702d37f36f79114e",
+    "0x2575cdf1a61befe9fb7b83e880e8cc23d82600f35598ea2f81ad1bec1bd701b9",
+    "0x1f83d6c20646a7e089a8fd0ad274021af2fb24e315f400dcb3d26a99ab5a35ae",
+    "0x2c774cf487f79664580219c9d698781249e47b432767b0cbaf5169a5079fdb42",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x203c1b59256ff5c004e70c2c5125ed51cc53e99390a8de9018e647e1be8d9888",
+    "0x27abfb2e0894c5b4279b39b9319fa54ccbabd1efc509b31d906a1b5f764963c1",
+    "0x2fea2fd0f35fffa4f84894b6525b3fec299c821a4766a78c829c2e7e69efbf0b",
+    "0x2451d54dc48cb608f2e96698b96fd545816fef09dcaea75c9928179373a66fba",
+    "0x17c5d4cbf713d33eb7c1f915dd2b0e439bebc5510cb409594adb43f94b7a0e9a",
+    "0x279fbf4382e4b2bc46c1a8f719063ddb4226bb09c10cd68008b37c7f32d469c",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0xeb7c1194600e6ced3d8dc88c8689704d4188dfe89970dd790bb9cb600652321",
+    "0xa0e776c12cd108cc589b14e8493dc743d85046b1c4ca97715ec501fcb166ba3",
+    "0x1a8a8487cb8a60bce5774f64f62d0bcee791dc32d3a6f872f7dc626e4a732948",
+    "0x16f103fdba708db2bce8b58c467a05bb8878939c82852921e94e5e955aa09ca0",
+    "0x27a57324ff8193272833550d82f749d1389b493f98c8d3473f1a98900376325b",
+    "0x26e4040378441fe8a60d1a5319aab70076c82cc203530d82e758844070c04860",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x71846aa99eae694fa17d73eae87534f09c4539fa5c3b79ea6bc56d888dfa9c1",
+    "0xcf75a0326b8ca3e2ad571834bc835c083555587a928fef417730656217faa2e",
+    "0x1b80702e894d74821bfef8a2dae36f71d4802940f63a14fe64b3081340c4f11b",
+    "0x2cc49fb1ce9198b927ab098ec9f454d205342ab49677037f9ff7f08e3f07ce71",
+    "0x1a6e74bef4b0a5b3566facbf770a14bad98d8b6feab3e45995a328135888e924",
+    "0x2ef1e0f0bbff91312b2c9b4710ca04f4e978061ba53657e9bc1893bdb2e7c7c9",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0xbb77a79511909681081da11a13c7abf3107373ba413ecba4d47ee5a0c288fac",
+    "0x23d8b2e6869d7d05101d387c1b8cde6b85b7fe860e7eed2944c50d099053bfa5",
+    "0x3023a8bf03a803eda3830c500d1c0e061fa85c4c15b72459475e3de290616ae9",
+    "0x2b27c41a943be0d396ed3630098ff7018767161fc1a24d25f47969f1a44e20eb",
+    "0x2a73bceed9ee2a7261290c8590e2ff679582a3a6c5988254ddf6f108f1103e13",
+    "0x2579c47b76db59c6206ef023b59884fae08ef6a697acf7e55b6f132fd7733bc2",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2a5993c9c2a80be0f4b0a6f9c432e2c0604cf59d5bf5bf24609572d7d0acb900",
+    "0x10faea103aa36e7d5c7bf760b355e0fd381a393feca3c04450d7faf0f6a22804",
+    "0x2e98e92bc9904ca92c3e6d68fdd79e8bef6123ad5174f01d5dc04a240d8f47f1",
+    "0x119937bb5d5d9029f290239eb94fe86069f2db6bcedcda8a1028e0b7a434428",
+    "0x7c67a48f20850fc8ec8c735b73e07af2a08f52e7bc90084e9609e97f070cf2",
+    "0x2da7855de0bdab6e993fdc9ece5fadf00c5d39d58f6599a56438aa2663cc35ee",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1a69a3840762376c3a2aec1bd8a434f2a5e410a7e92d23dbbb20a0991aadc46b",
+    "0x57e27ad9218a311c3627a25345c879508fb856d68b9c0aca90276b1dfa4bf15",
+    "0x14307851c6b079c4f3b26689dc5f62b8ac2b69ccf33f3802e9ada26718881832",
+    "0x26c71cfb532662f6e681dd310fe112703b78f8ce1e3c39183d5d4889ce304271",
+    "0x294cb0c139a1a5a345bc094d8a53f21d90e82cf47bb87e3d5e5bbd761e6d82aa",
+    "0x84133bb35d1cee7f10a2f61953a4c77e09c4661a5565646654ddb7fec0be900",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1807d1d910cf5420087bc575b795cf7b77b590b7d14d3e3d2298b302c875bc1a",
+    "0x1df001fd3c1262358bfa1198116229dc12e112bcd91b4f3962c8136c02c57e9a",
+    "0x2b424b88ddb0ae2ff74d14a89099f8942df4e737c63f61f695ecea4842f9ff07",
+    "0x189b086bfbbb9da30885f11ff9cb213c0a353710153cadd96203c7f97203791a",
+    "0x1bd472ab81eb7d6c92809c07a387b1dad43a3083fe658bc88d1c3ac1672e2ec9",
+    "0x2bcb32de32d02f4b8f8b1d100459f537cb0e4e1f14cfe5724424107a9929bf8f",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0xcfc7baed4497a2252d54cdeaf8ce6f23773209abb5f341ca2ab616f0516195e",
+    "0x1cbfb6629ded2640c886dd504a2ec58f96b441839b79e54feab04260eb90b128",
+    "0xb3e19811df2edf55549ac304fb205cdae326abff1e7febd20f350af8752f2b",
+    "0x17e85c4c6fe808534124bb66995e5c663eb5a195ac1a26d8a096db675ca0dfcf",
+    "0x31cdebefacdf2b2dc708ff87cee0315f36e97308369e304e8d2654c342622dd",
+    "0x17c33efac12fd569e1ff7c0a0165c4cb8d23c279d442e7bbd073cadbe4f665b2",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x866a0d2140ed3854d5822fba68985764126345cdafbf547ebd33c39aecb895c",
+    "0x2bbd1e9f3114413c347ee4037d08f914d4cb655617c0cfaab77bb09ced39950",
+    "0x1ad0d5f7480a78dd4e048c459479d5622ed65f87880f675cbd2c4d97e7bc7847",
+    "0x1b88066e99b993f70306cde87ea47cab3efa6d698c9d3b1ba355b2c9f3453b74",
+    "0x25fa0cd0dea157ff4ed741b0dc76e0095a51fc30c799500e80d0b821aad7b9f1",
+    "0x208e0d0378f2c7d87a6ce8abcbd4bdd979a4d9dc80268cb96d84ad440fd0f99a",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0xbcb27a9e590ba76102f8bfa6f1c64726558f57a0027e6ddbc46d564eb8b09da",
+    "0xce91923c51960849a75b3f8fd1bfe1d9754dc7cd48144f964a0c91a4e08dd61",
+    "0x1fac92c295c763fe6b1e3c0f3604f0c7d618def2133ee2f869d2a1e774b4245d",
+    "0x87968a25cdbb96cd471e88fc2cccbf3e5b8bd1037b4ee5332adac070a82a109",
+    "0xcc8d9f53ff98eedd6fdd5c5def364a45d12ace1ff5e3626f760773b5de0e624",
+    "0x2b95310fe6307070e985d61390a351ca5e1c4a9f5e2c539602136fcd080f4e6a",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x28c0a6ccd9587d41eb73206239493c9150e52258eefa598382cf609d4559b2e8",
+    "0x165c6c313faa07be77275b235bcccbf30af0740ca973d6acce2cafa9462491d9",
+    "0xcdeb047d8e50b00253e926dff5f95b4279be0377669908d6759612cb73259e6",
+    "0x10140d5f85f2f329572c2c9b7535776b7695d62d6362ef27285485abbf9db018",
+    "0x9501340c196da04db07c8b1c3bc1461c228e926c9ee26f5e26364dd894b1468",
+    "0xf607855b7f42530fc19f6431d53035a74eb03f7251d71567982458698c93ac0",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x255be79d8de4168c44cf8a26522391ec6b67e30f2474bf2cc7c792dd25a47046",
+    "0x1ecb792391cc746710b586800234267adcd4d9841c4e8f1e76dfc5dd15eaec90",
+    "0x292470307f3a20d0205a19091cb044a8f9e58d0156f0364b21f3b6025b65d016",
+    "0xc3d7b0383d1377489843e884a06ba72245f0498e71043af2acda8353a47ecee",
+    "0xc610cb1971aaa4ae5f87fb14ed536198648cdc876c7c6e2f531d7d5d1ad625c",
+    "0x1c237dcaf124be157c5897960fe7f22af44d441d2d4590028a07bb249711d7e2",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2a5e583e4003e7e747a1d39ad6027a9f347c7de946a3cfd00750a9a102c05e3b",
+    "0x16ccec4b4960d2331a960804ecdb0442ecb1bcddb9bab42b306c4736510675e9",
+    "0x2d0db3092b03a54bdb861c291c1a1f522112f9e457e3a51d731851dd59b1365f",
+    "0x16f1469935ef074ab1ae192294dd62af3e14ae22f1e294032222c5ae19e2adbd",
+    "0x67c4106d011aaf52f2539ba2f8d1fe65ce9ae081858ad629b9ebe8148cc0878",
+    "0x12c6eaadcc69ac3b7344b8296ea4a251facc1c96356c84e8131b662f3d5f34a3",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2ad9831069e1f113495cdaaaf18733aa4a4eae1e850d58c06665a1c787ed6049",
+    "0x1a6d2b5f928d9f0a9c4022b9520d707e5eca0ac9cee84927a71737a036628f6c",
+    "0x1d92d368ae1f42256bfe712909a03c69a46bcd207c17461986a6de00e0952945",
+    "0x10ad1d35f6f8f499e64daef032a28251b50c622a28429d2b2107ab377784faaf",
+    "0x150225afc95fcb450fa9b2b7723479ecf7c3143eda0eaa257df4f1a798cf6375",
+    "0x13c542f46f245c790955fd30c8cfe7125534ebcf6df7b1d9bedbe7205eddb980",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2fea3116266bd3005b05649b48c70089e572a077ed0f8f9730b63cbb9134a368",
+    "0x1bc4f0df44852b392b2a36846030f42fcd462c40b04d0c90e71129e621842af6",
+    "0x83b244ee2ab819a95d0c4bcdb9d915dabb6832b4dff9bde7ce0515827d19cfb",
+    "0x1fe91590b6942e9c496a9c696c067b3086fd707b01290a7711d4f398908c8917",
+    "0x2e97a6382c9007fb2b6ac74186070eda269b10506e8e4a74ba82274d154268c0",
+    "0x19d731e981d3dd374362f4b4f05c5ee9600b5396567615c3ee94e0a80c8cc4ac",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1299ec83503dcd0c6aaece92e6c2cf7871b61e43318dc82a183a5039044fd000",
+    "0x27059db058fd253b71b341d077246299734497dc31f2159918c64a78188b85e1",
+    "0xf8c2dee7cdc8dc90eb57f025076157a181973f6347318feeb0c99afeae085d0",
+    "0x1053d862218c7ad87cda3105ac23bcb12c92e883006c3d44fa3f9166e827cfd6",
+    "0x1442ee0343b9bc2ae95f8c4f59cb32bb461a4c7b40a12e89b68b6990a4b71933",
+    "0x2ef147fa908e6186fc2ed54fadf20555ef2a1e9b3babcb6863879adf84a3472b",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x297d7f9fc303a0f583f992f7347f68b50b5bbd791acb93e2d8bc8efdc4c1ab53",
+    "0x2b4e8b40ce6c64abc1c906a956e5aaf5ebbdb7c98110e171adac573b81b16195",
+    "0x316fe041d68e38cbaa5d728d225ed818f00b2aa9ffb1ad3d9ec24bcdfccdcbc",
+    "0x168c57b725731fe3159d73e0d94c0ebf35171e3cf88e1267c2b556a5456ae6c1",
+    "0x90666d655622b3757b5ae5283432b4aeaece83148a36eb57821d241b3efbd3e",
+    "0x2c91164e87fcb1bd07143870286eca8a29df3678768bae50817569f48bd7bdf",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x110f901d246c2e951c579bbe91467a2950e69ecf241d8b68c4a4c98f05284b26",
+    "0x484e7feefee9a459b2861009d6007e8b15721afb4a35f3e5c9a6f1f70334091",
+    "0x11300deae6b73e9e5129595f0996c10ce002506c2c207bf672676a130aba8364",
+    "0xec4bcec59f43f5b5653a3cb0440d71118ce31bb60c75b9c6766b6a5e0524968",
+    "0xefa65a66b38b03467fe38d8669207d9fbb9f38faaf70d13a67c6bf71e1e71e6",
+    "0x27806883684a018d11ee2ecabb971dd9f690cc5a22ffe36ce61f17c6ea5fb4a8",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0xf4b7f229e28a7a9e7bf019b18ce7a36280fff22f7a99e60bd84d1baa891cd12",
+    "0x20b53ef54ebd25d7c222d418e017b7cc5e00a9ae5221191a1ff561b1ee3177b8",
+    "0x14efc55a08da5f53635520e21890e2e5eaf0cc1fa1fddcacf1302dc65ee059c2",
+    "0x1b701800b22e5765059fc4525bb4aacfac8dedf2ed37253160baa818678ef374",
+    "0x118648d759ffd92fb5bcb86acfdfc4bceddadd6fb1679c317cbbcf686651c67f",
+    "0x2601544a6e67f78415a0c2a6e8f4665f5910909c58bb2eb03f7854519af15f0",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x1bfdb6da2db944b4b79fc0ef825d6ca2acd350cbb87ff12187db30a1798d0dcf",
+    "0x969ce62c18f96eb6c6e3d0c5a7bc7b2b1de0cb7ae0474b47d16445f2d067cbb",
+    "0x13d54abe37dccf2eede120eeaabc5105b997f3647874179cfebc1c9b022b8215",
+    "0x27b42d0a347af048017cd6e2a577e959c0b6b6b8c2ae405cd9b05b793a2643b3",
+    "0x2737758ec335fcb4498d54d210c11bce1d2cf1b97b7ebb835c4bd17b1cf8d54f",
+    "0x1f9696df0bb5e293dc20d0579dba1866adef8f6e6d3846f42380861f5b54ca46",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x2fa9dd289eab48f0424a48c9a2b4f51d2de3ae6cf2d5e23a10b0366938541d65",
+    "0xfc755141d556a5eebf1efccbcbbf72ead5eecb5ad93e9814b715c4d388d7709",
+    "0x26127072286989c57c665090b20dc85c5fa983ae80c412fb2d8ad02194843981",
+    "0x229663addd9b99e225513a7d0ed1b43c0b02de97a57466355e670add9ad636b3",
+    "0x3011613dbd895a56a9dc81ca4f61a03f4e77c18834c6c20a51be01d4ef9062d2",
+    "0x5598cd7707b28488e2a0d669ac14e8464804e51537d7d3baa45a7c80e489c5b",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x16dc1f58a2e54f8f78d4a2bc67c5dd242744ff2db0ea9533a9fb3de2afa831e5",
+    "0x2a274cc1ef7dd9e160541523dd6b2c159fcb0f40191b63a8d0a877777b8dd060",
+    "0x1e8f3078f2fd0b0409460ab369a100d5a82cd93b3dd947644aa6bb8fc2f4f863",
+    "0x2ee81ae8b9bc0eb7d4417e09a83dd467ca8dcb6e8f0c8758b9cba555123dac67",
+    "0x367cb4b603a227e6b02ba57173fe7391e93db6078be2d56ef2e9164b6fd2721",
+    "0x184637a267f328df1bd119191fe0d1158eab799713ea537f01bebfa4fbb640f3",
+    "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+    "0x27649a3a1db5ba83511b2f9fb3785dbdf083f1f5d4bed38b76fd379545d9ca08",
+    "0x8f84f219781937a7bd7ed5aecdffbcad92a1d31262fe51761c94a0f19973283",
+    "0x14f65d95f7359b8f9f3527527ba9722197df3e698f773cf3027c00bc4160f989",
+    "0x2a75a171563b807db525be259699ab28fe9bc7fb1f70943ff049bc970e841a0c",
+    "0x2070679e798782ef592a52ca9cef820d497ad2eecbaa7e42f366b3e521c4ed42",
+    "0x2f545e578202c9732488540e41f783b68ff0613fd79375f8ba8b3d30958e7677",
+  ],
+];
+
+// MDS matrices
+export const POSEIDON_M: string[][][] = [
+  // t = 2
+  [
+    [
+      "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+      "0xcc57cdbb08507d62bf67a4493cc262fb6c09d557013fff1f573f431221f8ff9",
+    ],
+    [
+      "0x2b9d4b4110c9ae997782e1509b1d0fdb20a7c02bbd8bea7305462b9f8125b1e8",
+      "0x1274e649a32ed355a31a6ed69724e1adade857e86eb5c3a121bcd147943203c8",
+    ],
+  ],
+  // t = 3
+  [
+    [
+      "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+      "0x2969f27eed31a480b9c36c764379dbca2cc8fdd1415c3dded62940bcde0bd771",
+      "0x143021ec686a3f330d5f9e654638065ce6cd79e28c5b3753326244ee65a1b1a7",
+    ],
+    [
+      "0x16ed41e13bb9c0c66ae119424fddbcbc9314dc9fdbdeea55d6c64543dc4903e0",
+      "0x2e2419f9ec02ec394c9871c832963dc1b89d743c8c7b964029b2311687b1fe23",
+      "0x176cc029695ad02582a70eff08a6fd99d057e12e58e7d7b6b16cdfabc8ee2911",
+    ],
+    [
+      "0x2b90bba00fca0589f617e7dcbfe82e0df706ab640ceb247b791a93b74e36736d",
+      "0x101071f0032379b697315876690f053d148d4e109f5fb065c8aacc55a0f89bfa",
+      "0x19a3fc0a56702bf417ba7fee3802593fa644470307043f7773279cd71d25d5e0",
+    ],
+  ],
+  // t = 4
+  [
+    [
+      "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+      "0x2a75a171563b807db525be259699ab28fe9bc7fb1f70943ff049bc970e841a0c",
+      "0x2070679e798782ef592a52ca9cef820d497ad2eecbaa7e42f366b3e521c4ed42",
+      "0x2f545e578202c9732488540e41f783b68ff0613fd79375f8ba8b3d30958e7677",
+    ],
+    [
+      "0x277686494f7644bbc4a9b194e10724eb967f1dc58718e59e3cedc821b2a7ae19",
+      "0x83abff5e10051f078e2827d092e1ae808b4dd3e15ccc3706f38ce4157b6770e",
+      "0x2e18c8570d20bf5df800739a53da75d906ece318cd224ab6b3a2be979e2d7eab",
+      "0x23810bf82877fc19bff7eefeae3faf4bb8104c32ba4cd701596a15623d01476e",
+    ],
+    [
+      "0x23db68784e3f0cc0b85618826a9b3505129c16479973b0a84a4529e66b09c62",
+      "0x1a5ad71bbbecd8a97dc49cfdbae303ad24d5c4741eab8b7568a9ff8253a1eb6f",
+      "0xfa86f0f27e4d3dd7f3367ce86f684f1f2e4386d3e5b9f38fa283c6aa723b608",
+      "0x14fcd5eb0be6d5beeafc4944034cf321c068ef930f10be2207ed58d2a34cdd6",
+    ],
+    [
+      "0x1d359d245f286c12d50d663bae733f978af08cdbd63017c57b3a75646ff382c1",
+      "0xd745fd00dd167fb86772133640f02ce945004a7bc2c59e8790f725c5d84f0af",
+      "0x3f3e6fab791f16628168e4b14dbaeb657035ee3da6b2ca83f0c2491e0b403eb",
+      "0xc15fc3a1d5733dd835eae0823e377f8ba4a8b627627cc2bb661c25d20fb52a",
+    ],
+  ],
+];
+
+// Pre-sparse matrices
+export const POSEIDON_P: string[][][] = [
+  // t = 2
+  [
+    [
+      "0x66f6f85d6f68a85ec10345351a23a3aaf07f38af8c952a7bceca70bd2af7ad5",
+      "0x20e3e914631964e394d269ae59f17efee3fecee512cbb163d32cc760be574bd6",
+    ],
+    [
+      "0x2b9d4b4110c9ae997782e1509b1d0fdb20a7c02bbd8bea7305462b9f8125b1e8",
+      "0x10a44ed9dd9ce568563394632833d8633690d329ae737c8c7220a9b197ee3f46",
+    ],
+  ],
+  // t = 3
+  [
+    [
+      "0x109b7f411ba0e4c9b2b70caf5c36a7b194be7c11ad24378bfedb68592ba8118b",
+      "0x1e6f20a11d1e31e43f83dcedddb9a0236203f5f24ae72c925a8a79a66831f51d",
+      "0x1bd8c528472e57bdc722a141f8785694484f426725403ae24084e3027e782467",
+    ],
+    [
+      "0x16ed41e13bb9c0c66ae119424fddbcbc9314dc9fdbdeea55d6c64543dc4903e0",
+      "0x2d51ba82c8073c6d6bacf1ad5e56655b7143625b0a9e9c3190527a1a5f05079a",
+      "0x1b07d6d51e6f7e97e0ab10fc2e51ea83ce0611f940ff0731b5f927fe8d6a77c9",
+    ],
+    [
+      "0x2b90bba00fca0589f617e7dcbfe82e0df706ab640ceb247b791a93b74e36736d",
+      "0x11e12a40d262ae88e8376f62d19edf43093cdef1ccf34d985a3e53f0bc5765a0",
+      "0x221c170e4d02a2479c6f3e47b5ff55781574f980d89038308a3ef37cce8463bd",
+    ],
+  ],
+  // t = 4
+  [
+    [
+      "0x236d13393ef85cc48a351dd786dd7a1de5e39942296127fd87947223ae5108ad",
+      "0x2b257df708d2f3d6785ff39129c7f268c13aef87ee92e9096bd6bd8d2989a74",
+      "0x224a7cc70daf93a67ba74c0f2d80c5b0aea7ec1bb1f4e17ea21ff147c58b0a1b",
+      "0x18ce43c42faa57788e66b11b59c98363b6970c4fbe9206a0986ac7a4438b96c9",
+    ],
+    [
+      "0x277686494f7644bbc4a9b194e10724eb967f1dc58718e59e3cedc821b2a7ae19",
+      "0x27907df41fa277d8c74c3725e5b8be54f4b35d3d0b6e57b26ead3cde3d431897",
+      "0x1b7e85dfcfe013c45746d870fb2114991d43131fadbf80494c01d5b105d44a5e",
+      "0x2c1597f81dc951f0b27440567676ac64ea1b184e65eb25292cc4da61d8bf9824",
+    ],
+    [
+      "0x23db68784e3f0cc0b85618826a9b3505129c16479973b0a84a4529e66b09c62",
+      "0x2460a032cf84ecd1f57096c9d21f5d48d1b21abc6d70277d7a75946997aed17",
+      "0xc7a2ae4396db1838e5cb1ee490a768c1777efac919031924ab242d19be92806",
+      "0x8c2147f957a152ffc37eec7b1cb029c07ecfabcc84489502a6e052aa6f94288",
+    ],
+    [
+      "0x1d359d245f286c12d50d663bae733f978af08cdbd63017c57b3a75646ff382c1",
+      "0x2456b3c4841aabbcc4bcb4950dae4a0f8e60cf0511decb8b67afdabeca0dc590",
+      "0x1a2e45b92aba8f36f92110d68941ce37d39fe27d02b794d53f7b961b7ed377c5",
+      "0x182d95b63ec720b3af3a3bc6d0a6012d4885ba5754f32aa1f1d92ba130fe5745",
+    ],
+  ],
+];
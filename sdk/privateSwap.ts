@@ -6,10 +6,20 @@
  */
 
 import { buildMerkleTree } from "./merkle";
+import { formatCommitmentForContract } from "./commitment";
 import { generateProofFromBuffers, formatProofForContract } from "./proof";
 import { submitToRelayer, getRelayerInfo } from "./relayer";
-import { fetchDeposits } from "./deposits";
-import { RELAYER_DEFAULT_URL, UNICHAIN_SEPOLIA } from "./constants";
+import { fetchDeposits, checkNoteDeposit, isMultiTokenPool } from "./deposits";
+import {
+  RELAYER_DEFAULT_URL,
+  UNICHAIN_SEPOLIA,
+  getChainConfig,
+  getMerkleTreeConfig,
+} from "./constants";
+import type { CircuitVariant } from "./circuits";
+import type { MerkleTreeOptions } from "./merkle";
+import type { Prover } from "./prover";
+import type { NoteStore } from "./noteStore";
 import type {
   DepositNote,
   PoolKey,
@@ -18,8 +28,12 @@ import type {
 
 /** Configuration for executePrivateSwap */
 export interface PrivateSwapParams {
-  /** The deposit note (from createDepositNote) */
-  note: DepositNote;
+  /** The deposit note (from createDepositNote); optional when noteStore is set */
+  note?: DepositNote;
+  /** Note store to load the note from, marked spent after a successful swap */
+  noteStore?: NoteStore;
+  /** Commitment of the stored note to spend (defaults to note.commitment) */
+  noteCommitment?: bigint;
   /** Recipient stealth address */
   recipient: string;
   /** Pool key for the swap */
@@ -40,6 +54,17 @@ export interface PrivateSwapParams {
   rpcUrl?: string;
   /** Pre-fetched commitments array (skip fetching if provided) */
   commitments?: bigint[];
+  /** Tree parameter overrides (defaults from getMerkleTreeConfig for the note's chain/pool) */
+  treeOptions?: MerkleTreeOptions;
+  /**
+   * Circuit variant (or its version) of wasmBuffer/zkeyBuffer (default:
+   * the built-in variant the swap needs, see selectCircuitVariant)
+   */
+  circuit?: CircuitVariant | string;
+  /** Merkle levels of the circuit in wasmBuffer/zkeyBuffer, for builds not in the registry */
+  circuitLevels?: number;
+  /** Prover backend (default: SnarkjsProver) */
+  prover?: Prover;
 }
 
 // Uniswap v4 sqrt price limits
@@ -89,7 +114,7 @@ export async function executePrivateSwap(
   params: PrivateSwapParams
 ): Promise<RelayerResponse> {
   const {
-    note,
+    noteStore,
     recipient,
     poolKey,
     zeroForOne,
@@ -99,6 +124,10 @@ export async function executePrivateSwap(
     relayerUrl,
     rpcUrl,
     commitments: preloadedCommitments,
+    treeOptions,
+    circuit,
+    circuitLevels,
+    prover,
   } = params;
 
   const sqrtPriceLimitX96 =
@@ -107,21 +136,54 @@ export async function executePrivateSwap(
 
   const url = relayerUrl || RELAYER_DEFAULT_URL;
 
+  const note = await resolveNote(params);
+
   // 1. Get relayer info for fee + address
   const relayerInfo = await getRelayerInfo(url);
 
+  // ERC20 notes can only be on GrimPoolMultiToken: without a pool, use
+  // the deployment on the note's chain
+  const chainId = note.chainId ?? UNICHAIN_SEPOLIA.chainId;
+  const isToken = note.token !== undefined && BigInt(note.token) !== 0n;
+  const pool =
+    note.pool ??
+    (isToken ? getChainConfig(chainId).addresses.grimPoolMultiToken : undefined);
+
+  // Make sure the pool holds what the note claims (the legacy GrimPool
+  // has no commitmentToken/commitmentAmount)
+  if (isToken || (pool !== undefined && isMultiTokenPool(pool))) {
+    await checkNoteDeposit(note, rpcUrl, pool);
+  }
+
   // 2. Fetch deposits and build Merkle tree
-  const commitments = preloadedCommitments || await fetchDeposits(rpcUrl);
-  const tree = await buildMerkleTree(commitments);
+  const commitments =
+    preloadedCommitments || await fetchDeposits(rpcUrl, pool);
+  const tree = await buildMerkleTree(commitments, {
+    ...getMerkleTreeConfig(chainId, pool),
+    ...treeOptions,
+  });
+
+  // Notes without a leafIndex (e.g. restored from secret + nullifier):
+  // look the commitment up in the tree
+  const leafIndex = note.leafIndex ?? tree.getLeafIndex(note.commitment);
 
-  if (note.leafIndex === undefined) {
+  if (leafIndex === undefined) {
     throw new Error(
-      "note.leafIndex is required. Set it after deposit confirmation " +
-      "(matches the leafIndex from the Deposit event)."
+      `Commitment was never deposited (not among ${tree.leafCount} deposits): ` +
+      formatCommitmentForContract(note.commitment)
     );
   }
+  if (tree.getLeaf(leafIndex) !== note.commitment) {
+    throw new Error(
+      `note.leafIndex ${leafIndex} does not hold the note's commitment ` +
+      `(found at ${tree.getLeafIndex(note.commitment) ?? "no index"})`
+    );
+  }
+  if (note.leafIndex === undefined && noteStore && (await noteStore.get(note.commitment))) {
+    await noteStore.markDeposited(note.commitment, leafIndex);
+  }
 
-  const merkleProof = tree.getProof(note.leafIndex);
+  const merkleProof = tree.getProof(leafIndex);
 
   // 3. Generate ZK proof
   const { proof, publicSignals } = await generateProofFromBuffers(
@@ -134,13 +196,15 @@ export async function executePrivateSwap(
       expectedAmountOut: note.amount,
     },
     wasmBuffer,
-    zkeyBuffer
+    zkeyBuffer,
+    circuit ?? circuitLevels,
+    prover
   );
 
   // 4. Format and submit to relayer
   const formatted = formatProofForContract(proof, publicSignals);
 
-  return submitToRelayer(
+  const response = await submitToRelayer(
     url,
     {
       a: formatted.pA,
@@ -153,6 +217,41 @@ export async function executePrivateSwap(
       zeroForOne,
       amountSpecified: amountSpecified.toString(),
       sqrtPriceLimitX96: sqrtPriceLimitX96.toString(),
+      ...(note.token && BigInt(note.token) !== 0n
+        ? { inputToken: note.token }
+        : {}),
     }
   );
+
+  if (response.success && noteStore && (await noteStore.get(note.commitment))) {
+    await noteStore.markSpent(note.commitment);
+  }
+
+  return response;
+}
+
+/**
+ * Pick the note from params or load it from the note store
+ */
+async function resolveNote(params: PrivateSwapParams): Promise<DepositNote> {
+  const { noteStore } = params;
+  const commitment = params.noteCommitment ?? params.note?.commitment;
+
+  if (noteStore && commitment !== undefined) {
+    const stored = await noteStore.get(commitment);
+    if (stored) {
+      if (stored.status === "spent") {
+        throw new Error("Note has already been spent");
+      }
+      return stored.note;
+    }
+  }
+
+  if (!params.note) {
+    throw new Error(
+      "Either note or noteStore + noteCommitment is required"
+    );
+  }
+
+  return params.note;
 }
@@ -5,12 +5,27 @@
  */
 
 import * as snarkjs from "snarkjs";
+import { loadCircuitArtifacts } from "./artifacts";
+import {
+  DEFAULT_CIRCUIT_VERSION,
+  getCircuitVariant,
+  isCircuitArtifactUrl,
+  listCircuitVariants,
+  resolveCircuitArtifact,
+  selectCircuitVariant,
+} from "./circuits";
+import type { CircuitVariant } from "./circuits";
 import {
   computeCommitment,
   computeNullifierHash,
   initPoseidon,
+  poseidonHashSync,
 } from "./commitment";
 import { formatProofForCircuit } from "./merkle";
+import { FIELD_SIZE } from "./poseidon";
+import { SnarkjsProver } from "./prover";
+import type { Prover } from "./prover";
+import { computeSwapParamsHash } from "./swapBinding";
 import type {
   DepositNote,
   MerkleProof,
@@ -18,20 +33,49 @@ import type {
   CircuitInput,
   Groth16Proof,
   ContractProof,
+  PublicSignals,
+  RelayerRequest,
+  VerificationKey,
 } from "./types";
+import { PRIVATE_SWAP_VERIFICATION_KEY } from "./verificationKey";
+
+// Merkle levels of the default circuit variant (PrivateSwap(20) in privateSwap.circom)
+export const CIRCUIT_LEVELS = getCircuitVariant(DEFAULT_CIRCUIT_VERSION).levels;
+
+// Exclusive upper bound on relayerFee (feeCheck in privateSwap.circom)
+export const MAX_RELAYER_FEE = 1000;
+
+// Bit size of the spent and change amounts (spendRange/changeRange in privateSwapSplit.circom)
+const SPLIT_AMOUNT_BITS = 248n;
 
-// Default paths relative to SDK (Node.js only)
-const DEFAULT_WASM_PATH = "../build/privateSwap_js/privateSwap.wasm";
-const DEFAULT_ZKEY_PATH = "../build/privateSwap.zkey";
+/** A circuit constraint that a CircuitInput does not satisfy */
+export interface CircuitInputError {
+  /** Failing constraint, named after the circuit component (e.g. "feeCheck") */
+  constraint: string;
+  /** Input signal at fault (e.g. "relayerFee", "pathIndices[3]") */
+  signal: string;
+  message: string;
+}
 
 /**
  * Generate a ZK proof for a private swap
  *
+ * The circuit variant follows swapParams: with swapParams.swap set the
+ * proof is bound to that swap (privateSwapV2); with swapParams.changeNote
+ * it spends part of the note (privateSwapSplit); with
+ * swapParams.association it also proves the note is in an association set
+ * (privateSwapAssociation). Artifacts default to the variant's build files.
+ *
  * @param note - The deposit note
  * @param merkleProof - Merkle proof of inclusion
  * @param swapParams - Swap parameters
- * @param wasmPath - Path to compiled circuit WASM
- * @param zkeyPath - Path to proving key
+ * @param wasmPath - Path to compiled circuit WASM (default: the variant's;
+ *   URL locations are fetched and checked with loadCircuitArtifacts)
+ * @param zkeyPath - Path to proving key (default: the variant's)
+ * @param circuit - Circuit variant or its version (default: see
+ *   selectCircuitVariant), or Merkle levels (a registered variant with
+ *   those levels, else a custom build: pass wasmPath and zkeyPath)
+ * @param prover - Prover backend (default: SnarkjsProver)
  * @returns Proof and public signals
  */
 export async function generateProof(
@@ -39,24 +83,43 @@ export async function generateProof(
   merkleProof: MerkleProof,
   swapParams: SwapParams,
   wasmPath?: string,
-  zkeyPath?: string
+  zkeyPath?: string,
+  circuit?: CircuitVariant | string | number,
+  prover: Prover = new SnarkjsProver()
 ): Promise<{
   proof: Groth16Proof;
   publicSignals: string[];
 }> {
+  const variant = selectCircuitVariant(swapParams, circuit);
+  if (
+    typeof circuit === "number" &&
+    !listCircuitVariants().includes(variant) &&
+    (!wasmPath || !zkeyPath)
+  ) {
+    throw new Error(
+      `No registered ${variant.circuit} variant has ${circuit} levels: pass wasmPath and zkeyPath of the build`
+    );
+  }
+  checkProofLevels(merkleProof, variant.levels);
   await initPoseidon();
 
-  // Dynamic imports - only loaded when this Node.js function is called
-  const path = require("path") as typeof import("path");
-  const fs = require("fs") as typeof import("fs");
+  // Build circuit input and check it before touching the artifacts
+  const input = buildCircuitInput(note, merkleProof, swapParams);
+  assertValidCircuitInput(input, variant.levels);
 
   // Resolve paths
-  const wasm =
-    wasmPath ||
-    path.resolve(__dirname, DEFAULT_WASM_PATH);
-  const zkey =
-    zkeyPath ||
-    path.resolve(__dirname, DEFAULT_ZKEY_PATH);
+  const wasm = wasmPath || resolveCircuitArtifact(variant.wasm);
+  const zkey = zkeyPath || resolveCircuitArtifact(variant.zkey);
+
+  // URL artifacts are downloaded and checked against the variant's hashes
+  // (snarkjs would read a URL string as a file path in Node.js)
+  if (isCircuitArtifactUrl(wasm) || isCircuitArtifactUrl(zkey)) {
+    const loaded = await loadCircuitArtifacts({ circuit: variant, wasm, zkey });
+    return prover.prove(input, { wasm: loaded.wasm, zkey: loaded.zkey });
+  }
+
+  // Dynamic imports - only loaded when this Node.js function is called
+  const fs = require("fs") as typeof import("fs");
 
   // Verify files exist
   if (!fs.existsSync(wasm)) {
@@ -66,11 +129,37 @@ export async function generateProof(
     throw new Error(`ZKey file not found: ${zkey}`);
   }
 
+  return prover.prove(input, { wasm, zkey });
+}
+
+/**
+ * Build the privateSwap circuit input (witness input JSON)
+ *
+ * @param note - The deposit note
+ * @param merkleProof - Merkle proof of inclusion
+ * @param swapParams - Swap parameters (with swap: privateSwapV2 input; with
+ *   changeNote: privateSwapSplit input; with association:
+ *   privateSwapAssociation input)
+ * @returns CircuitInput with all signals as decimal strings
+ * @throws If more than one of swap, changeNote and association is set (no
+ *   circuit combines them)
+ */
+export function buildCircuitInput(
+  note: DepositNote,
+  merkleProof: MerkleProof,
+  swapParams: SwapParams
+): CircuitInput {
   // Format Merkle proof for circuit
   const { pathElements, pathIndices } = formatProofForCircuit(merkleProof);
+  const { swap, changeNote, association } = swapParams;
+  const variants = (["swap", "changeNote", "association"] as const).filter(
+    (name) => swapParams[name]
+  );
+  if (variants.length > 1) {
+    throw new Error(`swapParams.${variants.join(" and swapParams.")} cannot be combined`);
+  }
 
-  // Build circuit input
-  const input: CircuitInput = {
+  return {
     // Public inputs
     merkleRoot: merkleProof.root.toString(),
     nullifierHash: note.nullifierHash.toString(),
@@ -78,6 +167,14 @@ export async function generateProof(
     relayer: swapParams.relayer || "0",
     relayerFee: (swapParams.relayerFee || 0).toString(),
     swapAmountOut: swapParams.expectedAmountOut.toString(),
+    ...(swap
+      ? {
+          swapParamsHash: computeSwapParamsHash(swap).toString(),
+          deadline: swap.deadline.toString(),
+        }
+      : {}),
+    ...(changeNote ? { changeCommitment: changeNote.commitment.toString() } : {}),
+    ...(association ? { associationRoot: association.root.toString() } : {}),
 
     // Private inputs
     secret: note.secret.toString(),
@@ -85,19 +182,249 @@ export async function generateProof(
     depositAmount: note.amount.toString(),
     pathElements,
     pathIndices,
+    ...(changeNote
+      ? {
+          changeSecret: changeNote.secret.toString(),
+          changeNullifier: changeNote.nullifier.toString(),
+        }
+      : {}),
+    ...(association
+      ? {
+          associationPathElements: association.pathElements.map((e) => e.toString()),
+          associationPathIndices: association.pathIndices,
+        }
+      : {}),
   };
+}
 
-  // Generate proof using snarkjs
-  const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-    input,
-    wasm,
-    zkey
-  );
+/**
+ * Check a circuit input against the privateSwap constraints in TypeScript
+ *
+ * Mirrors the circuit: field range of every signal, path length, binary
+ * pathIndices (merkleChecker), Merkle root of the note commitment,
+ * nullifierHasher, recipientNotZero, feeCheck and relayerIsZero, for
+ * privateSwapSplit spendRange, changeRange and changeHasher, and for
+ * privateSwapAssociation the associationChecker path. An input that
+ * passes will not fail witness generation.
+ *
+ * @param input - Circuit input (see buildCircuitInput)
+ * @param levels - Merkle levels of the circuit (default: CIRCUIT_LEVELS)
+ * @returns Failing constraints (empty if the input is valid)
+ *
+ * @example
+ * ```typescript
+ * const errors = validateCircuitInput(buildCircuitInput(note, merkleProof, swapParams));
+ * for (const e of errors) console.log(`${e.constraint} (${e.signal}): ${e.message}`);
+ * ```
+ */
+export function validateCircuitInput(
+  input: CircuitInput,
+  levels: number = CIRCUIT_LEVELS
+): CircuitInputError[] {
+  const errors: CircuitInputError[] = [];
+  const fail = (constraint: string, signal: string, message: string) => {
+    errors.push({ constraint, signal, message });
+  };
 
-  return {
-    proof: proof as Groth16Proof,
-    publicSignals,
+  // Every signal must be a field element
+  const field = (signal: string, value: string | number): bigint | null => {
+    let parsed: bigint;
+    try {
+      parsed = BigInt(value);
+    } catch {
+      fail("field", signal, `${signal} is not a number: ${value}`);
+      return null;
+    }
+    if (parsed < 0n || parsed >= FIELD_SIZE) {
+      fail("field", signal, `${signal} is not a field element`);
+      return null;
+    }
+    return parsed;
   };
+
+  const merkleRoot = field("merkleRoot", input.merkleRoot);
+  const nullifierHash = field("nullifierHash", input.nullifierHash);
+  const recipient = field("recipient", input.recipient);
+  const relayer = field("relayer", input.relayer);
+  const relayerFee = field("relayerFee", input.relayerFee);
+  const swapAmountOut = field("swapAmountOut", input.swapAmountOut);
+  // privateSwapV2 binding: both or neither
+  if ((input.swapParamsHash === undefined) !== (input.deadline === undefined)) {
+    fail(
+      "swapBinding",
+      input.deadline === undefined ? "deadline" : "swapParamsHash",
+      "swapParamsHash and deadline must be set together (privateSwapV2)"
+    );
+  }
+  if (input.swapParamsHash !== undefined) field("swapParamsHash", input.swapParamsHash);
+  if (input.deadline !== undefined) field("deadline", input.deadline);
+  const secret = field("secret", input.secret);
+  const nullifier = field("nullifier", input.nullifier);
+  const depositAmount = field("depositAmount", input.depositAmount);
+
+  // Merkle path: exactly `levels` siblings and binary indices; returns the
+  // parsed siblings, or null if the path cannot be hashed
+  const merklePath = (
+    constraint: string,
+    [elementsName, indicesName]: [string, string],
+    elements: string[],
+    indices: number[]
+  ): bigint[] | null => {
+    let valid = true;
+    for (const [name, entries] of [[elementsName, elements], [indicesName, indices]] as const) {
+      if (entries.length !== levels) {
+        fail("levels", name, `${name} has ${entries.length} entries but the circuit expects ${levels}`);
+        valid = false;
+      }
+    }
+    const parsed = elements.map((element, i) => {
+      const sibling = field(`${elementsName}[${i}]`, element);
+      valid &&= sibling !== null;
+      return sibling ?? 0n;
+    });
+    indices.forEach((index, i) => {
+      if (index !== 0 && index !== 1) {
+        fail(constraint, `${indicesName}[${i}]`, `${indicesName}[${i}] must be 0 or 1, got ${index}`);
+        valid = false;
+      }
+    });
+    return valid ? parsed : null;
+  };
+  const hashPath = (leaf: bigint, siblings: bigint[], indices: number[]): bigint =>
+    siblings.reduce(
+      (node, sibling, i) =>
+        indices[i] === 0 ? poseidonHashSync([node, sibling]) : poseidonHashSync([sibling, node]),
+      leaf
+    );
+
+  const pathElements = merklePath(
+    "merkleChecker",
+    ["pathElements", "pathIndices"],
+    input.pathElements,
+    input.pathIndices
+  );
+  const commitment =
+    secret !== null && nullifier !== null && depositAmount !== null
+      ? poseidonHashSync([nullifier, secret, depositAmount])
+      : null;
+
+  // merkleChecker: the note commitment must hash up to merkleRoot
+  if (pathElements && merkleRoot !== null && commitment !== null) {
+    if (hashPath(commitment, pathElements, input.pathIndices) !== merkleRoot) {
+      fail("merkleChecker", "merkleRoot", "Merkle path does not lead from the note commitment to merkleRoot");
+    }
+  }
+
+  // nullifierHasher: nullifierHash === Poseidon(nullifier)
+  if (nullifier !== null && nullifierHash !== null && poseidonHashSync([nullifier]) !== nullifierHash) {
+    fail("nullifierHasher", "nullifierHash", "nullifierHash is not the Poseidon hash of nullifier");
+  }
+
+  if (recipient === 0n) {
+    fail("recipientNotZero", "recipient", "recipient must not be zero");
+  }
+
+  if (relayerFee !== null && relayerFee >= BigInt(MAX_RELAYER_FEE)) {
+    fail("feeCheck", "relayerFee", `relayerFee must be below ${MAX_RELAYER_FEE} (10%), got ${relayerFee}`);
+  }
+
+  if (relayer === 0n && relayerFee !== null && relayerFee !== 0n) {
+    fail("relayerIsZero", "relayerFee", "relayerFee must be zero without a relayer");
+  }
+
+  // privateSwapSplit: swapAmountOut is spent, the change note gets the rest
+  const changeSignals = ["changeCommitment", "changeSecret", "changeNullifier"] as const;
+  const missing = changeSignals.filter((name) => input[name] === undefined);
+  if (missing.length > 0 && missing.length < changeSignals.length) {
+    for (const name of missing) {
+      fail("changeHasher", name, `${name} is missing (privateSwapSplit needs all change note signals)`);
+    }
+  } else if (missing.length === 0) {
+    const [changeCommitment, changeSecret, changeNullifier] = changeSignals.map(
+      (name) => field(name, input[name]!)
+    );
+    const limit = 1n << SPLIT_AMOUNT_BITS;
+
+    if (swapAmountOut !== null && swapAmountOut >= limit) {
+      fail("spendRange", "swapAmountOut", `swapAmountOut must fit in ${SPLIT_AMOUNT_BITS} bits`);
+    } else if (swapAmountOut !== null && depositAmount !== null) {
+      const changeAmount = depositAmount - swapAmountOut;
+      if (changeAmount < 0n || changeAmount >= limit) {
+        fail(
+          "changeRange",
+          "swapAmountOut",
+          changeAmount < 0n
+            ? `swapAmountOut ${swapAmountOut} exceeds depositAmount ${depositAmount}`
+            : `depositAmount - swapAmountOut must fit in ${SPLIT_AMOUNT_BITS} bits`
+        );
+      } else if (
+        changeCommitment !== null &&
+        changeSecret !== null &&
+        changeNullifier !== null &&
+        poseidonHashSync([changeNullifier, changeSecret, changeAmount]) !== changeCommitment
+      ) {
+        fail(
+          "changeHasher",
+          "changeCommitment",
+          "changeCommitment does not commit to depositAmount - swapAmountOut"
+        );
+      }
+    }
+  }
+
+  // privateSwapAssociation: the note commitment is also in the association set
+  const associationSignals = [
+    "associationRoot",
+    "associationPathElements",
+    "associationPathIndices",
+  ] as const;
+  const associationMissing = associationSignals.filter((name) => input[name] === undefined);
+  if (associationMissing.length > 0 && associationMissing.length < associationSignals.length) {
+    for (const name of associationMissing) {
+      fail(
+        "associationChecker",
+        name,
+        `${name} is missing (privateSwapAssociation needs the association root and path)`
+      );
+    }
+  } else if (associationMissing.length === 0) {
+    const associationRoot = field("associationRoot", input.associationRoot!);
+    const associationPathElements = merklePath(
+      "associationChecker",
+      ["associationPathElements", "associationPathIndices"],
+      input.associationPathElements!,
+      input.associationPathIndices!
+    );
+    if (associationPathElements && associationRoot !== null && commitment !== null) {
+      const root = hashPath(commitment, associationPathElements, input.associationPathIndices!);
+      if (root !== associationRoot) {
+        fail(
+          "associationChecker",
+          "associationRoot",
+          "Association path does not lead from the note commitment to associationRoot"
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Throw if a circuit input fails validateCircuitInput
+ *
+ * @throws Error listing every failing constraint
+ */
+export function assertValidCircuitInput(
+  input: CircuitInput,
+  levels: number = CIRCUIT_LEVELS
+): void {
+  const errors = validateCircuitInput(input, levels);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid circuit input: ${errors.map((e) => `${e.message} (${e.constraint})`).join("; ")}`
+    );
+  }
 }
 
 /**
@@ -136,8 +463,9 @@ export function formatProofForContract(
 export function encodeProofAsHookData(contractProof: ContractProof): string {
   const { ethers } = require("ethers");
 
+  // uint256[8] for privateSwap, uint256[10] for privateSwapV2
   return ethers.AbiCoder.defaultAbiCoder().encode(
-    ["uint256[2]", "uint256[2][2]", "uint256[2]", "uint256[8]"],
+    ["uint256[2]", "uint256[2][2]", "uint256[2]", `uint256[${contractProof.pubSignals.length}]`],
     [
       contractProof.pA,
       contractProof.pB,
@@ -148,33 +476,79 @@ export function encodeProofAsHookData(contractProof: ContractProof): string {
 }
 
 /**
- * Verify a proof locally (for testing)
+ * Verify a proof locally
  *
- * @param proof - The Groth16 proof
- * @param publicSignals - Public signals
- * @param vkeyPath - Path to verification key JSON
+ * Uses the embedded privateSwap verification key by default, so no file
+ * access is needed (browsers, edge runtimes). Proofs of the other
+ * circuits need their own key (e.g. loadVerificationKey("privateSwapV2")).
+ *
+ * @param proof - Groth16 proof from snarkjs, or a ContractProof
+ * @param publicSignals - Public signals (optional for a ContractProof)
+ * @param vkey - Verification key object, or a JSON file path (Node.js only)
+ *   (default: PRIVATE_SWAP_VERIFICATION_KEY)
  * @returns True if valid
+ * @throws If the key takes another number of public signals than the proof has
  */
 export async function verifyProofLocally(
-  proof: Groth16Proof,
-  publicSignals: string[],
-  vkeyPath?: string
+  proof: Groth16Proof | ContractProof,
+  publicSignals?: string[],
+  vkey?: VerificationKey | string
 ): Promise<boolean> {
-  // Dynamic imports - only loaded when this Node.js function is called
-  const path = require("path") as typeof import("path");
-  const fs = require("fs") as typeof import("fs");
+  const groth16Proof = "pA" in proof ? contractProofToGroth16(proof) : proof;
+  const signals = publicSignals ?? ("pubSignals" in proof ? proof.pubSignals : undefined);
+  if (!signals) {
+    throw new Error("publicSignals are required for a snarkjs proof");
+  }
 
-  const vkey =
-    vkeyPath ||
-    path.resolve(__dirname, "../setup/verification_key.json");
+  const verificationKey =
+    vkey === undefined
+      ? PRIVATE_SWAP_VERIFICATION_KEY
+      : typeof vkey === "string"
+        ? readVerificationKey(vkey)
+        : vkey;
 
-  if (!fs.existsSync(vkey)) {
-    throw new Error(`Verification key not found: ${vkey}`);
+  // snarkjs just returns false for a key of another circuit
+  if (signals.length !== verificationKey.nPublic) {
+    const circuits = [
+      ...new Set(
+        listCircuitVariants()
+          .filter((variant) => variant.publicSignals.length === signals.length)
+          .map((variant) => variant.circuit)
+      ),
+    ];
+    throw new Error(
+      `The proof has ${signals.length} public signals` +
+      (circuits.length > 0 ? ` (${circuits.join(" or ")})` : "") +
+      ` but the verification key takes ${verificationKey.nPublic}` +
+      (vkey === undefined && circuits.length > 0
+        ? `: pass the ${circuits.join(" or ")} verification key`
+        : "")
+    );
   }
 
-  const verificationKey = JSON.parse(fs.readFileSync(vkey, "utf8"));
+  return await snarkjs.groth16.verify(verificationKey, signals, groth16Proof);
+}
 
-  return await snarkjs.groth16.verify(verificationKey, publicSignals, proof);
+/**
+ * Verify a proof in the relayer format ({ a, b, c }, as returned by
+ * generateProofForRelayer) before submitting it
+ *
+ * @param proof - Relayer-format proof
+ * @param publicSignals - Public signals
+ * @param vkey - Verification key (default: PRIVATE_SWAP_VERIFICATION_KEY)
+ * @returns True if valid
+ * @throws If the key takes another number of public signals than the proof has
+ */
+export async function verifyRelayerProof(
+  proof: RelayerRequest["proof"],
+  publicSignals: string[],
+  vkey?: VerificationKey | string
+): Promise<boolean> {
+  return verifyProofLocally(
+    { pA: proof.a, pB: proof.b, pC: proof.c, pubSignals: publicSignals },
+    publicSignals,
+    vkey
+  );
 }
 
 /**
@@ -217,26 +591,36 @@ export async function generateProofForRelayer(
 
 /**
  * Compute what the public signals should be (for verification)
+ *
+ * @returns PublicSignals in circuit order (compare with decodePublicSignals,
+ * or use checkPublicSignals)
  */
 export async function computeExpectedPublicSignals(
   note: DepositNote,
   merkleProof: MerkleProof,
   swapParams: SwapParams
-): Promise<{
-  merkleRoot: bigint;
-  nullifierHash: bigint;
-  recipient: bigint;
-  relayer: bigint;
-  relayerFee: bigint;
-  swapAmountOut: bigint;
-}> {
+): Promise<PublicSignals> {
   return {
+    computedCommitment: note.commitment,
+    computedNullifierHash: note.nullifierHash,
     merkleRoot: merkleProof.root,
     nullifierHash: note.nullifierHash,
     recipient: BigInt(swapParams.recipient),
     relayer: BigInt(swapParams.relayer || "0"),
     relayerFee: BigInt(swapParams.relayerFee || 0),
     swapAmountOut: swapParams.expectedAmountOut,
+    ...(swapParams.swap
+      ? {
+          swapParamsHash: computeSwapParamsHash(swapParams.swap),
+          deadline: swapParams.swap.deadline,
+        }
+      : {}),
+    ...(swapParams.changeNote
+      ? { changeCommitment: swapParams.changeNote.commitment }
+      : {}),
+    ...(swapParams.association
+      ? { associationRoot: swapParams.association.root }
+      : {}),
   };
 }
 
@@ -245,13 +629,20 @@ export async function computeExpectedPublicSignals(
  *
  * Unlike generateProof() which reads files from disk, this accepts
  * ArrayBuffer/Uint8Array directly - suitable for browser environments
- * where WASM and zkey are fetched over HTTP or bundled.
+ * where WASM and zkey are fetched over HTTP or bundled. Pass the
+ * artifacts of the circuit variant swapParams need (see
+ * selectCircuitVariant): privateSwapV2 with swapParams.swap,
+ * privateSwapSplit with swapParams.changeNote, privateSwapAssociation
+ * with swapParams.association.
  *
  * @param note - The deposit note
  * @param merkleProof - Merkle proof of inclusion
  * @param swapParams - Swap parameters
  * @param wasmBuffer - Circuit WASM as ArrayBuffer or Uint8Array
  * @param zkeyBuffer - Proving key as ArrayBuffer or Uint8Array
+ * @param circuit - Circuit variant or its version (default: see
+ *   selectCircuitVariant), or the Merkle levels of a custom build
+ * @param prover - Prover backend (default: SnarkjsProver)
  * @returns Proof and public signals
  */
 export async function generateProofFromBuffers(
@@ -259,28 +650,19 @@ export async function generateProofFromBuffers(
   merkleProof: MerkleProof,
   swapParams: SwapParams,
   wasmBuffer: ArrayBuffer | Uint8Array,
-  zkeyBuffer: ArrayBuffer | Uint8Array
+  zkeyBuffer: ArrayBuffer | Uint8Array,
+  circuit?: CircuitVariant | string | number,
+  prover: Prover = new SnarkjsProver()
 ): Promise<{
   proof: Groth16Proof;
   publicSignals: string[];
 }> {
+  const { levels } = selectCircuitVariant(swapParams, circuit);
+  checkProofLevels(merkleProof, levels);
   await initPoseidon();
 
-  const { pathElements, pathIndices } = formatProofForCircuit(merkleProof);
-
-  const input: CircuitInput = {
-    merkleRoot: merkleProof.root.toString(),
-    nullifierHash: note.nullifierHash.toString(),
-    recipient: swapParams.recipient,
-    relayer: swapParams.relayer || "0",
-    relayerFee: (swapParams.relayerFee || 0).toString(),
-    swapAmountOut: swapParams.expectedAmountOut.toString(),
-    secret: note.secret.toString(),
-    nullifier: note.nullifier.toString(),
-    depositAmount: note.amount.toString(),
-    pathElements,
-    pathIndices,
-  };
+  const input = buildCircuitInput(note, merkleProof, swapParams);
+  assertValidCircuitInput(input, levels);
 
   const wasm = wasmBuffer instanceof Uint8Array
     ? wasmBuffer
@@ -289,14 +671,47 @@ export async function generateProofFromBuffers(
     ? zkeyBuffer
     : new Uint8Array(zkeyBuffer);
 
-  const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-    input,
-    wasm as any,
-    zkey as any
-  );
+  return prover.prove(input, { wasm, zkey });
+}
 
+/**
+ * Undo formatProofForContract (G2 coordinates back in snarkjs order,
+ * projective z = 1)
+ */
+function contractProofToGroth16(proof: ContractProof): Groth16Proof {
   return {
-    proof: proof as Groth16Proof,
-    publicSignals,
+    pi_a: [proof.pA[0], proof.pA[1], "1"],
+    pi_b: [
+      [proof.pB[0][1], proof.pB[0][0]],
+      [proof.pB[1][1], proof.pB[1][0]],
+      ["1", "0"],
+    ],
+    pi_c: [proof.pC[0], proof.pC[1], "1"],
+    protocol: "groth16",
+    curve: "bn128",
   };
 }
+
+function readVerificationKey(vkeyPath: string): VerificationKey {
+  // Dynamic import - only loaded when a path is given
+  const fs = require("fs") as typeof import("fs");
+
+  if (!fs.existsSync(vkeyPath)) {
+    throw new Error(`Verification key not found: ${vkeyPath}`);
+  }
+  return JSON.parse(fs.readFileSync(vkeyPath, "utf8"));
+}
+
+/**
+ * The circuit's pathElements/pathIndices have exactly `levels` entries;
+ * a tree of another height otherwise fails deep inside witness generation
+ */
+export function checkProofLevels(merkleProof: MerkleProof, levels: number): void {
+  const depth = merkleProof.pathElements.length;
+  if (depth !== levels || merkleProof.pathIndices.length !== levels) {
+    throw new Error(
+      `Merkle proof has ${depth} levels but the circuit expects ${levels}: ` +
+      `build the tree with height ${levels} (see getMerkleTreeConfig)`
+    );
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * GrimSwap ZK SDK - Proof Worker
+ *
+ * Worker script behind WorkerProver (published as
+ * "@grimswap/circuits/worker"), for browser Web Workers and Node.js
+ * worker_threads through the "web-worker" shim. Keeps the circuit
+ * artifacts in memory between proofs and splits fullProve into witness
+ * calculation and proving to report progress.
+ *
+ * Not exported from the SDK index: load it as a worker script only.
+ */
+
+import * as snarkjs from "snarkjs";
+import type { Groth16Proof } from "./types";
+import type {
+  ProofWorkerRequest,
+  ProofWorkerResponse,
+} from "./workerProver";
+
+/** Messaging endpoint of the current worker (self) */
+interface WorkerPort {
+  postMessage(message: ProofWorkerResponse): void;
+  onMessage(listener: (message: ProofWorkerRequest) => void): void;
+}
+
+// Artifacts of the last circuit loaded, kept for later proofs of it
+let artifacts: { circuit: string; wasm: Uint8Array; zkey: Uint8Array } | null = null;
+
+const port = getPort();
+// Requests are handled one at a time, in order
+let queue: Promise<void> = Promise.resolve();
+
+port.onMessage((request) => {
+  queue = queue.then(() => handleRequest(request));
+});
+
+async function handleRequest(request: ProofWorkerRequest): Promise<void> {
+  const { id } = request;
+
+  try {
+    if (request.artifacts) {
+      port.postMessage({ type: "progress", id, stage: "loading" });
+      artifacts = null;
+      const [wasm, zkey] = await Promise.all([
+        loadArtifact(request.artifacts.wasm),
+        loadArtifact(request.artifacts.zkey),
+      ]);
+      artifacts = { circuit: request.circuit, wasm, zkey };
+    }
+    if (!artifacts || artifacts.circuit !== request.circuit) {
+      throw new Error(`Circuit artifacts for ${request.circuit} not loaded`);
+    }
+
+    port.postMessage({ type: "progress", id, stage: "witness" });
+    const wtns: { type: "mem"; data?: Uint8Array } = { type: "mem" };
+    await snarkjs.wtns.calculate(request.input, artifacts.wasm, wtns);
+
+    port.postMessage({ type: "progress", id, stage: "proving" });
+    const { proof, publicSignals } = await snarkjs.groth16.prove(
+      artifacts.zkey,
+      wtns,
+      undefined,
+      { singleThread: isNode() }
+    );
+
+    port.postMessage({
+      type: "result",
+      id,
+      proof: proof as Groth16Proof,
+      publicSignals,
+    });
+  } catch (error) {
+    port.postMessage({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Read an artifact: bytes as-is, URLs via fetch, anything else as a
+ * file path (Node.js only)
+ */
+async function loadArtifact(source: string | Uint8Array): Promise<Uint8Array> {
+  if (typeof source !== "string") {
+    return source;
+  }
+
+  if (!isNode() || /^(https?|blob|data):/.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch circuit artifact ${source}: ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const fs = require("fs") as typeof import("fs");
+  if (!fs.existsSync(source)) {
+    throw new Error(`Circuit artifact not found: ${source}`);
+  }
+  return new Uint8Array(fs.readFileSync(source));
+}
+
+/**
+ * In Node.js the worker runs under the "web-worker" shim, which cannot
+ * start nested workers: prove single-threaded there
+ */
+function isNode(): boolean {
+  return typeof process !== "undefined" && !!process.versions?.node;
+}
+
+function getPort(): WorkerPort {
+  const scope = globalThis as any;
+  if (typeof scope.postMessage !== "function") {
+    throw new Error("proofWorker must be started as a worker (see WorkerProver)");
+  }
+
+  return {
+    postMessage: (message) => scope.postMessage(message),
+    onMessage: (listener) =>
+      scope.addEventListener("message", (event: { data: ProofWorkerRequest }) =>
+        listener(event.data)
+      ),
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * GrimSwap ZK SDK - Prover Backends
+ *
+ * Groth16 proving behind one interface: snarkjs by default, or an
+ * external command-line prover (e.g. rapidsnark) fed a witness computed
+ * with the circuit's witness_calculator.js. Both return the snarkjs
+ * proof / public signals shape.
+ */
+
+import * as snarkjs from "snarkjs";
+import type { CircuitInput, Groth16Proof } from "./types";
+
+/** Circuit artifacts for a proof: file paths (Node.js) or bytes */
+export interface ProverArtifacts {
+  wasm: string | Uint8Array;
+  zkey: string | Uint8Array;
+}
+
+/** Groth16 prover backend used by generateProof / generateProofFromBuffers */
+export interface Prover {
+  /**
+   * Prove a circuit input
+   *
+   * @param input - Circuit input (see buildCircuitInput)
+   * @param artifacts - Circuit WASM and proving key
+   * @returns Proof and public signals in snarkjs format
+   */
+  prove(
+    input: CircuitInput,
+    artifacts: ProverArtifacts
+  ): Promise<{ proof: Groth16Proof; publicSignals: string[] }>;
+}
+
+/**
+ * Default prover: snarkjs groth16.fullProve (browser and Node.js)
+ */
+export class SnarkjsProver implements Prover {
+  async prove(
+    input: CircuitInput,
+    artifacts: ProverArtifacts
+  ): Promise<{ proof: Groth16Proof; publicSignals: string[] }> {
+    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+      input,
+      artifacts.wasm as any,
+      artifacts.zkey as any
+    );
+
+    return {
+      proof: proof as Groth16Proof,
+      publicSignals,
+    };
+  }
+}
+
+/** Options for ExternalProver */
+export interface ExternalProverOptions {
+  /** Prover executable, e.g. rapidsnark's `prover` */
+  command: string;
+  /**
+   * Command arguments; {zkey}, {wtns}, {proof} and {public} are replaced
+   * with file paths (default: `{zkey} {wtns} {proof} {public}`, as rapidsnark)
+   */
+  args?: string[];
+  /** The circuit's witness_calculator.js (default: next to the wasm file) */
+  witnessCalculator?: string;
+  /** Directory for the witness and output files (default: os.tmpdir()) */
+  tmpDir?: string;
+  /** Kill the command after this many milliseconds (default: no limit) */
+  timeout?: number;
+}
+
+const DEFAULT_EXTERNAL_ARGS = ["{zkey}", "{wtns}", "{proof}", "{public}"];
+
+/**
+ * Prover running an external command-line Groth16 prover (Node.js only)
+ *
+ * The witness is computed in-process with the circuit's
+ * witness_calculator.js and written to a .wtns file; the command proves
+ * it and writes the proof and public signals as JSON files.
+ *
+ * @example
+ * ```typescript
+ * const prover = new ExternalProver({ command: "/usr/local/bin/prover" }); // rapidsnark
+ * const { proof, publicSignals } = await generateProof(
+ *   note, merkleProof, swapParams, undefined, undefined, undefined, prover
+ * );
+ * ```
+ */
+export class ExternalProver implements Prover {
+  private readonly options: ExternalProverOptions;
+
+  constructor(options: ExternalProverOptions) {
+    this.options = options;
+  }
+
+  async prove(
+    input: CircuitInput,
+    artifacts: ProverArtifacts
+  ): Promise<{ proof: Groth16Proof; publicSignals: string[] }> {
+    const wtns = await this.calculateWitness(input, artifacts.wasm);
+    return this.proveWitness(wtns, artifacts.zkey);
+  }
+
+  /**
+   * Compute the witness with the circuit's witness_calculator.js
+   *
+   * @param input - Circuit input
+   * @param wasm - Circuit WASM path or bytes (bytes need options.witnessCalculator)
+   * @returns Witness in .wtns format
+   */
+  async calculateWitness(
+    input: CircuitInput,
+    wasm: string | Uint8Array
+  ): Promise<Uint8Array> {
+    const path = require("path") as typeof import("path");
+    const fs = require("fs") as typeof import("fs");
+
+    const calculatorPath =
+      this.options.witnessCalculator ??
+      (typeof wasm === "string"
+        ? path.join(path.dirname(wasm), "witness_calculator.js")
+        : undefined);
+    if (!calculatorPath) {
+      throw new Error("witnessCalculator is required when the wasm is given as bytes");
+    }
+    if (!fs.existsSync(calculatorPath)) {
+      throw new Error(`Witness calculator not found: ${calculatorPath}`);
+    }
+
+    const builder = require(path.resolve(calculatorPath));
+    const code = typeof wasm === "string" ? fs.readFileSync(wasm) : wasm;
+    const calculator = await builder(code);
+    return calculator.calculateWTNSBin(input, 0);
+  }
+
+  /**
+   * Run the command on a witness
+   *
+   * @param wtns - Witness in .wtns format
+   * @param zkey - Proving key path or bytes
+   * @returns Proof and public signals in snarkjs format
+   * @throws If the command fails or its output is not a Groth16 proof
+   */
+  async proveWitness(
+    wtns: Uint8Array,
+    zkey: string | Uint8Array
+  ): Promise<{ proof: Groth16Proof; publicSignals: string[] }> {
+    const path = require("path") as typeof import("path");
+    const fs = require("fs") as typeof import("fs");
+    const os = require("os") as typeof import("os");
+
+    const dir = fs.mkdtempSync(path.join(this.options.tmpDir ?? os.tmpdir(), "grimswap-prover-"));
+    try {
+      const files = {
+        zkey: typeof zkey === "string" ? zkey : path.join(dir, "circuit.zkey"),
+        wtns: path.join(dir, "witness.wtns"),
+        proof: path.join(dir, "proof.json"),
+        public: path.join(dir, "public.json"),
+      };
+      if (typeof zkey !== "string") {
+        fs.writeFileSync(files.zkey, zkey);
+      }
+      fs.writeFileSync(files.wtns, wtns);
+
+      const args = (this.options.args ?? DEFAULT_EXTERNAL_ARGS).map((arg) =>
+        arg.replace(/\{(zkey|wtns|proof|public)\}/g, (_, name: keyof typeof files) => files[name])
+      );
+      await runCommand(this.options.command, args, this.options.timeout);
+
+      return {
+        proof: parseProof(readJson(files.proof)),
+        publicSignals: parsePublicSignals(readJson(files.public)),
+      };
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+function runCommand(command: string, args: string[], timeout?: number): Promise<void> {
+  const { execFile } = require("child_process") as typeof import("child_process");
+
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { timeout: timeout ?? 0, maxBuffer: 16 * 1024 * 1024 },
+      (error, _stdout, stderr) => {
+        if (error) {
+          const detail = String(stderr).trim() || error.message;
+          reject(new Error(`External prover ${command} failed: ${detail}`));
+        } else {
+          resolve();
+        }
+      }
+    );
+  });
+}
+
+function readJson(file: string): unknown {
+  const fs = require("fs") as typeof import("fs");
+  if (!fs.existsSync(file)) {
+    throw new Error(`External prover did not write ${file}`);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    throw new Error(`External prover wrote invalid JSON to ${file}`);
+  }
+}
+
+/**
+ * Normalize a prover's proof JSON to the snarkjs shape: decimal strings,
+ * projective z coordinates, protocol and curve
+ */
+function parseProof(raw: any): Groth16Proof {
+  const invalid = (reason: string) =>
+    new Error(`Invalid proof from external prover: ${reason}`);
+
+  if (!raw || typeof raw !== "object") {
+    throw invalid("not an object");
+  }
+  if (raw.protocol !== undefined && raw.protocol !== "groth16") {
+    throw invalid(`protocol ${raw.protocol}`);
+  }
+  if (raw.curve !== undefined && !["bn128", "bn254"].includes(raw.curve)) {
+    throw invalid(`curve ${raw.curve}`);
+  }
+
+  const field = (name: string, value: unknown): string => {
+    try {
+      return BigInt(value as string).toString();
+    } catch {
+      throw invalid(`${name} has a non-numeric coordinate`);
+    }
+  };
+  const g1 = (name: string, point: unknown): [string, string, string] => {
+    if (!Array.isArray(point) || point.length < 2 || point.length > 3) {
+      throw invalid(`${name} is not a G1 point`);
+    }
+    const [x, y, z = "1"] = point.map((c) => field(name, c));
+    return [x, y, z];
+  };
+  const g2 = (name: string, point: unknown) => {
+    if (!Array.isArray(point) || point.length < 2 || point.length > 3) {
+      throw invalid(`${name} is not a G2 point`);
+    }
+    const coords = point.map((pair) => {
+      if (!Array.isArray(pair) || pair.length !== 2) {
+        throw invalid(`${name} is not a G2 point`);
+      }
+      return [field(name, pair[0]), field(name, pair[1])] as [string, string];
+    });
+    return [coords[0], coords[1], coords[2] ?? ["1", "0"]] as Groth16Proof["pi_b"];
+  };
+
+  return {
+    pi_a: g1("pi_a", raw.pi_a),
+    pi_b: g2("pi_b", raw.pi_b),
+    pi_c: g1("pi_c", raw.pi_c),
+    protocol: "groth16",
+    curve: "bn128",
+  };
+}
+
+function parsePublicSignals(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    throw new Error("Invalid public signals from external prover: not an array");
+  }
+  return raw.map((signal) => {
+    try {
+      return BigInt(signal).toString();
+    } catch {
+      throw new Error(`Invalid public signal from external prover: ${signal}`);
+    }
+  });
+}
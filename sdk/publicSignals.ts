@@ -0,0 +1,191 @@
+/**
+ * GrimSwap ZK SDK - Public Signals
+ *
+ * Named access to the privateSwap circuit's 8 public signals (9 for
+ * privateSwapSplit and privateSwapAssociation, 10 for privateSwapV2;
+ * layouts come from the circuit variant registry). snarkjs orders them
+ * outputs first (computedCommitment, computedNullifierHash), then the
+ * public inputs in declaration order.
+ */
+
+import {
+  getCircuitVariant,
+  listCircuitVariants,
+  selectCircuitVariant,
+  PUBLIC_SIGNAL_NAMES,
+} from "./circuits";
+import type { CircuitName, CircuitVariant } from "./circuits";
+import { FIELD_SIZE } from "./poseidon";
+import { computeExpectedPublicSignals } from "./proof";
+import type {
+  DepositNote,
+  MerkleProof,
+  SwapParams,
+  PublicSignals,
+} from "./types";
+
+/** A public signal that differs from the expected value */
+export interface PublicSignalMismatch {
+  name: keyof PublicSignals;
+  expected: bigint;
+  actual: bigint;
+}
+
+/**
+ * Decode a public signals array (snarkjs / relayer format)
+ *
+ * privateSwapSplit and privateSwapAssociation both have 9 signals: pass
+ * the circuit variant to decode either.
+ *
+ * @param publicSignals - 8 (privateSwapSplit, privateSwapAssociation: 9,
+ *   privateSwapV2: 10) decimal strings (or bigints) in circuit order
+ * @param circuit - Circuit variant (or its version) the proof is for
+ *   (default: inferred from the length)
+ * @returns PublicSignals
+ * @throws If the length is wrong or ambiguous, or a signal is not a field element
+ */
+export function decodePublicSignals(
+  publicSignals: readonly (string | bigint)[],
+  circuit?: CircuitVariant | string
+): PublicSignals {
+  if (circuit !== undefined) {
+    const variant = getCircuitVariant(circuit);
+    if (variant.publicSignals.length !== publicSignals.length) {
+      throw new Error(
+        `Expected ${variant.publicSignals.length} public signals for ${variant.version}, ` +
+        `got ${publicSignals.length}`
+      );
+    }
+    return decodeLayout(variant.publicSignals, publicSignals);
+  }
+
+  const layouts = signalLayouts().filter(({ names }) => names.length === publicSignals.length);
+  const layout = layouts.length === 1 ? layouts[0] : undefined;
+  if (!layout) {
+    if (layouts.length > 1) {
+      throw new Error(
+        `${publicSignals.length} public signals fit ` +
+        `${layouts.map(({ circuit }) => circuit).join(" and ")}: pass the circuit`
+      );
+    }
+    const others = signalLayouts().slice(1)
+      .map(({ circuit, names }) => `${names.length} for ${circuit}`)
+      .join(", ");
+    throw new Error(
+      `Expected ${PUBLIC_SIGNAL_NAMES.length} public signals, got ${publicSignals.length} (${others})`
+    );
+  }
+
+  return decodeLayout(layout.names, publicSignals);
+}
+
+/**
+ * Encode public signals into the array format snarkjs and the verifier use
+ *
+ * @param signals - PublicSignals
+ * @returns 8 decimal strings in circuit order (9 with changeCommitment or
+ *   associationRoot, 10 with swapParamsHash and deadline)
+ */
+export function encodePublicSignals(signals: PublicSignals): string[] {
+  return signalLayout(signals).names.map((name) => {
+    const value = signals[name];
+    if (value === undefined) {
+      throw new Error(`Missing public signal ${name}`);
+    }
+    if (value < 0n || value >= FIELD_SIZE) {
+      throw new Error(`Invalid public signal ${name}: not a field element`);
+    }
+    return value.toString();
+  });
+}
+
+/**
+ * Check a proof's public signals against the note, Merkle proof and swap
+ * parameters it should have been generated for
+ *
+ * @param publicSignals - Signals returned with the proof
+ * @param note - Deposit note
+ * @param merkleProof - Merkle proof used
+ * @param swapParams - Swap parameters used
+ * @returns Mismatched signals (empty if all match)
+ * @throws If the proof and swapParams are for different circuits
+ *
+ * @example
+ * ```typescript
+ * const mismatches = await checkPublicSignals(publicSignals, note, merkleProof, swapParams);
+ * if (mismatches.length > 0) {
+ *   throw new Error(`Proof signals differ: ${mismatches.map((m) => m.name).join(", ")}`);
+ * }
+ * ```
+ */
+export async function checkPublicSignals(
+  publicSignals: readonly (string | bigint)[],
+  note: DepositNote,
+  merkleProof: MerkleProof,
+  swapParams: SwapParams
+): Promise<PublicSignalMismatch[]> {
+  const expected = await computeExpectedPublicSignals(note, merkleProof, swapParams);
+  const variant = selectCircuitVariant(swapParams);
+  const layout = { circuit: variant.circuit, names: variant.publicSignals };
+  if (publicSignals.length !== layout.names.length) {
+    const proofCircuits = signalLayouts().filter(
+      ({ names }) => names.length === publicSignals.length
+    ).map(({ circuit }) => circuit);
+    throw new Error(
+      `The proof has ${publicSignals.length} public signals` +
+      (proofCircuits.length > 0 ? ` (${proofCircuits.join(" or ")})` : "") +
+      ` but swapParams are for ${layout.circuit} (${layout.names.length})`
+    );
+  }
+  const actual = decodePublicSignals(publicSignals, variant);
+
+  return layout.names.filter((name) => actual[name] !== expected[name]).map(
+    (name) => ({ name, expected: expected[name]!, actual: actual[name]! })
+  );
+}
+
+/** Signal layout of each registered circuit; the base layout first */
+function signalLayouts(): { circuit: CircuitName; names: readonly (keyof PublicSignals)[] }[] {
+  const layouts = new Map<CircuitName, readonly (keyof PublicSignals)[]>();
+  for (const { circuit, publicSignals } of listCircuitVariants()) {
+    if (!layouts.has(circuit)) {
+      layouts.set(circuit, publicSignals);
+    }
+  }
+  return [...layouts].map(([circuit, names]) => ({ circuit, names }));
+}
+
+/** The layout whose extra signals are set (the base layout if none are) */
+function signalLayout(signals: PublicSignals): ReturnType<typeof signalLayouts>[number] {
+  const [base, ...extended] = signalLayouts();
+  return (
+    extended.find(({ names }) =>
+      names.slice(PUBLIC_SIGNAL_NAMES.length).some((name) => signals[name] !== undefined)
+    ) ?? base
+  );
+}
+
+function decodeLayout(
+  names: readonly (keyof PublicSignals)[],
+  publicSignals: readonly (string | bigint)[]
+): PublicSignals {
+  const decoded = {} as PublicSignals;
+  names.forEach((name, i) => {
+    decoded[name] = parseSignal(name, publicSignals[i]);
+  });
+  return decoded;
+}
+
+function parseSignal(name: string, value: string | bigint): bigint {
+  let parsed: bigint;
+  try {
+    parsed = BigInt(value);
+  } catch {
+    throw new Error(`Invalid public signal ${name}: ${value}`);
+  }
+
+  if (parsed < 0n || parsed >= FIELD_SIZE) {
+    throw new Error(`Invalid public signal ${name}: not a field element`);
+  }
+  return parsed;
+}
@@ -0,0 +1,170 @@
+/**
+ * GrimSwap ZK SDK - Router Calldata
+ *
+ * Builds GrimSwapRouter calldata from a formatted proof, so a private
+ * swap can be sent from any wallet without going through the relayer.
+ */
+
+import {
+  GRIM_SWAP_ROUTER_ABI,
+  GRIM_SWAP_ROUTER_V2_ABI,
+  POOL_CONFIG,
+} from "./constants";
+import { PUBLIC_SIGNAL_NAMES } from "./circuits";
+import { decodePublicSignals } from "./publicSignals";
+import type { ContractProof, PoolKey } from "./types";
+
+type Address = `0x${string}`;
+type Hex = `0x${string}`;
+
+/** Arguments of executePrivateSwap / executePrivateSwapToken */
+export interface RouterSwapCall {
+  /** Proof formatted with formatProofForContract */
+  proof: ContractProof;
+  /** Pool key for the swap */
+  poolKey: PoolKey;
+  /** true = currency0 -> currency1, false = currency1 -> currency0 */
+  zeroForOne: boolean;
+  /** Swap amount (negative = exact input, positive = exact output) */
+  amountSpecified: bigint;
+  /** Price limit (default: MIN_SQRT_PRICE for zeroForOne, MAX_SQRT_PRICE otherwise) */
+  sqrtPriceLimitX96?: bigint;
+  /** Nullifier hash of the spent note */
+  nullifierHash: bigint;
+  /** Recipient (stealth) address */
+  recipient: Address;
+  /** Relayer address (default: address(0) when sending the swap yourself) */
+  relayer?: Address;
+  /** Relayer fee in basis points (default: 0) */
+  relayerFee?: bigint | number;
+  /** Deposited ERC20 token; omit (or address(0)) for ETH */
+  inputToken?: Address;
+}
+
+const ZERO_ADDRESS: Address = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Encode GrimSwapRouter.executePrivateSwap calldata (ETH deposits; same
+ * signature on the legacy router and GrimSwapRouterV2)
+ *
+ * @param call - Proof, pool key, swap and public-input arguments
+ * @returns ABI encoded calldata
+ * @throws If an argument differs from the proof's public signals
+ */
+export function encodeExecutePrivateSwap(call: RouterSwapCall): Hex {
+  const { inputToken } = call;
+  if (inputToken && BigInt(inputToken) !== 0n) {
+    throw new Error("inputToken is set: use encodeExecutePrivateSwapToken");
+  }
+
+  return encodeRouterCall(GRIM_SWAP_ROUTER_ABI, "executePrivateSwap", call, []);
+}
+
+/**
+ * Encode GrimSwapRouterV2.executePrivateSwapToken calldata (ERC20 deposits)
+ *
+ * @param call - Proof, pool key, swap and public-input arguments, with inputToken
+ * @returns ABI encoded calldata
+ * @throws If an argument differs from the proof's public signals
+ */
+export function encodeExecutePrivateSwapToken(
+  call: RouterSwapCall & { inputToken: Address }
+): Hex {
+  if (BigInt(call.inputToken) === 0n) {
+    throw new Error("inputToken is address(0): use encodeExecutePrivateSwap");
+  }
+
+  return encodeRouterCall(
+    GRIM_SWAP_ROUTER_V2_ABI,
+    "executePrivateSwapToken",
+    call,
+    [call.inputToken]
+  );
+}
+
+/**
+ * Encode the router call for a private swap: executePrivateSwapToken when
+ * inputToken is an ERC20, executePrivateSwap otherwise
+ *
+ * Send the result to UNICHAIN_SEPOLIA_ADDRESSES.grimSwapRouterV2.
+ *
+ * @example
+ * ```typescript
+ * const proof = formatProofForContract(groth16Proof, publicSignals);
+ * const data = encodePrivateSwapCalldata({
+ *   proof,
+ *   poolKey,
+ *   zeroForOne: true,
+ *   amountSpecified: -note.amount,
+ *   nullifierHash: note.nullifierHash,
+ *   recipient: stealthAddress,
+ *   inputToken: note.token,
+ * });
+ * await wallet.sendTransaction({ to: UNICHAIN_SEPOLIA_ADDRESSES.grimSwapRouterV2, data });
+ * ```
+ */
+export function encodePrivateSwapCalldata(call: RouterSwapCall): Hex {
+  const { inputToken } = call;
+  return inputToken && BigInt(inputToken) !== 0n
+    ? encodeExecutePrivateSwapToken({ ...call, inputToken })
+    : encodeExecutePrivateSwap(call);
+}
+
+function encodeRouterCall(
+  abi: readonly unknown[],
+  functionName: string,
+  call: RouterSwapCall,
+  leadingArgs: unknown[]
+): Hex {
+  checkPublicInputs(call);
+  const { ethers } = require("ethers");
+
+  const { proof, poolKey, zeroForOne, amountSpecified } = call;
+  const sqrtPriceLimitX96 =
+    call.sqrtPriceLimitX96 ??
+    (zeroForOne ? POOL_CONFIG.MIN_SQRT_PRICE : POOL_CONFIG.MAX_SQRT_PRICE);
+
+  return new ethers.Interface(abi).encodeFunctionData(functionName, [
+    [poolKey.currency0, poolKey.currency1, poolKey.fee, poolKey.tickSpacing, poolKey.hooks],
+    [zeroForOne, amountSpecified, sqrtPriceLimitX96],
+    ...leadingArgs,
+    ethers.toBeHex(call.nullifierHash, 32),
+    call.recipient,
+    call.relayer || ZERO_ADDRESS,
+    BigInt(call.relayerFee || 0),
+    proof.pA,
+    proof.pB,
+    proof.pC,
+    proof.pubSignals,
+  ]);
+}
+
+/**
+ * The router passes nullifierHash, recipient, relayer and relayerFee next
+ * to the proof; the verifier rejects the call if they differ from the
+ * public signals, so catch it before paying gas
+ */
+function checkPublicInputs(call: RouterSwapCall): void {
+  // The deployed routers take uint256[8]: privateSwap proofs only
+  if (call.proof.pubSignals.length !== PUBLIC_SIGNAL_NAMES.length) {
+    throw new Error(
+      `GrimSwapRouter verifies privateSwap proofs with ${PUBLIC_SIGNAL_NAMES.length} ` +
+      `public signals, got ${call.proof.pubSignals.length}`
+    );
+  }
+
+  const signals = decodePublicSignals(call.proof.pubSignals);
+  const mismatched = [
+    ["nullifierHash", call.nullifierHash, signals.nullifierHash],
+    ["recipient", BigInt(call.recipient), signals.recipient],
+    ["relayer", BigInt(call.relayer || ZERO_ADDRESS), signals.relayer],
+    ["relayerFee", BigInt(call.relayerFee || 0), signals.relayerFee],
+  ].filter(([, value, signal]) => value !== signal);
+
+  if (mismatched.length > 0) {
+    throw new Error(
+      `Arguments do not match the proof's public signals: ` +
+      mismatched.map(([name, value, signal]) => `${name} ${value} != ${signal}`).join(", ")
+    );
+  }
+}
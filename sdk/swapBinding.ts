@@ -0,0 +1,46 @@
+/**
+ * GrimSwap ZK SDK - Swap Binding
+ *
+ * privateSwapV2 proofs commit to the swap they pay for: a hash of the
+ * pool key and swap parameters, plus a deadline. The router recomputes
+ * the hash from the call it executes, so a relayer cannot change the
+ * pool, direction, amount or price limit.
+ *
+ * Not usable on-chain yet: the deployed GrimSwapRouter verifies 8-signal
+ * privateSwap proofs only, so executePrivateSwap and the router calldata
+ * builders do not bind swaps. Bound proofs verify locally or against a
+ * PrivateSwapV2Verifier deployment.
+ */
+
+import { FIELD_SIZE } from "./poseidon";
+import type { SwapBinding } from "./types";
+
+/**
+ * Compute the swapParamsHash public input of privateSwapV2
+ *
+ * Solidity equivalent:
+ * `uint256(keccak256(abi.encode(key, params))) % SNARK_SCALAR_FIELD`
+ * with `key` a PoolKey and `params` an IPoolManager.SwapParams.
+ *
+ * @param swap - Pool key and swap parameters (deadline is not hashed)
+ * @returns Hash as a field element
+ */
+export function computeSwapParamsHash(
+  swap: Omit<SwapBinding, "deadline">
+): bigint {
+  const { ethers } = require("ethers");
+  const { poolKey } = swap;
+
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+    [
+      "tuple(address,address,uint24,int24,address)",
+      "tuple(bool,int256,uint160)",
+    ],
+    [
+      [poolKey.currency0, poolKey.currency1, poolKey.fee, poolKey.tickSpacing, poolKey.hooks],
+      [swap.zeroForOne, swap.amountSpecified, swap.sqrtPriceLimitX96],
+    ]
+  );
+
+  return BigInt(ethers.keccak256(encoded)) % FIELD_SIZE;
+}
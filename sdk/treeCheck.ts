@@ -0,0 +1,210 @@
+/**
+ * GrimSwap ZK SDK - Tree Consistency Check
+ *
+ * Compares a locally built MerkleTree with the pool: root against
+ * getLastRoot / isKnownRoot, leaf count against getDepositCount, and
+ * on mismatch bisects against the Deposit events to find the first
+ * divergent leaf. Tells whether a proof will verify as-is, whether the
+ * root must be added (testnet addKnownRoot), or whether to resync.
+ */
+
+import { MerkleTree } from "./merkle";
+import {
+  fetchDepositEvents,
+  getDepositCount,
+  getLastRoot,
+  isKnownRoot,
+} from "./deposits";
+import type { DepositEvent } from "./deposits";
+
+/**
+ * What to do before proving against the local root
+ *
+ * - "none": the pool already knows the local root
+ * - "addKnownRoot": leaves match the pool but the root is unknown
+ *   (testnet: call addKnownRoot(localRoot))
+ * - "resync": the local tree is missing leaves or has wrong ones
+ */
+export type TreeAction = "none" | "addKnownRoot" | "resync";
+
+/** Result of checkTreeConsistency */
+export interface TreeConsistencyReport {
+  action: TreeAction;
+  /** Human-readable explanation of the action */
+  reason: string;
+  localRoot: bigint;
+  localLeafCount: number;
+  /** Pool getLastRoot() (undefined if the pool has no such view) */
+  onChainRoot?: bigint;
+  /** Pool getDepositCount() (undefined if the pool has no such view) */
+  onChainLeafCount?: number;
+  /** Pool isKnownRoot(localRoot) */
+  rootKnown: boolean;
+  /** First leaf index that differs from the Deposit events */
+  firstDivergentLeaf?: number;
+}
+
+/** Options for checkTreeConsistency */
+export interface TreeCheckOptions {
+  /** RPC URL (defaults to Unichain Sepolia) */
+  rpcUrl?: string;
+  /** Pool address (defaults to Unichain Sepolia grimPool) */
+  poolAddress?: string;
+  /** Pre-fetched deposit events (skip fetching if provided) */
+  events?: DepositEvent[];
+  /** Block to start scanning deposit events from */
+  fromBlock?: number;
+}
+
+/**
+ * Check a local tree against the pool
+ *
+ * Deposit events are only fetched when the pool does not know the
+ * local root.
+ *
+ * @param tree - Locally built tree
+ * @param options - RPC / pool / pre-fetched events
+ * @returns TreeConsistencyReport with the recommended action
+ *
+ * @example
+ * ```typescript
+ * const report = await checkTreeConsistency(tree);
+ * if (report.action === "addKnownRoot") {
+ *   // Testnet only: the depositor adds the root
+ *   await walletClient.writeContract({ ..., functionName: "addKnownRoot",
+ *     args: [formatCommitmentForContract(report.localRoot)] });
+ * } else if (report.action === "resync") {
+ *   console.warn(report.reason);
+ * }
+ * ```
+ */
+export async function checkTreeConsistency(
+  tree: MerkleTree,
+  options: TreeCheckOptions = {}
+): Promise<TreeConsistencyReport> {
+  const { rpcUrl, poolAddress } = options;
+
+  // Initializes the tree if needed, without touching existing leaves
+  await tree.insertBatch([]);
+
+  const localRoot = tree.getRoot();
+  const localLeafCount = tree.leafCount;
+
+  const [onChainRoot, onChainLeafCount, rootKnown] = await Promise.all([
+    optionalView(getLastRoot(rpcUrl, poolAddress)),
+    optionalView(getDepositCount(rpcUrl, poolAddress)),
+    isKnownRoot(localRoot, rpcUrl, poolAddress),
+  ]);
+
+  const report = {
+    localRoot,
+    localLeafCount,
+    onChainRoot,
+    onChainLeafCount,
+    rootKnown,
+  };
+
+  if (rootKnown) {
+    const behind =
+      onChainLeafCount !== undefined && onChainLeafCount > localLeafCount
+        ? ` (${onChainLeafCount - localLeafCount} newer deposits not in the tree)`
+        : "";
+    return {
+      ...report,
+      action: "none",
+      reason: `The pool knows the local root${behind}`,
+    };
+  }
+
+  const events =
+    options.events ||
+    (await fetchDepositEvents(rpcUrl, poolAddress, options.fromBlock));
+  const commitments = [...events]
+    .sort((a, b) => a.leafIndex - b.leafIndex)
+    .map((e) => e.commitment);
+
+  const chainTree = new MerkleTree({
+    height: tree.height,
+    zeroValue: tree.zeroValue,
+    hasher: tree.hasher,
+  });
+  await chainTree.insertBatch(commitments);
+
+  const firstDivergentLeaf = findFirstDivergentLeaf(tree, chainTree);
+  if (firstDivergentLeaf !== undefined) {
+    return {
+      ...report,
+      action: "resync",
+      reason: `Local leaf ${firstDivergentLeaf} differs from the pool's Deposit event`,
+      firstDivergentLeaf,
+    };
+  }
+
+  const chainLeafCount = Math.max(onChainLeafCount ?? 0, commitments.length);
+  if (localLeafCount < chainLeafCount) {
+    return {
+      ...report,
+      action: "resync",
+      reason: `Local tree is missing ${chainLeafCount - localLeafCount} deposits`,
+    };
+  }
+  if (localLeafCount > chainLeafCount) {
+    return {
+      ...report,
+      action: "resync",
+      reason: `Local tree has ${localLeafCount - chainLeafCount} leaves the pool does not`,
+      firstDivergentLeaf: chainLeafCount,
+    };
+  }
+
+  return {
+    ...report,
+    action: "addKnownRoot",
+    reason: "Leaves match the pool but it does not know the local root",
+  };
+}
+
+/**
+ * Bisect for the first leaf where two trees differ, comparing roots of
+ * common prefixes (O(log n * height) hashes)
+ *
+ * @returns Leaf index, or undefined if the shorter tree is a prefix of the other
+ */
+function findFirstDivergentLeaf(
+  a: MerkleTree,
+  b: MerkleTree
+): number | undefined {
+  const common = Math.min(a.leafCount, b.leafCount);
+  if (a.getRootAt(common) === b.getRootAt(common)) {
+    return undefined;
+  }
+
+  // Invariant: prefixes of length lo match, prefixes of length hi differ
+  let lo = 0;
+  let hi = common;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (a.getRootAt(mid) === b.getRootAt(mid)) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  return lo;
+}
+
+/**
+ * Views like getLastRoot / getDepositCount are missing on some pools;
+ * treat a reverted call as unavailable but keep transport errors
+ */
+async function optionalView<T>(call: Promise<T>): Promise<T | undefined> {
+  try {
+    return await call;
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("RPC error")) {
+      return undefined;
+    }
+    throw error;
+  }
+}
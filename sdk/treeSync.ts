@@ -0,0 +1,496 @@
+/**
+ * GrimSwap ZK SDK - Deposit Tree Sync
+ *
+ * Keeps a local MerkleTree in step with the pool's Deposit events:
+ * tracks a cursor block, appends only new leaves, checks leafIndex
+ * continuity, waits for confirmations and rolls back leaves from
+ * reorged blocks. Change commitments of privateSwapSplit spends can be
+ * appended ahead of their Deposit event and are kept at the end of the
+ * tree until it arrives. Uses raw JSON-RPC like the deposit reader.
+ */
+
+import { MerkleTree } from "./merkle";
+import { fetchDepositEvents } from "./deposits";
+import { UNICHAIN_SEPOLIA_ADDRESSES, UNICHAIN_SEPOLIA } from "./constants";
+import type { MerkleTreeOptions } from "./merkle";
+import type { MerkleTreeSnapshot } from "./merkleSnapshot";
+import type { DepositEvent } from "./deposits";
+import type { PublicSignals } from "./types";
+
+/** Emitted whenever the synced root changes */
+export interface NewRootEvent {
+  root: bigint;
+  leafCount: number;
+  /** Last synced block */
+  blockNumber: number;
+}
+
+/** Emitted when leaves from orphaned blocks are rolled back */
+export interface ReorgEvent {
+  /** Last block still on the canonical chain */
+  blockNumber: number;
+  /** Number of leaves removed */
+  removedLeaves: number;
+}
+
+/** Result of a single sync() step */
+export interface SyncResult {
+  /** Leaves appended */
+  added: number;
+  /** Leaves rolled back because of a reorg */
+  removed: number;
+  root: bigint;
+  leafCount: number;
+  lastSyncedBlock: number;
+  /** Change leaves whose Deposit event arrived in this step */
+  confirmedChangeLeaves: bigint[];
+}
+
+/** Options for DepositTreeSync */
+export interface DepositTreeSyncOptions {
+  /** RPC URL (defaults to Unichain Sepolia) */
+  rpcUrl?: string;
+  /** Pool address (defaults to Unichain Sepolia grimPool) */
+  poolAddress?: string;
+  /** Existing tree to continue from (e.g. MerkleTree.fromSnapshot) */
+  tree?: MerkleTree;
+  /** Tree parameters when no tree is given */
+  treeOptions?: MerkleTreeOptions;
+  /** First block to scan (default: 0) */
+  fromBlock?: number;
+  /** Blocks to wait before applying deposits (default: 12) */
+  confirmations?: number;
+  /** Maximum block range per eth_getLogs request (default: 10000) */
+  maxBlockRange?: number;
+  /** Called whenever the synced root changes */
+  onNewRoot?: (event: NewRootEvent) => void;
+  /** Called after leaves from orphaned blocks were rolled back */
+  onReorg?: (event: ReorgEvent) => void;
+}
+
+/** Block hash observed at a synced block, and the leaf count after it */
+interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+  leafCount: number;
+}
+
+const DEFAULT_CONFIRMATIONS = 12;
+const DEFAULT_MAX_BLOCK_RANGE = 10_000;
+// Checkpoints kept for reorg detection (deposit blocks + sync heads)
+const MAX_CHECKPOINTS = 128;
+
+/**
+ * Incremental, reorg-aware deposit tree sync
+ *
+ * @example
+ * ```typescript
+ * const sync = new DepositTreeSync({
+ *   onNewRoot: ({ root }) => console.log("root", root.toString(16)),
+ * });
+ * await sync.sync();
+ * const proof = sync.tree.getProof(note.leafIndex!);
+ *
+ * // Persist and resume later
+ * const snapshot = sync.toSnapshot();
+ * const resumed = await DepositTreeSync.fromSnapshot(snapshot);
+ * ```
+ */
+export class DepositTreeSync {
+  readonly tree: MerkleTree;
+  private readonly rpcUrl: string;
+  private readonly poolAddress: string;
+  private readonly confirmations: number;
+  private readonly maxBlockRange: number;
+  private readonly options: DepositTreeSyncOptions;
+  private cursor: number;
+  private checkpoints: Checkpoint[];
+  // Change commitments appended locally, in tree order after the synced leaves
+  private changeLeaves: bigint[];
+
+  constructor(options: DepositTreeSyncOptions = {}) {
+    this.options = options;
+    this.rpcUrl = options.rpcUrl || UNICHAIN_SEPOLIA.rpcUrl;
+    this.poolAddress = options.poolAddress || UNICHAIN_SEPOLIA_ADDRESSES.grimPool;
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    this.tree = options.tree ?? new MerkleTree(options.treeOptions);
+    this.cursor = (options.fromBlock ?? 0) - 1;
+    this.checkpoints = [];
+    this.changeLeaves = [];
+
+    if (!Number.isInteger(this.confirmations) || this.confirmations < 0) {
+      throw new Error(`Invalid confirmations: ${this.confirmations}`);
+    }
+    if (!Number.isInteger(this.maxBlockRange) || this.maxBlockRange < 1) {
+      throw new Error(`Invalid maxBlockRange: ${this.maxBlockRange}`);
+    }
+  }
+
+  /**
+   * Resume from a tree snapshot (continues after snapshot.lastSyncedBlock,
+   * or from block 0 for an empty snapshot without one)
+   *
+   * @param snapshot - Snapshot with leaves and lastSyncedBlock
+   * @param options - Sync options (tree and fromBlock are taken from the snapshot)
+   */
+  static async fromSnapshot(
+    snapshot: MerkleTreeSnapshot,
+    options: Omit<DepositTreeSyncOptions, "tree" | "fromBlock"> = {}
+  ): Promise<DepositTreeSync> {
+    const { lastSyncedBlock } = snapshot;
+    if (lastSyncedBlock === undefined && snapshot.leafCount > 0) {
+      throw new Error("Tree snapshot has no lastSyncedBlock");
+    }
+
+    const tree = await MerkleTree.fromSnapshot(snapshot, options.treeOptions);
+    return new DepositTreeSync({
+      ...options,
+      tree,
+      fromBlock: lastSyncedBlock === undefined ? 0 : lastSyncedBlock + 1,
+    });
+  }
+
+  /**
+   * Last block whose deposits are in the tree (-1 before block 0 is synced)
+   */
+  get lastSyncedBlock(): number {
+    return this.cursor;
+  }
+
+  /**
+   * Change leaves appended with insertChangeLeaf whose Deposit event has
+   * not been synced yet, in tree order
+   */
+  get pendingChangeLeaves(): bigint[] {
+    return [...this.changeLeaves];
+  }
+
+  /**
+   * Append the change commitment of a privateSwapSplit spend ahead of its
+   * Deposit event (see MerkleTree.insertChangeLeaf)
+   *
+   * The leaf stays after the synced leaves: each sync() moves it behind
+   * new deposits, and drops it from the pending list once its Deposit
+   * event is synced, at the index the pool gave it.
+   *
+   * @param signals - Decoded signals of the spend
+   * @returns Current leaf index of the change commitment
+   */
+  async insertChangeLeaf(
+    signals: Pick<PublicSignals, "merkleRoot" | "changeCommitment">
+  ): Promise<number> {
+    const leafCount = this.tree.leafCount;
+    const leafIndex = await this.tree.insertChangeLeaf(signals);
+    if (this.tree.leafCount > leafCount) {
+      this.changeLeaves.push(signals.changeCommitment!);
+    }
+    return leafIndex;
+  }
+
+  /**
+   * Remove a pending change leaf (e.g. the swap reverted)
+   *
+   * @param commitment - Change commitment passed to insertChangeLeaf
+   */
+  async dropChangeLeaf(commitment: bigint): Promise<void> {
+    const index = this.changeLeaves.indexOf(commitment);
+    if (index < 0) {
+      throw new Error(`Not a pending change leaf: ${commitment}`);
+    }
+
+    this.detachChangeLeaves();
+    this.changeLeaves.splice(index, 1);
+    await this.tree.insertBatch(this.changeLeaves);
+  }
+
+  /**
+   * Sync the tree up to the latest confirmed block
+   *
+   * First checks that the last synced blocks are still canonical and
+   * rolls back leaves from orphaned blocks, then appends new deposits.
+   * Pending change leaves are moved behind them.
+   *
+   * @returns What changed in this step
+   * @throws On a leafIndex gap or a reorg deeper than the tracked checkpoints
+   */
+  async sync(): Promise<SyncResult> {
+    // Initializes the tree if needed, without touching existing leaves
+    await this.tree.insertBatch([]);
+
+    const rootBefore = this.tree.getRoot();
+    let removed: number;
+    let added = 0;
+    let confirmedChangeLeaves: bigint[];
+
+    this.detachChangeLeaves();
+    try {
+      removed = await this.handleReorg();
+
+      const head = await this.getBlockNumber();
+      const target = head - this.confirmations;
+
+      if (target > this.cursor) {
+        for (let from = this.cursor + 1; from <= target; from += this.maxBlockRange) {
+          const to = Math.min(from + this.maxBlockRange - 1, target);
+          const events = await fetchDepositEvents(this.rpcUrl, this.poolAddress, from, to);
+
+          added += await this.applyEvents(events);
+          this.cursor = to;
+        }
+
+        this.recordCheckpoint({
+          blockNumber: target,
+          blockHash: await this.getBlockHash(target),
+          leafCount: this.tree.leafCount,
+        });
+      }
+    } finally {
+      confirmedChangeLeaves = await this.reattachChangeLeaves();
+    }
+
+    const root = this.tree.getRoot();
+    if (root !== rootBefore) {
+      this.options.onNewRoot?.({
+        root,
+        leafCount: this.tree.leafCount,
+        blockNumber: this.cursor,
+      });
+    }
+
+    return {
+      added,
+      removed,
+      root,
+      leafCount: this.tree.leafCount,
+      lastSyncedBlock: this.cursor,
+      confirmedChangeLeaves,
+    };
+  }
+
+  /**
+   * Sync continuously
+   *
+   * @param pollInterval - Milliseconds between sync steps (default: 5000)
+   * @param onError - Called when a step fails (default: console.error)
+   * @returns Stop function
+   */
+  watch(
+    pollInterval = 5000,
+    onError: (error: unknown) => void = (error) =>
+      console.error("Error syncing deposit tree:", error)
+  ): () => void {
+    let isRunning = true;
+
+    const poll = async () => {
+      while (isRunning) {
+        try {
+          await this.sync();
+        } catch (error) {
+          onError(error);
+        }
+
+        await sleep(pollInterval);
+      }
+    };
+
+    poll();
+
+    return () => {
+      isRunning = false;
+    };
+  }
+
+  /**
+   * Snapshot of the synced tree, including lastSyncedBlock (unset while
+   * no block has been synced)
+   *
+   * Pending change leaves are left out, so the snapshot holds only what
+   * the chain has: insert them again after fromSnapshot.
+   */
+  toSnapshot(): MerkleTreeSnapshot {
+    const snapshot =
+      this.cursor < 0
+        ? this.tree.toSnapshot()
+        : this.tree.toSnapshot({ lastSyncedBlock: this.cursor });
+    if (this.changeLeaves.length === 0) {
+      return snapshot;
+    }
+
+    const leafCount = snapshot.leafCount - this.changeLeaves.length;
+    return {
+      ...snapshot,
+      leafCount,
+      root: this.tree.getRootAt(leafCount),
+      leaves: snapshot.leaves!.slice(0, leafCount),
+    };
+  }
+
+  /**
+   * Take pending change leaves off the end of the tree
+   */
+  private detachChangeLeaves(): void {
+    this.tree.truncate(this.tree.leafCount - this.changeLeaves.length);
+  }
+
+  /**
+   * Append pending change leaves after the synced leaves again
+   *
+   * @returns Change leaves now in the synced leaves (no longer pending)
+   */
+  private async reattachChangeLeaves(): Promise<bigint[]> {
+    const confirmed = this.changeLeaves.filter(
+      (leaf) => this.tree.getLeafIndex(leaf) !== undefined
+    );
+    this.changeLeaves = this.changeLeaves.filter(
+      (leaf) => this.tree.getLeafIndex(leaf) === undefined
+    );
+    await this.tree.insertBatch(this.changeLeaves);
+    return confirmed;
+  }
+
+  /**
+   * Append deposits in leafIndex order, skipping ones already in the tree
+   */
+  private async applyEvents(events: DepositEvent[]): Promise<number> {
+    const sorted = [...events].sort((a, b) => a.leafIndex - b.leafIndex);
+    const start = this.tree.leafCount;
+    const leaves: bigint[] = [];
+    const blocks = new Map<number, { blockHash: string; leafCount: number }>();
+    let expected = start;
+
+    for (const event of sorted) {
+      if (event.leafIndex < expected) {
+        // Already applied (overlapping range or duplicate log)
+        const existing =
+          event.leafIndex < start
+            ? this.tree.getLeaf(event.leafIndex)
+            : leaves[event.leafIndex - start];
+        if (existing === event.commitment) {
+          continue;
+        }
+        throw new Error(
+          `Conflicting deposit at leafIndex ${event.leafIndex} (block ${event.blockNumber})`
+        );
+      }
+      if (event.leafIndex > expected) {
+        throw new Error(
+          `Deposit leafIndex gap: expected ${expected}, got ${event.leafIndex} (block ${event.blockNumber})`
+        );
+      }
+
+      leaves.push(event.commitment);
+      expected++;
+      if (event.blockHash) {
+        blocks.set(Number(event.blockNumber), {
+          blockHash: event.blockHash,
+          leafCount: expected,
+        });
+      }
+    }
+
+    await this.tree.insertBatch(leaves);
+
+    for (const [blockNumber, block] of blocks) {
+      this.recordCheckpoint({ blockNumber, ...block });
+    }
+
+    return leaves.length;
+  }
+
+  /**
+   * Roll back to the newest checkpoint still on the canonical chain
+   *
+   * @returns Number of leaves removed
+   */
+  private async handleReorg(): Promise<number> {
+    if (this.checkpoints.length === 0) {
+      return 0;
+    }
+
+    for (let i = this.checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = this.checkpoints[i];
+      const hash = await this.getBlockHash(checkpoint.blockNumber);
+      if (hash !== checkpoint.blockHash) {
+        continue;
+      }
+      if (i === this.checkpoints.length - 1) {
+        return 0;
+      }
+
+      const removed = this.tree.leafCount - checkpoint.leafCount;
+      this.tree.truncate(checkpoint.leafCount);
+      this.cursor = checkpoint.blockNumber;
+      this.checkpoints.length = i + 1;
+
+      this.options.onReorg?.({
+        blockNumber: checkpoint.blockNumber,
+        removedLeaves: removed,
+      });
+      return removed;
+    }
+
+    throw new Error(
+      "Reorg deeper than the tracked checkpoints: rebuild the tree from an older snapshot"
+    );
+  }
+
+  private recordCheckpoint(checkpoint: Checkpoint): void {
+    const last = this.checkpoints[this.checkpoints.length - 1];
+    if (last && last.blockNumber >= checkpoint.blockNumber) {
+      if (last.blockNumber === checkpoint.blockNumber) {
+        this.checkpoints[this.checkpoints.length - 1] = checkpoint;
+      }
+      return;
+    }
+
+    this.checkpoints.push(checkpoint);
+    if (this.checkpoints.length > MAX_CHECKPOINTS) {
+      this.checkpoints.shift();
+    }
+  }
+
+  private async getBlockNumber(): Promise<number> {
+    const result = await rpcRequest<string>(this.rpcUrl, "eth_blockNumber", []);
+    return parseInt(result, 16);
+  }
+
+  private async getBlockHash(blockNumber: number): Promise<string> {
+    const block = await rpcRequest<{ hash: string } | null>(
+      this.rpcUrl,
+      "eth_getBlockByNumber",
+      ["0x" + blockNumber.toString(16), false]
+    );
+    if (!block) {
+      throw new Error(`Block not found: ${blockNumber}`);
+    }
+    return block.hash;
+  }
+}
+
+async function rpcRequest<T>(url: string, method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`RPC request failed: ${response.status}`);
+  }
+
+  const json = (await response.json()) as {
+    result?: T;
+    error?: { message: string };
+  };
+
+  if (json.error) {
+    throw new Error(`RPC error: ${json.error.message}`);
+  }
+
+  return json.result as T;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -16,16 +16,36 @@ export interface Groth16Proof {
   curve: "bn128";
 }
 
-// Public signals for the privateSwap circuit
+// Groth16 verification key (snarkjs JSON format)
+export interface VerificationKey {
+  protocol: "groth16";
+  curve: "bn128";
+  nPublic: number;
+  vk_alpha_1: string[];
+  vk_beta_2: string[][];
+  vk_gamma_2: string[][];
+  vk_delta_2: string[][];
+  vk_alphabeta_12: string[][][];
+  IC: string[][];
+}
+
+// Public signals of the privateSwap circuit, in circuit order: the two
+// outputs, then the six public inputs (see PUBLIC_SIGNAL_NAMES), then
+// swapParamsHash and deadline for privateSwapV2, changeCommitment for
+// privateSwapSplit, or associationRoot for privateSwapAssociation
 export interface PublicSignals {
-  merkleRoot: string;
-  nullifierHash: string;
-  recipient: string;
-  relayer: string;
-  relayerFee: string;
-  swapAmountOut: string;
-  depositAmount: string;
-  commitment: string;
+  computedCommitment: bigint;
+  computedNullifierHash: bigint;
+  merkleRoot: bigint;
+  nullifierHash: bigint;
+  recipient: bigint;
+  relayer: bigint;
+  relayerFee: bigint;
+  swapAmountOut: bigint;
+  swapParamsHash?: bigint;
+  deadline?: bigint;
+  changeCommitment?: bigint;
+  associationRoot?: bigint;
 }
 
 // Private inputs for proof generation
@@ -45,6 +65,14 @@ export interface CircuitInput extends PrivateInputs {
   relayer: string;
   relayerFee: string;
   swapAmountOut: string;
+  swapParamsHash?: string;   // privateSwapV2 only
+  deadline?: string;         // privateSwapV2 only
+  changeCommitment?: string; // privateSwapSplit only
+  changeSecret?: string;     // privateSwapSplit only
+  changeNullifier?: string;  // privateSwapSplit only
+  associationRoot?: string;            // privateSwapAssociation only
+  associationPathElements?: string[];  // privateSwapAssociation only
+  associationPathIndices?: number[];   // privateSwapAssociation only
 }
 
 // Deposit note - what users store locally
@@ -55,8 +83,14 @@ export interface DepositNote {
   commitment: bigint;
   nullifierHash: bigint;
   leafIndex?: number;
+  chainId?: number;     // Chain the deposit was made on
+  pool?: Address;       // Pool the deposit was made to (grimPool or grimPoolMultiToken)
+  token?: Address;      // Deposited token (address(0) for ETH)
 }
 
+// Deposit metadata carried by grimswap-v2 notes
+export type NoteMetadata = Pick<DepositNote, "chainId" | "pool" | "token">;
+
 // Formatted proof for smart contract
 export interface ContractProof {
   pA: [string, string];
@@ -78,6 +112,18 @@ export interface SwapParams {
   relayer?: string;
   relayerFee?: number; // basis points
   expectedAmountOut: bigint;
+  swap?: SwapBinding;  // Bind the proof to this swap (privateSwapV2 circuit; no deployed router accepts these proofs yet)
+  changeNote?: DepositNote; // Spend expectedAmountOut, keep the rest in this note (privateSwapSplit circuit, see createChangeNote)
+  association?: MerkleProof; // Prove the note is in this association set (privateSwapAssociation circuit, see getAssociationProof)
+}
+
+// Uniswap v4 swap a privateSwapV2 proof is bound to (swapParamsHash + deadline)
+export interface SwapBinding {
+  poolKey: PoolKey;
+  zeroForOne: boolean;
+  amountSpecified: bigint;
+  sqrtPriceLimitX96: bigint;
+  deadline: bigint; // Unix time (seconds) after which the router rejects the proof
 }
 
 // ============ Stealth Address Types ============
@@ -0,0 +1,140 @@
+/**
+ * GrimSwap ZK SDK - Verification Key
+ *
+ * Groth16 verification key of the shipped privateSwap circuit (same as
+ * setup/verification_key.json and the on-chain Groth16Verifier), embedded
+ * so proofs can be verified without file access.
+ */
+
+import type { VerificationKey } from "./types";
+
+/** Verification key of the bundled privateSwap circuit */
+export const PRIVATE_SWAP_VERIFICATION_KEY: VerificationKey = {
+  protocol: "groth16",
+  curve: "bn128",
+  nPublic: 8,
+  vk_alpha_1: [
+    "20491192805390485299153009773594534940189261866228447918068658471970481763042",
+    "9383485363053290200918347156157836566562967994039712273449902621266178545958",
+    "1",
+  ],
+  vk_beta_2: [
+    [
+      "6375614351688725206403948262868962793625744043794305715222011528459656738731",
+      "4252822878758300859123897981450591353533073413197771768651442665752259397132",
+    ],
+    [
+      "10505242626370262277552901082094356697409835680220590971873171140371331206856",
+      "21847035105528745403288232691147584728191162732299865338377159692350059136679",
+    ],
+    [
+      "1",
+      "0",
+    ],
+  ],
+  vk_gamma_2: [
+    [
+      "10857046999023057135944570762232829481370756359578518086990519993285655852781",
+      "11559732032986387107991004021392285783925812861821192530917403151452391805634",
+    ],
+    [
+      "8495653923123431417604973247489272438418190587263600148770280649306958101930",
+      "4082367875863433681332203403145435568316851327593401208105741076214120093531",
+    ],
+    [
+      "1",
+      "0",
+    ],
+  ],
+  vk_delta_2: [
+    [
+      "20654043699957279930394144735809424625552623482107414330445397666858666844497",
+      "11096239427580560024460046394248595872994368119659142893885417058821046344320",
+    ],
+    [
+      "9045182292894157021513551300127959904408244523640054001465487619158594950032",
+      "12400062458541338739324156233113388392631164204906446724666842700639367862094",
+    ],
+    [
+      "1",
+      "0",
+    ],
+  ],
+  vk_alphabeta_12: [
+    [
+      [
+        "2029413683389138792403550203267699914886160938906632433982220835551125967885",
+        "21072700047562757817161031222997517981543347628379360635925549008442030252106",
+      ],
+      [
+        "5940354580057074848093997050200682056184807770593307860589430076672439820312",
+        "12156638873931618554171829126792193045421052652279363021382169897324752428276",
+      ],
+      [
+        "7898200236362823042373859371574133993780991612861777490112507062703164551277",
+        "7074218545237549455313236346927434013100842096812539264420499035217050630853",
+      ],
+    ],
+    [
+      [
+        "7077479683546002997211712695946002074877511277312570035766170199895071832130",
+        "10093483419865920389913245021038182291233451549023025229112148274109565435465",
+      ],
+      [
+        "4595479056700221319381530156280926371456704509942304414423590385166031118820",
+        "19831328484489333784475432780421641293929726139240675179672856274388269393268",
+      ],
+      [
+        "11934129596455521040620786944827826205713621633706285934057045369193958244500",
+        "8037395052364110730298837004334506829870972346962140206007064471173334027475",
+      ],
+    ],
+  ],
+  IC: [
+    [
+      "7184436048920676356021686487353390713229763126773840753610756292735310182370",
+      "8253886374052967008668556773083143140151801330915332716007646826299000556031",
+      "1",
+    ],
+    [
+      "3181113617701603670394852913473775840741735735144866659386194388246041179974",
+      "6677698184517988451811284656457804098239515361949742709108176180309816300287",
+      "1",
+    ],
+    [
+      "5249364485941445236624923083685498513017858147288029991250453206399978514213",
+      "8367158199936520008730723493321221260239317054652791968790142571763987123289",
+      "1",
+    ],
+    [
+      "1639258022101203729550113294897181855376569011382435037912288371378437488985",
+      "19722626672040001796112929652165819609306883661079462824624523090585535862708",
+      "1",
+    ],
+    [
+      "6388567276467766477334558447583552033714025297147484080935015053557595145082",
+      "4165138933153840945749287018564491107264770733352888911213661810157837826455",
+      "1",
+    ],
+    [
+      "21391856541356943299099168896796513856359051672384026695081444149885207245480",
+      "20735265006141417645476820773533635248488102397769774906978420837617640772558",
+      "1",
+    ],
+    [
+      "6154457266622080810602843850091896364703362546954654277931532921789153403649",
+      "15056979951107417270370533222969210578885872973727831922067171282417465222313",
+      "1",
+    ],
+    [
+      "20728005257521126102899612680929952372392151608373829695226981352558549340664",
+      "8095609362955352607927283503460377035869570606759663866081825725045216824764",
+      "1",
+    ],
+    [
+      "10984806811572382369540307960073424292471725233909488346355733276390916126805",
+      "18579965772370221468655674848415462803361587811409036612276174561711810312992",
+      "1",
+    ],
+  ],
+};
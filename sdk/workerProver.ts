@@ -0,0 +1,410 @@
+/**
+ * GrimSwap ZK SDK - Worker Prover
+ *
+ * Runs Groth16 proving off the main thread: a Node.js worker_threads
+ * worker or a browser Web Worker (see proofWorker.ts). The worker keeps
+ * the circuit artifacts loaded between proofs, reports progress per
+ * stage and can be cancelled with an AbortSignal.
+ */
+
+import { loadCircuitArtifacts } from "./artifacts";
+import {
+  isCircuitArtifactUrl,
+  listCircuitVariants,
+  resolveCircuitArtifact,
+  selectCircuitVariant,
+} from "./circuits";
+import type { CircuitVariant } from "./circuits";
+import {
+  assertValidCircuitInput,
+  buildCircuitInput,
+  checkProofLevels,
+} from "./proof";
+import type {
+  DepositNote,
+  MerkleProof,
+  SwapParams,
+  CircuitInput,
+  Groth16Proof,
+} from "./types";
+
+/** Stage reported while a proof is generated */
+export type ProofStage = "loading" | "witness" | "proving";
+
+/**
+ * Circuit artifact: bytes, a file path (Node.js) or a URL (fetched by
+ * the worker)
+ */
+export type ArtifactSource = string | ArrayBuffer | Uint8Array;
+
+/** Web Worker compatible handle (browser Worker) */
+export interface WorkerLike {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: "message" | "error",
+    listener: (event: { data?: unknown; message?: string }) => void
+  ): void;
+  terminate(): void;
+}
+
+/** Options for WorkerProver */
+export interface WorkerProverOptions {
+  /**
+   * Circuit variant (or its version) the worker proves with (default:
+   * the variant each proof's swapParams need)
+   */
+  circuit?: CircuitVariant | string;
+  /**
+   * Circuit WASM for every proof (default: the wasm of each proof's
+   * variant; URL locations are downloaded and checked against the
+   * variant's hashes, file paths need Node.js)
+   */
+  wasm?: ArtifactSource;
+  /** Proving key for every proof (default: the zkey of each proof's variant, as for wasm) */
+  zkey?: ArtifactSource;
+  /**
+   * Merkle levels of the circuit (default: the variant's). Without
+   * circuit, picks the registered variant with these levels; builds not
+   * in the registry need wasm and zkey
+   */
+  circuitLevels?: number;
+  /**
+   * Worker script: a path in Node.js (default: the bundled proofWorker.js)
+   * or a URL in the browser
+   */
+  workerUrl?: string;
+  /**
+   * Create the worker yourself, e.g. so a bundler picks up the script:
+   * `() => new Worker(new URL("@grimswap/circuits/worker", import.meta.url))`
+   */
+  createWorker?: () => WorkerLike;
+}
+
+/** Options for a single WorkerProver.prove() call */
+export interface WorkerProveOptions {
+  /** Cancels the proof (terminates the worker; it restarts on the next proof) */
+  signal?: AbortSignal;
+  /** Called when the worker enters a new stage */
+  onProgress?: (stage: ProofStage) => void;
+}
+
+/** Message sent to the proof worker */
+export interface ProofWorkerRequest {
+  type: "prove";
+  id: number;
+  /** Version of the circuit variant the input is for */
+  circuit: string;
+  input: CircuitInput;
+  /**
+   * Only sent with the first proof after the worker starts, or when the
+   * circuit differs from the previous proof's
+   */
+  artifacts?: { wasm: string | Uint8Array; zkey: string | Uint8Array };
+}
+
+/** Message sent back by the proof worker */
+export type ProofWorkerResponse =
+  | { type: "progress"; id: number; stage: ProofStage }
+  | { type: "result"; id: number; proof: Groth16Proof; publicSignals: string[] }
+  | { type: "error"; id: number; message: string };
+
+/** Node.js / browser worker behind one interface */
+interface WorkerHandle {
+  postMessage(message: ProofWorkerRequest): void;
+  terminate(): void;
+}
+
+/** The proof currently running in the worker */
+interface PendingProof {
+  id: number;
+  stage?: ProofStage;
+  onProgress?: (stage: ProofStage) => void;
+  resolve: (result: { proof: Groth16Proof; publicSignals: string[] }) => void;
+  reject: (error: Error) => void;
+}
+
+// Default path relative to dist/sdk (Node.js only)
+const DEFAULT_WORKER_PATH = "./proofWorker.js";
+
+/**
+ * Groth16 prover running in a worker
+ *
+ * Proofs are generated one at a time in a single worker; further calls
+ * queue. Call terminate() when done so Node.js can exit.
+ *
+ * @example
+ * ```typescript
+ * // Node.js: bundled artifacts and worker script
+ * const prover = new WorkerProver();
+ *
+ * // Browser
+ * const prover = new WorkerProver({
+ *   wasm: "/circuits/privateSwap.wasm",
+ *   zkey: "/circuits/privateSwap.zkey",
+ *   createWorker: () =>
+ *     new Worker(new URL("@grimswap/circuits/worker", import.meta.url)),
+ * });
+ *
+ * const controller = new AbortController();
+ * const { proof, publicSignals } = await prover.prove(note, merkleProof, swapParams, {
+ *   signal: controller.signal,
+ *   onProgress: (stage) => console.log(stage), // "loading", "witness", "proving"
+ * });
+ * prover.terminate();
+ * ```
+ */
+export class WorkerProver {
+  private readonly options: WorkerProverOptions;
+  private worker: WorkerHandle | null = null;
+  // Variant whose artifacts the worker holds
+  private loadedCircuit: string | null = null;
+  private pending: PendingProof | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextId = 1;
+
+  constructor(options: WorkerProverOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Generate a ZK proof for a private swap in the worker
+   *
+   * @param note - The deposit note
+   * @param merkleProof - Merkle proof of inclusion
+   * @param swapParams - Swap parameters
+   * @param options - AbortSignal and progress callback
+   * @returns Proof and public signals (rejects on invalid input, like a
+   * failed proof)
+   */
+  async prove(
+    note: DepositNote,
+    merkleProof: MerkleProof,
+    swapParams: SwapParams,
+    options: WorkerProveOptions = {}
+  ): Promise<{
+    proof: Groth16Proof;
+    publicSignals: string[];
+  }> {
+    const { circuit, circuitLevels, wasm, zkey } = this.options;
+    const variant = selectCircuitVariant(swapParams, circuit ?? circuitLevels);
+    const levels = circuitLevels ?? variant.levels;
+    // The variant's artifacts are for its own levels only
+    const custom =
+      levels !== variant.levels ||
+      (circuit === undefined && circuitLevels !== undefined && !listCircuitVariants().includes(variant));
+    if (custom && (!wasm || !zkey)) {
+      throw new Error(
+        `No registered ${variant.circuit} variant has ${levels} levels: pass wasm and zkey of the build`
+      );
+    }
+    checkProofLevels(merkleProof, levels);
+    const input = buildCircuitInput(note, merkleProof, swapParams);
+    assertValidCircuitInput(input, levels);
+
+    const run = () => this.run(input, variant, options);
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Stop the worker; a running proof is rejected
+   */
+  terminate(): void {
+    this.fail(new Error("Worker prover terminated"));
+    this.reset();
+  }
+
+  private async run(
+    input: CircuitInput,
+    variant: CircuitVariant,
+    options: WorkerProveOptions
+  ): Promise<{ proof: Groth16Proof; publicSignals: string[] }> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      throw new Error("Proof generation aborted");
+    }
+
+    const circuit = variant.version;
+    const artifacts =
+      this.loadedCircuit === circuit ? undefined : await this.getArtifacts(variant);
+    if (signal?.aborted) {
+      throw new Error("Proof generation aborted");
+    }
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    return new Promise<{ proof: Groth16Proof; publicSignals: string[] }>(
+      (resolve, reject) => {
+        const onAbort = () => {
+          // snarkjs cannot be interrupted: drop the worker, restart it later
+          this.fail(new Error("Proof generation aborted"));
+          this.reset();
+        };
+        const settle = () => signal?.removeEventListener("abort", onAbort);
+
+        this.pending = {
+          id,
+          onProgress,
+          resolve: (result) => {
+            settle();
+            resolve(result);
+          },
+          reject: (error) => {
+            settle();
+            reject(error);
+          },
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        worker.postMessage({
+          type: "prove",
+          id,
+          circuit,
+          input,
+          artifacts,
+        });
+        this.loadedCircuit = circuit;
+      }
+    );
+  }
+
+  private handleMessage(message: ProofWorkerResponse): void {
+    const pending = this.pending;
+    if (!pending || message.id !== pending.id) {
+      return;
+    }
+
+    if (message.type === "progress") {
+      pending.stage = message.stage;
+      pending.onProgress?.(message.stage);
+      return;
+    }
+
+    this.pending = null;
+    if (message.type === "result") {
+      pending.resolve({
+        proof: message.proof,
+        publicSignals: message.publicSignals,
+      });
+    } else {
+      // Artifacts that failed to load are sent again by a fresh worker
+      if (pending.stage === "loading") {
+        this.reset();
+      }
+      pending.reject(new Error(message.message));
+    }
+  }
+
+  private fail(error: Error): void {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(error);
+  }
+
+  private reset(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.loadedCircuit = null;
+  }
+
+  private getWorker(): WorkerHandle {
+    if (!this.worker) {
+      const onMessage = (message: ProofWorkerResponse) => this.handleMessage(message);
+      const onError = (error: Error) => {
+        // Ignore late events from a worker that was already replaced
+        if (this.worker !== worker) {
+          return;
+        }
+        this.fail(new Error(`Proof worker failed: ${error.message}`));
+        this.reset();
+      };
+
+      const worker = wrapWorker(
+        this.options.createWorker
+          ? this.options.createWorker()
+          : spawnWorker(this.options.workerUrl),
+        onMessage,
+        onError
+      );
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  private async getArtifacts(
+    variant: CircuitVariant
+  ): Promise<{ wasm: string | Uint8Array; zkey: string | Uint8Array }> {
+    const { wasm, zkey } = this.options;
+
+    // The variant's URL artifacts are checked here and sent as bytes
+    if (
+      (!wasm && isCircuitArtifactUrl(variant.wasm)) ||
+      (!zkey && isCircuitArtifactUrl(variant.zkey))
+    ) {
+      const loaded = await loadCircuitArtifacts({
+        circuit: variant,
+        wasm: wasm ?? resolveCircuitArtifact(variant.wasm),
+        zkey: zkey ?? resolveCircuitArtifact(variant.zkey),
+      });
+      return { wasm: loaded.wasm, zkey: loaded.zkey };
+    }
+
+    if ((!wasm || !zkey) && !isNode()) {
+      throw new Error("wasm and zkey are required outside Node.js");
+    }
+
+    return {
+      wasm: wasm ? toArtifact(wasm) : resolveCircuitArtifact(variant.wasm),
+      zkey: zkey ? toArtifact(zkey) : resolveCircuitArtifact(variant.zkey),
+    };
+  }
+}
+
+function toArtifact(source: ArtifactSource): string | Uint8Array {
+  return typeof source === "string" || source instanceof Uint8Array
+    ? source
+    : new Uint8Array(source);
+}
+
+function isNode(): boolean {
+  return !(globalThis as any).Worker;
+}
+
+/**
+ * Start the bundled worker script: a Web Worker in the browser, and in
+ * Node.js a worker_threads worker through the "web-worker" shim (the
+ * one snarkjs uses itself, which would fail in a plain worker thread)
+ */
+function spawnWorker(workerUrl: string | undefined): WorkerLike {
+  if (!isNode()) {
+    if (!workerUrl) {
+      throw new Error("workerUrl or createWorker is required in the browser");
+    }
+    return new (globalThis as any).Worker(workerUrl);
+  }
+
+  // Dynamic imports - only loaded when running in Node.js
+  const path = require("path") as typeof import("path");
+  const NodeWorker = require("web-worker") as new (url: string) => WorkerLike;
+
+  return new NodeWorker(workerUrl || path.resolve(__dirname, DEFAULT_WORKER_PATH));
+}
+
+function wrapWorker(
+  worker: WorkerLike,
+  onMessage: (message: ProofWorkerResponse) => void,
+  onError: (error: Error) => void
+): WorkerHandle {
+  worker.addEventListener("message", (event) =>
+    onMessage(event.data as ProofWorkerResponse)
+  );
+  worker.addEventListener("error", (event) =>
+    onError(new Error(event.message || "worker error"))
+  );
+
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    terminate: () => worker.terminate(),
+  };
+}
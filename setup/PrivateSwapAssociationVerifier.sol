@@ -0,0 +1,224 @@
+// SPDX-License-Identifier: GPL-3.0
+/*
+    Copyright 2021 0KIMS association.
+
+    This file is generated with [snarkJS](https://github.com/iden3/snarkjs).
+
+    snarkJS is a free software: you can redistribute it and/or modify it
+    under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    snarkJS is distributed in the hope that it will be useful, but WITHOUT
+    ANY WARRANTY; without even the implied warranty of MERCHANTABILITY
+    or FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public
+    License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with snarkJS. If not, see <https://www.gnu.org/licenses/>.
+*/
+
+pragma solidity >=0.7.0 <0.9.0;
+
+contract PrivateSwapAssociationVerifier {
+    // Scalar field size
+    uint256 constant r    = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    // Base field size
+    uint256 constant q   = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
+
+    // Verification Key data
+    uint256 constant alphax  = 17624840643332680031981277216579418554971867048899065442437157866991231324723;
+    uint256 constant alphay  = 7358133679195930462912208807365610048008777086619203246551660385075187803015;
+    uint256 constant betax1  = 18514743521554561601192064205061560908921416374759610071050444644936057112328;
+    uint256 constant betax2  = 2603593322096555220279332916565709425890550097886164165167364915053089271071;
+    uint256 constant betay1  = 10267227512731847007909594614359149966543049747711362218759735368974736122885;
+    uint256 constant betay2  = 16373839426631415116916303194998570194347363373213832582815683872257029964873;
+    uint256 constant gammax1 = 11559732032986387107991004021392285783925812861821192530917403151452391805634;
+    uint256 constant gammax2 = 10857046999023057135944570762232829481370756359578518086990519993285655852781;
+    uint256 constant gammay1 = 4082367875863433681332203403145435568316851327593401208105741076214120093531;
+    uint256 constant gammay2 = 8495653923123431417604973247489272438418190587263600148770280649306958101930;
+    uint256 constant deltax1 = 21036679702618116290490840795317152386977764607088566957668561711556141741041;
+    uint256 constant deltax2 = 12850605443820030408447571341393190688030588950823164902580601277047493468207;
+    uint256 constant deltay1 = 5764315232402993359867350073610376341763433841507766934601445761747513323588;
+    uint256 constant deltay2 = 15823769219380569676613379776247164751688623280203974991662579688455770162961;
+
+    
+    uint256 constant IC0x = 3706056859995483741380749774374004016381271493992822438745965533131028231401;
+    uint256 constant IC0y = 15432337485673683366055941657981713168826415844655897340560716345755832374057;
+    
+    uint256 constant IC1x = 10467931739931518898520311736002979817479951822292976879354969048202196455139;
+    uint256 constant IC1y = 5246020834886769020437690445917897530282101104851163822068808776711182805011;
+    
+    uint256 constant IC2x = 19571646871518409139772827039414538394663428793502185955670445617253617868123;
+    uint256 constant IC2y = 4453272507037825307701545690191874067985212629406667323345836717076205077513;
+    
+    uint256 constant IC3x = 14352963986675414702200375525077749943154766659493712557793039732136861759765;
+    uint256 constant IC3y = 615221956662110088482212782068357946001205566383697526303974071441237819454;
+    
+    uint256 constant IC4x = 5069228581184180589355841964339914646345984138064975644573578128026731710269;
+    uint256 constant IC4y = 29592081178566511265253016251271289375683811178068400282647388853624068749;
+    
+    uint256 constant IC5x = 11321190747122829224239127502906744247396145328999599848562046985291973507927;
+    uint256 constant IC5y = 520857884025844942329109703351016939524010585415584566993734698490477616247;
+    
+    uint256 constant IC6x = 4436724313164130037997281439799143617360035308686050403749703523769384904305;
+    uint256 constant IC6y = 18006030515076608151430796002184650476078415947100684699974206929309688282903;
+    
+    uint256 constant IC7x = 5605477080045539619133824957052253202019062864427809570666136435332290086473;
+    uint256 constant IC7y = 15859760746826431218517206973685369732908747479705105504227090575300258911895;
+    
+    uint256 constant IC8x = 15247114876430245871726687696174411876728277935762769158855717813969795198880;
+    uint256 constant IC8y = 15714499243036586621565663767394663180062573605964432046081168793771198491270;
+    
+    uint256 constant IC9x = 6884380260673628264739388702688091200203773712720972064274176780264861182433;
+    uint256 constant IC9y = 3143266064724487807650172784867192158774890327755041698363448920912239648147;
+    
+ 
+    // Memory data
+    uint16 constant pVk = 0;
+    uint16 constant pPairing = 128;
+
+    uint16 constant pLastMem = 896;
+
+    function verifyProof(uint[2] calldata _pA, uint[2][2] calldata _pB, uint[2] calldata _pC, uint[9] calldata _pubSignals) public view returns (bool) {
+        assembly {
+            function checkField(v) {
+                if iszero(lt(v, r)) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+            }
+            
+            // G1 function to multiply a G1 value(x,y) to value in an address
+            function g1_mulAccC(pR, x, y, s) {
+                let success
+                let mIn := mload(0x40)
+                mstore(mIn, x)
+                mstore(add(mIn, 32), y)
+                mstore(add(mIn, 64), s)
+
+                success := staticcall(sub(gas(), 2000), 7, mIn, 96, mIn, 64)
+
+                if iszero(success) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+
+                mstore(add(mIn, 64), mload(pR))
+                mstore(add(mIn, 96), mload(add(pR, 32)))
+
+                success := staticcall(sub(gas(), 2000), 6, mIn, 128, pR, 64)
+
+                if iszero(success) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+            }
+
+            function checkPairing(pA, pB, pC, pubSignals, pMem) -> isOk {
+                let _pPairing := add(pMem, pPairing)
+                let _pVk := add(pMem, pVk)
+
+                mstore(_pVk, IC0x)
+                mstore(add(_pVk, 32), IC0y)
+
+                // Compute the linear combination vk_x
+                
+                g1_mulAccC(_pVk, IC1x, IC1y, calldataload(add(pubSignals, 0)))
+                
+                g1_mulAccC(_pVk, IC2x, IC2y, calldataload(add(pubSignals, 32)))
+                
+                g1_mulAccC(_pVk, IC3x, IC3y, calldataload(add(pubSignals, 64)))
+                
+                g1_mulAccC(_pVk, IC4x, IC4y, calldataload(add(pubSignals, 96)))
+                
+                g1_mulAccC(_pVk, IC5x, IC5y, calldataload(add(pubSignals, 128)))
+                
+                g1_mulAccC(_pVk, IC6x, IC6y, calldataload(add(pubSignals, 160)))
+                
+                g1_mulAccC(_pVk, IC7x, IC7y, calldataload(add(pubSignals, 192)))
+                
+                g1_mulAccC(_pVk, IC8x, IC8y, calldataload(add(pubSignals, 224)))
+                
+                g1_mulAccC(_pVk, IC9x, IC9y, calldataload(add(pubSignals, 256)))
+                
+
+                // -A
+                mstore(_pPairing, calldataload(pA))
+                mstore(add(_pPairing, 32), mod(sub(q, calldataload(add(pA, 32))), q))
+
+                // B
+                mstore(add(_pPairing, 64), calldataload(pB))
+                mstore(add(_pPairing, 96), calldataload(add(pB, 32)))
+                mstore(add(_pPairing, 128), calldataload(add(pB, 64)))
+                mstore(add(_pPairing, 160), calldataload(add(pB, 96)))
+
+                // alpha1
+                mstore(add(_pPairing, 192), alphax)
+                mstore(add(_pPairing, 224), alphay)
+
+                // beta2
+                mstore(add(_pPairing, 256), betax1)
+                mstore(add(_pPairing, 288), betax2)
+                mstore(add(_pPairing, 320), betay1)
+                mstore(add(_pPairing, 352), betay2)
+
+                // vk_x
+                mstore(add(_pPairing, 384), mload(add(pMem, pVk)))
+                mstore(add(_pPairing, 416), mload(add(pMem, add(pVk, 32))))
+
+
+                // gamma2
+                mstore(add(_pPairing, 448), gammax1)
+                mstore(add(_pPairing, 480), gammax2)
+                mstore(add(_pPairing, 512), gammay1)
+                mstore(add(_pPairing, 544), gammay2)
+
+                // C
+                mstore(add(_pPairing, 576), calldataload(pC))
+                mstore(add(_pPairing, 608), calldataload(add(pC, 32)))
+
+                // delta2
+                mstore(add(_pPairing, 640), deltax1)
+                mstore(add(_pPairing, 672), deltax2)
+                mstore(add(_pPairing, 704), deltay1)
+                mstore(add(_pPairing, 736), deltay2)
+
+
+                let success := staticcall(sub(gas(), 2000), 8, _pPairing, 768, _pPairing, 0x20)
+
+                isOk := and(success, mload(_pPairing))
+            }
+
+            let pMem := mload(0x40)
+            mstore(0x40, add(pMem, pLastMem))
+
+            // Validate that all evaluations ∈ F
+            
+            checkField(calldataload(add(_pubSignals, 0)))
+            
+            checkField(calldataload(add(_pubSignals, 32)))
+            
+            checkField(calldataload(add(_pubSignals, 64)))
+            
+            checkField(calldataload(add(_pubSignals, 96)))
+            
+            checkField(calldataload(add(_pubSignals, 128)))
+            
+            checkField(calldataload(add(_pubSignals, 160)))
+            
+            checkField(calldataload(add(_pubSignals, 192)))
+            
+            checkField(calldataload(add(_pubSignals, 224)))
+            
+            checkField(calldataload(add(_pubSignals, 256)))
+            
+
+            // Validate all evaluations
+            let isValid := checkPairing(_pA, _pB, _pC, _pubSignals, pMem)
+
+            mstore(0, isValid)
+             return(0, 0x20)
+         }
+     }
+ }
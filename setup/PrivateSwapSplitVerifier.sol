@@ -0,0 +1,224 @@
+// SPDX-License-Identifier: GPL-3.0
+/*
+    Copyright 2021 0KIMS association.
+
+    This file is generated with [snarkJS](https://github.com/iden3/snarkjs).
+
+    snarkJS is a free software: you can redistribute it and/or modify it
+    under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    snarkJS is distributed in the hope that it will be useful, but WITHOUT
+    ANY WARRANTY; without even the implied warranty of MERCHANTABILITY
+    or FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public
+    License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with snarkJS. If not, see <https://www.gnu.org/licenses/>.
+*/
+
+pragma solidity >=0.7.0 <0.9.0;
+
+contract PrivateSwapSplitVerifier {
+    // Scalar field size
+    uint256 constant r    = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    // Base field size
+    uint256 constant q   = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
+
+    // Verification Key data
+    uint256 constant alphax  = 17624840643332680031981277216579418554971867048899065442437157866991231324723;
+    uint256 constant alphay  = 7358133679195930462912208807365610048008777086619203246551660385075187803015;
+    uint256 constant betax1  = 18514743521554561601192064205061560908921416374759610071050444644936057112328;
+    uint256 constant betax2  = 2603593322096555220279332916565709425890550097886164165167364915053089271071;
+    uint256 constant betay1  = 10267227512731847007909594614359149966543049747711362218759735368974736122885;
+    uint256 constant betay2  = 16373839426631415116916303194998570194347363373213832582815683872257029964873;
+    uint256 constant gammax1 = 11559732032986387107991004021392285783925812861821192530917403151452391805634;
+    uint256 constant gammax2 = 10857046999023057135944570762232829481370756359578518086990519993285655852781;
+    uint256 constant gammay1 = 4082367875863433681332203403145435568316851327593401208105741076214120093531;
+    uint256 constant gammay2 = 8495653923123431417604973247489272438418190587263600148770280649306958101930;
+    uint256 constant deltax1 = 6573031055755126029244601527655094203046088021809635909164111850758881252783;
+    uint256 constant deltax2 = 5465863523719693228051451774296793373800931874137296290376468709013435587773;
+    uint256 constant deltay1 = 2306401964971554438962381617699981706636322018966582739899987381554443525357;
+    uint256 constant deltay2 = 17100130443253585669547758487351142596705428327724392119181297251215508070373;
+
+    
+    uint256 constant IC0x = 10370189761004371710655387196342237848782304814128762662381113220740520896104;
+    uint256 constant IC0y = 9138014539603530962498572833634119184227378816555236306320269813327680068997;
+    
+    uint256 constant IC1x = 19274479418686055005980123804342845555618553412501319030147241477288930264247;
+    uint256 constant IC1y = 3901526535339995884074444816617095233992399678345739710966958778187397682647;
+    
+    uint256 constant IC2x = 1347282673030885656760071475018314738526446725047503583835587880740202576738;
+    uint256 constant IC2y = 1616124438201578824153046753446472690870383268002499467105337419178751753095;
+    
+    uint256 constant IC3x = 5502978309126559023162750448588243737081446627877910282015825545142040786993;
+    uint256 constant IC3y = 10595340927460572006131771828724750802065674332927341332535056931645103396691;
+    
+    uint256 constant IC4x = 19993940445909865751010692402027927944064143027085131287042825653285488444920;
+    uint256 constant IC4y = 20528859300903148459199906100035840699205501449841103220815776475790693569579;
+    
+    uint256 constant IC5x = 10301636993727647712270590946764426596674543140544269931412755343607319749480;
+    uint256 constant IC5y = 2234378716290716663212893719288070675066394685260341536968148806424799830490;
+    
+    uint256 constant IC6x = 4344104124033661256041026325497287536574630103725075567492372568036541970767;
+    uint256 constant IC6y = 14389614133004284330511495040277845323847953532140631597532554353175001231351;
+    
+    uint256 constant IC7x = 13459087134087349376185581316789688394948576677524137222076862442051135710999;
+    uint256 constant IC7y = 1947098746555429343726062253063458459488269896941568420307174758779702397508;
+    
+    uint256 constant IC8x = 3201238650467079198231816520748614615591101254390321420552123297390118185314;
+    uint256 constant IC8y = 20407787715149246080152562132122102883105034569301578897050709633995532842621;
+    
+    uint256 constant IC9x = 14346130913951058092818123905369142746601435067703823228408761921055269212948;
+    uint256 constant IC9y = 8320539742705170700914161268898603226750694939741242389747067049182788996553;
+    
+ 
+    // Memory data
+    uint16 constant pVk = 0;
+    uint16 constant pPairing = 128;
+
+    uint16 constant pLastMem = 896;
+
+    function verifyProof(uint[2] calldata _pA, uint[2][2] calldata _pB, uint[2] calldata _pC, uint[9] calldata _pubSignals) public view returns (bool) {
+        assembly {
+            function checkField(v) {
+                if iszero(lt(v, r)) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+            }
+            
+            // G1 function to multiply a G1 value(x,y) to value in an address
+            function g1_mulAccC(pR, x, y, s) {
+                let success
+                let mIn := mload(0x40)
+                mstore(mIn, x)
+                mstore(add(mIn, 32), y)
+                mstore(add(mIn, 64), s)
+
+                success := staticcall(sub(gas(), 2000), 7, mIn, 96, mIn, 64)
+
+                if iszero(success) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+
+                mstore(add(mIn, 64), mload(pR))
+                mstore(add(mIn, 96), mload(add(pR, 32)))
+
+                success := staticcall(sub(gas(), 2000), 6, mIn, 128, pR, 64)
+
+                if iszero(success) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+            }
+
+            function checkPairing(pA, pB, pC, pubSignals, pMem) -> isOk {
+                let _pPairing := add(pMem, pPairing)
+                let _pVk := add(pMem, pVk)
+
+                mstore(_pVk, IC0x)
+                mstore(add(_pVk, 32), IC0y)
+
+                // Compute the linear combination vk_x
+                
+                g1_mulAccC(_pVk, IC1x, IC1y, calldataload(add(pubSignals, 0)))
+                
+                g1_mulAccC(_pVk, IC2x, IC2y, calldataload(add(pubSignals, 32)))
+                
+                g1_mulAccC(_pVk, IC3x, IC3y, calldataload(add(pubSignals, 64)))
+                
+                g1_mulAccC(_pVk, IC4x, IC4y, calldataload(add(pubSignals, 96)))
+                
+                g1_mulAccC(_pVk, IC5x, IC5y, calldataload(add(pubSignals, 128)))
+                
+                g1_mulAccC(_pVk, IC6x, IC6y, calldataload(add(pubSignals, 160)))
+                
+                g1_mulAccC(_pVk, IC7x, IC7y, calldataload(add(pubSignals, 192)))
+                
+                g1_mulAccC(_pVk, IC8x, IC8y, calldataload(add(pubSignals, 224)))
+                
+                g1_mulAccC(_pVk, IC9x, IC9y, calldataload(add(pubSignals, 256)))
+                
+
+                // -A
+                mstore(_pPairing, calldataload(pA))
+                mstore(add(_pPairing, 32), mod(sub(q, calldataload(add(pA, 32))), q))
+
+                // B
+                mstore(add(_pPairing, 64), calldataload(pB))
+                mstore(add(_pPairing, 96), calldataload(add(pB, 32)))
+                mstore(add(_pPairing, 128), calldataload(add(pB, 64)))
+                mstore(add(_pPairing, 160), calldataload(add(pB, 96)))
+
+                // alpha1
+                mstore(add(_pPairing, 192), alphax)
+                mstore(add(_pPairing, 224), alphay)
+
+                // beta2
+                mstore(add(_pPairing, 256), betax1)
+                mstore(add(_pPairing, 288), betax2)
+                mstore(add(_pPairing, 320), betay1)
+                mstore(add(_pPairing, 352), betay2)
+
+                // vk_x
+                mstore(add(_pPairing, 384), mload(add(pMem, pVk)))
+                mstore(add(_pPairing, 416), mload(add(pMem, add(pVk, 32))))
+
+
+                // gamma2
+                mstore(add(_pPairing, 448), gammax1)
+                mstore(add(_pPairing, 480), gammax2)
+                mstore(add(_pPairing, 512), gammay1)
+                mstore(add(_pPairing, 544), gammay2)
+
+                // C
+                mstore(add(_pPairing, 576), calldataload(pC))
+                mstore(add(_pPairing, 608), calldataload(add(pC, 32)))
+
+                // delta2
+                mstore(add(_pPairing, 640), deltax1)
+                mstore(add(_pPairing, 672), deltax2)
+                mstore(add(_pPairing, 704), deltay1)
+                mstore(add(_pPairing, 736), deltay2)
+
+
+                let success := staticcall(sub(gas(), 2000), 8, _pPairing, 768, _pPairing, 0x20)
+
+                isOk := and(success, mload(_pPairing))
+            }
+
+            let pMem := mload(0x40)
+            mstore(0x40, add(pMem, pLastMem))
+
+            // Validate that all evaluations ∈ F
+            
+            checkField(calldataload(add(_pubSignals, 0)))
+            
+            checkField(calldataload(add(_pubSignals, 32)))
+            
+            checkField(calldataload(add(_pubSignals, 64)))
+            
+            checkField(calldataload(add(_pubSignals, 96)))
+            
+            checkField(calldataload(add(_pubSignals, 128)))
+            
+            checkField(calldataload(add(_pubSignals, 160)))
+            
+            checkField(calldataload(add(_pubSignals, 192)))
+            
+            checkField(calldataload(add(_pubSignals, 224)))
+            
+            checkField(calldataload(add(_pubSignals, 256)))
+            
+
+            // Validate all evaluations
+            let isValid := checkPairing(_pA, _pB, _pC, _pubSignals, pMem)
+
+            mstore(0, isValid)
+             return(0, 0x20)
+         }
+     }
+ }
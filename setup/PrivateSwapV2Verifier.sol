@@ -0,0 +1,231 @@
+// SPDX-License-Identifier: GPL-3.0
+/*
+    Copyright 2021 0KIMS association.
+
+    This file is generated with [snarkJS](https://github.com/iden3/snarkjs).
+
+    snarkJS is a free software: you can redistribute it and/or modify it
+    under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    snarkJS is distributed in the hope that it will be useful, but WITHOUT
+    ANY WARRANTY; without even the implied warranty of MERCHANTABILITY
+    or FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public
+    License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with snarkJS. If not, see <https://www.gnu.org/licenses/>.
+*/
+
+pragma solidity >=0.7.0 <0.9.0;
+
+contract PrivateSwapV2Verifier {
+    // Scalar field size
+    uint256 constant r    = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    // Base field size
+    uint256 constant q   = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
+
+    // Verification Key data
+    uint256 constant alphax  = 17624840643332680031981277216579418554971867048899065442437157866991231324723;
+    uint256 constant alphay  = 7358133679195930462912208807365610048008777086619203246551660385075187803015;
+    uint256 constant betax1  = 18514743521554561601192064205061560908921416374759610071050444644936057112328;
+    uint256 constant betax2  = 2603593322096555220279332916565709425890550097886164165167364915053089271071;
+    uint256 constant betay1  = 10267227512731847007909594614359149966543049747711362218759735368974736122885;
+    uint256 constant betay2  = 16373839426631415116916303194998570194347363373213832582815683872257029964873;
+    uint256 constant gammax1 = 11559732032986387107991004021392285783925812861821192530917403151452391805634;
+    uint256 constant gammax2 = 10857046999023057135944570762232829481370756359578518086990519993285655852781;
+    uint256 constant gammay1 = 4082367875863433681332203403145435568316851327593401208105741076214120093531;
+    uint256 constant gammay2 = 8495653923123431417604973247489272438418190587263600148770280649306958101930;
+    uint256 constant deltax1 = 15343178341261770859083835486488220450725648981313438763030688460582416721553;
+    uint256 constant deltax2 = 7921960392369597608186284667534897210246811785896282149117651263156116618982;
+    uint256 constant deltay1 = 18577767153360782845167007794577550472608395011819514701127087001777045843014;
+    uint256 constant deltay2 = 18870182105397857147584180859941506247987349067027976200972989415034950382881;
+
+    
+    uint256 constant IC0x = 19435066249205554021383334970639000783279327968290781538476202277705381748672;
+    uint256 constant IC0y = 19918172198364777690683426566591214505346442807224999279681124188327160138413;
+    
+    uint256 constant IC1x = 4464829332565886404071410095031653512746957449992097917708703636099156154786;
+    uint256 constant IC1y = 20177736523546624268216908631208314285653431424872130657096483157854486606156;
+    
+    uint256 constant IC2x = 10151900884565078070594038451612866267185958677683610307281962785847461133388;
+    uint256 constant IC2y = 15869933419221363099075781831450598602621290172217767570800816317247231782189;
+    
+    uint256 constant IC3x = 13071567843646656112050111626284272115445293830791564957640082505751200319225;
+    uint256 constant IC3y = 12034116704808285717467765040460690700271038705848927098363532360780539922560;
+    
+    uint256 constant IC4x = 20755714586265837919795338163174450177656939991046441505570210664849327983172;
+    uint256 constant IC4y = 4550778158697871861704889652574024204650224306865107328311040372122470138791;
+    
+    uint256 constant IC5x = 6219418638726747365423911980006484823306189774617314533194523342903394922485;
+    uint256 constant IC5y = 4617787126842642204279118196217506772684725282178734947475286492029974699558;
+    
+    uint256 constant IC6x = 16002288860009270341412820170008524112225560463982646908715170017958986260788;
+    uint256 constant IC6y = 8232517728535912524798395043414902278003361442785761294123715738223514304352;
+    
+    uint256 constant IC7x = 21818127457395702837860930699206919797759532588262421987585220439765643356969;
+    uint256 constant IC7y = 10766385609480991885898086770934280473626415588926813972089019517170513096807;
+    
+    uint256 constant IC8x = 623875707470508251614544451921327076654525641893181824362680848026894731559;
+    uint256 constant IC8y = 6115423603560073836576006383137097772476897269224211253352488445641997585242;
+    
+    uint256 constant IC9x = 17799923568199848759184021244462324575644523955909963902752162627587533541628;
+    uint256 constant IC9y = 9261719787461770062902385174013115289640223283183801289379927914302211959608;
+    
+    uint256 constant IC10x = 13313918747319140779953215508580176765166236066978151461630039018086368311766;
+    uint256 constant IC10y = 3899352437295305719647178036071216079878464134372777959761078970564888787981;
+    
+ 
+    // Memory data
+    uint16 constant pVk = 0;
+    uint16 constant pPairing = 128;
+
+    uint16 constant pLastMem = 896;
+
+    function verifyProof(uint[2] calldata _pA, uint[2][2] calldata _pB, uint[2] calldata _pC, uint[10] calldata _pubSignals) public view returns (bool) {
+        assembly {
+            function checkField(v) {
+                if iszero(lt(v, r)) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+            }
+            
+            // G1 function to multiply a G1 value(x,y) to value in an address
+            function g1_mulAccC(pR, x, y, s) {
+                let success
+                let mIn := mload(0x40)
+                mstore(mIn, x)
+                mstore(add(mIn, 32), y)
+                mstore(add(mIn, 64), s)
+
+                success := staticcall(sub(gas(), 2000), 7, mIn, 96, mIn, 64)
+
+                if iszero(success) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+
+                mstore(add(mIn, 64), mload(pR))
+                mstore(add(mIn, 96), mload(add(pR, 32)))
+
+                success := staticcall(sub(gas(), 2000), 6, mIn, 128, pR, 64)
+
+                if iszero(success) {
+                    mstore(0, 0)
+                    return(0, 0x20)
+                }
+            }
+
+            function checkPairing(pA, pB, pC, pubSignals, pMem) -> isOk {
+                let _pPairing := add(pMem, pPairing)
+                let _pVk := add(pMem, pVk)
+
+                mstore(_pVk, IC0x)
+                mstore(add(_pVk, 32), IC0y)
+
+                // Compute the linear combination vk_x
+                
+                g1_mulAccC(_pVk, IC1x, IC1y, calldataload(add(pubSignals, 0)))
+                
+                g1_mulAccC(_pVk, IC2x, IC2y, calldataload(add(pubSignals, 32)))
+                
+                g1_mulAccC(_pVk, IC3x, IC3y, calldataload(add(pubSignals, 64)))
+                
+                g1_mulAccC(_pVk, IC4x, IC4y, calldataload(add(pubSignals, 96)))
+                
+                g1_mulAccC(_pVk, IC5x, IC5y, calldataload(add(pubSignals, 128)))
+                
+                g1_mulAccC(_pVk, IC6x, IC6y, calldataload(add(pubSignals, 160)))
+                
+                g1_mulAccC(_pVk, IC7x, IC7y, calldataload(add(pubSignals, 192)))
+                
+                g1_mulAccC(_pVk, IC8x, IC8y, calldataload(add(pubSignals, 224)))
+                
+                g1_mulAccC(_pVk, IC9x, IC9y, calldataload(add(pubSignals, 256)))
+                
+                g1_mulAccC(_pVk, IC10x, IC10y, calldataload(add(pubSignals, 288)))
+                
+
+                // -A
+                mstore(_pPairing, calldataload(pA))
+                mstore(add(_pPairing, 32), mod(sub(q, calldataload(add(pA, 32))), q))
+
+                // B
+                mstore(add(_pPairing, 64), calldataload(pB))
+                mstore(add(_pPairing, 96), calldataload(add(pB, 32)))
+                mstore(add(_pPairing, 128), calldataload(add(pB, 64)))
+                mstore(add(_pPairing, 160), calldataload(add(pB, 96)))
+
+                // alpha1
+                mstore(add(_pPairing, 192), alphax)
+                mstore(add(_pPairing, 224), alphay)
+
+                // beta2
+                mstore(add(_pPairing, 256), betax1)
+                mstore(add(_pPairing, 288), betax2)
+                mstore(add(_pPairing, 320), betay1)
+                mstore(add(_pPairing, 352), betay2)
+
+                // vk_x
+                mstore(add(_pPairing, 384), mload(add(pMem, pVk)))
+                mstore(add(_pPairing, 416), mload(add(pMem, add(pVk, 32))))
+
+
+                // gamma2
+                mstore(add(_pPairing, 448), gammax1)
+                mstore(add(_pPairing, 480), gammax2)
+                mstore(add(_pPairing, 512), gammay1)
+                mstore(add(_pPairing, 544), gammay2)
+
+                // C
+                mstore(add(_pPairing, 576), calldataload(pC))
+                mstore(add(_pPairing, 608), calldataload(add(pC, 32)))
+
+                // delta2
+                mstore(add(_pPairing, 640), deltax1)
+                mstore(add(_pPairing, 672), deltax2)
+                mstore(add(_pPairing, 704), deltay1)
+                mstore(add(_pPairing, 736), deltay2)
+
+
+                let success := staticcall(sub(gas(), 2000), 8, _pPairing, 768, _pPairing, 0x20)
+
+                isOk := and(success, mload(_pPairing))
+            }
+
+            let pMem := mload(0x40)
+            mstore(0x40, add(pMem, pLastMem))
+
+            // Validate that all evaluations ∈ F
+            
+            checkField(calldataload(add(_pubSignals, 0)))
+            
+            checkField(calldataload(add(_pubSignals, 32)))
+            
+            checkField(calldataload(add(_pubSignals, 64)))
+            
+            checkField(calldataload(add(_pubSignals, 96)))
+            
+            checkField(calldataload(add(_pubSignals, 128)))
+            
+            checkField(calldataload(add(_pubSignals, 160)))
+            
+            checkField(calldataload(add(_pubSignals, 192)))
+            
+            checkField(calldataload(add(_pubSignals, 224)))
+            
+            checkField(calldataload(add(_pubSignals, 256)))
+            
+            checkField(calldataload(add(_pubSignals, 288)))
+            
+
+            // Validate all evaluations
+            let isValid := checkPairing(_pA, _pB, _pC, _pubSignals, pMem)
+
+            mstore(0, isValid)
+             return(0, 0x20)
+         }
+     }
+ }
@@ -21,6 +21,13 @@ const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 describe("GrimSwap SDK", function () {
   this.timeout(120000);
 
+  // snarkjs keeps the bn128 curve and its worker threads alive after a proof
+  after(async () => {
+    if (globalThis.curve_bn128) {
+      await globalThis.curve_bn128.terminate();
+    }
+  });
+
   // ============ Commitment Module ============
 
   describe("Commitment", () => {
@@ -46,6 +53,56 @@ describe("GrimSwap SDK", function () {
       expect(hash1).to.not.equal(hash2);
     });
 
+    it("should hash synchronously and in batches", async () => {
+      await sdk.initPoseidon();
+      const expected = await sdk.poseidonHash([42n, 100n]);
+
+      expect(sdk.poseidonHashSync([42n, 100n])).to.equal(expected);
+
+      const batch = sdk.poseidonHashBatch([[42n, 100n], [1n, 2n], [7n]]);
+      expect(batch.length).to.equal(3);
+      expect(batch[0]).to.equal(expected);
+      expect(batch[1]).to.equal(await sdk.poseidonHash([1n, 2n]));
+      expect(batch[2]).to.equal(await sdk.poseidonHash([7n]));
+    });
+
+    it("should match circomlibjs Poseidon known answers", async () => {
+      // Reference vectors from circomlib's poseidon tests
+      expect(sdk.poseidonHashSync([1n])).to.equal(
+        18586133768512220936620570745912940619677854269274689475585506675881198879027n
+      );
+      expect(sdk.poseidonHashSync([1n, 2n])).to.equal(
+        7853200120776062878684798364095072458815029376092732009249414926327459813530n
+      );
+      expect(sdk.poseidonHashSync([1n, 2n, 3n])).to.equal(
+        6542985608222806190361240322586112750744169038454362455181422643027100751666n
+      );
+
+      const { buildPoseidon } = require("circomlibjs");
+      const { randomBytes } = require("crypto");
+      const reference = await buildPoseidon();
+      for (let i = 0; i < 10; i++) {
+        const inputs = [];
+        for (let n = 0; n <= i % 3; n++) {
+          inputs.push(BigInt("0x" + randomBytes(32).toString("hex")));
+        }
+        expect(sdk.poseidonHashSync(inputs)).to.equal(
+          reference.F.toObject(reference(inputs))
+        );
+      }
+    });
+
+    it("should build a native hasher shaped like circomlibjs", async () => {
+      // buildPoseidon: deprecated alias
+      expect(sdk.buildPoseidon).to.equal(sdk.buildNativePoseidon);
+      const poseidon = await sdk.buildNativePoseidon();
+      const hash = poseidon([1, 2]);
+      expect(poseidon.F.toString(hash)).to.equal(
+        "7853200120776062878684798364095072458815029376092732009249414926327459813530"
+      );
+      expect(() => sdk.poseidonHashSync([1n, 2n, 3n, 4n])).to.throw("1 to 3 inputs");
+    });
+
     it("should create deposit note", async () => {
       const note = await sdk.createDepositNote(TEST_AMOUNT);
 
@@ -105,6 +162,183 @@ describe("GrimSwap SDK", function () {
       expect(deserialized.nullifierHash).to.equal(note.nullifierHash);
     });
 
+    it("should serialize and deserialize v2 note with metadata", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      note.leafIndex = 42;
+      note.chainId = 1301;
+      note.pool = sdk.UNICHAIN_SEPOLIA_ADDRESSES.grimPoolMultiToken;
+
+      const serialized = sdk.serializeNote(note);
+      expect(serialized.startsWith("grimswap-v2-1301-")).to.be.true;
+
+      const deserialized = await sdk.deserializeNote(serialized);
+      expect(deserialized.secret).to.equal(note.secret);
+      expect(deserialized.nullifier).to.equal(note.nullifier);
+      expect(deserialized.commitment).to.equal(note.commitment);
+      expect(deserialized.leafIndex).to.equal(42);
+      expect(deserialized.chainId).to.equal(1301);
+      expect(deserialized.pool).to.equal(note.pool.toLowerCase());
+      expect(deserialized.token).to.equal(ZERO_ADDRESS);
+    });
+
+    it("should reject v2 note with a typo", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      note.chainId = 1301;
+      note.pool = sdk.UNICHAIN_SEPOLIA_ADDRESSES.grimPool;
+
+      const serialized = sdk.serializeNote(note);
+      const parts = serialized.split("-");
+      const c = parts[6][10];
+      parts[6] = parts[6].slice(0, 10) + (c === "0" ? "1" : "0") + parts[6].slice(11);
+
+      try {
+        await sdk.deserializeNote(parts.join("-"));
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("checksum");
+      }
+    });
+
+    it("should reject note secrets outside the field", async () => {
+      const tooBig = sdk.FIELD_SIZE.toString(16).padStart(64, "0");
+      const note = `grimswap-v1-${tooBig}-${"1".padStart(64, "0")}-de0b6b3a7640000`;
+
+      try {
+        await sdk.deserializeNote(note);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("field element");
+      }
+    });
+
+    it("should create and serialize token notes", async () => {
+      const usdc = sdk.UNICHAIN_SEPOLIA_ADDRESSES.usdc;
+      const note = await sdk.createDepositNote(100000000n, { token: usdc });
+      expect(note.token).to.equal(usdc);
+
+      const serialized = sdk.serializeNote(note);
+      expect(serialized.startsWith("grimswap-v2-0-")).to.be.true;
+
+      const deserialized = await sdk.deserializeNote(serialized);
+      expect(deserialized.token).to.equal(usdc.toLowerCase());
+      expect(deserialized.chainId).to.be.undefined;
+      expect(deserialized.pool).to.be.undefined;
+      expect(deserialized.commitment).to.equal(note.commitment);
+
+      expect(() => sdk.serializeNote(note, 1)).to.throw("cannot carry a token");
+    });
+
+    it("should check token note against pool views", async () => {
+      const usdc = sdk.UNICHAIN_SEPOLIA_ADDRESSES.usdc;
+      const note = await sdk.createDepositNote(100000000n, { token: usdc });
+
+      const originalFetch = global.fetch;
+      const respond = (amount) => async (_url, init) => {
+        const { params } = JSON.parse(init.body);
+        const isToken = params[0].data.startsWith("0xcfb1f7a8");
+        const value = isToken ? BigInt(usdc) : amount;
+        return {
+          json: async () => ({ result: "0x" + value.toString(16).padStart(64, "0") }),
+        };
+      };
+
+      try {
+        global.fetch = respond(100000000n);
+        const result = await sdk.checkNoteDeposit(note, "http://rpc.test");
+        expect(result.token).to.equal(usdc.toLowerCase());
+        expect(result.amount).to.equal(100000000n);
+
+        global.fetch = respond(5n);
+        try {
+          await sdk.checkNoteDeposit(note, "http://rpc.test");
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("amount mismatch");
+        }
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+
+    it("should check GrimPoolMultiToken and ERC20 notes before proving", async () => {
+      const { grimPool, grimPoolMultiToken } = sdk.UNICHAIN_SEPOLIA_ADDRESSES;
+      const originalFetch = global.fetch;
+      let ethCalls;
+      global.fetch = async (url, init) => {
+        if (String(url).endsWith("/info")) {
+          return { ok: true, json: async () => ({ address: grimPool, fee: 10 }) };
+        }
+        ethCalls.push(JSON.parse(init.body).params[0].to);
+        return { ok: true, json: async () => ({ error: { message: "execution reverted" } }) };
+      };
+      const prover = {
+        prove: async () => {
+          throw new Error("reached the prover");
+        },
+      };
+      const swap = (note) =>
+        sdk.executePrivateSwap({
+          note,
+          recipient: "0x1111111111111111111111111111111111111111",
+          poolKey: {},
+          zeroForOne: true,
+          amountSpecified: -TEST_AMOUNT,
+          wasmBuffer: new Uint8Array(0),
+          zkeyBuffer: new Uint8Array(0),
+          relayerUrl: "http://relayer.test",
+          rpcUrl: "http://rpc.test",
+          commitments: [note.commitment],
+          prover,
+        });
+
+      try {
+        // Round-tripped v2 ETH note on the legacy pool: token is set, no views to call
+        const legacy = await sdk.deserializeNote(
+          sdk.serializeNote(await sdk.createDepositNote(TEST_AMOUNT, { chainId: 1301, pool: grimPool }))
+        );
+        expect(legacy.token).to.not.be.undefined;
+        ethCalls = [];
+        try {
+          await swap(legacy);
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("reached the prover");
+        }
+        expect(ethCalls).to.deep.equal([]);
+
+        const multiToken = await sdk.createDepositNote(TEST_AMOUNT, {
+          chainId: 1301,
+          pool: grimPoolMultiToken,
+          token: ZERO_ADDRESS,
+        });
+        ethCalls = [];
+        try {
+          await swap(multiToken);
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("execution reverted");
+        }
+        expect(ethCalls.length).to.equal(2);
+        expect(ethCalls.every((to) => to === grimPoolMultiToken)).to.be.true;
+
+        // ERC20 note without a pool: checked on the chain's GrimPoolMultiToken
+        const token = await sdk.createDepositNote(TEST_AMOUNT, {
+          token: sdk.UNICHAIN_SEPOLIA_ADDRESSES.usdc,
+        });
+        ethCalls = [];
+        try {
+          await swap(token);
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("execution reverted");
+        }
+        expect(ethCalls.length).to.equal(2);
+        expect(ethCalls.every((to) => to === grimPoolMultiToken)).to.be.true;
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+
     it("should format commitment for contract", async () => {
       const note = await sdk.createDepositNote(TEST_AMOUNT);
       const formatted = sdk.formatCommitmentForContract(note.commitment);
@@ -127,6 +361,281 @@ describe("GrimSwap SDK", function () {
     });
   });
 
+  // ============ Note Backup Module ============
+
+  describe("Note Backup", () => {
+    // Low scrypt cost to keep tests fast
+    const FAST_KDF = { N: 2 ** 10 };
+
+    it("should encrypt and decrypt a note", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const backup = await sdk.encryptNote(note, "correct horse", FAST_KDF);
+
+      expect(backup).to.not.include(note.secret.toString(16));
+      expect(sdk.isEncryptedNote(backup)).to.be.true;
+      expect(sdk.isEncryptedNote(sdk.serializeNote(note))).to.be.false;
+
+      const parsed = JSON.parse(backup);
+      expect(parsed.version).to.equal(1);
+      expect(parsed.kdf).to.equal("scrypt");
+      expect(parsed.kdfParams.N).to.equal(FAST_KDF.N);
+
+      const restored = await sdk.decryptNote(backup, "correct horse");
+      expect(restored.secret).to.equal(note.secret);
+      expect(restored.nullifier).to.equal(note.nullifier);
+      expect(restored.amount).to.equal(note.amount);
+      expect(restored.commitment).to.equal(note.commitment);
+    });
+
+    it("should reject a wrong password", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const backup = await sdk.encryptNote(note, "correct horse", FAST_KDF);
+
+      try {
+        await sdk.decryptNote(backup, "battery staple");
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Wrong password");
+      }
+    });
+
+    it("should detect tampered KDF parameters", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const parsed = JSON.parse(
+        await sdk.encryptNote(note, "correct horse", FAST_KDF)
+      );
+      parsed.kdfParams.r = 4;
+
+      try {
+        await sdk.decryptNote(parsed, "correct horse");
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Wrong password or corrupted");
+      }
+    });
+
+    it("should refuse KDF parameters that would exhaust memory", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const backup = await sdk.encryptNote(note, "correct horse", FAST_KDF);
+
+      // 128 * N * r over 1 GB, r and p over their caps
+      for (const params of [{ N: 2 ** 20, r: 16 }, { r: 2 ** 20 }, { p: 2 ** 20 }]) {
+        const parsed = JSON.parse(backup);
+        Object.assign(parsed.kdfParams, params);
+        expect(sdk.isEncryptedNote(JSON.stringify(parsed))).to.be.false;
+        try {
+          await sdk.decryptNote(parsed, "correct horse");
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("Invalid note backup KDF parameters");
+        }
+      }
+
+      try {
+        await sdk.encryptNote(note, "correct horse", { N: 2 ** 10, p: 64 });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Invalid scrypt parameters");
+      }
+    });
+
+    it("should reject unsupported backup versions", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const parsed = JSON.parse(
+        await sdk.encryptNote(note, "correct horse", FAST_KDF)
+      );
+      parsed.version = 99;
+
+      try {
+        await sdk.decryptNote(parsed, "correct horse");
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Unsupported note backup version");
+      }
+    });
+  });
+
+  // ============ Note Derivation Module ============
+
+  describe("Note Derivation", () => {
+    const SIGNATURE = "0x" + "ab".repeat(32) + "cd".repeat(32) + "1b";
+
+    it("should derive the same seed regardless of v encoding", () => {
+      const seed1 = sdk.deriveMasterSeedFromSignature(SIGNATURE);
+      const seed2 = sdk.deriveMasterSeedFromSignature(SIGNATURE.slice(0, -2) + "00");
+      expect(seed1.length).to.equal(32);
+      expect(Buffer.from(seed1).equals(Buffer.from(seed2))).to.be.true;
+    });
+
+    it("should derive deterministic notes by index", async () => {
+      const seed = sdk.deriveMasterSeedFromSignature(SIGNATURE);
+      const a = await sdk.deriveDepositNote(seed, 0, TEST_AMOUNT);
+      const b = await sdk.deriveDepositNote(seed, 0, TEST_AMOUNT);
+      const c = await sdk.deriveDepositNote(seed, 1, TEST_AMOUNT);
+
+      expect(a.commitment).to.equal(b.commitment);
+      expect(a.secret).to.not.equal(c.secret);
+      expect(a.nullifier).to.not.equal(a.secret);
+      expect(a.secret < sdk.FIELD_SIZE).to.be.true;
+    });
+
+    it("should derive unrelated nullifiers for different amounts at one index", async () => {
+      const seed = sdk.deriveMasterSeedFromSignature(SIGNATURE);
+      const a = await sdk.deriveDepositNote(seed, 0, TEST_AMOUNT);
+      const b = await sdk.deriveDepositNote(seed, 0, TEST_AMOUNT * 2n);
+
+      expect(a.nullifierHash).to.not.equal(b.nullifierHash);
+      expect(a.secret).to.not.equal(b.secret);
+    });
+
+    it("should derive seed from mnemonic", async () => {
+      const mnemonic =
+        "test test test test test test test test test test test junk";
+      const seed1 = await sdk.deriveMasterSeedFromMnemonic(mnemonic);
+      const seed2 = await sdk.deriveMasterSeedFromMnemonic(mnemonic, "pass");
+      expect(seed1.length).to.equal(32);
+      expect(Buffer.from(seed1).equals(Buffer.from(seed2))).to.be.false;
+
+      try {
+        await sdk.deriveMasterSeedFromMnemonic("too short");
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Invalid mnemonic");
+      }
+    });
+
+    it("should recover notes from deposit events", async () => {
+      const seed = sdk.deriveMasterSeedFromSignature(SIGNATURE);
+      const other = await sdk.createDepositNote(TEST_AMOUNT);
+      const n0 = await sdk.deriveDepositNote(seed, 0, TEST_AMOUNT);
+      const n3 = await sdk.deriveDepositNote(seed, 3, TEST_AMOUNT / 2n);
+
+      const events = [other.commitment, n0.commitment, n3.commitment].map(
+        (commitment, leafIndex) => ({
+          commitment,
+          leafIndex,
+          timestamp: 0n,
+          blockNumber: 1n,
+          transactionHash: "0x",
+        })
+      );
+
+      const recovered = await sdk.recoverDepositNotes({
+        seed,
+        amounts: [TEST_AMOUNT, TEST_AMOUNT / 2n],
+        events,
+        gapLimit: 5,
+        checkSpent: false,
+      });
+
+      expect(recovered.length).to.equal(2);
+      expect(recovered[0].index).to.equal(0);
+      expect(recovered[0].note.leafIndex).to.equal(1);
+      expect(recovered[1].index).to.equal(3);
+      expect(recovered[1].note.leafIndex).to.equal(2);
+      expect(recovered[1].note.amount).to.equal(TEST_AMOUNT / 2n);
+      expect(recovered[1].spent).to.be.false;
+    });
+  });
+
+  // ============ Note Store Module ============
+
+  describe("Note Store", () => {
+    it("should track note lifecycle in memory", async () => {
+      const store = new sdk.MemoryNoteStore();
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+
+      const created = await store.save(note);
+      expect(created.status).to.equal("created");
+
+      const deposited = await store.markDeposited(note.commitment, 7);
+      expect(deposited.status).to.equal("deposited");
+      expect(deposited.note.leafIndex).to.equal(7);
+
+      const rootKnown = await store.markRootKnown(note.commitment, 123n);
+      expect(rootKnown.status).to.equal("rootKnown");
+      expect(rootKnown.root).to.equal(123n);
+
+      await store.markSpent(note.commitment);
+      expect((await store.list("spent")).length).to.equal(1);
+      expect((await store.list("deposited")).length).to.equal(0);
+
+      await store.remove(note.commitment);
+      expect(await store.get(note.commitment)).to.be.undefined;
+    });
+
+    it("should advance a re-saved note to deposited and return copies", async () => {
+      const store = new sdk.MemoryNoteStore();
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      await store.save(note);
+
+      const saved = await store.save({ ...note, leafIndex: 4 });
+      expect(saved.status).to.equal("deposited");
+
+      // Changing a returned note does not change the store
+      saved.status = "spent";
+      saved.note.leafIndex = 9;
+      (await store.list())[0].note.amount = 1n;
+      const stored = await store.get(note.commitment);
+      expect(stored.status).to.equal("deposited");
+      expect(stored.note.leafIndex).to.equal(4);
+      expect(stored.note.amount).to.equal(TEST_AMOUNT);
+    });
+
+    it("should refuse to mark root known before deposit", async () => {
+      const store = new sdk.MemoryNoteStore();
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      await store.save(note);
+
+      try {
+        await store.markRootKnown(note.commitment, 1n);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("before the note is deposited");
+      }
+    });
+
+    it("should persist notes in browser storage", async () => {
+      const backing = new Map();
+      const storage = {
+        getItem: (k) => (backing.has(k) ? backing.get(k) : null),
+        setItem: (k, v) => backing.set(k, v),
+      };
+
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      note.leafIndex = 3;
+      await new sdk.BrowserNoteStore("notes", storage).save(note);
+
+      const reloaded = await new sdk.BrowserNoteStore("notes", storage).get(
+        note.commitment
+      );
+      expect(reloaded.status).to.equal("deposited");
+      expect(reloaded.note.secret).to.equal(note.secret);
+      expect(reloaded.note.leafIndex).to.equal(3);
+    });
+
+    it("should persist notes to a file", async () => {
+      const os = require("os");
+      const filePath = path.join(os.tmpdir(), `grimswap-notes-${Date.now()}.json`);
+
+      try {
+        const note = await sdk.createDepositNote(TEST_AMOUNT);
+        const store = new sdk.FileNoteStore(filePath);
+        await store.save(note);
+        await store.markDeposited(note.commitment, 11);
+
+        const reloaded = await new sdk.FileNoteStore(filePath).get(
+          note.commitment
+        );
+        expect(reloaded.status).to.equal("deposited");
+        expect(reloaded.note.nullifier).to.equal(note.nullifier);
+        expect(reloaded.note.leafIndex).to.equal(11);
+      } finally {
+        if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+      }
+    });
+  });
+
   // ============ Merkle Tree Module ============
 
   describe("Merkle Tree", () => {
@@ -248,110 +757,651 @@ describe("GrimSwap SDK", function () {
 
       expect(tree1.getRoot()).to.equal(tree2.getRoot());
     });
-  });
 
-  // ============ Stealth Address Module ============
+    it("should batch insert identically to sequential inserts", async () => {
+      const leaves = [];
+      for (let i = 0; i < 37; i++) leaves.push(BigInt(i + 1) * 1000003n);
 
-  describe("Stealth Addresses", () => {
-    it("should generate stealth keys", () => {
-      const keys = sdk.generateStealthKeys();
+      const sequential = new sdk.MerkleTree();
+      await sequential.initialize();
+      for (const leaf of leaves.slice(0, 5)) await sequential.insert(leaf);
 
-      expect(keys).to.have.property("spendingPrivateKey");
-      expect(keys).to.have.property("spendingPublicKey");
-      expect(keys).to.have.property("viewingPrivateKey");
-      expect(keys).to.have.property("viewingPublicKey");
-      expect(keys).to.have.property("stealthMetaAddress");
+      const batched = new sdk.MerkleTree();
+      await batched.insertBatch(leaves.slice(0, 5));
+      expect(batched.getRoot()).to.equal(sequential.getRoot());
 
-      expect(keys.spendingPrivateKey.startsWith("0x")).to.be.true;
-      expect(keys.stealthMetaAddress.startsWith("0x")).to.be.true;
+      for (const leaf of leaves.slice(5)) await sequential.insert(leaf);
+      const first = await batched.insertBatch(leaves.slice(5));
+
+      expect(first).to.equal(5);
+      expect(batched.leafCount).to.equal(37);
+      expect(batched.getRoot()).to.equal(sequential.getRoot());
+      expect(batched.getProof(21)).to.deep.equal(sequential.getProof(21));
     });
 
-    it("should generate unique keys each time", () => {
-      const keys1 = sdk.generateStealthKeys();
-      const keys2 = sdk.generateStealthKeys();
+    it("should hash batched levels like a pairwise hasher", async () => {
+      const leaves = [11n, 22n, 33n, 44n, 55n];
+      // Same hash, but not the default hasher: hashed pair by pair
+      const pairwise = (left, right) => sdk.poseidonHashSync([left, right]);
 
-      expect(keys1.spendingPrivateKey).to.not.equal(keys2.spendingPrivateKey);
-      expect(keys1.viewingPrivateKey).to.not.equal(keys2.viewingPrivateKey);
+      const batched = await sdk.buildMerkleTree(leaves);
+      const custom = await sdk.buildMerkleTree(leaves, { hasher: pairwise });
+      expect(batched.getRoot()).to.equal(custom.getRoot());
+      expect(batched.getProof(4)).to.deep.equal(custom.getProof(4));
     });
 
-    it("should generate stealth address from meta-address", () => {
-      const keys = sdk.generateStealthKeys();
-      const stealth = sdk.generateStealthAddress(keys.stealthMetaAddress);
-
-      expect(stealth).to.have.property("stealthAddress");
-      expect(stealth).to.have.property("ephemeralPubKey");
-      expect(stealth).to.have.property("viewTag");
+    it("should match the frontier-based incremental tree", async () => {
+      const tree = new sdk.MerkleTree();
+      const frontier = new sdk.IncrementalMerkleTree();
+      await frontier.initialize();
+      expect(frontier.getRoot()).to.equal((await sdk.buildMerkleTree([])).getRoot());
+
+      for (let i = 1; i <= 9; i++) {
+        await tree.insert(BigInt(i));
+        await frontier.insert(BigInt(i));
+        expect(frontier.getRoot()).to.equal(tree.getRoot());
+      }
 
-      expect(stealth.stealthAddress.startsWith("0x")).to.be.true;
-      expect(stealth.stealthAddress.length).to.equal(42); // 0x + 40 hex
-      expect(stealth.ephemeralPubKey.startsWith("0x")).to.be.true;
+      expect(frontier.leafCount).to.equal(9);
+      expect(frontier.getFrontier().length).to.equal(sdk.MERKLE_TREE_HEIGHT);
+      expect(frontier.getRootHistory()).to.deep.equal(tree.getRootHistory());
     });
 
-    it("should generate different stealth addresses each time", () => {
-      const keys = sdk.generateStealthKeys();
-      const stealth1 = sdk.generateStealthAddress(keys.stealthMetaAddress);
-      const stealth2 = sdk.generateStealthAddress(keys.stealthMetaAddress);
+    it("should keep a bounded root history", async () => {
+      const tree = new sdk.MerkleTree(sdk.MERKLE_TREE_HEIGHT, 4);
+      const frontier = new sdk.IncrementalMerkleTree(sdk.MERKLE_TREE_HEIGHT, 4);
+      const roots = [];
 
-      expect(stealth1.stealthAddress).to.not.equal(stealth2.stealthAddress);
+      for (let i = 1; i <= 6; i++) {
+        await tree.insert(BigInt(i));
+        await frontier.insert(BigInt(i));
+        roots.push(tree.getRoot());
+      }
+
+      expect(tree.getRootHistory()).to.deep.equal(roots.slice(2));
+      expect(frontier.getRootHistory()).to.deep.equal(roots.slice(2));
+      expect(tree.isKnownRoot(roots[1])).to.be.false;
+      expect(tree.isKnownRoot(roots[2])).to.be.true;
+      expect(frontier.isKnownRoot(roots[1])).to.be.false;
+      expect(frontier.isKnownRoot(roots[5])).to.be.true;
     });
 
-    it("should check stealth address ownership", () => {
-      const keys = sdk.generateStealthKeys();
-      const stealth = sdk.generateStealthAddress(keys.stealthMetaAddress);
+    it("should generate proofs against a historical root", async () => {
+      const leaves = [11n, 22n, 33n, 44n, 55n];
+      const tree = await sdk.buildMerkleTree(leaves.slice(0, 3));
+      const oldRoot = tree.getRoot();
+      await tree.insertBatch(leaves.slice(3));
 
-      const isOwner = sdk.checkStealthAddress(
-        stealth.ephemeralPubKey,
-        keys.viewingPrivateKey,
-        keys.spendingPublicKey,
-        stealth.stealthAddress,
-        stealth.viewTag
+      expect(tree.isKnownRoot(oldRoot)).to.be.true;
+
+      const proof = tree.getProof(1, oldRoot);
+      expect(proof.root).to.equal(oldRoot);
+      expect(await sdk.verifyMerkleProof(22n, proof)).to.be.true;
+      expect(proof).to.deep.equal(
+        (await sdk.buildMerkleTree(leaves.slice(0, 3))).getProof(1)
       );
 
-      expect(isOwner).to.be.true;
-    });
+      // Intermediate roots from a batch are in the history too
+      const afterFour = (await sdk.buildMerkleTree(leaves.slice(0, 4))).getRoot();
+      expect(tree.isKnownRoot(afterFour)).to.be.true;
 
-    it("should reject wrong owner", () => {
-      const keys1 = sdk.generateStealthKeys();
-      const keys2 = sdk.generateStealthKeys();
-      const stealth = sdk.generateStealthAddress(keys1.stealthMetaAddress);
+      expect(() => tree.getProof(3, oldRoot)).to.throw("out of bounds");
+      expect(() => tree.getProof(0, 12345n)).to.throw("Root not in history");
+    });
 
-      const isOwner = sdk.checkStealthAddress(
-        stealth.ephemeralPubKey,
-        keys2.viewingPrivateKey,
-        keys2.spendingPublicKey,
-        stealth.stealthAddress
-      );
+    it("should round-trip a tree snapshot through JSON and binary", async () => {
+      const leaves = [];
+      for (let i = 0; i < 13; i++) leaves.push(BigInt(i + 1) * 7919n);
+      const tree = await sdk.buildMerkleTree(leaves);
+
+      for (const includeLayers of [false, true]) {
+        const snapshot = tree.toSnapshot({ includeLayers, lastSyncedBlock: 123456 });
+        const fromJson = sdk.deserializeTreeSnapshot(sdk.serializeTreeSnapshot(snapshot));
+        const fromBytes = sdk.decodeTreeSnapshot(sdk.encodeTreeSnapshot(snapshot));
+
+        expect(fromJson).to.deep.equal(snapshot);
+        expect(fromBytes).to.deep.equal(snapshot);
+        expect(fromBytes.lastSyncedBlock).to.equal(123456);
+
+        const restored = await sdk.MerkleTree.fromSnapshot(fromBytes);
+        expect(restored.getRoot()).to.equal(tree.getRoot());
+        expect(restored.getRootHistory()).to.deep.equal(tree.getRootHistory());
+        expect(restored.getProof(6)).to.deep.equal(tree.getProof(6));
+
+        // Resumed trees keep appending like the original
+        await restored.insert(99n);
+        expect(restored.getRoot()).to.equal(
+          (await sdk.buildMerkleTree([...leaves, 99n])).getRoot()
+        );
+      }
 
-      expect(isOwner).to.be.false;
+      const withLayers = sdk.encodeTreeSnapshot(tree.toSnapshot({ includeLayers: true }));
+      const leavesOnly = sdk.encodeTreeSnapshot(tree.toSnapshot());
+      expect(leavesOnly.length).to.equal(84 + 13 * 32);
+      expect(withLayers.length).to.be.greaterThan(leavesOnly.length);
     });
 
-    it("should derive stealth private key", () => {
-      const keys = sdk.generateStealthKeys();
-      const stealth = sdk.generateStealthAddress(keys.stealthMetaAddress);
+    it("should resume an incremental tree from a frontier snapshot", async () => {
+      const frontier = new sdk.IncrementalMerkleTree();
+      for (let i = 1; i <= 5; i++) await frontier.insert(BigInt(i));
 
-      const stealthPrivKey = sdk.deriveStealthPrivateKey(
-        keys.viewingPrivateKey,
-        keys.spendingPrivateKey,
-        stealth.ephemeralPubKey
+      const bytes = sdk.encodeTreeSnapshot(frontier.toSnapshot({ lastSyncedBlock: 7 }));
+      expect(bytes.length).to.be.lessThan(2000);
+
+      const restored = await sdk.IncrementalMerkleTree.fromSnapshot(
+        sdk.decodeTreeSnapshot(bytes)
       );
+      expect(restored.leafCount).to.equal(5);
+      expect(restored.getRootHistory()).to.deep.equal(frontier.getRootHistory());
 
-      expect(stealthPrivKey.startsWith("0x")).to.be.true;
-      expect(stealthPrivKey.length).to.equal(66); // 0x + 64 hex
+      await frontier.insert(6n);
+      await restored.insert(6n);
+      expect(restored.getRoot()).to.equal(frontier.getRoot());
+
+      // Full snapshots load too; frontier snapshots cannot become full trees
+      const full = await sdk.IncrementalMerkleTree.fromSnapshot(
+        (await sdk.buildMerkleTree([1n, 2n, 3n, 4n, 5n, 6n])).toSnapshot()
+      );
+      expect(full.getRoot()).to.equal(frontier.getRoot());
+
+      try {
+        await sdk.MerkleTree.fromSnapshot(frontier.toSnapshot());
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("no leaves");
+      }
     });
 
-    it("should parse and create meta-address", () => {
-      const keys = sdk.generateStealthKeys();
-      const parsed = sdk.parseMetaAddress(keys.stealthMetaAddress);
+    it("should reject corrupted tree snapshots", async () => {
+      const tree = await sdk.buildMerkleTree([1n, 2n, 3n]);
+      const snapshot = tree.toSnapshot();
 
-      expect(parsed.spendingPublicKey).to.equal(keys.spendingPublicKey);
-      expect(parsed.viewingPublicKey).to.equal(keys.viewingPublicKey);
+      try {
+        await sdk.MerkleTree.fromSnapshot({ ...snapshot, leaves: [1n, 2n, 4n] });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("root mismatch");
+      }
 
-      const recreated = sdk.createMetaAddress(
-        parsed.spendingPublicKey,
-        parsed.viewingPublicKey
+      const bytes = sdk.encodeTreeSnapshot(snapshot);
+      expect(() => sdk.decodeTreeSnapshot(bytes.slice(0, bytes.length - 1))).to.throw(
+        "truncated"
       );
+      bytes[4] = 2;
+      expect(() => sdk.decodeTreeSnapshot(bytes)).to.throw("Unsupported tree snapshot version");
 
-      expect(recreated).to.equal(keys.stealthMetaAddress);
+      const json = JSON.parse(sdk.serializeTreeSnapshot(snapshot));
+      json.leafCount = 4;
+      expect(() => sdk.deserializeTreeSnapshot(JSON.stringify(json))).to.throw(
+        "leaves do not match leafCount"
+      );
+    });
+
+    it("should support custom height, zero value and hasher", async () => {
+      const small = await sdk.buildMerkleTree([1n, 2n, 3n], { height: 4 });
+      expect(small.height).to.equal(4);
+      expect(small.getProof(2).pathElements.length).to.equal(4);
+      expect(await sdk.verifyMerkleProof(3n, small.getProof(2))).to.be.true;
+
+      try {
+        await small.insertBatch(new Array(14).fill(5n));
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("full");
+      }
+
+      // Toy hasher: parent = left * 3 + right
+      const hasher = (left, right) => left * 3n + right;
+      const custom = await sdk.buildMerkleTree([1n, 2n], {
+        height: 2,
+        zeroValue: 0n,
+        hasher,
+      });
+      expect(custom.getRoot()).to.equal((1n * 3n + 2n) * 3n);
+      expect(await sdk.verifyMerkleProof(2n, custom.getProof(1), hasher)).to.be.true;
+
+      const frontier = new sdk.IncrementalMerkleTree({ height: 2, zeroValue: 0n, hasher });
+      await frontier.insert(1n);
+      await frontier.insert(2n);
+      expect(frontier.getRoot()).to.equal(custom.getRoot());
+
+      // Snapshots carry the parameters and refuse mismatched expectations
+      const snapshot = custom.toSnapshot();
+      expect(snapshot.height).to.equal(2);
+      expect(snapshot.zeroValue).to.equal(0n);
+      const restored = await sdk.MerkleTree.fromSnapshot(snapshot, { hasher });
+      expect(restored.getRoot()).to.equal(custom.getRoot());
+      try {
+        await sdk.MerkleTree.fromSnapshot(snapshot, { height: 20, hasher });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("does not match expected height");
+      }
+
+      expect(() => new sdk.MerkleTree({ height: 0 })).to.throw("Invalid Merkle tree height");
+    });
+
+    it("should reject proofs whose height differs from the circuit's levels", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment], { height: 10 });
+      const swapParams = {
+        recipient: "0x1234567890123456789012345678901234567890",
+        expectedAmountOut: TEST_AMOUNT,
+      };
+
+      try {
+        await sdk.generateProofFromBuffers(
+          note,
+          tree.getProof(0),
+          swapParams,
+          new Uint8Array(0),
+          new Uint8Array(0)
+        );
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("has 10 levels but the circuit expects 20");
+      }
+    });
+
+    it("should look up leaf indices by commitment", async () => {
+      const tree = await sdk.buildMerkleTree([5n, 6n, 7n]);
+      await tree.insert(8n);
+
+      expect(tree.getLeafIndex(7n)).to.equal(2);
+      expect(tree.getLeafIndex(8n)).to.equal(3);
+      expect(tree.getLeafIndex(9n)).to.be.undefined;
+      expect(tree.getLeaf(1)).to.equal(6n);
+
+      tree.truncate(2);
+      expect(tree.getLeafIndex(7n)).to.be.undefined;
+
+      const restored = await sdk.MerkleTree.fromSnapshot(
+        tree.toSnapshot({ includeLayers: true })
+      );
+      expect(restored.getLeafIndex(6n)).to.equal(1);
+    });
+
+    it("should generate and verify proofs for several leaves at once", async () => {
+      const leaves = [];
+      for (let i = 1; i <= 11; i++) leaves.push(BigInt(i) * 17n);
+
+      const tree = await sdk.buildMerkleTree(leaves.slice(0, 7));
+      const oldRoot = tree.getRoot();
+      await tree.insertBatch(leaves.slice(7));
+
+      const indices = [0, 3, 4, 6];
+      const proofs = tree.getProofs(indices, oldRoot);
+      expect(proofs).to.deep.equal(indices.map((i) => tree.getProof(i, oldRoot)));
+      expect(tree.getProofs([2, 10])).to.deep.equal([tree.getProof(2), tree.getProof(10)]);
+
+      const proven = indices.map((i) => leaves[i]);
+      expect(await sdk.verifyMerkleProofs(proven, proofs)).to.deep.equal([true, true, true, true]);
+
+      // A wrong leaf, or a wrong sibling above the shared path, fails on its own
+      const tampered = {
+        ...proofs[2],
+        pathElements: proofs[2].pathElements.map((e, j) => (j === 5 ? e + 1n : e)),
+      };
+      const results = await sdk.verifyMerkleProofs(
+        [proven[0], 999n, proven[2], proven[3]],
+        [proofs[0], proofs[1], tampered, proofs[3]]
+      );
+      expect(results).to.deep.equal([true, false, false, true]);
+      expect(await sdk.verifyMerkleProof(proven[2], tampered)).to.be.false;
+
+      // Non-binary pathIndices whose bits add up to a verified node's
+      // position are hashed in full, like verifyMerkleProof does
+      const nonBinary = {
+        ...proofs[1],
+        pathIndices: proofs[1].pathIndices.map((bit, j) => (j === 1 ? 0 : j === 2 ? 0.5 : bit)),
+      };
+      expect(await sdk.verifyMerkleProof(proven[1], nonBinary)).to.be.false;
+      expect(
+        await sdk.verifyMerkleProofs([proven[1], proven[1]], [proofs[1], nonBinary])
+      ).to.deep.equal([true, false]);
+
+      expect(() => tree.getProofs([0, 7], oldRoot)).to.throw("out of bounds");
+      try {
+        await sdk.verifyMerkleProofs([1n], []);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("1 leaves but 0 proofs");
+      }
+    });
+
+    it("should truncate back to an earlier state", async () => {
+      const leaves = [];
+      for (let i = 1; i <= 9; i++) leaves.push(BigInt(i) * 31n);
+
+      const tree = await sdk.buildMerkleTree(leaves);
+      const expected = await sdk.buildMerkleTree(leaves.slice(0, 5));
+      tree.truncate(5);
+
+      expect(tree.leafCount).to.equal(5);
+      expect(tree.getRoot()).to.equal(expected.getRoot());
+      expect(tree.getRootHistory()).to.deep.equal(expected.getRootHistory());
+      expect(tree.getProof(4)).to.deep.equal(expected.getProof(4));
+      expect(() => tree.truncate(6)).to.throw("Invalid leaf count");
+
+      await tree.insert(7n);
+      await expected.insert(7n);
+      expect(tree.getRoot()).to.equal(expected.getRoot());
+    });
+
+    it("should rebuild a large tree quickly", async () => {
+      const leaves = [];
+      for (let i = 0; i < 20000; i++) leaves.push(BigInt(i + 1));
+
+      const start = Date.now();
+      const tree = await sdk.buildMerkleTree(leaves);
+      const elapsed = Date.now() - start;
+
+      expect(tree.leafCount).to.equal(20000);
+      expect(await sdk.verifyMerkleProof(leaves[12345], tree.getProof(12345))).to.be.true;
+      console.log(`    Built 20000-leaf tree in ${elapsed}ms`);
+    });
+  });
+
+  // ============ Deposit Tree Sync ============
+
+  describe("Deposit Tree Sync", () => {
+    const DEPOSIT_TOPIC =
+      "0xa945e51eec50ab98c161376f0db4cf2aeba3ec92755fe2fcd388bdbbb80ff196";
+    const word = (value) => BigInt(value).toString(16).padStart(64, "0");
+
+    // Minimal JSON-RPC chain: head block, block hashes and deposit logs
+    function mockChain() {
+      const chain = { head: 0, fork: 0, forkBlock: Infinity, deposits: [] };
+      const hashOf = (n) => "0x" + word(n * 1000 + (n >= chain.forkBlock ? chain.fork : 0));
+
+      chain.fetch = async (_url, init) => {
+        const { method, params } = JSON.parse(init.body);
+        let result;
+        if (method === "eth_blockNumber") {
+          result = "0x" + chain.head.toString(16);
+        } else if (method === "eth_getBlockByNumber") {
+          result = { hash: hashOf(parseInt(params[0], 16)) };
+        } else if (method === "eth_getLogs") {
+          const from = parseInt(params[0].fromBlock, 16);
+          const to = parseInt(params[0].toBlock, 16);
+          result = chain.deposits
+            .filter((d) => d.block >= from && d.block <= to && d.block <= chain.head)
+            .map((d) => ({
+              topics: [DEPOSIT_TOPIC, "0x" + word(d.commitment)],
+              data: "0x" + word(d.leafIndex) + word(1700000000),
+              blockNumber: "0x" + d.block.toString(16),
+              blockHash: hashOf(d.block),
+              transactionHash: "0x" + word(d.leafIndex),
+            }));
+        }
+        return { ok: true, json: async () => ({ result }) };
+      };
+      return chain;
+    }
+
+    it("should sync incrementally and roll back reorged deposits", async () => {
+      const chain = mockChain();
+      chain.deposits.push(
+        { block: 5, leafIndex: 0, commitment: 101n },
+        { block: 8, leafIndex: 1, commitment: 102n },
+        { block: 8, leafIndex: 2, commitment: 103n },
+        { block: 19, leafIndex: 3, commitment: 104n } // not yet confirmed
+      );
+      chain.head = 20;
+
+      const roots = [];
+      const reorgs = [];
+      const sync = new sdk.DepositTreeSync({
+        rpcUrl: "http://rpc.test",
+        confirmations: 2,
+        maxBlockRange: 4,
+        onNewRoot: (event) => roots.push(event),
+        onReorg: (event) => reorgs.push(event),
+      });
+
+      const originalFetch = global.fetch;
+      global.fetch = chain.fetch;
+      try {
+        let result = await sync.sync();
+        expect(result.added).to.equal(3);
+        expect(result.lastSyncedBlock).to.equal(18);
+        expect(sync.tree.getRoot()).to.equal(
+          (await sdk.buildMerkleTree([101n, 102n, 103n])).getRoot()
+        );
+        expect(roots.length).to.equal(1);
+
+        // Nothing new: no root event
+        result = await sync.sync();
+        expect(result.added).to.equal(0);
+        expect(roots.length).to.equal(1);
+
+        chain.head = 25;
+        result = await sync.sync();
+        expect(result.added).to.equal(1);
+        expect(sync.tree.leafCount).to.equal(4);
+
+        // Reorg from block 19: leaf 3 is replaced by another deposit
+        chain.forkBlock = 19;
+        chain.fork = 1;
+        chain.deposits[3] = { block: 21, leafIndex: 3, commitment: 999n };
+        result = await sync.sync();
+
+        expect(result.removed).to.equal(1);
+        expect(result.added).to.equal(1);
+        expect(reorgs).to.deep.equal([{ blockNumber: 18, removedLeaves: 1 }]);
+        expect(sync.tree.getRoot()).to.equal(
+          (await sdk.buildMerkleTree([101n, 102n, 103n, 999n])).getRoot()
+        );
+        expect(roots[roots.length - 1].leafCount).to.equal(4);
+
+        // Resume from a snapshot
+        const resumed = await sdk.DepositTreeSync.fromSnapshot(sync.toSnapshot(), {
+          rpcUrl: "http://rpc.test",
+          confirmations: 2,
+        });
+        expect(resumed.lastSyncedBlock).to.equal(23);
+        chain.deposits.push({ block: 24, leafIndex: 4, commitment: 105n });
+        chain.head = 30;
+        expect((await resumed.sync()).added).to.equal(1);
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+
+    it("should resume a never-synced tree from block 0", async () => {
+      const chain = mockChain();
+      chain.deposits.push({ block: 0, leafIndex: 0, commitment: 7n });
+      chain.head = 2;
+
+      // Nothing confirmed yet: no synced block to record
+      const sync = new sdk.DepositTreeSync({ rpcUrl: "http://rpc.test", confirmations: 5 });
+      const originalFetch = global.fetch;
+      global.fetch = chain.fetch;
+      try {
+        await sync.sync();
+        const snapshot = sync.toSnapshot();
+        expect(snapshot.lastSyncedBlock).to.be.undefined;
+
+        const resumed = await sdk.DepositTreeSync.fromSnapshot(
+          sdk.decodeTreeSnapshot(sdk.encodeTreeSnapshot(snapshot)),
+          { rpcUrl: "http://rpc.test", confirmations: 0 }
+        );
+        expect(resumed.lastSyncedBlock).to.equal(-1);
+        expect((await resumed.sync()).added).to.equal(1);
+        expect(resumed.tree.getLeaf(0)).to.equal(7n);
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+
+    it("should keep change leaves after synced deposits until confirmed", async () => {
+      const chain = mockChain();
+      chain.deposits.push({ block: 1, leafIndex: 0, commitment: 101n });
+      chain.head = 2;
+
+      const sync = new sdk.DepositTreeSync({ rpcUrl: "http://rpc.test", confirmations: 0 });
+      const originalFetch = global.fetch;
+      global.fetch = chain.fetch;
+      try {
+        await sync.sync();
+        const merkleRoot = sync.tree.getRoot();
+        expect(await sync.insertChangeLeaf({ merkleRoot, changeCommitment: 500n })).to.equal(1);
+        expect(await sync.insertChangeLeaf({ merkleRoot, changeCommitment: 600n })).to.equal(2);
+        expect(sync.pendingChangeLeaves).to.deep.equal([500n, 600n]);
+
+        // Snapshots hold only what the chain has
+        const snapshot = sync.toSnapshot();
+        expect(snapshot.leaves).to.deep.equal([101n]);
+        expect(snapshot.root).to.equal(merkleRoot);
+
+        // Another deposit lands first, then the pool appends 500
+        chain.deposits.push(
+          { block: 3, leafIndex: 1, commitment: 102n },
+          { block: 4, leafIndex: 2, commitment: 500n }
+        );
+        chain.head = 4;
+        const result = await sync.sync();
+        expect(result.added).to.equal(2);
+        expect(result.confirmedChangeLeaves).to.deep.equal([500n]);
+        expect(sync.pendingChangeLeaves).to.deep.equal([600n]);
+        expect(sync.tree.getLeafIndex(500n)).to.equal(2);
+        expect(sync.tree.getLeafIndex(600n)).to.equal(3);
+
+        // The second swap reverted
+        await sync.dropChangeLeaf(600n);
+        expect(sync.pendingChangeLeaves).to.deep.equal([]);
+        expect(sync.tree.getRoot()).to.equal(
+          (await sdk.buildMerkleTree([101n, 102n, 500n])).getRoot()
+        );
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+
+    it("should detect leafIndex gaps", async () => {
+      const chain = mockChain();
+      chain.deposits.push(
+        { block: 3, leafIndex: 0, commitment: 1n },
+        { block: 4, leafIndex: 2, commitment: 3n }
+      );
+      chain.head = 10;
+
+      const sync = new sdk.DepositTreeSync({ rpcUrl: "http://rpc.test", confirmations: 0 });
+      const originalFetch = global.fetch;
+      global.fetch = chain.fetch;
+      try {
+        await sync.sync();
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("leafIndex gap: expected 1, got 2");
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+  });
+
+  // ============ Stealth Address Module ============
+
+  describe("Stealth Addresses", () => {
+    it("should generate stealth keys", () => {
+      const keys = sdk.generateStealthKeys();
+
+      expect(keys).to.have.property("spendingPrivateKey");
+      expect(keys).to.have.property("spendingPublicKey");
+      expect(keys).to.have.property("viewingPrivateKey");
+      expect(keys).to.have.property("viewingPublicKey");
+      expect(keys).to.have.property("stealthMetaAddress");
+
+      expect(keys.spendingPrivateKey.startsWith("0x")).to.be.true;
+      expect(keys.stealthMetaAddress.startsWith("0x")).to.be.true;
+    });
+
+    it("should generate unique keys each time", () => {
+      const keys1 = sdk.generateStealthKeys();
+      const keys2 = sdk.generateStealthKeys();
+
+      expect(keys1.spendingPrivateKey).to.not.equal(keys2.spendingPrivateKey);
+      expect(keys1.viewingPrivateKey).to.not.equal(keys2.viewingPrivateKey);
+    });
+
+    it("should generate stealth address from meta-address", () => {
+      const keys = sdk.generateStealthKeys();
+      const stealth = sdk.generateStealthAddress(keys.stealthMetaAddress);
+
+      expect(stealth).to.have.property("stealthAddress");
+      expect(stealth).to.have.property("ephemeralPubKey");
+      expect(stealth).to.have.property("viewTag");
+
+      expect(stealth.stealthAddress.startsWith("0x")).to.be.true;
+      expect(stealth.stealthAddress.length).to.equal(42); // 0x + 40 hex
+      expect(stealth.ephemeralPubKey.startsWith("0x")).to.be.true;
+    });
+
+    it("should generate different stealth addresses each time", () => {
+      const keys = sdk.generateStealthKeys();
+      const stealth1 = sdk.generateStealthAddress(keys.stealthMetaAddress);
+      const stealth2 = sdk.generateStealthAddress(keys.stealthMetaAddress);
+
+      expect(stealth1.stealthAddress).to.not.equal(stealth2.stealthAddress);
+    });
+
+    it("should check stealth address ownership", () => {
+      const keys = sdk.generateStealthKeys();
+      const stealth = sdk.generateStealthAddress(keys.stealthMetaAddress);
+
+      const isOwner = sdk.checkStealthAddress(
+        stealth.ephemeralPubKey,
+        keys.viewingPrivateKey,
+        keys.spendingPublicKey,
+        stealth.stealthAddress,
+        stealth.viewTag
+      );
+
+      expect(isOwner).to.be.true;
+    });
+
+    it("should reject wrong owner", () => {
+      const keys1 = sdk.generateStealthKeys();
+      const keys2 = sdk.generateStealthKeys();
+      const stealth = sdk.generateStealthAddress(keys1.stealthMetaAddress);
+
+      const isOwner = sdk.checkStealthAddress(
+        stealth.ephemeralPubKey,
+        keys2.viewingPrivateKey,
+        keys2.spendingPublicKey,
+        stealth.stealthAddress
+      );
+
+      expect(isOwner).to.be.false;
+    });
+
+    it("should derive stealth private key", () => {
+      const keys = sdk.generateStealthKeys();
+      const stealth = sdk.generateStealthAddress(keys.stealthMetaAddress);
+
+      const stealthPrivKey = sdk.deriveStealthPrivateKey(
+        keys.viewingPrivateKey,
+        keys.spendingPrivateKey,
+        stealth.ephemeralPubKey
+      );
+
+      expect(stealthPrivKey.startsWith("0x")).to.be.true;
+      expect(stealthPrivKey.length).to.equal(66); // 0x + 64 hex
+    });
+
+    it("should parse and create meta-address", () => {
+      const keys = sdk.generateStealthKeys();
+      const parsed = sdk.parseMetaAddress(keys.stealthMetaAddress);
+
+      expect(parsed.spendingPublicKey).to.equal(keys.spendingPublicKey);
+      expect(parsed.viewingPublicKey).to.equal(keys.viewingPublicKey);
+
+      const recreated = sdk.createMetaAddress(
+        parsed.spendingPublicKey,
+        parsed.viewingPublicKey
+      );
+
+      expect(recreated).to.equal(keys.stealthMetaAddress);
     });
   });
 
@@ -389,6 +1439,951 @@ describe("GrimSwap SDK", function () {
     });
   });
 
+  // ============ Verification Key ============
+
+  describe("Verification Key", () => {
+    it("should embed the shipped verification key", () => {
+      const vkey = require("../setup/verification_key.json");
+
+      expect(sdk.PRIVATE_SWAP_VERIFICATION_KEY).to.deep.equal(vkey);
+      expect(sdk.PRIVATE_SWAP_VERIFICATION_KEY.nPublic).to.equal(
+        sdk.PUBLIC_SIGNAL_NAMES.length
+      );
+      expect(sdk.hashVerificationKey(sdk.PRIVATE_SWAP_VERIFICATION_KEY)).to.equal(
+        sdk.CIRCUIT_ARTIFACT_HASHES[sdk.SDK_VERSION].verificationKey
+      );
+    });
+
+    it("should require public signals for a snarkjs proof", async () => {
+      try {
+        await sdk.verifyProofLocally({
+          pi_a: ["1", "2", "1"],
+          pi_b: [["1", "2"], ["3", "4"], ["1", "0"]],
+          pi_c: ["1", "2", "1"],
+          protocol: "groth16",
+          curve: "bn128",
+        });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("publicSignals are required");
+      }
+    });
+
+    it("should refuse the default key for privateSwapV2 proofs", async () => {
+      const proof = {
+        pi_a: ["1", "2", "1"],
+        pi_b: [["1", "2"], ["3", "4"], ["1", "0"]],
+        pi_c: ["1", "2", "1"],
+        protocol: "groth16",
+        curve: "bn128",
+      };
+      const signals = new Array(10).fill("1");
+
+      try {
+        await sdk.verifyProofLocally(proof, signals);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("10 public signals (privateSwapV2)");
+        expect(e.message).to.include("pass the privateSwapV2 verification key");
+      }
+      try {
+        await sdk.verifyRelayerProof(
+          { a: ["1", "2"], b: [["1", "2"], ["3", "4"]], c: ["1", "2"] },
+          signals,
+          sdk.PRIVATE_SWAP_VERIFICATION_KEY
+        );
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("the verification key takes 8");
+      }
+    });
+
+    it("should refuse the default key for 9-signal proofs", async () => {
+      const proof = {
+        pi_a: ["1", "2", "1"],
+        pi_b: [["1", "2"], ["3", "4"], ["1", "0"]],
+        pi_c: ["1", "2", "1"],
+        protocol: "groth16",
+        curve: "bn128",
+      };
+
+      try {
+        await sdk.verifyProofLocally(proof, new Array(9).fill("1"));
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("9 public signals (privateSwapSplit or privateSwapAssociation)");
+        expect(e.message).to.include("pass the privateSwapSplit or privateSwapAssociation verification key");
+        expect(e.message).to.include("the verification key takes 8");
+      }
+    });
+  });
+
+  // ============ Public Signals ============
+
+  describe("Public Signals", () => {
+    const swapParams = {
+      recipient: "0x1111111111111111111111111111111111111111",
+      relayer: "0x2222222222222222222222222222222222222222",
+      relayerFee: 10,
+      expectedAmountOut: TEST_AMOUNT,
+    };
+
+    it("should decode and encode signals in circuit order", () => {
+      const signals = ["1", "2", "3", "4", "5", "6", "7", "8"];
+      const decoded = sdk.decodePublicSignals(signals);
+
+      expect(Object.keys(decoded)).to.deep.equal([...sdk.PUBLIC_SIGNAL_NAMES]);
+      expect(decoded.computedCommitment).to.equal(1n);
+      expect(decoded.computedNullifierHash).to.equal(2n);
+      expect(decoded.merkleRoot).to.equal(3n);
+      expect(decoded.swapAmountOut).to.equal(8n);
+      expect(sdk.encodePublicSignals(decoded)).to.deep.equal(signals);
+
+      expect(() => sdk.decodePublicSignals(signals.slice(1))).to.throw(
+        "Expected 8 public signals, got 7"
+      );
+      expect(() =>
+        sdk.decodePublicSignals([...signals.slice(0, 7), sdk.FIELD_SIZE.toString()])
+      ).to.throw("Invalid public signal swapAmountOut");
+      expect(() => sdk.decodePublicSignals(["x", ...signals.slice(1)])).to.throw(
+        "Invalid public signal computedCommitment"
+      );
+    });
+
+    it("should check signals against a note, Merkle proof and swap params", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const merkleProof = tree.getProof(0);
+
+      const expected = await sdk.computeExpectedPublicSignals(note, merkleProof, swapParams);
+      const signals = sdk.encodePublicSignals(expected);
+      expect(signals[0]).to.equal(note.commitment.toString());
+      expect(signals[2]).to.equal(merkleProof.root.toString());
+      expect(signals[4]).to.equal(BigInt(swapParams.recipient).toString());
+
+      expect(
+        await sdk.checkPublicSignals(signals, note, merkleProof, swapParams)
+      ).to.deep.equal([]);
+
+      const mismatches = await sdk.checkPublicSignals(signals, note, merkleProof, {
+        ...swapParams,
+        relayerFee: 20,
+      });
+      expect(mismatches).to.deep.equal([
+        { name: "relayerFee", expected: 20n, actual: 10n },
+      ]);
+    });
+  });
+
+  // ============ Swap Binding (privateSwapV2) ============
+
+  describe("Swap Binding", () => {
+    const { ethers } = require("ethers");
+    const swap = {
+      poolKey: {
+        currency0: ZERO_ADDRESS,
+        currency1: "0x3333333333333333333333333333333333333333",
+        fee: 500,
+        tickSpacing: 10,
+        hooks: "0x4444444444444444444444444444444444444444",
+      },
+      zeroForOne: true,
+      amountSpecified: -TEST_AMOUNT,
+      sqrtPriceLimitX96: 4295128740n,
+      deadline: 1900000000n,
+    };
+    const swapParams = {
+      recipient: "0x1111111111111111111111111111111111111111",
+      expectedAmountOut: TEST_AMOUNT,
+      swap,
+    };
+
+    it("should hash the pool key and swap parameters like abi.encode", () => {
+      const hash = sdk.computeSwapParamsHash(swap);
+      const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+        [
+          "tuple(address currency0,address currency1,uint24 fee,int24 tickSpacing,address hooks)",
+          "tuple(bool zeroForOne,int256 amountSpecified,uint160 sqrtPriceLimitX96)",
+        ],
+        [swap.poolKey, swap]
+      );
+      expect(hash).to.equal(BigInt(ethers.keccak256(encoded)) % sdk.FIELD_SIZE);
+
+      // Deadline is a separate input; any swap field changes the hash
+      expect(sdk.computeSwapParamsHash({ ...swap, deadline: 1n })).to.equal(hash);
+      expect(sdk.computeSwapParamsHash({ ...swap, sqrtPriceLimitX96: 4295128741n })).to.not.equal(hash);
+      expect(
+        sdk.computeSwapParamsHash({ ...swap, poolKey: { ...swap.poolKey, fee: 3000 } })
+      ).to.not.equal(hash);
+    });
+
+    it("should add swapParamsHash and deadline to the input and signals", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const merkleProof = tree.getProof(0);
+
+      const input = sdk.buildCircuitInput(note, merkleProof, swapParams);
+      expect(input.swapParamsHash).to.equal(sdk.computeSwapParamsHash(swap).toString());
+      expect(input.deadline).to.equal("1900000000");
+      expect(sdk.validateCircuitInput(input)).to.deep.equal([]);
+      expect(sdk.validateCircuitInput({ ...input, deadline: undefined })).to.deep.equal([
+        {
+          constraint: "swapBinding",
+          signal: "deadline",
+          message: "swapParamsHash and deadline must be set together (privateSwapV2)",
+        },
+      ]);
+      expect(sdk.buildCircuitInput(note, merkleProof, { ...swapParams, swap: undefined }))
+        .to.not.have.property("swapParamsHash");
+
+      const signals = sdk.encodePublicSignals(
+        await sdk.computeExpectedPublicSignals(note, merkleProof, swapParams)
+      );
+      expect(signals.length).to.equal(sdk.PUBLIC_SIGNAL_NAMES_V2.length);
+      expect(signals.slice(8)).to.deep.equal([input.swapParamsHash, input.deadline]);
+
+      const decoded = sdk.decodePublicSignals(signals);
+      expect(decoded.swapParamsHash).to.equal(sdk.computeSwapParamsHash(swap));
+      expect(decoded.deadline).to.equal(swap.deadline);
+
+      expect(
+        await sdk.checkPublicSignals(signals, note, merkleProof, swapParams)
+      ).to.deep.equal([]);
+      const mismatches = await sdk.checkPublicSignals(signals, note, merkleProof, {
+        ...swapParams,
+        swap: { ...swap, zeroForOne: false },
+      });
+      expect(mismatches.map((m) => m.name)).to.deep.equal(["swapParamsHash"]);
+
+      try {
+        await sdk.checkPublicSignals(signals, note, merkleProof, { ...swapParams, swap: undefined });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("(privateSwapV2) but swapParams are for privateSwap (8)");
+      }
+    });
+  });
+
+  // ============ Change Notes (privateSwapSplit) ============
+
+  describe("Change Notes", () => {
+    const recipient = "0x1111111111111111111111111111111111111111";
+    const spendAmount = TEST_AMOUNT / 4n;
+    let note;
+    let tree;
+
+    before(async () => {
+      note = await sdk.createDepositNote(TEST_AMOUNT, { chainId: 1301 });
+      tree = await sdk.buildMerkleTree([1n, note.commitment]);
+    });
+
+    it("should create a change note for the remainder", async () => {
+      const change = await sdk.createChangeNote(note, spendAmount);
+      expect(change.amount).to.equal(TEST_AMOUNT - spendAmount);
+      expect(change.chainId).to.equal(1301);
+      expect(change.leafIndex).to.be.undefined;
+      expect(change.nullifier).to.not.equal(note.nullifier);
+      expect(change.commitment).to.equal(
+        await sdk.computeCommitment(change.nullifier, change.secret, change.amount)
+      );
+
+      for (const amount of [0n, TEST_AMOUNT, TEST_AMOUNT + 1n]) {
+        try {
+          await sdk.createChangeNote(note, amount);
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("Spend amount must be between 0 and the note amount");
+        }
+      }
+    });
+
+    it("should build, check and decode a split input", async () => {
+      const change = await sdk.createChangeNote(note, spendAmount);
+      const merkleProof = tree.getProof(1);
+      const swapParams = { recipient, expectedAmountOut: spendAmount, changeNote: change };
+
+      const input = sdk.buildCircuitInput(note, merkleProof, swapParams);
+      expect(input.changeCommitment).to.equal(change.commitment.toString());
+      expect(input.changeSecret).to.equal(change.secret.toString());
+      expect(sdk.validateCircuitInput(input)).to.deep.equal([]);
+
+      const signals = sdk.encodePublicSignals(
+        await sdk.computeExpectedPublicSignals(note, merkleProof, swapParams)
+      );
+      expect(signals.length).to.equal(sdk.PUBLIC_SIGNAL_NAMES_SPLIT.length);
+      expect(
+        sdk.decodePublicSignals(signals, "privateSwapSplit").changeCommitment
+      ).to.equal(change.commitment);
+      expect(() => sdk.decodePublicSignals(signals)).to.throw(
+        "9 public signals fit privateSwapSplit and privateSwapAssociation"
+      );
+      expect(
+        await sdk.checkPublicSignals(signals, note, merkleProof, swapParams)
+      ).to.deep.equal([]);
+
+      const constraints = (overrides) =>
+        sdk.validateCircuitInput({ ...input, ...overrides }).map((e) => `${e.constraint}:${e.signal}`);
+      expect(constraints({ swapAmountOut: (TEST_AMOUNT + 1n).toString() })).to.deep.equal([
+        "changeRange:swapAmountOut",
+      ]);
+      // Change note for another amount
+      expect(constraints({ swapAmountOut: (spendAmount + 1n).toString() })).to.deep.equal([
+        "changeHasher:changeCommitment",
+      ]);
+      expect(constraints({ changeSecret: undefined })).to.deep.equal([
+        "changeHasher:changeSecret",
+      ]);
+
+      expect(() =>
+        sdk.buildCircuitInput(note, merkleProof, {
+          ...swapParams,
+          swap: { poolKey: {}, zeroForOne: true, amountSpecified: 0n, sqrtPriceLimitX96: 0n, deadline: 0n },
+        })
+      ).to.throw("cannot be combined");
+    });
+
+    it("should spend the change note once its leaf is in the tree", async () => {
+      const change = await sdk.createChangeNote(note, spendAmount);
+      const spent = await sdk.buildMerkleTree([1n, note.commitment]);
+      const signals = await sdk.computeExpectedPublicSignals(note, spent.getProof(1), {
+        recipient,
+        expectedAmountOut: spendAmount,
+        changeNote: change,
+      });
+
+      // The pool appends the change commitment when the swap executes
+      const leafIndex = await spent.insertChangeLeaf(signals);
+      expect(leafIndex).to.equal(2);
+      expect(await spent.insertChangeLeaf(signals)).to.equal(2);
+      expect(spent.leafCount).to.equal(3);
+
+      for (const [bad, message] of [
+        [{ ...signals, changeCommitment: undefined }, "not a privateSwapSplit proof"],
+        [{ ...signals, changeCommitment: 5n, merkleRoot: 1n }, "root this tree does not know"],
+      ]) {
+        try {
+          await spent.insertChangeLeaf(bad);
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include(message);
+        }
+      }
+
+      const input = sdk.buildCircuitInput(change, spent.getProof(leafIndex), {
+        recipient,
+        expectedAmountOut: change.amount,
+      });
+      expect(sdk.validateCircuitInput(input)).to.deep.equal([]);
+    });
+
+  });
+
+  // ============ Association Sets (privateSwapAssociation) ============
+
+  describe("Association Sets", () => {
+    const recipient = "0x1111111111111111111111111111111111111111";
+    const deposit = (commitment, leafIndex) => ({
+      commitment,
+      leafIndex,
+      timestamp: 0n,
+      blockNumber: BigInt(leafIndex),
+      transactionHash: `0x${leafIndex.toString(16).padStart(64, "0")}`,
+    });
+    let note;
+    let tree;
+    let events;
+
+    before(async () => {
+      note = await sdk.createDepositNote(TEST_AMOUNT);
+      tree = await sdk.buildMerkleTree([1n, note.commitment, 2n, 3n]);
+      // Unsorted, as returned by fetchDepositEvents
+      events = [deposit(3n, 3), deposit(note.commitment, 1), deposit(2n, 2), deposit(1n, 0)];
+    });
+
+    it("should build the set from allow and deny lists in leaf order", async () => {
+      const all = await sdk.buildAssociationSet(events);
+      expect(all.getRoot()).to.equal(tree.getRoot());
+
+      const set = await sdk.buildAssociationSet(events, {
+        allow: { commitments: [1n, note.commitment, sdk.formatCommitmentForContract(2n)] },
+        deny: { transactionHashes: [events[2].transactionHash.toUpperCase().replace("0X", "0x")] },
+      });
+      const expected = await sdk.buildMerkleTree([1n, note.commitment]);
+      expect(set.getRoot()).to.equal(expected.getRoot());
+
+      const byPredicate = await sdk.buildAssociationSet(events, {
+        deny: (event) => event.commitment === note.commitment,
+        height: 10,
+      });
+      expect(byPredicate.height).to.equal(10);
+      expect(byPredicate.getLeafIndex(note.commitment)).to.be.undefined;
+
+      try {
+        sdk.getAssociationProof(byPredicate, note.commitment);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("is not in the association set");
+      }
+    });
+
+    it("should build, check and decode an association input", async () => {
+      const associationSet = await sdk.buildAssociationSet(events, { deny: { commitments: [2n] } });
+      const association = sdk.getAssociationProof(associationSet, note.commitment);
+      const merkleProof = tree.getProof(1);
+      const swapParams = { recipient, expectedAmountOut: TEST_AMOUNT, association };
+
+      const input = sdk.buildCircuitInput(note, merkleProof, swapParams);
+      expect(input.associationRoot).to.equal(associationSet.getRoot().toString());
+      expect(input.associationPathElements.length).to.equal(sdk.CIRCUIT_LEVELS);
+      expect(sdk.validateCircuitInput(input)).to.deep.equal([]);
+
+      const signals = sdk.encodePublicSignals(
+        await sdk.computeExpectedPublicSignals(note, merkleProof, swapParams)
+      );
+      expect(signals.length).to.equal(sdk.PUBLIC_SIGNAL_NAMES_ASSOCIATION.length);
+      expect(
+        sdk.decodePublicSignals(signals, "privateSwapAssociation").associationRoot
+      ).to.equal(associationSet.getRoot());
+      expect(
+        await sdk.checkPublicSignals(signals, note, merkleProof, swapParams)
+      ).to.deep.equal([]);
+
+      const constraints = (overrides) =>
+        sdk.validateCircuitInput({ ...input, ...overrides }).map((e) => `${e.constraint}:${e.signal}`);
+      // Path in the deposit tree, not the association set
+      expect(
+        constraints({ associationPathElements: input.pathElements })
+      ).to.deep.equal(["associationChecker:associationRoot"]);
+      expect(
+        constraints({ associationPathIndices: [2, ...input.associationPathIndices.slice(1)] })
+      ).to.deep.equal(["associationChecker:associationPathIndices[0]"]);
+      expect(constraints({ associationRoot: undefined })).to.deep.equal([
+        "associationChecker:associationRoot",
+      ]);
+
+      expect(() =>
+        sdk.buildCircuitInput(note, merkleProof, { ...swapParams, changeNote: note })
+      ).to.throw("swapParams.changeNote and swapParams.association cannot be combined");
+    });
+
+    it("should reject a proof for another association root", async () => {
+      const associationSet = await sdk.buildAssociationSet(events);
+      const swapParams = {
+        recipient,
+        expectedAmountOut: TEST_AMOUNT,
+        association: sdk.getAssociationProof(associationSet, note.commitment),
+      };
+      const signals = sdk.encodePublicSignals(
+        await sdk.computeExpectedPublicSignals(note, tree.getProof(1), swapParams)
+      );
+
+      // Fails on the root before touching the proof or the key
+      expect(
+        await sdk.verifyAssociationProof({}, signals, associationSet.getRoot() + 1n, {})
+      ).to.be.false;
+      try {
+        await sdk.verifyAssociationProof({}, signals.slice(1), associationSet.getRoot(), {});
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Expected 9 public signals for privateSwapAssociation, got 8");
+      }
+    });
+  });
+
+  // ============ Circuit Variants ============
+
+  describe("Circuit Variants", () => {
+    const swapParams = {
+      recipient: "0x1111111111111111111111111111111111111111",
+      expectedAmountOut: TEST_AMOUNT,
+    };
+
+    it("should register the bundled circuits by version", () => {
+      const variant = sdk.getCircuitVariant();
+      expect(variant.version).to.equal(sdk.DEFAULT_CIRCUIT_VERSION);
+      expect(variant.levels).to.equal(sdk.CIRCUIT_LEVELS);
+      expect(variant.publicSignals).to.deep.equal(sdk.PUBLIC_SIGNAL_NAMES);
+      expect(variant.verificationKey).to.equal(sdk.PRIVATE_SWAP_VERIFICATION_KEY);
+
+      const small = sdk.getCircuitVariant("privateSwap10");
+      expect(small.circuit).to.equal("privateSwap");
+      expect(small.levels).to.equal(10);
+      expect(small.wasm).to.equal("build/privateSwap10_js/privateSwap10.wasm");
+      expect(sdk.resolveCircuitArtifact(small.zkey)).to.equal(
+        path.resolve(__dirname, "../build/privateSwap10.zkey")
+      );
+      expect(sdk.resolveCircuitArtifact("https://cdn.test/a.wasm")).to.equal("https://cdn.test/a.wasm");
+
+      expect(sdk.listCircuitVariants().map((v) => v.version)).to.include.members([
+        "privateSwap",
+        "privateSwapV2",
+        "privateSwapSplit",
+        "privateSwapAssociation",
+        "privateSwap10",
+      ]);
+      expect(() => sdk.getCircuitVariant("privateSwap99")).to.throw("Unknown circuit variant privateSwap99");
+    });
+
+    it("should register custom variants", () => {
+      const custom = { ...sdk.getCircuitVariant("privateSwap"), version: "test-privateSwap4", levels: 4 };
+      sdk.registerCircuitVariant(custom);
+      expect(sdk.getCircuitVariant("test-privateSwap4")).to.equal(custom);
+
+      expect(() => sdk.registerCircuitVariant(custom)).to.throw("already registered");
+      expect(() =>
+        sdk.registerCircuitVariant({ ...custom, version: "test-bad-levels", levels: 0 })
+      ).to.throw("Invalid circuit levels");
+      expect(() =>
+        sdk.registerCircuitVariant({
+          ...custom,
+          version: "test-bad-layout",
+          publicSignals: sdk.PUBLIC_SIGNAL_NAMES_SPLIT,
+        })
+      ).to.throw("do not match the privateSwap layout");
+    });
+
+    it("should pick the variant swapParams need", () => {
+      expect(sdk.selectCircuitVariant(swapParams).version).to.equal("privateSwap");
+      expect(
+        sdk.selectCircuitVariant({ ...swapParams, changeNote: {} }).version
+      ).to.equal("privateSwapSplit");
+      expect(sdk.selectCircuitVariant(swapParams, "privateSwap10").levels).to.equal(10);
+      // Levels pick the registered variant with those levels
+      expect(sdk.selectCircuitVariant(swapParams, 10)).to.equal(sdk.getCircuitVariant("privateSwap10"));
+      expect(sdk.selectCircuitVariant(swapParams, 20)).to.equal(sdk.getCircuitVariant("privateSwap"));
+      // Levels of a custom build
+      expect(sdk.selectCircuitVariant(swapParams, 12).levels).to.equal(12);
+
+      expect(() =>
+        sdk.selectCircuitVariant({ ...swapParams, association: {} }, "privateSwap10")
+      ).to.throw("privateSwap10 is a privateSwap circuit but swapParams are for privateSwapAssociation");
+    });
+
+    it("should take the tree height from the variant", async () => {
+      const tree = await sdk.buildMerkleTree([1n], { circuit: "privateSwap10" });
+      expect(tree.height).to.equal(10);
+      expect(new sdk.IncrementalMerkleTree({ circuit: "privateSwap10" }).height).to.equal(10);
+      expect(() => new sdk.MerkleTree({ circuit: "privateSwap10", height: 20 })).to.throw(
+        "Merkle tree height 20 does not match the circuit's 10 levels"
+      );
+
+      try {
+        await sdk.MerkleTree.fromSnapshot(tree.toSnapshot(), { circuit: "privateSwap" });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("does not match expected height 20");
+      }
+    });
+
+    it("should check proofs against the variant's levels", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment], { circuit: "privateSwap10" });
+
+      // The height-10 proof passes the checks and fails on the empty artifacts
+      try {
+        await sdk.generateProofFromBuffers(
+          note,
+          tree.getProof(0),
+          swapParams,
+          new Uint8Array(0),
+          new Uint8Array(0),
+          "privateSwap10"
+        );
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.not.include("levels");
+      }
+
+      try {
+        await sdk.generateProof(note, tree.getProof(0), swapParams);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Merkle proof has 10 levels but the circuit expects 20");
+      }
+    });
+
+    it("should explain how to get the key of an unbuilt variant", () => {
+      expect(sdk.loadVerificationKey()).to.equal(sdk.PRIVATE_SWAP_VERIFICATION_KEY);
+
+      const unbuilt = {
+        ...sdk.getCircuitVariant("privateSwapV2"),
+        version: "test-unbuilt",
+        verificationKey: "build/test-unbuilt_verification_key.json",
+      };
+      expect(() => sdk.loadVerificationKey(unbuilt)).to.throw(
+        "not shipped with the package: build the circuit with npm run setup -- test-unbuilt, or pass the key"
+      );
+    });
+
+    it("should not prove custom levels with another variant's artifacts", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree10 = await sdk.buildMerkleTree([note.commitment], { height: 10 });
+      const tree12 = await sdk.buildMerkleTree([note.commitment], { height: 12 });
+
+      // 10 levels: privateSwap10's artifacts, not privateSwap's
+      try {
+        await sdk.generateProof(note, tree10.getProof(0), swapParams, undefined, undefined, 10);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("privateSwap10.wasm");
+      }
+
+      try {
+        await sdk.generateProof(note, tree12.getProof(0), swapParams, undefined, undefined, 12);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include(
+          "No registered privateSwap variant has 12 levels: pass wasmPath and zkeyPath"
+        );
+      }
+
+      const prover = new sdk.WorkerProver({ circuitLevels: 12 });
+      try {
+        await prover.prove(note, tree12.getProof(0), swapParams);
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("No registered privateSwap variant has 12 levels: pass wasm and zkey");
+      } finally {
+        prover.terminate();
+      }
+    });
+
+    it("should fetch and check the artifacts of a URL variant", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const served = new Uint8Array([1, 2, 3]);
+      const sha256 = require("crypto").createHash("sha256").update(served).digest("hex");
+      const cdn = {
+        ...sdk.getCircuitVariant("privateSwap"),
+        wasm: "https://cdn.test/privateSwap.wasm",
+        zkey: "https://cdn.test/privateSwap.zkey",
+      };
+      sdk.registerCircuitVariant({
+        ...cdn,
+        version: "test-privateSwap-cdn",
+        hashes: { wasm: sha256, zkey: sha256, verificationKey: "00".repeat(32) },
+      });
+      sdk.registerCircuitVariant({
+        ...cdn,
+        version: "test-privateSwap-cdn-tampered",
+        hashes: { wasm: sha256, zkey: "00".repeat(32), verificationKey: "00".repeat(32) },
+      });
+
+      const fetched = [];
+      const originalFetch = global.fetch;
+      const originalCacheHome = process.env.XDG_CACHE_HOME;
+      process.env.XDG_CACHE_HOME = fs.mkdtempSync(path.join(require("os").tmpdir(), "grimswap-cache-"));
+      global.fetch = async (url) => {
+        fetched.push(url);
+        return { ok: true, arrayBuffer: async () => served.slice().buffer };
+      };
+      let artifacts;
+      const prover = {
+        prove: async (_input, given) => {
+          artifacts = given;
+          return { proof: {}, publicSignals: [] };
+        },
+      };
+      const workerMessages = [];
+      let onMessage;
+      const workerProver = (circuit) =>
+        new sdk.WorkerProver({
+          circuit,
+          createWorker: () => ({
+            postMessage: (message) => {
+              workerMessages.push(message);
+              setImmediate(() =>
+                onMessage({ data: { type: "result", id: message.id, proof: {}, publicSignals: [] } })
+              );
+            },
+            addEventListener: (type, listener) => {
+              if (type === "message") onMessage = listener;
+            },
+            terminate: () => {},
+          }),
+        });
+
+      try {
+        await sdk.generateProof(
+          note, tree.getProof(0), swapParams, undefined, undefined, "test-privateSwap-cdn", prover
+        );
+        expect(fetched.sort()).to.deep.equal([
+          "https://cdn.test/privateSwap.wasm",
+          "https://cdn.test/privateSwap.zkey",
+        ]);
+        expect(artifacts.wasm).to.deep.equal(served);
+        expect(artifacts.zkey).to.deep.equal(served);
+
+        // Downloads that do not match the registered hashes never reach the prover
+        artifacts = undefined;
+        try {
+          await sdk.generateProof(
+            note, tree.getProof(0), swapParams, undefined, undefined, "test-privateSwap-cdn-tampered", prover
+          );
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("test-privateSwap-cdn-tampered.zkey does not match");
+        }
+        expect(artifacts).to.be.undefined;
+
+        // Same for the worker: checked bytes are sent instead of the URLs
+        const checked = workerProver("test-privateSwap-cdn");
+        await checked.prove(note, tree.getProof(0), swapParams);
+        checked.terminate();
+        expect(workerMessages[0].artifacts.zkey).to.deep.equal(served);
+
+        const tampered = workerProver("test-privateSwap-cdn-tampered");
+        try {
+          await tampered.prove(note, tree.getProof(0), swapParams);
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("does not match");
+        } finally {
+          tampered.terminate();
+        }
+        expect(workerMessages.length).to.equal(1);
+      } finally {
+        global.fetch = originalFetch;
+        fs.rmSync(process.env.XDG_CACHE_HOME, { recursive: true, force: true });
+        if (originalCacheHome === undefined) {
+          delete process.env.XDG_CACHE_HOME;
+        } else {
+          process.env.XDG_CACHE_HOME = originalCacheHome;
+        }
+      }
+    });
+
+    it("should decode signals with the variant's layout", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment], { circuit: "privateSwap10" });
+      const signals = sdk.encodePublicSignals(
+        await sdk.computeExpectedPublicSignals(note, tree.getProof(0), swapParams)
+      );
+
+      const variant = sdk.getCircuitVariant("privateSwap10");
+      expect(sdk.decodePublicSignals(signals, variant).merkleRoot).to.equal(tree.getRoot());
+      expect(() => sdk.decodePublicSignals(signals, "privateSwapV2")).to.throw(
+        "Expected 10 public signals for privateSwapV2, got 8"
+      );
+    });
+  });
+
+  // ============ Prover Backends ============
+
+  describe("Prover Backends", () => {
+    const swapParams = {
+      recipient: "0x1111111111111111111111111111111111111111",
+      expectedAmountOut: TEST_AMOUNT,
+    };
+    const cannedProof = {
+      pi_a: ["1", "2", "1"],
+      pi_b: [["3", "4"], ["5", "6"], ["1", "0"]],
+      pi_c: ["7", "8", "1"],
+      protocol: "groth16",
+      curve: "bn128",
+    };
+    // Stand-in CLI prover: node writes the given JSON to {proof} / {public}
+    const fakeCommand = (proofJson, publicJson, exitCode = 0) =>
+      new sdk.ExternalProver({
+        command: process.execPath,
+        args: [
+          "-e",
+          `const fs = require("fs");
+           fs.writeFileSync(process.argv[3], ${JSON.stringify(proofJson)});
+           fs.writeFileSync(process.argv[4], ${JSON.stringify(publicJson)});
+           if (${exitCode}) { process.stderr.write("prover crashed"); process.exit(${exitCode}); }`,
+          "{zkey}",
+          "{wtns}",
+          "{proof}",
+          "{public}",
+        ],
+      });
+
+    it("should prove through the given backend", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const calls = [];
+      const prover = {
+        prove: async (input, artifacts) => {
+          calls.push({ input, artifacts });
+          return { proof: cannedProof, publicSignals: ["1"] };
+        },
+      };
+
+      const wasm = new Uint8Array([1]);
+      const result = await sdk.generateProofFromBuffers(
+        note,
+        tree.getProof(0),
+        swapParams,
+        wasm,
+        new Uint8Array([2]),
+        undefined,
+        prover
+      );
+      expect(result.proof).to.equal(cannedProof);
+      expect(calls.length).to.equal(1);
+      expect(calls[0].input.nullifierHash).to.equal(note.nullifierHash.toString());
+      expect(calls[0].artifacts.wasm).to.equal(wasm);
+    });
+
+    it("should parse an external prover's proof into the snarkjs shape", async () => {
+      // Affine points and hex coordinates, without protocol/curve
+      const output = JSON.stringify({
+        pi_a: ["0x1", "2"],
+        pi_b: [["3", "4"], ["5", "0x6"]],
+        pi_c: ["7", "8", "1"],
+      });
+      const { proof, publicSignals } = await fakeCommand(output, '["0x10", "5"]').proveWitness(
+        new Uint8Array([1, 2, 3]),
+        new Uint8Array([4])
+      );
+      expect(proof).to.deep.equal(cannedProof);
+      expect(publicSignals).to.deep.equal(["16", "5"]);
+    });
+
+    it("should report external prover failures", async () => {
+      const wtns = new Uint8Array([1]);
+      const cases = [
+        [fakeCommand("{}", "[]", 3), "prover crashed"],
+        [fakeCommand('{"pi_a": ["1"]}', "[]"), "Invalid proof from external prover: pi_a"],
+        [fakeCommand(JSON.stringify({ ...cannedProof, protocol: "plonk" }), "[]"), "protocol plonk"],
+        [fakeCommand(JSON.stringify(cannedProof), "{}"), "Invalid public signals from external prover"],
+        [fakeCommand("not json", "[]"), "invalid JSON"],
+      ];
+      for (const [prover, message] of cases) {
+        try {
+          await prover.proveWitness(wtns, "/nonexistent.zkey");
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include(message);
+        }
+      }
+
+      try {
+        await fakeCommand("{}", "[]").calculateWitness({}, new Uint8Array([1]));
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("witnessCalculator is required");
+      }
+    });
+  });
+
+  // ============ Circuit Input Validation ============
+
+  describe("Circuit Input Validation", () => {
+    const swapParams = {
+      recipient: "0x1111111111111111111111111111111111111111",
+      relayer: "0x2222222222222222222222222222222222222222",
+      relayerFee: 10,
+      expectedAmountOut: TEST_AMOUNT,
+    };
+    let note;
+    let merkleProof;
+
+    before(async () => {
+      note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([1n, note.commitment, 2n]);
+      merkleProof = tree.getProof(1);
+    });
+
+    const constraints = (input) =>
+      sdk.validateCircuitInput(input).map((e) => `${e.constraint}:${e.signal}`);
+
+    it("should accept a valid input", () => {
+      const input = sdk.buildCircuitInput(note, merkleProof, swapParams);
+      expect(sdk.validateCircuitInput(input)).to.deep.equal([]);
+      expect(() => sdk.assertValidCircuitInput(input)).to.not.throw();
+    });
+
+    it("should name the failing constraint", () => {
+      const input = sdk.buildCircuitInput(note, merkleProof, swapParams);
+
+      expect(constraints({ ...input, relayerFee: "1000" })).to.deep.equal([
+        "feeCheck:relayerFee",
+      ]);
+      expect(constraints({ ...input, relayer: "0" })).to.deep.equal([
+        "relayerIsZero:relayerFee",
+      ]);
+      expect(constraints({ ...input, relayer: "0", relayerFee: "0" })).to.deep.equal([]);
+      expect(constraints({ ...input, recipient: ZERO_ADDRESS })).to.deep.equal([
+        "recipientNotZero:recipient",
+      ]);
+      expect(constraints({ ...input, nullifierHash: "1" })).to.deep.equal([
+        "nullifierHasher:nullifierHash",
+      ]);
+      expect(constraints({ ...input, depositAmount: "1" })).to.deep.equal([
+        "merkleChecker:merkleRoot",
+      ]);
+      expect(
+        constraints({ ...input, pathIndices: [2, ...input.pathIndices.slice(1)] })
+      ).to.deep.equal(["merkleChecker:pathIndices[0]"]);
+      expect(
+        constraints({ ...input, pathElements: input.pathElements.slice(1) })
+      ).to.deep.equal(["levels:pathElements"]);
+      expect(constraints({ ...input, secret: sdk.FIELD_SIZE.toString() })).to.deep.equal([
+        "field:secret",
+      ]);
+      expect(sdk.validateCircuitInput(input, 10).map((e) => e.constraint)).to.deep.equal([
+        "levels",
+        "levels",
+      ]);
+
+      expect(() =>
+        sdk.assertValidCircuitInput({ ...input, recipient: "0", relayerFee: "5000" })
+      ).to.throw(/recipient must not be zero \(recipientNotZero\); relayerFee must be below 1000/);
+    });
+
+    it("should validate before proving", async () => {
+      // Empty artifacts: fails on the input, not in snarkjs
+      try {
+        await sdk.generateProofFromBuffers(
+          note,
+          merkleProof,
+          { ...swapParams, relayerFee: 1000 },
+          new Uint8Array(0),
+          new Uint8Array(0)
+        );
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Invalid circuit input");
+        expect(e.message).to.include("(feeCheck)");
+      }
+
+      try {
+        await sdk.generateProof(note, merkleProof, { ...swapParams, recipient: "0" }, "/nonexistent.wasm");
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("(recipientNotZero)");
+      }
+    });
+
+    it("should reject a relayer fee the circuit cannot prove in executePrivateSwap", async () => {
+      const originalFetch = global.fetch;
+      global.fetch = async () => ({
+        ok: true,
+        json: async () => ({ address: ZERO_ADDRESS, fee: 10 }),
+      });
+      try {
+        await sdk.executePrivateSwap({
+          note: { ...note, leafIndex: 1 },
+          recipient: swapParams.recipient,
+          poolKey: {},
+          zeroForOne: true,
+          amountSpecified: -TEST_AMOUNT,
+          wasmBuffer: new Uint8Array(0),
+          zkeyBuffer: new Uint8Array(0),
+          relayerUrl: "http://relayer.test",
+          commitments: [1n, note.commitment, 2n],
+        });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("relayerFee must be zero without a relayer");
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+  });
+
   // ============ Constants & Configuration ============
 
   describe("Constants", () => {
@@ -420,6 +2415,24 @@ describe("GrimSwap SDK", function () {
       expect(() => sdk.getChainConfig(99999)).to.throw("Unsupported chain ID");
     });
 
+    it("should resolve Merkle tree config per chain and pool", () => {
+      const config = sdk.getMerkleTreeConfig(1301);
+      expect(config).to.deep.equal(sdk.DEFAULT_MERKLE_TREE_CONFIG);
+      expect(config.height).to.equal(sdk.MERKLE_TREE_HEIGHT);
+      expect(config.zeroValue).to.equal(sdk.ZERO_VALUE);
+
+      const pool = "0x00000000000000000000000000000000000000aa";
+      sdk.SUPPORTED_CHAINS[1301].poolMerkleTrees = { [pool]: { height: 8 } };
+      try {
+        expect(sdk.getMerkleTreeConfig(1301, pool.toUpperCase().replace("0X", "0x")).height).to.equal(8);
+        expect(sdk.getMerkleTreeConfig(1301).height).to.equal(20);
+      } finally {
+        delete sdk.SUPPORTED_CHAINS[1301].poolMerkleTrees;
+      }
+
+      expect(() => sdk.getMerkleTreeConfig(99999)).to.throw("Unsupported chain ID");
+    });
+
     it("should export ABIs", () => {
       expect(sdk.GRIM_POOL_ABI).to.be.an("array");
       expect(sdk.GRIM_SWAP_ROUTER_ABI).to.be.an("array");
@@ -474,22 +2487,172 @@ describe("GrimSwap SDK", function () {
       expect(healthy).to.be.false;
     });
 
-    it("should get relayer info (production)", async () => {
+    it("should get relayer info (production)", async () => {
+      try {
+        const info = await sdk.getRelayerInfo();
+        console.log("    Relayer address:", info.address);
+        console.log("    Relayer fee:", info.fee);
+        expect(info).to.have.property("address");
+        expect(info).to.have.property("fee");
+      } catch (e) {
+        console.log("    Relayer not reachable (skipped)");
+      }
+    });
+  });
+
+  // ============ Router Calldata ============
+
+  describe("Router Calldata", () => {
+    const { ethers } = require("ethers");
+    const recipient = "0x1111111111111111111111111111111111111111";
+    const token = "0x3333333333333333333333333333333333333333";
+    const poolKey = {
+      currency0: ZERO_ADDRESS,
+      currency1: token,
+      fee: 500,
+      tickSpacing: 10,
+      hooks: "0x4444444444444444444444444444444444444444",
+    };
+    let note;
+    let call;
+
+    before(async () => {
+      note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const signals = await sdk.computeExpectedPublicSignals(note, tree.getProof(0), {
+        recipient,
+        expectedAmountOut: TEST_AMOUNT,
+      });
+      call = {
+        proof: {
+          pA: ["1", "2"],
+          pB: [["3", "4"], ["5", "6"]],
+          pC: ["7", "8"],
+          pubSignals: sdk.encodePublicSignals(signals),
+        },
+        poolKey,
+        zeroForOne: true,
+        amountSpecified: -TEST_AMOUNT,
+        nullifierHash: note.nullifierHash,
+        recipient,
+      };
+    });
+
+    it("should encode executePrivateSwap for ETH notes", () => {
+      const data = sdk.encodePrivateSwapCalldata(call);
+      expect(data).to.equal(sdk.encodeExecutePrivateSwap(call));
+
+      const decoded = new ethers.Interface(sdk.GRIM_SWAP_ROUTER_ABI).decodeFunctionData(
+        "executePrivateSwap",
+        data
+      );
+      expect(decoded.key.hooks).to.equal(poolKey.hooks);
+      expect(decoded.params.amountSpecified).to.equal(-TEST_AMOUNT);
+      expect(decoded.params.sqrtPriceLimitX96).to.equal(4295128740n);
+      expect(BigInt(decoded.nullifierHash)).to.equal(note.nullifierHash);
+      expect(decoded.recipient).to.equal(recipient);
+      expect(decoded.relayer).to.equal(ZERO_ADDRESS);
+      expect(decoded.relayerFee).to.equal(0n);
+      expect(decoded.pubSignals.map(String)).to.deep.equal(call.proof.pubSignals);
+    });
+
+    it("should encode executePrivateSwapToken for ERC20 notes", () => {
+      const data = sdk.encodePrivateSwapCalldata({ ...call, inputToken: token });
+      const decoded = new ethers.Interface(sdk.GRIM_SWAP_ROUTER_V2_ABI).decodeFunctionData(
+        "executePrivateSwapToken",
+        data
+      );
+      expect(decoded.inputToken).to.equal(token);
+      expect(BigInt(decoded.nullifierHash)).to.equal(note.nullifierHash);
+
+      expect(() => sdk.encodeExecutePrivateSwap({ ...call, inputToken: token })).to.throw(
+        "use encodeExecutePrivateSwapToken"
+      );
+      expect(() =>
+        sdk.encodeExecutePrivateSwapToken({ ...call, inputToken: ZERO_ADDRESS })
+      ).to.throw("use encodeExecutePrivateSwap");
+    });
+
+    it("should reject arguments that differ from the public signals", () => {
+      expect(() =>
+        sdk.encodePrivateSwapCalldata({
+          ...call,
+          relayer: "0x2222222222222222222222222222222222222222",
+          relayerFee: 10,
+        })
+      ).to.throw(/public signals: relayer \d+ != 0, relayerFee 10 != 0/);
+      expect(() =>
+        sdk.encodePrivateSwapCalldata({ ...call, nullifierHash: 1n })
+      ).to.throw("nullifierHash 1 !=");
+    });
+  });
+
+  // ============ Deposit Reader ============
+
+  describe("Deposit Reader", () => {
+    it("should resolve a note's leafIndex from deposit events", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const other = await sdk.createDepositNote(TEST_AMOUNT);
+      const events = [other, note].map((n, leafIndex) => ({
+        commitment: n.commitment,
+        leafIndex,
+        timestamp: 0n,
+        blockNumber: 1n,
+        transactionHash: "0x",
+      }));
+
+      expect(await sdk.resolveNoteLeafIndex(note, undefined, undefined, events)).to.equal(1);
+
       try {
-        const info = await sdk.getRelayerInfo();
-        console.log("    Relayer address:", info.address);
-        console.log("    Relayer fee:", info.fee);
-        expect(info).to.have.property("address");
-        expect(info).to.have.property("fee");
+        await sdk.resolveNoteLeafIndex(note, undefined, undefined, events.slice(0, 1));
+        expect.fail("should have thrown");
       } catch (e) {
-        console.log("    Relayer not reachable (skipped)");
+        expect(e.message).to.include("never deposited");
       }
     });
-  });
 
-  // ============ Deposit Reader ============
+    it("should resolve leafIndex in executePrivateSwap or fail clearly", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const restored = await sdk.reconstructDepositNote(note.secret, note.nullifier, note.amount);
+      expect(restored.leafIndex).to.be.undefined;
+
+      const params = {
+        note: restored,
+        recipient: "0x1234567890123456789012345678901234567890",
+        poolKey: {},
+        zeroForOne: true,
+        amountSpecified: -TEST_AMOUNT,
+        wasmBuffer: new Uint8Array(0),
+        zkeyBuffer: new Uint8Array(0),
+        relayerUrl: "http://relayer.test",
+        circuitLevels: 5, // stop right after the tree step
+      };
+
+      const originalFetch = global.fetch;
+      global.fetch = async () => ({
+        ok: true,
+        json: async () => ({ address: "0x0000000000000000000000000000000000000001", fee: 10 }),
+      });
+      try {
+        try {
+          await sdk.executePrivateSwap({ ...params, commitments: [1n, 2n] });
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("never deposited");
+        }
+
+        // Found in the tree: gets as far as proof generation
+        try {
+          await sdk.executePrivateSwap({ ...params, commitments: [1n, note.commitment] });
+          expect.fail("should have thrown");
+        } catch (e) {
+          expect(e.message).to.include("circuit expects 5");
+        }
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
 
-  describe("Deposit Reader", () => {
     it("should fetch deposit count", async () => {
       try {
         const count = await sdk.getDepositCount();
@@ -531,6 +2694,99 @@ describe("GrimSwap SDK", function () {
     });
   });
 
+  // ============ Tree Consistency ============
+
+  describe("Tree Consistency", () => {
+    const word = (value) => BigInt(value).toString(16).padStart(64, "0");
+
+    // Pool views: getLastRoot, getDepositCount, isKnownRoot
+    function mockPool({ lastRoot, depositCount, knownRoots }) {
+      const calls = [];
+      const fetch = async (_url, init) => {
+        const { params } = JSON.parse(init.body);
+        const data = params[0].data;
+        calls.push(data.slice(0, 10));
+        let result;
+        if (data === "0xba70f757") result = "0x" + word(lastRoot);
+        if (data === "0x9363a141") result = "0x" + word(depositCount);
+        if (data.startsWith("0x6d9833e3")) {
+          result = "0x" + word(knownRoots.includes(BigInt("0x" + data.slice(10))) ? 1 : 0);
+        }
+        return { ok: true, json: async () => ({ result }) };
+      };
+      return { fetch, calls };
+    }
+
+    const events = (commitments) =>
+      commitments.map((commitment, leafIndex) => ({
+        commitment,
+        leafIndex,
+        timestamp: 0n,
+        blockNumber: BigInt(leafIndex + 1),
+        transactionHash: "0x",
+      }));
+
+    async function check(tree, pool, chainLeaves) {
+      const originalFetch = global.fetch;
+      global.fetch = pool.fetch;
+      try {
+        return await sdk.checkTreeConsistency(tree, {
+          rpcUrl: "http://rpc.test",
+          events: events(chainLeaves),
+        });
+      } finally {
+        global.fetch = originalFetch;
+      }
+    }
+
+    const leaves = [];
+    for (let i = 1; i <= 11; i++) leaves.push(BigInt(i) * 1009n);
+
+    it("should need nothing when the pool knows the local root", async () => {
+      const tree = await sdk.buildMerkleTree(leaves);
+      const pool = mockPool({ lastRoot: tree.getRoot(), depositCount: 11, knownRoots: [tree.getRoot()] });
+
+      const report = await check(tree, pool, leaves);
+      expect(report.action).to.equal("none");
+      expect(report.onChainRoot).to.equal(tree.getRoot());
+      expect(report.onChainLeafCount).to.equal(11);
+      expect(report.rootKnown).to.be.true;
+    });
+
+    it("should ask for addKnownRoot when leaves match but the root is unknown", async () => {
+      const tree = await sdk.buildMerkleTree(leaves);
+      const pool = mockPool({ lastRoot: 123n, depositCount: 11, knownRoots: [] });
+
+      const report = await check(tree, pool, leaves);
+      expect(report.action).to.equal("addKnownRoot");
+      expect(report.firstDivergentLeaf).to.be.undefined;
+    });
+
+    it("should bisect to the first divergent leaf", async () => {
+      const local = [...leaves];
+      local[7] = 42n;
+      local[9] = 43n;
+      const tree = await sdk.buildMerkleTree(local);
+      const pool = mockPool({ lastRoot: 123n, depositCount: 11, knownRoots: [] });
+
+      const report = await check(tree, pool, leaves);
+      expect(report.action).to.equal("resync");
+      expect(report.firstDivergentLeaf).to.equal(7);
+      expect(report.reason).to.include("Local leaf 7 differs");
+    });
+
+    it("should report missing deposits", async () => {
+      const tree = await sdk.buildMerkleTree(leaves.slice(0, 8));
+      const pool = mockPool({ lastRoot: 123n, depositCount: 11, knownRoots: [] });
+
+      const report = await check(tree, pool, leaves);
+      expect(report.action).to.equal("resync");
+      expect(report.firstDivergentLeaf).to.be.undefined;
+      expect(report.reason).to.include("missing 3 deposits");
+      expect(pool.calls).to.include("0x9363a141");
+    });
+  });
+
   // ============ End-to-End Flow (Offline) ============
 
   describe("End-to-End Flow (Offline)", () => {
@@ -610,6 +2866,325 @@ describe("GrimSwap SDK", function () {
     });
   });
 
+  // ============ Circuit Artifacts ============
+
+  describe("Circuit Artifacts", () => {
+    const wasmPath = path.resolve(
+      __dirname,
+      "../build/privateSwap_js/privateSwap.wasm"
+    );
+    const sha256 = (data) =>
+      require("crypto").createHash("sha256").update(data).digest("hex");
+
+    const memoryCache = () => {
+      const entries = new Map();
+      return {
+        entries,
+        get: async (key) => entries.get(key),
+        set: async (key, data) => {
+          entries.set(key, data);
+        },
+      };
+    };
+
+    it("should pin the verification key shipped in setup/", () => {
+      const vkey = require("../setup/verification_key.json");
+      const pinned = sdk.CIRCUIT_ARTIFACT_HASHES[sdk.SDK_VERSION];
+
+      expect(sdk.hashVerificationKey(vkey)).to.equal(pinned.verificationKey);
+      expect(sdk.hashVerificationKey(vkey)).to.not.equal(
+        sdk.hashVerificationKey(require("../build/verification_key.json"))
+      );
+    });
+
+    it("should verify, cache and reuse artifacts", async () => {
+      const zkey = new Uint8Array([1, 2, 3, 4]);
+      const cache = memoryCache();
+      const options = {
+        wasm: wasmPath,
+        zkey,
+        hashes: { zkey: sha256(zkey) },
+        cache,
+      };
+
+      const loaded = await sdk.loadCircuitArtifacts(options);
+      expect(loaded.hashes.wasm).to.equal(
+        sdk.CIRCUIT_ARTIFACT_HASHES[sdk.SDK_VERSION].wasm
+      );
+      expect(loaded.hashes.zkey).to.equal(sha256(zkey));
+      expect(cache.entries.size).to.equal(2);
+
+      // Served from the cache even when the sources are gone
+      const cached = await sdk.loadCircuitArtifacts({
+        ...options,
+        wasm: "/nonexistent/privateSwap.wasm",
+        zkey: "/nonexistent/privateSwap.zkey",
+      });
+      expect(cached.wasm).to.deep.equal(loaded.wasm);
+
+      // A corrupted cache entry is replaced from the source
+      const wasmKey = [...cache.entries.keys()].find((k) => k.includes("wasm"));
+      cache.entries.set(wasmKey, new Uint8Array([0]));
+      await sdk.loadCircuitArtifacts(options);
+      expect(cache.entries.get(wasmKey)).to.deep.equal(loaded.wasm);
+    });
+
+    it("should reject artifacts that do not match the pinned hashes", async () => {
+      const wasm = new Uint8Array(fs.readFileSync(wasmPath));
+      wasm[100] ^= 1;
+
+      try {
+        await sdk.loadCircuitArtifacts({ wasm, zkey: new Uint8Array(4), cache: false });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("privateSwap.wasm does not match SDK 1.4.1");
+      }
+
+      try {
+        await sdk.loadCircuitArtifacts({
+          wasm: wasmPath,
+          zkey: new Uint8Array([1, 2, 3, 4]),
+          hashes: { zkey: "00".repeat(32) },
+          cache: false,
+        });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("privateSwap.zkey does not match SDK 1.4.1");
+      }
+
+      // Without a pinned zkey hash the zkey must carry the pinned verification key
+      try {
+        await sdk.loadCircuitArtifacts({
+          wasm: wasmPath,
+          zkey: new Uint8Array(64),
+          cache: false,
+        });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("not a valid Groth16 proving key");
+      }
+
+      try {
+        await sdk.loadCircuitArtifacts({ version: "0.0.1", cache: false });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("No circuit artifact hashes for SDK 0.0.1");
+      }
+    });
+
+    it("should check other variants against their registered hashes", async () => {
+      const wasm = new Uint8Array(fs.readFileSync(wasmPath));
+      const zkey = new Uint8Array([1, 2, 3, 4]);
+      const hashes = { wasm: sha256(wasm), zkey: sha256(zkey), verificationKey: "00".repeat(32) };
+      sdk.registerCircuitVariant({
+        ...sdk.getCircuitVariant("privateSwapV2"),
+        version: "test-artifacts-unhashed",
+        hashes: undefined,
+      });
+      sdk.registerCircuitVariant({
+        ...sdk.getCircuitVariant("privateSwapV2"),
+        version: "test-artifacts-hashed",
+        hashes,
+      });
+
+      try {
+        await sdk.loadCircuitArtifacts({ circuit: "test-artifacts-unhashed", wasm, zkey, cache: false });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("No artifact hashes for test-artifacts-unhashed");
+      }
+
+      // The privateSwap hashes do not carry over to another variant
+      try {
+        await sdk.loadCircuitArtifacts({
+          circuit: "test-artifacts-unhashed",
+          wasm,
+          zkey,
+          hashes: { zkey: sha256(zkey) },
+          cache: false,
+        });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("No artifact hashes for test-artifacts-unhashed");
+      }
+
+      const cache = memoryCache();
+      const loaded = await sdk.loadCircuitArtifacts({
+        circuit: "test-artifacts-unhashed",
+        wasm,
+        zkey,
+        hashes,
+        cache,
+      });
+      expect(loaded.hashes.zkey).to.equal(sha256(zkey));
+      expect(
+        [...cache.entries.keys()].every((k) => k.startsWith("test-artifacts-unhashed."))
+      ).to.equal(true);
+
+      await sdk.loadCircuitArtifacts({ circuit: "test-artifacts-hashed", wasm, zkey, cache: false });
+      try {
+        await sdk.loadCircuitArtifacts({
+          circuit: "test-artifacts-hashed",
+          wasm,
+          zkey: new Uint8Array([4, 3, 2, 1]),
+          cache: false,
+        });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("test-artifacts-hashed.zkey does not match");
+      }
+    });
+  });
+
+  // ============ Worker Prover ============
+
+  describe("Worker Prover", () => {
+    const swapParams = {
+      recipient: "1234567890",
+      relayer: "0",
+      relayerFee: 0,
+      expectedAmountOut: TEST_AMOUNT,
+    };
+
+    it("should check proof levels and aborted signals before starting a worker", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const prover = new sdk.WorkerProver();
+
+      // Rejected, not thrown: prove() always returns a promise
+      const small = await sdk.buildMerkleTree([note.commitment], { height: 4 });
+      const rejected = prover.prove(note, small.getProof(0), swapParams);
+      expect(rejected).to.be.an.instanceof(Promise);
+      try {
+        await rejected;
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("has 4 levels but the circuit expects 20");
+      }
+
+      const controller = new AbortController();
+      controller.abort();
+      try {
+        await prover.prove(note, tree.getProof(0), swapParams, {
+          signal: controller.signal,
+        });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("aborted");
+      }
+      prover.terminate();
+    });
+
+    it("should report the loading stage and fail on missing artifacts", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const prover = new sdk.WorkerProver({
+        wasm: "/nonexistent/privateSwap.wasm",
+        zkey: "/nonexistent/privateSwap.zkey",
+      });
+      const stages = [];
+
+      try {
+        await prover.prove(note, tree.getProof(0), swapParams, {
+          onProgress: (stage) => stages.push(stage),
+        });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Circuit artifact not found");
+      } finally {
+        prover.terminate();
+      }
+      expect(stages).to.deep.equal(["loading"]);
+    });
+
+    it("should cancel a running proof and keep working afterwards", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const prover = new sdk.WorkerProver({
+        wasm: "/nonexistent/privateSwap.wasm",
+        zkey: "/nonexistent/privateSwap.zkey",
+      });
+
+      const controller = new AbortController();
+      const running = prover.prove(note, tree.getProof(0), swapParams, {
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      });
+      // Queued behind the cancelled proof, runs in a fresh worker
+      const next = prover.prove(note, tree.getProof(0), swapParams);
+
+      try {
+        await running;
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("aborted");
+      }
+      try {
+        await next;
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect(e.message).to.include("Circuit artifact not found");
+      } finally {
+        prover.terminate();
+      }
+    });
+    it("should load the artifacts of each proof's circuit", async () => {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const v2Params = {
+        ...swapParams,
+        swap: {
+          poolKey: {
+            currency0: ZERO_ADDRESS,
+            currency1: "0x3333333333333333333333333333333333333333",
+            fee: 500,
+            tickSpacing: 10,
+            hooks: ZERO_ADDRESS,
+          },
+          zeroForOne: true,
+          amountSpecified: -TEST_AMOUNT,
+          sqrtPriceLimitX96: 4295128740n,
+          deadline: 1900000000n,
+        },
+      };
+
+      // Stub worker: answers every request with an empty proof
+      const messages = [];
+      let onMessage;
+      const prover = new sdk.WorkerProver({
+        createWorker: () => ({
+          postMessage: (message) => {
+            messages.push(message);
+            setImmediate(() =>
+              onMessage({ data: { type: "result", id: message.id, proof: {}, publicSignals: [] } })
+            );
+          },
+          addEventListener: (type, listener) => {
+            if (type === "message") onMessage = listener;
+          },
+          terminate: () => {},
+        }),
+      });
+
+      await prover.prove(note, tree.getProof(0), swapParams);
+      await prover.prove(note, tree.getProof(0), v2Params);
+      await prover.prove(note, tree.getProof(0), v2Params);
+      prover.terminate();
+
+      expect(messages.map((m) => m.circuit)).to.deep.equal([
+        "privateSwap",
+        "privateSwapV2",
+        "privateSwapV2",
+      ]);
+      expect(messages[0].artifacts.zkey).to.equal(path.resolve(__dirname, "../build/privateSwap.zkey"));
+      expect(messages[1].artifacts.zkey).to.equal(path.resolve(__dirname, "../build/privateSwapV2.zkey"));
+      expect(messages[1].artifacts.wasm).to.equal(
+        path.resolve(__dirname, "../build/privateSwapV2_js/privateSwapV2.wasm")
+      );
+      expect(messages[2].artifacts).to.be.undefined;
+    });
+  });
+
   // ============ ZK Proof Generation (if circuit files exist) ============
 
   describe("ZK Proof Generation", () => {
@@ -660,6 +3235,14 @@ describe("GrimSwap SDK", function () {
       expect(proof.protocol).to.equal("groth16");
       expect(publicSignals).to.be.an("array");
       expect(publicSignals.length).to.equal(8);
+      expect(
+        await sdk.checkPublicSignals(publicSignals, note, merkleProof, {
+          recipient: BigInt(stealth.stealthAddress).toString(),
+          relayer: "0",
+          relayerFee: 0,
+          expectedAmountOut: note.amount,
+        })
+      ).to.deep.equal([]);
 
       console.log("    Proof generated successfully");
       console.log("    Public signals:", publicSignals.length);
@@ -740,6 +3323,57 @@ describe("GrimSwap SDK", function () {
       console.log("    Relayer-formatted proof generated");
     });
 
+    it("should read the verification key from the zkey", function () {
+      if (!circuitFilesExist) this.skip();
+
+      const vkey = sdk.readZkeyVerificationKey(
+        new Uint8Array(fs.readFileSync(zkeyPath))
+      );
+      const exported = require("../build/verification_key.json");
+      expect(sdk.hashVerificationKey(vkey)).to.equal(
+        sdk.hashVerificationKey(exported)
+      );
+    });
+
+    it("should generate proof in a worker", async function () {
+      if (!circuitFilesExist) this.skip();
+
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const merkleProof = tree.getProof(0);
+      const swapParams = {
+        recipient: "1234567890",
+        relayer: "0",
+        relayerFee: 0,
+        expectedAmountOut: note.amount,
+      };
+
+      const prover = new sdk.WorkerProver({ wasm: wasmPath, zkey: zkeyPath });
+      const stages = [];
+      try {
+        const { proof, publicSignals } = await prover.prove(
+          note,
+          merkleProof,
+          swapParams,
+          { onProgress: (stage) => stages.push(stage) }
+        );
+        expect(proof.protocol).to.equal("groth16");
+        expect(publicSignals.length).to.equal(8);
+        expect(stages).to.deep.equal(["loading", "witness", "proving"]);
+
+        // Artifacts stay loaded for the next proof
+        stages.length = 0;
+        await prover.prove(note, merkleProof, swapParams, {
+          onProgress: (stage) => stages.push(stage),
+        });
+        expect(stages).to.deep.equal(["witness", "proving"]);
+      } finally {
+        prover.terminate();
+      }
+
+      console.log("    Worker proof generated");
+    });
+
     it("should verify proof locally", async function () {
       if (!circuitFilesExist) this.skip();
 
@@ -776,7 +3410,309 @@ describe("GrimSwap SDK", function () {
       );
 
       expect(valid).to.be.true;
+
+      // Same proof in the contract and relayer formats
+      const vkey = JSON.parse(fs.readFileSync(vkeyPath, "utf8"));
+      const formatted = sdk.formatProofForContract(proof, publicSignals);
+      expect(await sdk.verifyProofLocally(formatted, undefined, vkey)).to.be.true;
+      expect(
+        await sdk.verifyRelayerProof(
+          { a: formatted.pA, b: formatted.pB, c: formatted.pC },
+          publicSignals,
+          vkey
+        )
+      ).to.be.true;
+
+      const tampered = [...publicSignals];
+      tampered[7] = "1";
+      expect(await sdk.verifyProofLocally(proof, tampered, vkey)).to.be.false;
       console.log("    Proof verified locally: PASS");
     });
   });
+
+  describe("ZK Proof Generation (privateSwapV2)", () => {
+    const wasmPath = path.resolve(
+      __dirname,
+      "../build/privateSwapV2_js/privateSwapV2.wasm"
+    );
+    const zkeyPath = path.resolve(__dirname, "../build/privateSwapV2.zkey");
+
+    it("should ship artifacts matching the registered hashes", async () => {
+      const loaded = await sdk.loadCircuitArtifacts({
+        circuit: "privateSwapV2",
+        wasm: wasmPath,
+        zkey: zkeyPath,
+        cache: false,
+      });
+      const { hashes } = sdk.getCircuitVariant("privateSwapV2");
+      expect(loaded.hashes).to.deep.equal({ wasm: hashes.wasm, zkey: hashes.zkey });
+      expect(sdk.hashVerificationKey(sdk.loadVerificationKey("privateSwapV2"))).to.equal(
+        hashes.verificationKey
+      );
+    });
+
+    it("should generate and verify a swap-bound proof", async function () {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment]);
+      const merkleProof = tree.getProof(0);
+      const swapParams = {
+        recipient: "1234567890",
+        relayer: "0",
+        relayerFee: 0,
+        expectedAmountOut: note.amount,
+        swap: {
+          poolKey: {
+            currency0: ZERO_ADDRESS,
+            currency1: "0x3333333333333333333333333333333333333333",
+            fee: 500,
+            tickSpacing: 10,
+            hooks: "0x4444444444444444444444444444444444444444",
+          },
+          zeroForOne: true,
+          amountSpecified: -note.amount,
+          sqrtPriceLimitX96: 4295128740n,
+          deadline: 1900000000n,
+        },
+      };
+
+      const { proof, publicSignals } = await sdk.generateProofFromBuffers(
+        note,
+        merkleProof,
+        swapParams,
+        fs.readFileSync(wasmPath),
+        fs.readFileSync(zkeyPath)
+      );
+      expect(publicSignals.length).to.equal(10);
+      expect(
+        await sdk.checkPublicSignals(publicSignals, note, merkleProof, swapParams)
+      ).to.deep.equal([]);
+
+      const vkey = sdk.loadVerificationKey("privateSwapV2");
+      expect(await sdk.verifyProofLocally(proof, publicSignals, vkey)).to.be.true;
+      const tampered = [...publicSignals];
+      tampered[8] = "1"; // swapParamsHash
+      expect(await sdk.verifyProofLocally(proof, tampered, vkey)).to.be.false;
+
+      // Deployed routers take 8 signals
+      expect(() =>
+        sdk.encodePrivateSwapCalldata({ proof: sdk.formatProofForContract(proof, publicSignals) })
+      ).to.throw("8 public signals");
+    });
+  });
+
+  describe("ZK Proof Generation (privateSwapSplit)", () => {
+    const wasmPath = path.resolve(
+      __dirname,
+      "../build/privateSwapSplit_js/privateSwapSplit.wasm"
+    );
+    const zkeyPath = path.resolve(__dirname, "../build/privateSwapSplit.zkey");
+
+    it("should ship artifacts matching the registered hashes", async () => {
+      const loaded = await sdk.loadCircuitArtifacts({
+        circuit: "privateSwapSplit",
+        wasm: wasmPath,
+        zkey: zkeyPath,
+        cache: false,
+      });
+      const { hashes } = sdk.getCircuitVariant("privateSwapSplit");
+      expect(loaded.hashes).to.deep.equal({ wasm: hashes.wasm, zkey: hashes.zkey });
+      expect(sdk.hashVerificationKey(sdk.loadVerificationKey("privateSwapSplit"))).to.equal(
+        hashes.verificationKey
+      );
+    });
+
+    it("should generate and verify a partial spend with a change note", async function () {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([1n, note.commitment]);
+      const merkleProof = tree.getProof(1);
+      const spendAmount = TEST_AMOUNT / 4n;
+      const changeNote = await sdk.createChangeNote(note, spendAmount);
+      const swapParams = {
+        recipient: "1234567890",
+        relayer: "0",
+        relayerFee: 0,
+        expectedAmountOut: spendAmount,
+        changeNote,
+      };
+
+      // The change note selects the registered variant and its artifacts
+      const { proof, publicSignals } = await sdk.generateProof(note, merkleProof, swapParams);
+      expect(publicSignals.length).to.equal(9);
+      expect(publicSignals[8]).to.equal(changeNote.commitment.toString());
+      expect(
+        await sdk.checkPublicSignals(publicSignals, note, merkleProof, swapParams)
+      ).to.deep.equal([]);
+
+      const vkey = sdk.loadVerificationKey("privateSwapSplit");
+      expect(await sdk.verifyProofLocally(proof, publicSignals, vkey)).to.be.true;
+      const tampered = [...publicSignals];
+      tampered[7] = note.amount.toString(); // spend everything, keep the change too
+      expect(await sdk.verifyProofLocally(proof, tampered, vkey)).to.be.false;
+
+      // Deployed routers take 8 signals
+      expect(() =>
+        sdk.encodePrivateSwapCalldata({ proof: sdk.formatProofForContract(proof, publicSignals) })
+      ).to.throw("8 public signals");
+
+      const leafIndex = await tree.insertChangeLeaf(
+        sdk.decodePublicSignals(publicSignals, "privateSwapSplit")
+      );
+      expect(leafIndex).to.equal(2);
+      expect(tree.getLeaf(2)).to.equal(changeNote.commitment);
+    });
+  });
+
+  describe("ZK Proof Generation (privateSwapAssociation)", () => {
+    const wasmPath = path.resolve(
+      __dirname,
+      "../build/privateSwapAssociation_js/privateSwapAssociation.wasm"
+    );
+    const zkeyPath = path.resolve(__dirname, "../build/privateSwapAssociation.zkey");
+
+    it("should ship artifacts matching the registered hashes", async () => {
+      const loaded = await sdk.loadCircuitArtifacts({
+        circuit: "privateSwapAssociation",
+        wasm: wasmPath,
+        zkey: zkeyPath,
+        cache: false,
+      });
+      const { hashes } = sdk.getCircuitVariant("privateSwapAssociation");
+      expect(loaded.hashes).to.deep.equal({ wasm: hashes.wasm, zkey: hashes.zkey });
+      expect(
+        sdk.hashVerificationKey(sdk.loadVerificationKey("privateSwapAssociation"))
+      ).to.equal(hashes.verificationKey);
+    });
+
+    it("should generate and verify an association set proof", async function () {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([1n, note.commitment, 2n]);
+      const events = [1n, note.commitment, 2n].map((commitment, leafIndex) => ({
+        commitment,
+        leafIndex,
+        timestamp: 0n,
+        blockNumber: 0n,
+        transactionHash: "0x",
+      }));
+      const associationSet = await sdk.buildAssociationSet(events, { deny: { commitments: [1n] } });
+      const swapParams = {
+        recipient: "1234567890",
+        relayer: "0",
+        relayerFee: 0,
+        expectedAmountOut: TEST_AMOUNT,
+        association: sdk.getAssociationProof(associationSet, note.commitment),
+      };
+      const merkleProof = tree.getProof(1);
+
+      const { proof, publicSignals } = await sdk.generateProof(
+        note,
+        merkleProof,
+        swapParams,
+        wasmPath,
+        zkeyPath
+      );
+      expect(publicSignals.length).to.equal(9);
+      expect(publicSignals[8]).to.equal(associationSet.getRoot().toString());
+      expect(
+        await sdk.checkPublicSignals(publicSignals, note, merkleProof, swapParams)
+      ).to.deep.equal([]);
+
+      // The variant's shipped key by default
+      const root = associationSet.getRoot();
+      expect(await sdk.verifyAssociationProof(proof, publicSignals, root)).to.be.true;
+      expect(
+        await sdk.verifyAssociationProof(sdk.formatProofForContract(proof, publicSignals), undefined, root)
+      ).to.be.true;
+      // A set without the deposit
+      const tampered = [...publicSignals];
+      tampered[8] = tree.getRoot().toString();
+      expect(await sdk.verifyAssociationProof(proof, tampered, tree.getRoot())).to.be.false;
+      expect(await sdk.verifyAssociationProof(proof, publicSignals, tree.getRoot())).to.be.false;
+    });
+  });
+
+  describe("ZK Proof Generation (privateSwap10)", () => {
+    const variant = sdk.getCircuitVariant("privateSwap10");
+
+    before(function () {
+      const wasm = sdk.resolveCircuitArtifact(variant.wasm);
+      const zkey = sdk.resolveCircuitArtifact(variant.zkey);
+      if (!fs.existsSync(wasm) || !fs.existsSync(zkey)) {
+        console.log("    privateSwap10 files not found, skipping (npm run compile -- privateSwap10)");
+        this.skip();
+      }
+    });
+
+    it("should prove with the height-10 variant's artifacts", async function () {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([1n, note.commitment], { circuit: variant });
+      const merkleProof = tree.getProof(1);
+      const swapParams = {
+        recipient: "1234567890",
+        relayer: "0",
+        relayerFee: 0,
+        expectedAmountOut: TEST_AMOUNT,
+      };
+
+      const { proof, publicSignals } = await sdk.generateProof(
+        note,
+        merkleProof,
+        swapParams,
+        undefined,
+        undefined,
+        variant.version
+      );
+      expect(
+        await sdk.checkPublicSignals(publicSignals, note, merkleProof, swapParams)
+      ).to.deep.equal([]);
+
+      if (fs.existsSync(sdk.resolveCircuitArtifact(variant.verificationKey))) {
+        const vkey = sdk.loadVerificationKey(variant);
+        expect(await sdk.verifyProofLocally(proof, publicSignals, vkey)).to.be.true;
+      }
+    });
+  });
+
+  describe("ZK Proof Generation (external prover)", () => {
+    const variant = sdk.getCircuitVariant("privateSwap10");
+    const snarkjsCli = path.resolve(__dirname, "../node_modules/snarkjs/build/cli.cjs");
+
+    before(function () {
+      const wasm = sdk.resolveCircuitArtifact(variant.wasm);
+      const zkey = sdk.resolveCircuitArtifact(variant.zkey);
+      if (!fs.existsSync(wasm) || !fs.existsSync(zkey) || !fs.existsSync(snarkjsCli)) {
+        console.log("    privateSwap10 files not found, skipping (npm run compile -- privateSwap10)");
+        this.skip();
+      }
+    });
+
+    it("should match the snarkjs backend with a command-line prover", async function () {
+      const note = await sdk.createDepositNote(TEST_AMOUNT);
+      const tree = await sdk.buildMerkleTree([note.commitment], { circuit: variant });
+      const swapParams = {
+        recipient: "1234567890",
+        relayer: "0",
+        relayerFee: 0,
+        expectedAmountOut: TEST_AMOUNT,
+      };
+      // snarkjs's own CLI stands in for rapidsnark
+      const prover = new sdk.ExternalProver({
+        command: process.execPath,
+        args: [snarkjsCli, "groth16", "prove", "{zkey}", "{wtns}", "{proof}", "{public}"],
+      });
+
+      const external = await sdk.generateProof(
+        note, tree.getProof(0), swapParams, undefined, undefined, variant, prover
+      );
+      const native = await sdk.generateProof(
+        note, tree.getProof(0), swapParams, undefined, undefined, variant
+      );
+      expect(external.publicSignals).to.deep.equal(native.publicSignals);
+      expect(Object.keys(external.proof).sort()).to.deep.equal(Object.keys(native.proof).sort());
+
+      if (fs.existsSync(sdk.resolveCircuitArtifact(variant.verificationKey))) {
+        const vkey = sdk.loadVerificationKey(variant);
+        expect(await sdk.verifyProofLocally(external.proof, external.publicSignals, vkey)).to.be.true;
+      }
+    });
+  });
 });